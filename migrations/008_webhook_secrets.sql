@@ -0,0 +1,19 @@
+-- Migration 008: Webhook signing secrets
+-- Shared secrets used to verify X-Chatwoot-Signature on /ingest/chatwoot.
+-- Several secrets can be active per inbox so keys can be rotated:
+-- add the new one, then retire the old one with a grace period (expires_at).
+
+CREATE TABLE IF NOT EXISTS webhook_secrets (
+  id            UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_id      INTEGER,                       -- NULL = valid for every inbox
+  label         VARCHAR(100),
+  secret        TEXT         NOT NULL,
+  is_active     BOOLEAN      NOT NULL DEFAULT TRUE,
+  expires_at    TIMESTAMPTZ,                   -- set when retired with a grace period
+  last_used_at  TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_secrets_inbox
+  ON webhook_secrets(inbox_id)
+  WHERE is_active = TRUE;
@@ -0,0 +1,12 @@
+-- Migration 009: Coalesce bursts of inbound messages
+-- A burst ("desayuné", photo, "con café") is merged into ONE health event,
+-- so an event can now carry several attachments.
+
+ALTER TABLE health_events
+  ADD COLUMN IF NOT EXISTS media_urls JSONB NOT NULL DEFAULT '[]';
+-- e.g. [ "https://chatwoot/.../photo1.jpg", "https://chatwoot/.../voice.ogg" ]
+
+-- Debounce window for the inbound worker (value.windowMs, 0 or disabled = no buffering)
+INSERT INTO feature_flags (key, enabled, value, description) VALUES
+  ('inbound_burst_window', true, '{"windowMs": 8000}', 'Merge messages sent within windowMs of each other into one event + one ack')
+ON CONFLICT (key) DO NOTHING;
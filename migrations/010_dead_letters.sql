@@ -0,0 +1,28 @@
+-- Migration 010: Dead letters for the inbound queue
+-- Jobs on vivebien-inbound that fail their last retry are copied here so the
+-- user's message survives BullMQ's removeOnFail cleanup. Admins can inspect,
+-- replay or discard them via /admin/dead-letters.
+
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id               UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue_name       VARCHAR(100) NOT NULL,
+  job_id           VARCHAR(255),
+  job_name         VARCHAR(100) NOT NULL,
+  correlation_id   VARCHAR(255),
+  job_data         JSONB        NOT NULL,               -- original InboundQueueJobData
+  error            TEXT         NOT NULL,
+  stack            TEXT,
+  attempts_made    INTEGER      NOT NULL DEFAULT 0,
+  status           VARCHAR(20)  NOT NULL DEFAULT 'pending'
+                   CHECK (status IN ('pending', 'replayed', 'discarded')),
+  replay_count     INTEGER      NOT NULL DEFAULT 0,
+  last_replayed_at TIMESTAMPTZ,
+  discarded_at     TIMESTAMPTZ,
+  failed_at        TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_status
+  ON dead_letters(status, failed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_correlation
+  ON dead_letters(correlation_id);
@@ -0,0 +1,18 @@
+-- Migration 011: Role-based API keys
+-- Replaces the single API_SECRET_KEY (kept as a bootstrap admin key).
+-- Only a SHA-256 hash of each key is stored; key_prefix identifies it in lists.
+-- Roles: admin, coach, dashboard, integration (see src/shared/permissions.ts).
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id            UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  name          VARCHAR(100) NOT NULL,
+  role          VARCHAR(20)  NOT NULL
+                CHECK (role IN ('admin', 'coach', 'dashboard', 'integration')),
+  key_prefix    VARCHAR(16)  NOT NULL,
+  key_hash      VARCHAR(64)  NOT NULL UNIQUE,
+  expires_at    TIMESTAMPTZ,
+  last_used_at  TIMESTAMPTZ,
+  last_used_ip  VARCHAR(64),
+  revoked_at    TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,6 @@
+-- Migration 012: Revocable patient page links
+-- Page links carry a signed token (src/shared/link-token.ts). Tokens issued
+-- before links_revoked_at are rejected, which revokes every link at once.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS links_revoked_at TIMESTAMPTZ;
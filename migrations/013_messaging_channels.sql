@@ -0,0 +1,12 @@
+-- Migration 013: Messaging channels (Chatwoot or WhatsApp Cloud API)
+-- users.messaging_channel: admin override for where a user's messages go.
+-- conversation_state.channel: channel of the user's last inbound message.
+-- Users who only ever wrote through the Cloud API have conversation_id = 0.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS messaging_channel VARCHAR(20)
+  CHECK (messaging_channel IN ('chatwoot', 'whatsapp'));
+
+ALTER TABLE conversation_state
+  ADD COLUMN IF NOT EXISTS channel VARCHAR(20) NOT NULL DEFAULT 'chatwoot'
+  CHECK (channel IN ('chatwoot', 'whatsapp'));
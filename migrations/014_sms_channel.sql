@@ -0,0 +1,29 @@
+-- Migration 014: SMS channel + channel-neutral conversation identity
+-- conversation_state.conversation_key identifies a thread on any channel:
+--   chatwoot:<conversation id> | whatsapp:<phone> | sms:<phone>
+-- conversation_id stays for Chatwoot lookups (0 for Cloud API / SMS users).
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_messaging_channel_check;
+ALTER TABLE users
+  ADD CONSTRAINT users_messaging_channel_check
+  CHECK (messaging_channel IN ('chatwoot', 'whatsapp', 'sms'));
+
+ALTER TABLE conversation_state DROP CONSTRAINT IF EXISTS conversation_state_channel_check;
+ALTER TABLE conversation_state
+  ADD CONSTRAINT conversation_state_channel_check
+  CHECK (channel IN ('chatwoot', 'whatsapp', 'sms'));
+
+ALTER TABLE conversation_state
+  ADD COLUMN IF NOT EXISTS conversation_key VARCHAR(100);
+
+UPDATE conversation_state cs
+SET conversation_key = CASE
+    WHEN cs.channel = 'chatwoot' AND cs.conversation_id > 0 THEN 'chatwoot:' || cs.conversation_id
+    ELSE cs.channel || ':' || u.phone
+  END
+FROM users u
+WHERE u.id = cs.user_id
+  AND cs.conversation_key IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversation_state_conversation_key
+  ON conversation_state(conversation_key);
@@ -0,0 +1,35 @@
+-- Migration 015: Versioned onboarding flows
+-- Flow definitions (per-language text, steps, optional branching) live in
+-- onboarding_flows; versions are immutable and one per name is active.
+-- The built-in flow (src/shared/onboarding.ts) is seeded as default v1 on
+-- first use. Users mid-onboarding keep the version they started with.
+
+CREATE TABLE IF NOT EXISTS onboarding_flows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  version INTEGER NOT NULL,
+  definition JSONB NOT NULL,
+  -- { intro: {es,en,pt,fr}, complete: {...}, steps: [{ id, text, scoreAs?, branches?, next? }] }
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  created_by VARCHAR(100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ,
+  UNIQUE(name, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_onboarding_flows_active
+  ON onboarding_flows(name) WHERE is_active = TRUE;
+
+-- Where each user is in their flow
+ALTER TABLE conversation_state
+  ADD COLUMN IF NOT EXISTS onboarding_flow_id UUID REFERENCES onboarding_flows(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS onboarding_step_id VARCHAR(50);
+
+-- Which flow version each client completed
+ALTER TABLE client_profiles
+  ADD COLUMN IF NOT EXISTS onboarding_flow_id UUID REFERENCES onboarding_flows(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS onboarding_flow_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_client_profiles_onboarding_flow
+  ON client_profiles(onboarding_flow_id);
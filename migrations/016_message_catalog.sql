@@ -0,0 +1,8 @@
+-- Migration 016: Message catalog overrides
+-- User-facing copy lives in src/shared/message-catalog.ts; a config_templates
+-- row with the same key overrides it per language. Overrides can now cover
+-- pt/fr and any subset of languages (NULL = use the built-in text).
+
+ALTER TABLE config_templates ADD COLUMN IF NOT EXISTS content_pt TEXT;
+ALTER TABLE config_templates ADD COLUMN IF NOT EXISTS content_fr TEXT;
+ALTER TABLE config_templates ALTER COLUMN content_es DROP NOT NULL;
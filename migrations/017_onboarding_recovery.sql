@@ -0,0 +1,19 @@
+-- Migration 017: Onboarding recovery
+-- Track when the pending onboarding question was asked and how often the
+-- user was nudged about it, so stalled users can be found and re-prompted.
+-- Skipped onboardings are recorded on the client profile.
+
+ALTER TABLE conversation_state ADD COLUMN IF NOT EXISTS onboarding_step_at TIMESTAMPTZ;
+ALTER TABLE conversation_state ADD COLUMN IF NOT EXISTS onboarding_nudge_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE conversation_state ADD COLUMN IF NOT EXISTS onboarding_nudged_at TIMESTAMPTZ;
+
+-- Users already mid-onboarding: count from their last state change
+UPDATE conversation_state
+SET onboarding_step_at = COALESCE(updated_at, NOW())
+WHERE phase = 'onboarding' AND onboarding_step IS NOT NULL AND onboarding_step_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversation_state_onboarding_stalled
+  ON conversation_state (onboarding_step_at)
+  WHERE phase = 'onboarding' AND onboarding_step IS NOT NULL;
+
+ALTER TABLE client_profiles ADD COLUMN IF NOT EXISTS onboarding_skipped_at TIMESTAMPTZ;
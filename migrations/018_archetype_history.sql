@@ -0,0 +1,40 @@
+-- Migration 018: Archetype history + behavior-based proposals
+-- Every archetype assignment is recorded with the scores and reasons behind
+-- it. The periodic re-scoring job computes behavioral signals from
+-- health_events/messages and, when they point to a different archetype,
+-- records a proposal the coach confirms or rejects.
+
+CREATE TABLE IF NOT EXISTS archetype_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  previous_archetype VARCHAR(20),
+  archetype VARCHAR(20) NOT NULL,
+  scores JSONB NOT NULL DEFAULT '{}',
+  -- Behavioral signals the scores were computed from (NULL for onboarding)
+  signals JSONB,
+  -- Human-readable reasons, e.g. ["Logged on 19 of 28 days", ...]
+  reasons JSONB NOT NULL DEFAULT '[]',
+
+  source VARCHAR(20) NOT NULL,
+  -- Values: onboarding, behavior
+  status VARCHAR(20) NOT NULL,
+  -- applied: set directly (onboarding)
+  -- proposed: waiting for the coach; confirmed / rejected once reviewed
+  -- superseded: replaced by a newer proposal before review
+
+  reviewed_by VARCHAR(100),
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_archetype_history_user
+  ON archetype_history(user_id, created_at DESC);
+
+-- At most one open proposal per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_archetype_history_open_proposal
+  ON archetype_history(user_id) WHERE status = 'proposed';
+
+ALTER TABLE client_profiles ADD COLUMN IF NOT EXISTS archetype_rescored_at TIMESTAMPTZ;
@@ -0,0 +1,37 @@
+-- Migration 019: LLM archetype classifier experiment
+-- Users enrolled in the `archetype_classifier` experiment get both the
+-- keyword scoring and a Claude classification at the end of onboarding;
+-- their arm decides which one is applied. Both results are kept here for the
+-- agreement / engagement report.
+
+CREATE TABLE IF NOT EXISTS archetype_classifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  experiment_key VARCHAR(100) NOT NULL,
+  variant VARCHAR(100) NOT NULL,
+
+  method VARCHAR(20) NOT NULL,
+  -- Values: keyword, llm
+  archetype VARCHAR(20),
+  -- NULL when the classifier failed (see error)
+  scores JSONB NOT NULL DEFAULT '{}',
+  confidence NUMERIC(4, 3),
+  rationale TEXT,
+  model VARCHAR(100),
+  latency_ms INTEGER,
+  error TEXT,
+
+  -- Whether this result became the client's archetype
+  applied BOOLEAN NOT NULL DEFAULT FALSE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_archetype_classifications_experiment
+  ON archetype_classifications(experiment_key, user_id, created_at DESC);
+
+-- Disabled until an admin turns it on (POST /admin/experiments/archetype_classifier)
+INSERT INTO experiments (key, variants, weights, enabled, description) VALUES
+  ('archetype_classifier', '["keyword", "llm"]', '[0.5, 0.5]', false,
+   'Onboarding archetype: keyword scoring (control) vs Claude classifier')
+ON CONFLICT (key) DO NOTHING;
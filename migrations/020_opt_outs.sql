@@ -0,0 +1,25 @@
+-- Migration 020: Pause / stop opt-outs
+-- users.opted_out_at is the durable flag every proactive sender checks
+-- (reminders, weekly summaries, nightly digests, check-ins, onboarding
+-- nudges). Replies to the user's own messages are still sent.
+-- opt_out_events keeps every pause / stop / resume for compliance.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS opted_out_at TIMESTAMPTZ;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS opt_out_kind VARCHAR(10);
+-- Values: pause, stop (NULL while opted in)
+
+CREATE INDEX IF NOT EXISTS idx_users_opted_out
+  ON users(opted_out_at) WHERE opted_out_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS opt_out_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  action VARCHAR(10) NOT NULL,
+  -- Values: pause, stop, resume
+  message TEXT,
+  -- The user's message that triggered it
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_opt_out_events_user
+  ON opt_out_events(user_id, created_at DESC);
@@ -0,0 +1,24 @@
+-- Migration 021: Self-service data exports
+-- "mis datos" / "send me my data" (or GET /api/export/:userId) builds a ZIP
+-- with everything stored for the user: health_events, daily digests,
+-- nightly summaries, concerns + snapshots and food patterns, as JSON and
+-- as a readable PDF. One row per request, for support and audit.
+
+CREATE TABLE IF NOT EXISTS data_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  requested_via VARCHAR(20) NOT NULL,
+  -- Values: whatsapp, api
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  -- Values: queued, sent, downloaded, failed
+  file_name TEXT,
+  size_bytes INTEGER,
+  record_counts JSONB NOT NULL DEFAULT '{}',
+  pdf_included BOOLEAN,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_user
+  ON data_exports(user_id, created_at DESC);
@@ -0,0 +1,62 @@
+-- Migration 022: Right-to-erasure account deletion
+-- "borrar mis datos" or the admin API schedules a deletion; after the grace
+-- period the worker erases every user-linked row, BullMQ job and Redis key
+-- (domain/account-deletion/service.ts has the inventory).
+--
+-- health_events and health_concerns were created without ON DELETE CASCADE
+-- and concern_snapshots.user_id had no foreign key at all, so deleting a
+-- user either failed or left rows behind.
+
+DO $$
+BEGIN
+  ALTER TABLE health_events DROP CONSTRAINT IF EXISTS health_events_user_id_fkey;
+  ALTER TABLE health_events
+    ADD CONSTRAINT health_events_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+
+  ALTER TABLE health_concerns DROP CONSTRAINT IF EXISTS health_concerns_user_id_fkey;
+  ALTER TABLE health_concerns
+    ADD CONSTRAINT health_concerns_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'fk_concern_snapshots_user_id'
+  ) THEN
+    DELETE FROM concern_snapshots cs WHERE NOT EXISTS (SELECT 1 FROM users u WHERE u.id = cs.user_id);
+    ALTER TABLE concern_snapshots
+      ADD CONSTRAINT fk_concern_snapshots_user_id
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- One row per deletion request. Outlives the user on purpose (no FK): it is
+-- the receipt. The phone is kept only as a SHA-256 hash, so dead letters
+-- can still be checked after the erase.
+CREATE TABLE IF NOT EXISTS account_deletions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  phone_hash VARCHAR(64) NOT NULL,
+  requested_via VARCHAR(20) NOT NULL,
+  -- Values: whatsapp, admin
+  requested_by VARCHAR(100),
+  -- API key name for admin requests
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+  -- Values: scheduled, canceled, completed, failed
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  canceled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  receipt JSONB,
+  -- Rows deleted per table, jobs / Redis keys removed, verification result
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_deletions_one_scheduled
+  ON account_deletions(user_id) WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_due
+  ON account_deletions(scheduled_for) WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_user
+  ON account_deletions(user_id, created_at DESC);
@@ -0,0 +1,31 @@
+-- Migration 023: Sticky language preference
+-- users.language used to follow every message's detected language, so a
+-- Spanish speaker writing "ok thanks" got English acks and an English
+-- nightly summary. Now:
+--   - language_locked: set by an explicit command ("idioma inglés") or an
+--     admin — detection no longer changes it
+--   - language_pending / language_pending_count: hysteresis — a different
+--     detected language has to win several messages in a row
+--   - language_changes: every change with the message that caused it, so
+--     coaches can see why a summary came out in the wrong language
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS language_locked BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS language_pending VARCHAR(5);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS language_pending_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS language_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  previous_language VARCHAR(5),
+  language VARCHAR(5) NOT NULL,
+  locked BOOLEAN NOT NULL,
+  -- Lock state after the change
+  source VARCHAR(20) NOT NULL,
+  -- Values: first_message, detected, command, admin
+  message TEXT,
+  -- The (truncated) message that triggered it
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_language_changes_user
+  ON language_changes(user_id, created_at DESC);
@@ -0,0 +1,62 @@
+-- Migration 024: Per-user timezones
+-- Reminders and the weekly summary ran at 8 PM America/New_York for
+-- everyone, and health_events.event_date took the server's CURRENT_DATE, so
+-- a late dinner in Madrid or Mexico City landed on the wrong day. Now:
+--   - users.timezone is inferred from the phone's country code
+--     (shared/timezone.ts), overridable by "zona horaria ..." or an admin
+--   - timezone_source records where it came from
+--   - event_date is computed in the user's zone on insert
+--   - the schedulers run hourly and pick users whose local time is due
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone_source VARCHAR(10) NOT NULL DEFAULT 'default';
+-- Values: default, phone, command, admin
+
+-- Backfill from the country code (the same table as shared/timezone.ts, as
+-- of this migration). Unknown codes keep the schedulers' old zone.
+UPDATE users
+SET timezone = CASE
+      WHEN phone ~ '^\+1(787|939)' THEN 'America/Puerto_Rico'
+      WHEN phone ~ '^\+1(809|829|849)' THEN 'America/Santo_Domingo'
+      WHEN phone ~ '^\+1' THEN 'America/New_York'
+      WHEN phone ~ '^\+502' THEN 'America/Guatemala'
+      WHEN phone ~ '^\+503' THEN 'America/El_Salvador'
+      WHEN phone ~ '^\+504' THEN 'America/Tegucigalpa'
+      WHEN phone ~ '^\+505' THEN 'America/Managua'
+      WHEN phone ~ '^\+506' THEN 'America/Costa_Rica'
+      WHEN phone ~ '^\+507' THEN 'America/Panama'
+      WHEN phone ~ '^\+591' THEN 'America/La_Paz'
+      WHEN phone ~ '^\+593' THEN 'America/Guayaquil'
+      WHEN phone ~ '^\+595' THEN 'America/Asuncion'
+      WHEN phone ~ '^\+598' THEN 'America/Montevideo'
+      WHEN phone ~ '^\+51' THEN 'America/Lima'
+      WHEN phone ~ '^\+52' THEN 'America/Mexico_City'
+      WHEN phone ~ '^\+53' THEN 'America/Havana'
+      WHEN phone ~ '^\+54' THEN 'America/Argentina/Buenos_Aires'
+      WHEN phone ~ '^\+55' THEN 'America/Sao_Paulo'
+      WHEN phone ~ '^\+56' THEN 'America/Santiago'
+      WHEN phone ~ '^\+57' THEN 'America/Bogota'
+      WHEN phone ~ '^\+58' THEN 'America/Caracas'
+      WHEN phone ~ '^\+351' THEN 'Europe/Lisbon'
+      WHEN phone ~ '^\+34' THEN 'Europe/Madrid'
+      WHEN phone ~ '^\+33' THEN 'Europe/Paris'
+      WHEN phone ~ '^\+32' THEN 'Europe/Brussels'
+      WHEN phone ~ '^\+41' THEN 'Europe/Zurich'
+      WHEN phone ~ '^\+44' THEN 'Europe/London'
+      WHEN phone ~ '^\+49' THEN 'Europe/Berlin'
+      WHEN phone ~ '^\+39' THEN 'Europe/Rome'
+      WHEN phone ~ '^\+244' THEN 'Africa/Luanda'
+      WHEN phone ~ '^\+258' THEN 'Africa/Maputo'
+      WHEN phone ~ '^\+212' THEN 'Africa/Casablanca'
+      WHEN phone ~ '^\+221' THEN 'Africa/Dakar'
+      WHEN phone ~ '^\+225' THEN 'Africa/Abidjan'
+      ELSE 'America/New_York'
+    END,
+    timezone_source = CASE
+      WHEN phone ~ '^\+(1|5[1-8]|50[2-7]|59[1358]|351|3[2349]|41|44|49|244|258|212|221|225)' THEN 'phone'
+      ELSE 'default'
+    END
+WHERE timezone_source = 'default';
+
+-- Events are dated by the application now; the old default stays only as a
+-- fallback for rows inserted by hand
+COMMENT ON COLUMN health_events.event_date IS 'Calendar date in the user''s timezone at event_time';
@@ -0,0 +1,42 @@
+-- Migration 025: Automatic nightly digest runs
+-- Nightly digests only ran when someone called trigger-nightly by hand. The
+-- worker now queues one digest per user at DIGEST_CRON_HOUR in the user's
+-- timezone, for users with unprocessed events that day. Each night (the
+-- users' local date) gets a run record:
+--   - digest_runs: per-night counts, refreshed as jobs finish
+--   - digest_run_items: one row per user per night — what happened and why,
+--     so a night can be inspected and its failures re-run
+
+CREATE TABLE IF NOT EXISTS digest_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_date DATE NOT NULL UNIQUE,
+  queued INTEGER NOT NULL DEFAULT 0,
+  ok INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_rerun_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS digest_run_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES digest_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL DEFAULT 'queued',
+  -- Values: queued, ok, failed, skipped
+  reason TEXT,
+  -- Why it was skipped, or the error that failed it
+  events_processed INTEGER,
+  nightly_summary_id UUID,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (run_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_run_items_status
+  ON digest_run_items(run_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_digest_run_items_user
+  ON digest_run_items(user_id);
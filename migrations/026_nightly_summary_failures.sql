@@ -0,0 +1,14 @@
+-- Migration 026: Failed nightly summaries
+-- Sonnet's summary JSON is now validated against a schema
+-- (domain/digest/summary-schema.ts) and sent back for repair when it
+-- doesn't match. A summary that still fails used to be stored as
+-- { raw_summary, parse_error } and rendered into a broken PDF; now it is
+-- saved with status 'failed' so the coach sees it in the approval queue
+-- (and can re-run or discard the night) instead.
+
+ALTER TABLE nightly_summaries DROP CONSTRAINT IF EXISTS nightly_summaries_status_check;
+ALTER TABLE nightly_summaries ADD CONSTRAINT nightly_summaries_status_check
+  CHECK (status IN ('pending', 'approved', 'sent', 'discarded', 'failed'));
+
+ALTER TABLE nightly_summaries ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+-- The schema issues from the last repair attempt, one per line
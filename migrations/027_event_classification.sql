@@ -0,0 +1,16 @@
+-- Migration 027: Event classification from the nightly pass
+-- event_type used to be guessed from Spanish substrings ("cen" matched both
+-- "cena" and "centro") and extracted_data only held processedAt. The nightly
+-- Sonnet call now classifies every event and returns structured fields
+-- (domain/digest/summary-schema.ts), written back here, so weekly summaries
+-- and stats can query them.
+
+COMMENT ON COLUMN health_events.event_type IS
+  'Set by the nightly pass: meal, symptom, sleep, medication, mood, lab_result, digestion, exercise, question, general';
+COMMENT ON COLUMN health_events.extracted_data IS
+  'Structured fields for event_type (e.g. meal: meal_type, foods; symptom: symptom, severity, body_part) plus processedAt, digestDate';
+
+-- Per-type counts over a date range (/api/summary/users/:userId/event-types)
+CREATE INDEX IF NOT EXISTS idx_health_events_user_type_date
+  ON health_events(user_id, event_type, event_date)
+  WHERE processed = TRUE;
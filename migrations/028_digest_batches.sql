@@ -0,0 +1,41 @@
+-- Migration 028: Nightly digests through the Message Batches API
+-- The scheduled nightly run now submits every due user's summary prompt as
+-- one Message Batch (half the per-token price) instead of one Sonnet call per
+-- user. The worker polls open batches and saves the results.
+--   - digest_batches: one row per submitted batch. Replies that fail
+--     validation go out again in a repair batch (repair_round 1, 2, ...)
+--   - digest_run_items: which batch the user's request is in, plus what's
+--     needed to finish it later: the events in prompt order and the
+--     conversation so far (prompt and repair turns). The conversation is
+--     cleared when the item finishes.
+
+CREATE TABLE IF NOT EXISTS digest_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(20) NOT NULL,
+  provider_batch_id TEXT NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'submitted',
+  -- Values: submitted, ended
+  repair_round INTEGER NOT NULL DEFAULT 0,
+  request_count INTEGER NOT NULL,
+  succeeded INTEGER,
+  errored INTEGER,
+  canceled INTEGER,
+  expired INTEGER,
+  -- Set while a poll job is collecting the results
+  locked_until TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_batches_open
+  ON digest_batches(submitted_at) WHERE status = 'submitted';
+
+ALTER TABLE digest_run_items
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES digest_batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS event_ids UUID[],
+  ADD COLUMN IF NOT EXISTS messages JSONB,
+  ADD COLUMN IF NOT EXISTS expect_questions BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS repair_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_digest_run_items_batch
+  ON digest_run_items(batch_id) WHERE batch_id IS NOT NULL;
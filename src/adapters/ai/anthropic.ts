@@ -0,0 +1,53 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '../../config';
+import { AIProvider, BatchRequest, BatchResult, BatchStatus, MessageOptions, MessageParams } from './provider';
+
+/**
+ * Claude via the Anthropic API — Messages for single calls, Message Batches
+ * for the nightly run.
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor() {
+    this.client = new Anthropic({ apiKey: config.anthropicApiKey });
+  }
+
+  createMessage(params: MessageParams, options: MessageOptions = {}): Promise<Anthropic.Message> {
+    return this.client.messages.create(params, { timeout: options.timeoutMs, maxRetries: options.maxRetries });
+  }
+
+  async submitBatch(requests: BatchRequest[]): Promise<string> {
+    const batch = await this.client.messages.batches.create({
+      requests: requests.map(r => ({ custom_id: r.customId, params: r.params })),
+    });
+    return batch.id;
+  }
+
+  async getBatch(batchId: string): Promise<BatchStatus> {
+    const batch = await this.client.messages.batches.retrieve(batchId);
+    return {
+      id: batch.id,
+      ended: batch.processing_status === 'ended',
+      counts: batch.request_counts,
+    };
+  }
+
+  async getBatchResults(batchId: string): Promise<BatchResult[]> {
+    const results: BatchResult[] = [];
+    for await (const entry of await this.client.messages.batches.results(batchId)) {
+      const { custom_id: customId, result } = entry;
+      if (result.type === 'succeeded') {
+        results.push({ customId, type: 'succeeded', message: result.message });
+      } else {
+        results.push({
+          customId,
+          type: result.type,
+          error: result.type === 'errored' ? result.error.error.message : null,
+        });
+      }
+    }
+    return results;
+  }
+}
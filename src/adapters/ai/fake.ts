@@ -0,0 +1,172 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AIProvider, BatchRequest, BatchResult, BatchStatus, MessageParams } from './provider';
+
+/**
+ * In-process stand-in for the Anthropic API (AI_PROVIDER=fake).
+ *
+ * Every request gets `respond(params)` back as the reply text — by default
+ * a canned nightly summary that classifies each `"event": n` in the prompt
+ * as general, so digests validate, save and show up for approval without
+ * an API key, and a canned estimate for meal nutrition prompts.
+ *
+ * Batches end FAKE_AI_BATCH_DELAY_MS after submission (default 0: on the
+ * first poll).
+ *
+ * Submitted batches are written to FAKE_AI_BATCH_DIR (default: a folder in
+ * the OS temp dir), so a restarted worker still collects them. A batch that
+ * isn't there either ends with no results — its items fail and can be
+ * re-run.
+ */
+
+export type FakeResponder = (params: MessageParams) => string;
+
+const BATCH_DELAY_MS = parseInt(process.env.FAKE_AI_BATCH_DELAY_MS || '0', 10);
+const BATCH_DIR = process.env.FAKE_AI_BATCH_DIR || path.join(tmpdir(), 'vivebien-fake-batches');
+
+const newId = (prefix: string) => `${prefix}${randomBytes(12).toString('hex')}`;
+
+function promptText(params: MessageParams): string {
+  const first = params.messages[0]?.content;
+  if (typeof first === 'string') return first;
+  return (first ?? []).map(block => (block.type === 'text' ? block.text : '')).join('\n');
+}
+
+export const cannedSummary: FakeResponder = (params) => {
+  const events = [...promptText(params).matchAll(/"event": (\d+)/g)].map(m => Number(m[1]));
+  const count = events.length > 0 ? Math.max(...events) : 0;
+
+  return JSON.stringify({
+    greeting_name: 'Fake',
+    day_number: 1,
+    date: new Date().toISOString().split('T')[0],
+    title_line1: 'Tu día tiene un patrón.',
+    title_line2: 'Hoy lo hicimos visible.',
+    meals: [{ time: '12:00pm', title: '[fake] Comida', bullets: ['[fake] Resumen generado sin IA.'] }],
+    signal_intro: '[fake] Señal del día',
+    signal_items: [{ direction: 'up', text: '[fake] entrada → resultado' }],
+    signal_explanation: '[fake] Explicación.',
+    willpower_text: '[fake] Biología, no fuerza de voluntad.',
+    advantage_text: '[fake] Tu ventaja.',
+    pattern_text: '[fake] Seguimos observando.',
+    experiment_heading: '[fake] Experimento',
+    experiment_steps: ['[fake] Paso 1'],
+    observe_text: '[fake] Qué observar.',
+    footer_quote_1: 'No estás haciendo dieta.',
+    footer_quote_2: 'Estás aprendiendo a leer tu biología.',
+    event_classifications: Array.from({ length: count }, (_, i) => ({
+      event: i + 1,
+      event_type: 'general',
+      data: { note: '[fake]' },
+    })),
+  });
+};
+
+export const cannedNutrition: FakeResponder = () => JSON.stringify({
+  foods: [{ name: '[fake] comida', normalized: 'mixed plate', category: 'other', portion: '1 plate', grams: { min: 250, max: 400 } }],
+  dominant: 'other',
+  macros: {
+    kcal: { min: 400, max: 650 },
+    carbs_g: { min: 40, max: 70 },
+    protein_g: { min: 15, max: 30 },
+    fat_g: { min: 10, max: 25 },
+    fiber_g: { min: 3, max: 8 },
+  },
+  confidence: 'low',
+});
+
+// Picks the canned reply by prompt (meal/nutrition-extractor.ts opens with this)
+export const cannedReply: FakeResponder = (params) =>
+  promptText(params).includes('Estimate the nutrition of one meal') ? cannedNutrition(params) : cannedSummary(params);
+
+interface FakeBatch {
+  requests: BatchRequest[];
+  submittedAt: number;
+}
+
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake' as const;
+  private batches = new Map<string, FakeBatch>();
+
+  constructor(private respond: FakeResponder = cannedReply, private batchDir: string = BATCH_DIR) {}
+
+  async createMessage(params: MessageParams): Promise<Anthropic.Message> {
+    const text = this.respond(params);
+    return {
+      id: newId('msg_fake_'),
+      type: 'message',
+      role: 'assistant',
+      model: params.model,
+      content: [{ type: 'text', text, citations: null }],
+      stop_reason: 'end_turn',
+      stop_sequence: null,
+      usage: {
+        input_tokens: Math.ceil(JSON.stringify(params.messages).length / 4),
+        output_tokens: Math.ceil(text.length / 4),
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null,
+      },
+    };
+  }
+
+  async submitBatch(requests: BatchRequest[]): Promise<string> {
+    const id = newId('msgbatch_fake_');
+    const batch: FakeBatch = { requests, submittedAt: Date.now() };
+    await mkdir(this.batchDir, { recursive: true });
+    await writeFile(this.batchFile(id), JSON.stringify(batch));
+    this.batches.set(id, batch);
+    return id;
+  }
+
+  async getBatch(batchId: string): Promise<BatchStatus> {
+    const batch = await this.loadBatch(batchId);
+
+    const ended = Date.now() - batch.submittedAt >= BATCH_DELAY_MS;
+    return {
+      id: batchId,
+      ended,
+      counts: {
+        processing: ended ? 0 : batch.requests.length,
+        succeeded: ended ? batch.requests.length : 0,
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      },
+    };
+  }
+
+  async getBatchResults(batchId: string): Promise<BatchResult[]> {
+    const batch = await this.loadBatch(batchId);
+
+    const results: BatchResult[] = [];
+    for (const request of batch.requests) {
+      results.push({ customId: request.customId, type: 'succeeded', message: await this.createMessage(request.params) });
+    }
+    return results;
+  }
+
+  private batchFile(batchId: string): string {
+    return path.join(this.batchDir, `${batchId}.json`);
+  }
+
+  /**
+   * From memory, else from disk (submitted before a restart). Unknown ids
+   * are an empty batch that has already ended.
+   */
+  private async loadBatch(batchId: string): Promise<FakeBatch> {
+    const cached = this.batches.get(batchId);
+    if (cached) return cached;
+
+    let batch: FakeBatch;
+    try {
+      batch = JSON.parse(await readFile(this.batchFile(batchId), 'utf8')) as FakeBatch;
+    } catch {
+      batch = { requests: [], submittedAt: 0 };
+    }
+    this.batches.set(batchId, batch);
+    return batch;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * AI provider abstraction
+ *
+ * The nightly digest talks to Claude through an AIProvider, either one
+ * message at a time (re-runs, manual triggers) or as a Message Batch (the
+ * scheduled nightly run — half the price, no rate limiting, results within
+ * 24h):
+ *
+ *   anthropic — AnthropicProvider (adapters/ai/anthropic.ts)
+ *   fake      — FakeAIProvider (adapters/ai/fake.ts), in-process canned
+ *               replies so the whole flow runs without the API
+ *
+ * AI_PROVIDER picks one (adapters/ai/registry.ts).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+
+export type AIProviderName = 'anthropic' | 'fake';
+
+export type MessageParams = Anthropic.MessageCreateParamsNonStreaming;
+
+export interface MessageOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface BatchRequest {
+  // Matches results to requests: 1-64 of [a-zA-Z0-9_-]
+  customId: string;
+  params: MessageParams;
+}
+
+export interface BatchStatus {
+  id: string;
+  ended: boolean;
+  counts: {
+    processing: number;
+    succeeded: number;
+    errored: number;
+    canceled: number;
+    expired: number;
+  };
+}
+
+export type BatchResult =
+  | { customId: string; type: 'succeeded'; message: Anthropic.Message }
+  | { customId: string; type: 'errored' | 'canceled' | 'expired'; error: string | null };
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+
+  createMessage(params: MessageParams, options?: MessageOptions): Promise<Anthropic.Message>;
+
+  /**
+   * Submit requests as one batch. Returns the provider's batch id.
+   */
+  submitBatch(requests: BatchRequest[]): Promise<string>;
+
+  getBatch(batchId: string): Promise<BatchStatus>;
+
+  /**
+   * Every request's outcome. Only call once getBatch says it ended.
+   */
+  getBatchResults(batchId: string): Promise<BatchResult[]>;
+}
+
+/**
+ * The text of a reply (all text blocks joined).
+ */
+export function messageText(message: Anthropic.Message): string {
+  return message.content
+    .filter(block => block.type === 'text')
+    .map(block => ('text' in block ? block.text : ''))
+    .join('');
+}
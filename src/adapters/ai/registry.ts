@@ -0,0 +1,16 @@
+import { config } from '../../config';
+import { AnthropicProvider } from './anthropic';
+import { FakeAIProvider } from './fake';
+import { AIProvider } from './provider';
+
+let provider: AIProvider | null = null;
+
+/**
+ * The provider AI_PROVIDER selects — one per process.
+ */
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = config.aiProvider === 'fake' ? new FakeAIProvider() : new AnthropicProvider();
+  }
+  return provider;
+}
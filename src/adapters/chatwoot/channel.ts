@@ -0,0 +1,56 @@
+import { ChatwootClient } from './client';
+import {
+  MessagingChannel,
+  ChannelTarget,
+  TemplateMessage,
+  DownloadedMedia,
+} from '../messaging/channel';
+import { ChatwootError } from '../../shared/errors';
+
+/**
+ * MessagingChannel backed by Chatwoot (Chatwoot relays to WhatsApp).
+ */
+export class ChatwootChannel implements MessagingChannel {
+  readonly name = 'chatwoot' as const;
+  readonly supportsAttachments = true;
+
+  constructor(private client: ChatwootClient = new ChatwootClient()) {}
+
+  async sendMessage(target: ChannelTarget, content: string): Promise<void> {
+    await this.client.sendMessage(await this.conversationFor(target), content);
+  }
+
+  async sendAttachment(target: ChannelTarget, fileBuffer: Buffer, fileName: string, caption?: string): Promise<void> {
+    await this.client.sendAttachment(await this.conversationFor(target), fileBuffer, fileName, caption);
+  }
+
+  /**
+   * Chatwoot forwards template_params to WhatsApp inboxes.
+   */
+  async sendTemplate(target: ChannelTarget, template: TemplateMessage): Promise<void> {
+    const params = template.bodyParams ?? [];
+    await this.client.sendMessage(await this.conversationFor(target), params.join(' '), {
+      templateParams: {
+        name: template.name,
+        language: template.language,
+        processed_params: Object.fromEntries(params.map((p, i) => [String(i + 1), p])),
+      },
+    });
+  }
+
+  async downloadMedia(ref: string): Promise<DownloadedMedia> {
+    return this.client.downloadAttachmentWithType(ref);
+  }
+
+  private async conversationFor(target: ChannelTarget): Promise<number> {
+    if (target.conversationId) return target.conversationId;
+
+    const conversationId = target.phone
+      ? await this.client.findConversationByPhone(target.phone)
+      : null;
+    if (!conversationId) {
+      throw new ChatwootError(`No Chatwoot conversation for ${target.phone ?? 'unknown phone'}`);
+    }
+    return conversationId;
+  }
+}
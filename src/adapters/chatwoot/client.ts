@@ -1,11 +1,13 @@
 import { config } from '../../config';
 import { ChatwootError } from '../../shared/errors';
 import { logger } from '../../infra/logging/logger';
+import { DownloadedMedia, guessMimeType } from '../messaging/channel';
 
 interface SendMessageOptions {
   isPrivate?: boolean;
   contentType?: 'input_textarea' | 'cards' | 'input_select';
   contentAttributes?: Record<string, unknown>;
+  templateParams?: Record<string, unknown>; // WhatsApp template (WhatsApp inboxes only)
 }
 
 export class ChatwootClient {
@@ -43,6 +45,10 @@ export class ChatwootClient {
       body.content_attributes = options.contentAttributes;
     }
 
+    if (options.templateParams) {
+      body.template_params = options.templateParams;
+    }
+
     try {
       const response = await fetch(url, {
         method: 'POST',
@@ -226,11 +232,7 @@ export class ChatwootClient {
     const url = `${this.baseUrl}/api/v1/accounts/${this.accountId}/conversations/${conversationId}/messages`;
 
     try {
-      // Determine MIME type
-      const mimeType = fileName.endsWith('.pdf') ? 'application/pdf'
-        : fileName.endsWith('.png') ? 'image/png'
-        : fileName.endsWith('.jpg') || fileName.endsWith('.jpeg') ? 'image/jpeg'
-        : 'application/octet-stream';
+      const mimeType = guessMimeType(fileName);
 
       // Build multipart form data
       const boundary = `----FormBoundary${Date.now()}`;
@@ -283,6 +285,13 @@ export class ChatwootClient {
    * Download attachment from Chatwoot
    */
   async downloadAttachment(url: string): Promise<Buffer> {
+    return (await this.downloadAttachmentWithType(url)).buffer;
+  }
+
+  /**
+   * Download attachment from Chatwoot, keeping its content type
+   */
+  async downloadAttachmentWithType(url: string): Promise<DownloadedMedia> {
     try {
       const response = await fetch(url, {
         headers: {
@@ -295,7 +304,10 @@ export class ChatwootClient {
       }
 
       const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
+      return {
+        buffer: Buffer.from(arrayBuffer),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+      };
     } catch (error) {
       if (error instanceof ChatwootError) {
         throw error;
@@ -0,0 +1,84 @@
+/**
+ * Messaging channel abstraction
+ *
+ * Everything the app sends to (or downloads from) a user goes through a
+ * MessagingChannel, so a number can run on Chatwoot, directly on the
+ * WhatsApp Cloud API, or on plain SMS:
+ *
+ *   chatwoot — ChatwootChannel (adapters/chatwoot/channel.ts)
+ *   whatsapp — WhatsAppCloudChannel (adapters/whatsapp/channel.ts)
+ *   sms      — TwilioSmsChannel (adapters/sms/channel.ts)
+ *
+ * Which one is used for a user is decided by domain/messaging/service.ts.
+ */
+
+import { ChannelName } from '../../shared/types';
+
+export type { ChannelName };
+
+/**
+ * Who to deliver to. Chatwoot needs the conversation (or finds it by phone);
+ * the Cloud API and SMS only need the phone.
+ */
+export interface ChannelTarget {
+  phone?: string;
+  conversationId?: number;
+}
+
+/**
+ * Pre-approved WhatsApp template — required to message a user outside the
+ * 24h customer-service window.
+ */
+export interface TemplateMessage {
+  name: string;
+  language: string;         // e.g. 'es_MX', 'en_US'
+  bodyParams?: string[];    // {{1}}, {{2}}, … in the template body
+}
+
+export interface DownloadedMedia {
+  buffer: Buffer;
+  contentType: string;
+}
+
+export interface MessagingChannel {
+  readonly name: ChannelName;
+
+  /**
+   * Whether sendAttachment actually delivers the file. Channels that can't
+   * (SMS) only send the caption, so callers with a file the user must get
+   * check this first.
+   */
+  readonly supportsAttachments: boolean;
+
+  sendMessage(target: ChannelTarget, content: string): Promise<void>;
+
+  sendAttachment(target: ChannelTarget, fileBuffer: Buffer, fileName: string, caption?: string): Promise<void>;
+
+  sendTemplate(target: ChannelTarget, template: TemplateMessage): Promise<void>;
+
+  /**
+   * Fetch an inbound attachment by the reference stored on the job
+   * (a URL for Chatwoot, a media reference for the Cloud API).
+   */
+  downloadMedia(ref: string): Promise<DownloadedMedia>;
+}
+
+/**
+ * Inbound Cloud API attachments are stored as `whatsapp-media:<id>` — the
+ * media URL Meta returns expires within minutes, the id does not.
+ */
+export const WHATSAPP_MEDIA_PREFIX = 'whatsapp-media:';
+
+/**
+ * Inbound MMS media is stored as `sms-media:<MediaUrl>` — the URL needs the
+ * account credentials, so downloads go through the SMS channel.
+ */
+export const SMS_MEDIA_PREFIX = 'sms-media:';
+
+export function guessMimeType(fileName: string): string {
+  return fileName.endsWith('.pdf') ? 'application/pdf'
+    : fileName.endsWith('.png') ? 'image/png'
+    : fileName.endsWith('.jpg') || fileName.endsWith('.jpeg') ? 'image/jpeg'
+    : fileName.endsWith('.zip') ? 'application/zip'
+    : 'application/octet-stream';
+}
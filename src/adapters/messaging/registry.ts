@@ -0,0 +1,29 @@
+import { ChatwootChannel } from '../chatwoot/channel';
+import { WhatsAppCloudChannel } from '../whatsapp/channel';
+import { TwilioSmsChannel } from '../sms/channel';
+import {
+  ChannelName,
+  DownloadedMedia,
+  MessagingChannel,
+  WHATSAPP_MEDIA_PREFIX,
+  SMS_MEDIA_PREFIX,
+} from './channel';
+
+const channels: Record<ChannelName, MessagingChannel> = {
+  chatwoot: new ChatwootChannel(),
+  whatsapp: new WhatsAppCloudChannel(),
+  sms: new TwilioSmsChannel(),
+};
+
+export function getChannel(name: ChannelName): MessagingChannel {
+  return channels[name];
+}
+
+/**
+ * Download an inbound attachment from whichever channel it came through.
+ */
+export function downloadMedia(ref: string): Promise<DownloadedMedia> {
+  if (ref.startsWith(WHATSAPP_MEDIA_PREFIX)) return channels.whatsapp.downloadMedia(ref);
+  if (ref.startsWith(SMS_MEDIA_PREFIX)) return channels.sms.downloadMedia(ref);
+  return channels.chatwoot.downloadMedia(ref);
+}
@@ -0,0 +1,127 @@
+import { config } from '../../config';
+import { TwilioError } from '../../shared/errors';
+import { logger } from '../../infra/logging/logger';
+import {
+  MessagingChannel,
+  ChannelTarget,
+  TemplateMessage,
+  DownloadedMedia,
+  SMS_MEDIA_PREFIX,
+} from '../messaging/channel';
+import { splitForSms, toSmsText, countSegments } from './segments';
+
+/**
+ * MessagingChannel over SMS through the Twilio Messages API (or anything
+ * that speaks it — TWILIO_API_URL can point at adapters/sms/fake-server.ts).
+ *
+ * Long replies are split into several SMS of ≤ SMS_MAX_SEGMENTS segments.
+ */
+export class TwilioSmsChannel implements MessagingChannel {
+  readonly name = 'sms' as const;
+  readonly supportsAttachments = false;
+
+  private baseUrl: string;
+  private accountSid: string;
+  private authToken: string;
+  private fromNumber: string;
+
+  constructor() {
+    this.baseUrl = config.twilioApiUrl;
+    this.accountSid = config.twilioAccountSid ?? '';
+    this.authToken = config.twilioAuthToken ?? '';
+    this.fromNumber = config.twilioFromNumber ?? '';
+  }
+
+  async sendMessage(target: ChannelTarget, content: string): Promise<void> {
+    const parts = splitForSms(toSmsText(content), config.smsMaxSegments);
+
+    // Sequential so the parts arrive in order
+    for (const body of parts) {
+      await this.postMessage(target, { Body: body });
+    }
+
+    logger.debug(
+      { parts: parts.length, segments: parts.map(p => countSegments(p).segments) },
+      'SMS sent via Twilio',
+    );
+  }
+
+  /**
+   * MMS can only carry media from a public URL, and our files (PDFs) are
+   * generated in memory — send the caption so the user still hears from us.
+   * Callers that must get the file across check supportsAttachments first.
+   */
+  async sendAttachment(target: ChannelTarget, _fileBuffer: Buffer, fileName: string, caption?: string): Promise<void> {
+    logger.warn({ fileName }, 'SMS cannot carry file attachments — sending caption only');
+    if (caption) {
+      await this.sendMessage(target, caption);
+    }
+  }
+
+  /**
+   * SMS has no template approval — send the parameters as plain text.
+   */
+  async sendTemplate(target: ChannelTarget, template: TemplateMessage): Promise<void> {
+    await this.sendMessage(target, (template.bodyParams ?? []).join(' '));
+  }
+
+  /**
+   * Media URLs need the account credentials (Twilio then redirects to storage).
+   */
+  async downloadMedia(ref: string): Promise<DownloadedMedia> {
+    const url = ref.startsWith(SMS_MEDIA_PREFIX) ? ref.slice(SMS_MEDIA_PREFIX.length) : ref;
+
+    try {
+      const response = await fetch(url, {
+        headers: { Authorization: this.basicAuth() },
+        redirect: 'follow',
+      });
+      if (!response.ok) {
+        throw new TwilioError(`Failed to download media: ${response.status}`);
+      }
+
+      return {
+        buffer: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+      };
+    } catch (error) {
+      if (error instanceof TwilioError) throw error;
+      const err = error as Error;
+      throw new TwilioError(`Network error: ${err.message}`, err);
+    }
+  }
+
+  private async postMessage(target: ChannelTarget, params: Record<string, string>): Promise<void> {
+    if (!target.phone) {
+      throw new TwilioError('SMS messages need a phone number');
+    }
+    if (!this.accountSid || !this.authToken || !this.fromNumber) {
+      throw new TwilioError('TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_FROM_NUMBER not configured');
+    }
+
+    const path = `/Accounts/${this.accountSid}/Messages.json`;
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: this.basicAuth(),
+        },
+        body: new URLSearchParams({ To: target.phone, From: this.fromNumber, ...params }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new TwilioError(`POST ${path} failed: ${response.status} ${error}`);
+      }
+    } catch (error) {
+      if (error instanceof TwilioError) throw error;
+      const err = error as Error;
+      throw new TwilioError(`Network error: ${err.message}`, err);
+    }
+  }
+
+  private basicAuth(): string {
+    return `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`;
+  }
+}
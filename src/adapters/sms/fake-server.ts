@@ -0,0 +1,132 @@
+/**
+ * Fake Twilio Messages API
+ *
+ * Lets the SMS channel run end-to-end without Twilio:
+ *
+ *   POST /Accounts/:sid/Messages.json  — accepts sends, records them
+ *   GET  /media/:name                  — a tiny PNG for MMS tests
+ *
+ *   GET  /__messages                   — everything sent so far (with segments)
+ *   POST /__inbound                    — { phone, text?, mediaUrls? } → signed
+ *                                        form post to the API's /ingest/sms
+ *
+ * Usage:
+ *   npm run fake:sms
+ *   TWILIO_API_URL=http://localhost:4020 npm run dev
+ */
+
+import Fastify from 'fastify';
+import { randomBytes } from 'crypto';
+import { computeTwilioSignature, TwilioParams } from './webhook';
+import { countSegments } from './segments';
+
+const PORT = parseInt(process.env.FAKE_SMS_PORT || '4020', 10);
+const TARGET_URL = process.env.TWILIO_WEBHOOK_URL || 'http://localhost:3000/ingest/sms';
+const AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN || 'fake-auth-token';
+const FROM_NUMBER = process.env.TWILIO_FROM_NUMBER || '+15550001111';
+
+// 1x1 transparent PNG
+const SAMPLE_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+);
+
+interface SentSms {
+  sid: string;
+  accountSid: string;
+  to: string;
+  from: string;
+  body: string;
+  segments: number;
+  encoding: string;
+  sentAt: string;
+}
+
+const sent: SentSms[] = [];
+
+const newSid = (prefix: string) => `${prefix}${randomBytes(16).toString('hex')}`;
+
+const app = Fastify({ logger: true });
+
+app.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (_request, body, done) => {
+  done(null, Object.fromEntries(new URLSearchParams(body as string)));
+});
+
+app.post('/Accounts/:accountSid/Messages.json', async (request, reply) => {
+  const { accountSid } = request.params as { accountSid: string };
+  const params = request.body as TwilioParams;
+
+  if (!params.To || !params.Body) {
+    return reply.status(400).send({ code: 21602, message: 'Message body is required.' });
+  }
+
+  const { segments, encoding } = countSegments(params.Body);
+  const message: SentSms = {
+    sid: newSid('SM'),
+    accountSid,
+    to: params.To,
+    from: params.From ?? '',
+    body: params.Body,
+    segments,
+    encoding,
+    sentAt: new Date().toISOString(),
+  };
+  sent.push(message);
+
+  return reply.status(201).send({
+    sid: message.sid,
+    status: 'queued',
+    to: message.to,
+    from: message.from,
+    body: message.body,
+    num_segments: String(segments),
+  });
+});
+
+app.get('/media/:name', async (_request, reply) => {
+  return reply.type('image/png').send(SAMPLE_PNG);
+});
+
+app.get('/__messages', async () => ({ messages: sent }));
+
+app.delete('/__messages', async () => {
+  sent.length = 0;
+  return { cleared: true };
+});
+
+app.post('/__inbound', async (request, reply) => {
+  const { phone, text = '', mediaUrls = [] } = request.body as {
+    phone: string;
+    text?: string;
+    mediaUrls?: string[];
+  };
+
+  const params: TwilioParams = {
+    AccountSid: newSid('AC'),
+    MessageSid: newSid('SM'),
+    From: phone,
+    To: FROM_NUMBER,
+    Body: text,
+    NumMedia: String(mediaUrls.length),
+  };
+  mediaUrls.forEach((url, i) => {
+    params[`MediaUrl${i}`] = url;
+    params[`MediaContentType${i}`] = url.endsWith('.png') ? 'image/png' : 'image/jpeg';
+  });
+
+  const response = await fetch(TARGET_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': computeTwilioSignature(AUTH_TOKEN, TARGET_URL, params),
+    },
+    body: new URLSearchParams(params),
+  });
+
+  return reply.status(response.status).type('text/xml').send(await response.text());
+});
+
+app.listen({ port: PORT, host: '0.0.0.0' }).catch((err) => {
+  app.log.error(err);
+  process.exit(1);
+});
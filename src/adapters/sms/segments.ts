@@ -0,0 +1,138 @@
+/**
+ * SMS segment accounting
+ *
+ * A single SMS holds 160 GSM-7 characters, or 70 UCS-2 code units as soon as
+ * one character falls outside GSM-7 (most emoji, "á", "í", "ó", "ú").
+ * Concatenated messages lose room to the UDH header: 153 / 67 per segment.
+ * Carriers bill per segment and some handsets mangle long concatenations,
+ * so long replies are split into several messages of ≤ maxSegments each,
+ * on paragraph → line → sentence → word boundaries.
+ */
+
+const GSM7_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Escape-table characters cost two septets
+const GSM7_EXTENDED = '^{}\\[~]|€\f';
+
+const GSM7_BASIC_SET = new Set(GSM7_BASIC);
+const GSM7_EXTENDED_SET = new Set(GSM7_EXTENDED);
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SegmentInfo {
+  encoding: SmsEncoding;
+  units: number;      // septets (GSM-7) or UTF-16 code units (UCS-2)
+  segments: number;
+}
+
+export function getEncoding(text: string): SmsEncoding {
+  for (const ch of text) {
+    if (!GSM7_BASIC_SET.has(ch) && !GSM7_EXTENDED_SET.has(ch)) return 'UCS-2';
+  }
+  return 'GSM-7';
+}
+
+export function countSegments(text: string): SegmentInfo {
+  const encoding = getEncoding(text);
+
+  const units = encoding === 'GSM-7'
+    ? [...text].reduce((n, ch) => n + (GSM7_EXTENDED_SET.has(ch) ? 2 : 1), 0)
+    : text.length;
+
+  const [single, multi] = encoding === 'GSM-7' ? [160, 153] : [70, 67];
+  const segments = units === 0 ? 1 : units <= single ? 1 : Math.ceil(units / multi);
+
+  return { encoding, units, segments };
+}
+
+/**
+ * WhatsApp-style formatting shows up literally on SMS — drop the markers
+ * and swap typographic punctuation for ASCII so more replies stay GSM-7.
+ */
+export function toSmsText(text: string): string {
+  return text
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/(^|\s)_([^_\n]+)_(?=\s|$)/g, '$1$2')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '-');
+}
+
+// Room kept for the "(2/3)" part marker
+const PART_MARKER_RESERVE = '\n(99/99)';
+
+const SEPARATORS: Array<{ split: RegExp; join: string }> = [
+  { split: /\n{2,}/, join: '\n\n' },
+  { split: /\n/, join: '\n' },
+  { split: /(?<=[.!?])\s+/, join: ' ' },
+  { split: / +/, join: ' ' },
+];
+
+/**
+ * Split text into messages of at most maxSegments segments each.
+ * Multi-part results are numbered "(1/3)", "(2/3)", …
+ */
+export function splitForSms(text: string, maxSegments: number): string[] {
+  const trimmed = text.trim();
+  if (countSegments(trimmed).segments <= maxSegments) return [trimmed];
+
+  const fits = (s: string) => countSegments(s + PART_MARKER_RESERVE).segments <= maxSegments;
+  const parts = splitToFit(trimmed, fits, 0);
+
+  return parts.map((part, i) => `${part}\n(${i + 1}/${parts.length})`);
+}
+
+function splitToFit(text: string, fits: (s: string) => boolean, level: number): string[] {
+  if (fits(text)) return [text];
+
+  const separator = SEPARATORS[level];
+  if (!separator) return hardSplit(text, fits);
+
+  const pieces = text.split(separator.split).filter(p => p.length > 0);
+  if (pieces.length < 2) return splitToFit(text, fits, level + 1);
+
+  const result: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? current + separator.join + piece : piece;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) result.push(current);
+
+    if (fits(piece)) {
+      current = piece;
+    } else {
+      const sub = splitToFit(piece, fits, level + 1);
+      result.push(...sub.slice(0, -1));
+      current = sub[sub.length - 1] ?? '';
+    }
+  }
+
+  if (current) result.push(current);
+  return result;
+}
+
+// Last resort for a single unbroken run longer than a message
+function hardSplit(text: string, fits: (s: string) => boolean): string[] {
+  const result: string[] = [];
+  let current = '';
+
+  for (const ch of text) {
+    if (fits(current + ch)) {
+      current += ch;
+    } else {
+      result.push(current);
+      current = ch;
+    }
+  }
+
+  if (current) result.push(current);
+  return result;
+}
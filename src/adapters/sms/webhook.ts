@@ -0,0 +1,83 @@
+/**
+ * Twilio-style SMS/MMS webhooks
+ *
+ * - Deliveries are application/x-www-form-urlencoded: From, To, Body,
+ *   MessageSid, NumMedia, MediaUrl0..N, MediaContentType0..N
+ * - X-Twilio-Signature: base64 HMAC-SHA1 (auth token) of the webhook URL
+ *   followed by every POST param, sorted by name, as name+value
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Attachment } from '../../shared/types';
+import { SMS_MEDIA_PREFIX } from '../messaging/channel';
+
+export type TwilioParams = Record<string, string>;
+
+export interface SmsInboundMessage {
+  messageSid: string;
+  phone: string;
+  to: string | null;
+  text: string;
+  attachments: Attachment[];
+}
+
+export function computeTwilioSignature(authToken: string, url: string, params: TwilioParams): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  return createHmac('sha1', authToken).update(data).digest('base64');
+}
+
+export function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: TwilioParams,
+  header: string | undefined,
+): boolean {
+  if (!header) return false;
+
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params));
+  const provided = Buffer.from(header);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+function mapContentType(contentType: string): Attachment['type'] {
+  if (contentType.startsWith('image')) return 'image';
+  if (contentType.startsWith('audio')) return 'audio';
+  if (contentType.startsWith('video')) return 'video';
+  return 'document';
+}
+
+/**
+ * Returns null for deliveries that are not an inbound message
+ * (status callbacks carry MessageStatus and no From/Body).
+ */
+export function parseTwilioWebhook(params: TwilioParams): SmsInboundMessage | null {
+  const messageSid = params.MessageSid || params.SmsSid;
+  if (!messageSid || !params.From) return null;
+
+  const attachments: Attachment[] = [];
+  const numMedia = parseInt(params.NumMedia || '0', 10);
+  for (let i = 0; i < numMedia; i++) {
+    const url = params[`MediaUrl${i}`];
+    if (!url) continue;
+
+    const mimeType = params[`MediaContentType${i}`] || 'application/octet-stream';
+    attachments.push({
+      type: mapContentType(mimeType),
+      url: `${SMS_MEDIA_PREFIX}${url}`,
+      mimeType,
+    });
+  }
+
+  const digits = params.From.replace(/[^\d+]/g, '');
+
+  return {
+    messageSid,
+    phone: digits.startsWith('+') ? digits : `+${digits}`,
+    to: params.To || null,
+    text: params.Body ?? '',
+    attachments,
+  };
+}
@@ -0,0 +1,153 @@
+import { config } from '../../config';
+import { WhatsAppError } from '../../shared/errors';
+import { logger } from '../../infra/logging/logger';
+import {
+  MessagingChannel,
+  ChannelTarget,
+  TemplateMessage,
+  DownloadedMedia,
+  WHATSAPP_MEDIA_PREFIX,
+  guessMimeType,
+} from '../messaging/channel';
+
+/**
+ * MessagingChannel that talks to the WhatsApp Cloud API directly.
+ *
+ * WHATSAPP_API_URL defaults to the Graph API; point it at the fake server
+ * (adapters/whatsapp/fake-server.ts) to run without Meta.
+ */
+export class WhatsAppCloudChannel implements MessagingChannel {
+  readonly name = 'whatsapp' as const;
+  readonly supportsAttachments = true;
+
+  private baseUrl: string;
+  private phoneNumberId: string;
+  private accessToken: string;
+
+  constructor() {
+    this.baseUrl = config.whatsappApiUrl;
+    this.phoneNumberId = config.whatsappPhoneNumberId ?? '';
+    this.accessToken = config.whatsappAccessToken ?? '';
+  }
+
+  async sendMessage(target: ChannelTarget, content: string): Promise<void> {
+    await this.postMessage(target, {
+      type: 'text',
+      text: { body: content, preview_url: true },
+    });
+  }
+
+  /**
+   * Upload the file to Meta, then send it as a document (or image).
+   */
+  async sendAttachment(target: ChannelTarget, fileBuffer: Buffer, fileName: string, caption?: string): Promise<void> {
+    const mimeType = guessMimeType(fileName);
+    const mediaId = await this.uploadMedia(fileBuffer, fileName, mimeType);
+
+    const isImage = mimeType.startsWith('image/');
+    await this.postMessage(target, isImage
+      ? { type: 'image', image: { id: mediaId, caption } }
+      : { type: 'document', document: { id: mediaId, filename: fileName, caption } });
+  }
+
+  async sendTemplate(target: ChannelTarget, template: TemplateMessage): Promise<void> {
+    const params = template.bodyParams ?? [];
+    await this.postMessage(target, {
+      type: 'template',
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components: params.length > 0
+          ? [{ type: 'body', parameters: params.map(text => ({ type: 'text', text })) }]
+          : [],
+      },
+    });
+  }
+
+  /**
+   * Resolve a `whatsapp-media:<id>` reference to a short-lived URL, then
+   * download it (both calls need the access token).
+   */
+  async downloadMedia(ref: string): Promise<DownloadedMedia> {
+    const mediaId = ref.startsWith(WHATSAPP_MEDIA_PREFIX) ? ref.slice(WHATSAPP_MEDIA_PREFIX.length) : ref;
+
+    const meta = await this.request<{ url: string; mime_type?: string }>(`/${mediaId}`, { method: 'GET' });
+
+    try {
+      const response = await fetch(meta.url, {
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+      });
+      if (!response.ok) {
+        throw new WhatsAppError(`Failed to download media: ${response.status}`);
+      }
+
+      return {
+        buffer: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || meta.mime_type || 'application/octet-stream',
+      };
+    } catch (error) {
+      if (error instanceof WhatsAppError) throw error;
+      const err = error as Error;
+      throw new WhatsAppError(`Network error: ${err.message}`, err);
+    }
+  }
+
+  private async uploadMedia(fileBuffer: Buffer, fileName: string, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', mimeType);
+    form.append('file', new Blob([fileBuffer], { type: mimeType }), fileName);
+
+    const result = await this.request<{ id: string }>(`/${this.phoneNumberId}/media`, {
+      method: 'POST',
+      body: form,
+    });
+    return result.id;
+  }
+
+  private async postMessage(target: ChannelTarget, message: Record<string, unknown>): Promise<void> {
+    if (!target.phone) {
+      throw new WhatsAppError('Cloud API messages need a phone number');
+    }
+
+    const result = await this.request<{ messages?: Array<{ id: string }> }>(`/${this.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: target.phone.replace(/^\+/, ''),
+        ...message,
+      }),
+    });
+
+    logger.debug({ type: message.type, messageId: result.messages?.[0]?.id }, 'Message sent via WhatsApp Cloud API');
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    if (!this.phoneNumberId || !this.accessToken) {
+      throw new WhatsAppError('WHATSAPP_PHONE_NUMBER_ID / WHATSAPP_ACCESS_TOKEN not configured');
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          ...(init.headers as Record<string, string> | undefined),
+          Authorization: `Bearer ${this.accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new WhatsAppError(`Cloud API ${init.method ?? 'GET'} ${path} failed: ${response.status} ${error}`);
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      if (error instanceof WhatsAppError) throw error;
+      const err = error as Error;
+      throw new WhatsAppError(`Network error: ${err.message}`, err);
+    }
+  }
+}
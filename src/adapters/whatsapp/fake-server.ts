@@ -0,0 +1,147 @@
+/**
+ * Fake WhatsApp Cloud API
+ *
+ * Lets the direct channel run end-to-end without Meta:
+ *
+ *   POST /:phoneNumberId/messages  — accepts sends, records them
+ *   POST /:phoneNumberId/media     — accepts uploads, returns a media id
+ *   GET  /:mediaId                 — media metadata (url points back here)
+ *   GET  /files/:mediaId           — media bytes
+ *
+ *   GET  /__messages               — everything sent so far
+ *   POST /__inbound                — { phone, text?, name? } → signed webhook
+ *                                    delivered to the API's /ingest/whatsapp
+ *
+ * Usage:
+ *   npm run fake:whatsapp
+ *   WHATSAPP_API_URL=http://localhost:4010 npm run dev
+ */
+
+import Fastify from 'fastify';
+import { randomBytes } from 'crypto';
+import { computeHubSignature } from './webhook';
+
+const PORT = parseInt(process.env.FAKE_WHATSAPP_PORT || '4010', 10);
+const TARGET_URL = process.env.FAKE_WHATSAPP_TARGET || 'http://localhost:3000/ingest/whatsapp';
+const APP_SECRET = process.env.WHATSAPP_APP_SECRET || 'fake-app-secret';
+const PHONE_NUMBER_ID = process.env.WHATSAPP_PHONE_NUMBER_ID || '100000000000000';
+
+interface SentMessage {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  type: string;
+  body: Record<string, unknown>;
+  sentAt: string;
+}
+
+const sent: SentMessage[] = [];
+const media = new Map<string, { buffer: Buffer; mimeType: string }>();
+
+const newId = (prefix: string) => `${prefix}${randomBytes(12).toString('hex')}`;
+
+const app = Fastify({ logger: true });
+
+app.addContentTypeParser('multipart/form-data', { parseAs: 'buffer' }, (_request, body, done) => {
+  done(null, body);
+});
+
+app.post('/:phoneNumberId/messages', async (request) => {
+  const { phoneNumberId } = request.params as { phoneNumberId: string };
+  const body = request.body as Record<string, unknown>;
+  const id = newId('wamid.');
+
+  sent.push({
+    id,
+    phoneNumberId,
+    to: String(body.to ?? ''),
+    type: String(body.type ?? 'text'),
+    body,
+    sentAt: new Date().toISOString(),
+  });
+
+  return {
+    messaging_product: 'whatsapp',
+    contacts: [{ input: body.to, wa_id: body.to }],
+    messages: [{ id }],
+  };
+});
+
+app.post('/:phoneNumberId/media', async (request) => {
+  const id = newId('media');
+  const contentType = request.headers['content-type'] ?? 'application/octet-stream';
+  // Multipart is stored as-is — good enough to check that an upload happened
+  media.set(id, { buffer: request.body as Buffer, mimeType: contentType });
+  return { id };
+});
+
+app.get('/files/:mediaId', async (request, reply) => {
+  const { mediaId } = request.params as { mediaId: string };
+  const file = media.get(mediaId);
+  if (!file) return reply.status(404).send({ error: 'unknown media' });
+  return reply.type(file.mimeType).send(file.buffer);
+});
+
+app.get('/__messages', async () => ({ messages: sent }));
+
+app.delete('/__messages', async () => {
+  sent.length = 0;
+  return { cleared: true };
+});
+
+app.post('/__inbound', async (request, reply) => {
+  const { phone, text = '', name = 'Test User' } = request.body as { phone: string; text?: string; name?: string };
+  const from = phone.replace(/^\+/, '');
+
+  const payload = {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'fake-waba',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: '15550000000', phone_number_id: PHONE_NUMBER_ID },
+          contacts: [{ wa_id: from, profile: { name } }],
+          messages: [{
+            id: newId('wamid.'),
+            from,
+            timestamp: String(Math.floor(Date.now() / 1000)),
+            type: 'text',
+            text: { body: text },
+          }],
+        },
+      }],
+    }],
+  };
+
+  const rawBody = JSON.stringify(payload);
+  const response = await fetch(TARGET_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Hub-Signature-256': computeHubSignature(APP_SECRET, rawBody),
+    },
+    body: rawBody,
+  });
+
+  return reply.status(response.status).send(await response.json());
+});
+
+// Registered last: media metadata lookups are GET /:mediaId
+app.get('/:mediaId', async (request, reply) => {
+  const { mediaId } = request.params as { mediaId: string };
+  const file = media.get(mediaId);
+  if (!file) return reply.status(404).send({ error: { message: 'Unsupported get request' } });
+
+  return {
+    id: mediaId,
+    mime_type: file.mimeType,
+    url: `http://localhost:${PORT}/files/${mediaId}`,
+  };
+});
+
+app.listen({ port: PORT, host: '0.0.0.0' }).catch((err) => {
+  app.log.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * WhatsApp Cloud API webhooks
+ *
+ * - GET handshake: Meta sends hub.mode=subscribe + hub.verify_token and
+ *   expects hub.challenge echoed back
+ * - POST deliveries are signed: X-Hub-Signature-256: sha256=<hex HMAC of
+ *   the raw body with the app secret>
+ * - Payload: entry[].changes[].value.{messages[], contacts[], statuses[]}
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Attachment } from '../../shared/types';
+import { WHATSAPP_MEDIA_PREFIX } from '../messaging/channel';
+
+export interface CloudWebhookPayload {
+  object?: string;
+  entry?: Array<{
+    id?: string;
+    changes?: Array<{
+      field?: string;
+      value?: {
+        metadata?: { phone_number_id?: string; display_phone_number?: string };
+        contacts?: Array<{ wa_id?: string; profile?: { name?: string } }>;
+        messages?: CloudMessage[];
+      };
+    }>;
+  }>;
+}
+
+interface CloudMedia {
+  id?: string;
+  mime_type?: string;
+  caption?: string;
+  filename?: string;
+}
+
+interface CloudMessage {
+  id?: string;
+  from?: string;
+  timestamp?: string;
+  type?: string;
+  text?: { body?: string };
+  image?: CloudMedia;
+  audio?: CloudMedia;
+  voice?: CloudMedia;
+  video?: CloudMedia;
+  document?: CloudMedia;
+}
+
+export interface CloudInboundMessage {
+  messageId: string;
+  phone: string;
+  name: string | null;
+  phoneNumberId: string | null;
+  text: string;
+  attachments: Attachment[];
+  timestamp: string;
+}
+
+export function computeHubSignature(appSecret: string, rawBody: string): string {
+  return `sha256=${createHmac('sha256', appSecret).update(rawBody).digest('hex')}`;
+}
+
+export function verifyHubSignature(rawBody: string, header: string | undefined, appSecret: string): boolean {
+  if (!header) return false;
+
+  const expected = Buffer.from(computeHubSignature(appSecret, rawBody));
+  const provided = Buffer.from(header);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+const MEDIA_TYPES: Record<string, Attachment['type']> = {
+  image: 'image',
+  audio: 'audio',
+  voice: 'audio',
+  video: 'video',
+  document: 'document',
+};
+
+/**
+ * Flatten a delivery into user messages (status callbacks are ignored).
+ */
+export function parseCloudWebhook(payload: CloudWebhookPayload): CloudInboundMessage[] {
+  const result: CloudInboundMessage[] = [];
+
+  for (const entry of payload.entry ?? []) {
+    for (const change of entry.changes ?? []) {
+      const value = change.value;
+      if (!value?.messages) continue;
+
+      for (const msg of value.messages) {
+        if (!msg.id || !msg.from) continue;
+
+        const contact = value.contacts?.find(c => c.wa_id === msg.from);
+        const attachments: Attachment[] = [];
+        let text = msg.text?.body ?? '';
+
+        const mediaType = msg.type ? MEDIA_TYPES[msg.type] : undefined;
+        const media = msg.type ? (msg as Record<string, unknown>)[msg.type] as CloudMedia | undefined : undefined;
+        if (mediaType && media?.id) {
+          attachments.push({
+            type: mediaType,
+            url: `${WHATSAPP_MEDIA_PREFIX}${media.id}`,
+            mimeType: media.mime_type,
+            fileName: media.filename,
+          });
+          text = text || media.caption || '';
+        }
+
+        result.push({
+          messageId: msg.id,
+          phone: `+${msg.from}`,
+          name: contact?.profile?.name ?? null,
+          phoneNumberId: value.metadata?.phone_number_id ?? null,
+          text,
+          attachments,
+          timestamp: msg.timestamp
+            ? new Date(Number(msg.timestamp) * 1000).toISOString()
+            : new Date().toISOString(),
+        });
+      }
+    }
+  }
+
+  return result;
+}
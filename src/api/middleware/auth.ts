@@ -1,7 +1,26 @@
-import { FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
 import { config } from '../../config';
-import { UnauthorizedError } from '../../shared/errors';
+import { db } from '../../infra/db/client';
+import { ForbiddenError, UnauthorizedError } from '../../shared/errors';
+import { Permission, hasPermission } from '../../shared/permissions';
+import { ApiKeyService, ApiKeyPrincipal } from '../../domain/api-key/service';
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    apiKey?: ApiKeyPrincipal;
+  }
+}
+
+export const apiKeyService = new ApiKeyService(db);
+
+// API_SECRET_KEY stays valid as a bootstrap admin key (to create the first DB keys)
+const ENV_ADMIN_KEY: ApiKeyPrincipal = { id: 'env', name: 'API_SECRET_KEY', role: 'admin' };
+
+/**
+ * Authenticate the request's API key (X-API-Key or Authorization: Bearer)
+ * and attach it as request.apiKey. Any active key passes; use
+ * requirePermission() to restrict a route to certain roles.
+ */
 export async function authMiddleware(
   request: FastifyRequest,
   reply: FastifyReply
@@ -11,6 +30,11 @@ export async function authMiddleware(
     return;
   }
 
+  // Already authenticated by an earlier hook
+  if (request.apiKey) {
+    return;
+  }
+
   const apiKey = request.headers['x-api-key'] as string;
   const authHeader = request.headers['authorization'] as string;
 
@@ -29,58 +53,39 @@ export async function authMiddleware(
     throw new UnauthorizedError('Missing API key or authorization token');
   }
 
-  // Validate token
-  if (token !== config.apiSecretKey) {
+  const principal = token === config.apiSecretKey
+    ? ENV_ADMIN_KEY
+    : await apiKeyService.authenticate(token, request.ip);
+
+  if (!principal) {
     request.log.warn({ providedKey: token.substring(0, 8) + '...' }, 'Invalid API key attempt');
     throw new UnauthorizedError('Invalid API key');
   }
 
-  // Token is valid - could add additional claims/permissions here
-  request.log.debug('API key validated');
+  request.apiKey = principal;
+  request.log.debug({ apiKeyId: principal.id, role: principal.role }, 'API key validated');
 }
 
-// Optional: Rate limiting decorator for specific endpoints
-export function rateLimit(options: {
-  windowMs: number;
-  maxRequests: number;
-}) {
-  const requests = new Map<string, { count: number; resetAt: number }>();
-
-  return async function rateLimitMiddleware(
-    request: FastifyRequest,
-    reply: FastifyReply
-  ): Promise<void> {
-    const key = request.ip;
-    const now = Date.now();
-
-    let record = requests.get(key);
-
-    // Clean up expired records periodically
-    if (requests.size > 10000) {
-      for (const [k, v] of requests.entries()) {
-        if (v.resetAt < now) {
-          requests.delete(k);
-        }
-      }
-    }
-
-    if (!record || record.resetAt < now) {
-      record = {
-        count: 0,
-        resetAt: now + options.windowMs,
-      };
-      requests.set(key, record);
-    }
-
-    record.count++;
+/**
+ * Authenticate, then check the key's role grants `permission`
+ * (see shared/permissions.ts).
+ */
+export async function checkPermission(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  permission: Permission
+): Promise<void> {
+  await authMiddleware(request, reply);
 
-    reply.header('X-RateLimit-Limit', options.maxRequests);
-    reply.header('X-RateLimit-Remaining', Math.max(0, options.maxRequests - record.count));
-    reply.header('X-RateLimit-Reset', Math.ceil(record.resetAt / 1000));
+  const principal = request.apiKey;
+  if (!principal || !hasPermission(principal.role, permission)) {
+    request.log.warn({ apiKeyId: principal?.id, role: principal?.role, permission }, 'API key lacks permission');
+    throw new ForbiddenError(`Missing permission: ${permission}`);
+  }
+}
 
-    if (record.count > options.maxRequests) {
-      reply.status(429);
-      throw new Error('Too many requests');
-    }
+export function requirePermission(permission: Permission): preHandlerHookHandler {
+  return async function permissionMiddleware(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    await checkPermission(request, reply, permission);
   };
 }
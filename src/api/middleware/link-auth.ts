@@ -0,0 +1,142 @@
+import { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
+import { config } from '../../config';
+import { db } from '../../infra/db/client';
+import { ForbiddenError, UnauthorizedError } from '../../shared/errors';
+import { LinkScope, LinkTokenPayload, verifyLinkToken } from '../../shared/link-token';
+import { UserService } from '../../domain/user/service';
+import { checkPermission } from './auth';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    linkToken?: LinkTokenPayload;
+  }
+}
+
+const userService = new UserService(db);
+
+// One cookie per user so a coach can have several patients open at once
+const LINK_COOKIE_PREFIX = 'pl_';
+
+type LinkCheck =
+  | { ok: true; payload: LinkTokenPayload }
+  | { ok: false; reason: 'missing' | 'invalid' | 'expired' | 'wrong_user' | 'revoked' | 'insufficient_scope' };
+
+function readCookie(request: FastifyRequest, name: string): string | undefined {
+  const header = request.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return undefined;
+}
+
+/**
+ * Token for this user from ?t=, X-Link-Token, or the page cookie (in that order).
+ */
+function readLinkToken(request: FastifyRequest, userId: string): string | undefined {
+  const queryToken = (request.query as { t?: string } | undefined)?.t;
+  const headerToken = request.headers['x-link-token'] as string | undefined;
+  return queryToken || headerToken || readCookie(request, `${LINK_COOKIE_PREFIX}${userId}`);
+}
+
+async function checkLinkToken(token: string | undefined, userId: string, scope: LinkScope): Promise<LinkCheck> {
+  if (!token) return { ok: false, reason: 'missing' };
+
+  const result = verifyLinkToken(token);
+  if (!result.valid) {
+    return { ok: false, reason: result.reason === 'expired' ? 'expired' : 'invalid' };
+  }
+
+  const { payload } = result;
+  if (payload.userId !== userId) return { ok: false, reason: 'wrong_user' };
+  if (scope === 'edit' && payload.scope !== 'edit') return { ok: false, reason: 'insufficient_scope' };
+
+  const revokedAt = await userService.getLinksRevokedAt(userId);
+  if (revokedAt && payload.issuedAt <= Math.floor(revokedAt.getTime() / 1000)) {
+    return { ok: false, reason: 'revoked' };
+  }
+
+  return { ok: true, payload };
+}
+
+/**
+ * preHandler for the JSON APIs behind patient pages (route must have :userId).
+ *
+ * Staff with an API key go through the normal role check (view → users:read,
+ * edit → concerns:write); everyone else needs a link token for this user
+ * with at least `scope`.
+ */
+export function requireUserAccess(scope: LinkScope): preHandlerHookHandler {
+  return async function userAccessMiddleware(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (request.headers['x-api-key'] || request.headers['authorization']?.startsWith('Bearer ')) {
+      return checkPermission(request, reply, scope === 'view' ? 'users:read' : 'concerns:write');
+    }
+
+    const { userId } = request.params as { userId: string };
+    const check = await checkLinkToken(readLinkToken(request, userId), userId, scope);
+
+    if (!check.ok) {
+      request.log.warn({ userId, scope, reason: check.reason }, 'Link token rejected');
+      if (check.reason === 'insufficient_scope' || check.reason === 'wrong_user') {
+        throw new ForbiddenError('This link does not allow that action');
+      }
+      throw new UnauthorizedError('Link is missing, expired or revoked');
+    }
+
+    request.linkToken = check.payload;
+  };
+}
+
+const LINK_INVALID_PAGE = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Plato Inteligente</title></head>
+<body style="font-family: sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; color: #333;">
+<p>Este enlace expiró o ya no es válido. Escríbenos por WhatsApp y te enviamos uno nuevo.</p>
+<p>This link has expired or is no longer valid. Message us on WhatsApp and we'll send you a new one.</p>
+</body></html>`;
+
+/**
+ * Serve a patient page. A valid ?t= token is moved into an HttpOnly cookie
+ * (so the page's own API calls and links between pages keep working) and
+ * stripped from the URL; otherwise the cookie must already hold one.
+ */
+export async function servePatientPage(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  userId: string,
+  file: string,
+): Promise<FastifyReply> {
+  const cookieName = `${LINK_COOKIE_PREFIX}${userId}`;
+  const queryToken = (request.query as { t?: string } | undefined)?.t;
+  const cookieToken = readCookie(request, cookieName);
+  const check = await checkLinkToken(queryToken || cookieToken, userId, 'view');
+
+  if (!check.ok) {
+    request.log.info({ userId, reason: check.reason }, 'Page link rejected');
+    return reply.status(401).type('text/html').send(LINK_INVALID_PAGE);
+  }
+
+  if (queryToken) {
+    // Opening a view-only link must not downgrade an edit session
+    const keepCookie = check.payload.scope === 'view'
+      && (await checkLinkToken(cookieToken, userId, 'edit')).ok;
+
+    const url = new URL(request.url, 'http://local');
+    url.searchParams.delete('t');
+    if (keepCookie) {
+      return reply.redirect(302, `${url.pathname}${url.search}`);
+    }
+
+    const maxAge = Math.max(0, check.payload.expiresAt - Math.floor(Date.now() / 1000));
+    const secure = config.nodeEnv === 'production' ? '; Secure' : '';
+    reply.header(
+      'Set-Cookie',
+      `${cookieName}=${encodeURIComponent(queryToken)}; Max-Age=${maxAge}; Path=/; HttpOnly; SameSite=Lax${secure}`,
+    );
+    return reply.redirect(302, `${url.pathname}${url.search}`);
+  }
+
+  return reply.sendFile(file);
+}
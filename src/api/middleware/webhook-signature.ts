@@ -0,0 +1,189 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../../config';
+import { db } from '../../infra/db/client';
+import { redis } from '../../infra/queue/client';
+import { UnauthorizedError } from '../../shared/errors';
+import { verifySignature } from '../../shared/webhook-signature';
+import { verifyHubSignature } from '../../adapters/whatsapp/webhook';
+import { verifyTwilioSignature, TwilioParams } from '../../adapters/sms/webhook';
+import { WebhookSecretService } from '../../domain/webhook/service';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+  }
+}
+
+export const webhookSecretService = new WebhookSecretService(db, redis);
+
+/**
+ * Enforce rejects every failed check. Monitor only lets a delivery through
+ * while its channel has no secret configured — once it has one, a bad or
+ * missing signature is rejected in monitor too.
+ */
+function shouldReject(secretConfigured: boolean): boolean {
+  return config.webhookSignatureMode === 'enforce' || secretConfigured;
+}
+
+/**
+ * Keep the raw JSON body on the request so the HMAC can be computed over
+ * the exact bytes Chatwoot signed. Scoped to the plugin that calls it.
+ * Also parses Twilio's form posts into a flat params object.
+ */
+export function captureRawBody(app: FastifyInstance): void {
+  app.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => {
+    const raw = body as string;
+    request.rawBody = raw;
+    done(null, Object.fromEntries(new URLSearchParams(raw)));
+  });
+
+  app.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    const raw = body as string;
+    request.rawBody = raw;
+    try {
+      done(null, raw.length > 0 ? JSON.parse(raw) : {});
+    } catch (err) {
+      const error = err as Error & { statusCode?: number };
+      error.statusCode = 400;
+      done(error, undefined);
+    }
+  });
+}
+
+/**
+ * Verify X-Chatwoot-Signature / X-Chatwoot-Timestamp on webhook deliveries.
+ *
+ * Modes (WEBHOOK_SIGNATURE_MODE):
+ *   enforce — reject unsigned or mis-signed deliveries with 401 (default)
+ *   monitor — rollout opt-in: count + log failures, and let the delivery
+ *             through only if the inbox has no secret configured yet
+ *   off     — skip verification entirely
+ */
+export async function verifyChatwootSignature(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (config.webhookSignatureMode === 'off') {
+    return;
+  }
+
+  const body = request.body as { inbox?: { id?: number } } | undefined;
+  const inboxId = body?.inbox?.id ?? null;
+  const signature = request.headers['x-chatwoot-signature'] as string | undefined;
+  const timestamp = request.headers['x-chatwoot-timestamp'] as string | undefined;
+
+  const secrets = await webhookSecretService.getActiveSecrets(inboxId);
+
+  let check = verifySignature({
+    rawBody: request.rawBody ?? '',
+    timestamp,
+    signature,
+    secrets,
+    toleranceSeconds: config.webhookToleranceSeconds,
+  });
+
+  // Same signature twice inside the window = replayed delivery
+  if (check.valid && signature) {
+    const firstSeen = await webhookSecretService.claimSignature(
+      signature,
+      config.webhookToleranceSeconds * 2,
+    );
+    if (!firstSeen) {
+      check = { valid: false, reason: 'replayed' };
+    }
+  }
+
+  if (check.valid) {
+    await webhookSecretService.markUsed(check.secretId!);
+    return;
+  }
+
+  await webhookSecretService.recordRejection(check.reason!, inboxId);
+
+  request.log.warn({
+    reason: check.reason,
+    inboxId,
+    ip: request.ip,
+    mode: config.webhookSignatureMode,
+  }, 'Webhook signature verification failed');
+
+  if (shouldReject(secrets.length > 0)) {
+    throw new UnauthorizedError('Invalid webhook signature');
+  }
+}
+
+/**
+ * Verify X-Hub-Signature-256 on WhatsApp Cloud API deliveries (HMAC of the
+ * raw body with WHATSAPP_APP_SECRET). Same modes as verifyChatwootSignature.
+ */
+export async function verifyWhatsAppSignature(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  if (config.webhookSignatureMode === 'off') {
+    return;
+  }
+
+  const signature = request.headers['x-hub-signature-256'] as string | undefined;
+  const valid = !!config.whatsappAppSecret
+    && verifyHubSignature(request.rawBody ?? '', signature, config.whatsappAppSecret);
+
+  if (valid) {
+    return;
+  }
+
+  const reason = !config.whatsappAppSecret ? 'no_secret_configured'
+    : signature ? 'signature_mismatch'
+    : 'missing_signature';
+  await webhookSecretService.recordRejection(reason, null);
+
+  request.log.warn({
+    reason,
+    channel: 'whatsapp',
+    ip: request.ip,
+    mode: config.webhookSignatureMode,
+  }, 'Webhook signature verification failed');
+
+  if (shouldReject(!!config.whatsappAppSecret)) {
+    throw new UnauthorizedError('Invalid webhook signature');
+  }
+}
+
+/**
+ * Verify X-Twilio-Signature on SMS deliveries. Twilio signs the public
+ * webhook URL, so set TWILIO_WEBHOOK_URL when behind a proxy that rewrites
+ * the host. Same modes as verifyChatwootSignature.
+ */
+export async function verifyTwilioRequest(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  if (config.webhookSignatureMode === 'off') {
+    return;
+  }
+
+  const signature = request.headers['x-twilio-signature'] as string | undefined;
+  const url = config.twilioWebhookUrl ?? `${request.protocol}://${request.hostname}${request.url}`;
+  const valid = !!config.twilioAuthToken
+    && verifyTwilioSignature(config.twilioAuthToken, url, request.body as TwilioParams, signature);
+
+  if (valid) {
+    return;
+  }
+
+  const reason = !config.twilioAuthToken ? 'no_secret_configured'
+    : signature ? 'signature_mismatch'
+    : 'missing_signature';
+  await webhookSecretService.recordRejection(reason, null);
+
+  request.log.warn({
+    reason,
+    channel: 'sms',
+    ip: request.ip,
+    mode: config.webhookSignatureMode,
+  }, 'Webhook signature verification failed');
+
+  if (shouldReject(!!config.twilioAuthToken)) {
+    throw new UnauthorizedError('Invalid webhook signature');
+  }
+}
@@ -1,12 +1,47 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { db, query, queryOne, queryMany } from '../../infra/db/client';
-import { authMiddleware } from '../middleware/auth';
+import { apiKeyService, requirePermission } from '../middleware/auth';
+import { UserService } from '../../domain/user/service';
+import { webhookSecretService } from '../middleware/webhook-signature';
+import { redis, requeueInboundJob, addAccountDeletionJob, addNightlyDigestJob } from '../../infra/queue/client';
+import { DeadLetterService } from '../../domain/dead-letter/service';
+import { IngestThrottleService } from '../../domain/throttle/service';
+import { MessagingService } from '../../domain/messaging/service';
+import { OnboardingFlowService, onboardingFlowDefinitionSchema } from '../../domain/onboarding/service';
+import { MessageCatalogService } from '../../domain/messages/service';
+import { ArchetypeClassificationService } from '../../domain/archetype/classification';
+import { OptOutService } from '../../domain/opt-out/service';
+import { AccountDeletionService, DeletionStatus } from '../../domain/account-deletion/service';
+import { LanguagePreferenceService } from '../../domain/language/service';
+import { DigestBatchService } from '../../domain/digest/batches';
+import { DigestRunService } from '../../domain/digest/runs';
 import { BadRequestError, NotFoundError } from '../../shared/errors';
+import { API_KEY_ROLES } from '../../shared/permissions';
+import { isMessageKey } from '../../shared/message-catalog';
+import { localTimeString, resolveTimezone } from '../../shared/timezone';
+
+const deadLetterService = new DeadLetterService(db);
+const userService = new UserService(db);
+const ingestThrottle = new IngestThrottleService(redis);
+const messagingService = new MessagingService(db);
+const onboardingFlowService = new OnboardingFlowService(db);
+const messageCatalogService = new MessageCatalogService(db);
+const archetypeClassificationService = new ArchetypeClassificationService(db);
+const optOutService = new OptOutService(db);
+const accountDeletionService = new AccountDeletionService(db);
+const languageService = new LanguagePreferenceService(db);
+const digestRunService = new DigestRunService(db);
+const digestBatchService = new DigestBatchService(db);
+
+const scheduleDeletionSchema = z.object({
+  immediate: z.boolean().default(false),
+  reason: z.string().max(1000).optional(),
+});
 
 export const adminRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
-  // Apply auth to all admin routes
-  app.addHook('preHandler', authMiddleware);
+  // Admin routes need an admin-role key
+  app.addHook('preHandler', requirePermission('admin'));
 
   // ============================================================================
   // Feature Flags
@@ -193,47 +228,77 @@ export const adminRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
   });
 
   // ============================================================================
-  // Templates
+  // Templates (per-language overrides of the message catalog)
   // ============================================================================
 
   app.get('/templates', async (request, reply) => {
     const templates = await queryMany<{
       key: string;
-      content_es: string;
+      content_es: string | null;
       content_en: string | null;
+      content_pt: string | null;
+      content_fr: string | null;
       description: string | null;
       updated_at: Date;
-    }>('SELECT key, content_es, content_en, description, updated_at FROM config_templates ORDER BY key');
+    }>('SELECT key, content_es, content_en, content_pt, content_fr, description, updated_at FROM config_templates ORDER BY key');
 
     return { success: true, data: templates };
   });
 
   app.post('/templates/:key', async (request, reply) => {
     const { key } = request.params as { key: string };
+    if (!isMessageKey(key)) {
+      throw new BadRequestError(`Unknown message key: ${key} (see GET /admin/messages)`);
+    }
+
+    // Omitted language = keep, null = back to the built-in text
+    const content = z.string().min(1).nullable().optional();
     const schema = z.object({
-      contentEs: z.string().min(1),
-      contentEn: z.string().optional(),
+      contentEs: content,
+      contentEn: content,
+      contentPt: content,
+      contentFr: content,
       description: z.string().optional(),
     });
 
     const body = schema.parse(request.body);
 
-    await query(
-      `INSERT INTO config_templates (key, content_es, content_en, description, updated_at)
-       VALUES ($1, $2, $3, $4, NOW())
-       ON CONFLICT (key) DO UPDATE SET
-         content_es = EXCLUDED.content_es,
-         content_en = EXCLUDED.content_en,
-         description = COALESCE(EXCLUDED.description, config_templates.description),
-         updated_at = NOW()`,
-      [key, body.contentEs, body.contentEn, body.description]
-    );
+    await messageCatalogService.setOverride(key, {
+      es: body.contentEs,
+      en: body.contentEn,
+      pt: body.contentPt,
+      fr: body.contentFr,
+      description: body.description,
+    });
 
     request.log.info({ key }, 'Template updated');
 
     return { success: true, message: `Template "${key}" updated` };
   });
 
+  app.delete('/templates/:key', async (request, reply) => {
+    const { key } = request.params as { key: string };
+
+    const removed = await messageCatalogService.clearOverride(key);
+    if (!removed) {
+      throw new NotFoundError(`No override for: ${key}`);
+    }
+
+    return { success: true, message: `Template "${key}" removed — built-in text applies` };
+  });
+
+  // Every catalog key with its built-in text and current override
+  app.get('/messages', async (request, reply) => {
+    const messages = await messageCatalogService.list();
+    return { success: true, data: messages };
+  });
+
+  // Keys missing per language (users there get the es → en fallback)
+  app.get('/messages/missing', async (request, reply) => {
+    const report = await messageCatalogService.getMissingReport();
+    return { success: true, data: report };
+  });
+
   // ============================================================================
   // Credit Costs
   // ============================================================================
@@ -273,6 +338,74 @@ export const adminRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     return { success: true, message: `Cost for "${action}" updated to ${body.credits} credits` };
   });
 
+  // ============================================================================
+  // Onboarding Flows (versioned; new users start on the active version)
+  // ============================================================================
+
+  app.get('/onboarding', async (request, reply) => {
+    const flows = await onboardingFlowService.list();
+    return { success: true, data: flows };
+  });
+
+  app.get('/onboarding/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const versions = await onboardingFlowService.listVersions(name);
+
+    if (versions.length === 0) {
+      throw new NotFoundError(`Onboarding flow not found: ${name}`);
+    }
+
+    return { success: true, data: versions };
+  });
+
+  app.get('/onboarding/:name/:version', async (request, reply) => {
+    const { name, version } = request.params as { name: string; version: string };
+    const flow = await onboardingFlowService.getVersion(name, parseInt(version, 10));
+
+    if (!flow) {
+      throw new NotFoundError(`Onboarding flow version not found: ${name} v${version}`);
+    }
+
+    return { success: true, data: flow };
+  });
+
+  // Versions are immutable — editing a flow posts a new version
+  app.post('/onboarding/:name', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const schema = z.object({
+      definition: onboardingFlowDefinitionSchema,
+      notes: z.string().optional(),
+      activate: z.boolean().default(false),
+    });
+
+    const body = schema.parse(request.body);
+    const flow = await onboardingFlowService.createVersion(name, body.definition, {
+      notes: body.notes,
+      activate: body.activate,
+      createdBy: request.apiKey?.id,
+    });
+
+    request.log.info({ name, version: flow.version, activated: body.activate }, 'Onboarding flow version created');
+
+    return { success: true, data: flow };
+  });
+
+  app.post('/onboarding/:name/activate/:version', async (request, reply) => {
+    const { name, version } = request.params as { name: string; version: string };
+    const flow = await onboardingFlowService.activate(name, parseInt(version, 10));
+
+    request.log.info({ name, version: flow.version }, 'Onboarding flow activated');
+
+    return { success: true, message: `Onboarding flow "${name}" v${flow.version} activated` };
+  });
+
+  app.delete('/onboarding/:name/:version', async (request, reply) => {
+    const { name, version } = request.params as { name: string; version: string };
+    await onboardingFlowService.deleteVersion(name, parseInt(version, 10));
+
+    return { success: true, message: `Onboarding flow "${name}" v${version} deleted` };
+  });
+
   // ============================================================================
   // Experiments
   // ============================================================================
@@ -326,6 +459,450 @@ export const adminRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     return { success: true, message: `Experiment "${key}" updated` };
   });
 
+  // Keyword scoring vs Claude classifier: agreement + engagement by arm
+  app.get('/experiments/archetype-classifier/report', async (request, reply) => {
+    const schema = z.object({
+      days: z.coerce.number().int().min(1).max(90).default(14),
+    });
+    const { days } = schema.parse(request.query);
+
+    const report = await archetypeClassificationService.getReport(days);
+    return { success: true, data: report };
+  });
+
+  // ============================================================================
+  // Webhook Secrets (signature verification + rotation)
+  // ============================================================================
+
+  app.get('/webhook-secrets', async (request, reply) => {
+    const secrets = await webhookSecretService.list();
+    return { success: true, data: secrets };
+  });
+
+  app.post('/webhook-secrets', async (request, reply) => {
+    const schema = z.object({
+      inboxId: z.number().int().positive().nullable().optional(),
+      label: z.string().max(100).optional(),
+      secret: z.string().min(16).optional(),
+    });
+
+    const body = schema.parse(request.body ?? {});
+    const created = await webhookSecretService.create(body);
+
+    request.log.info({ id: created.id, inboxId: body.inboxId ?? null }, 'Webhook secret created');
+
+    // Plaintext secret is only ever returned here
+    return { success: true, data: created };
+  });
+
+  app.post('/webhook-secrets/:id/retire', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const schema = z.object({
+      graceMinutes: z.number().int().min(0).max(7 * 24 * 60).default(0),
+    });
+
+    const body = schema.parse(request.body ?? {});
+    const retired = await webhookSecretService.retire(id, body.graceMinutes);
+
+    if (!retired) {
+      throw new NotFoundError(`Active webhook secret not found: ${id}`);
+    }
+
+    return { success: true, message: `Webhook secret "${id}" retired` };
+  });
+
+  app.get('/webhook-secrets/rejections', async (request, reply) => {
+    const stats = await webhookSecretService.getRejectionStats();
+    return { success: true, data: stats };
+  });
+
+  app.delete('/webhook-secrets/rejections', async (request, reply) => {
+    await webhookSecretService.resetRejectionStats();
+    return { success: true, message: 'Rejection counters reset' };
+  });
+
+  // ============================================================================
+  // API Keys (role-based access)
+  // ============================================================================
+
+  app.get('/api-keys', async (request, reply) => {
+    const keys = await apiKeyService.list();
+    return { success: true, data: keys };
+  });
+
+  app.post('/api-keys', async (request, reply) => {
+    const schema = z.object({
+      name: z.string().min(1).max(100),
+      role: z.enum(API_KEY_ROLES),
+      expiresAt: z.coerce.date().nullable().optional(),
+    });
+
+    const body = schema.parse(request.body);
+    const created = await apiKeyService.create(body);
+
+    request.log.info({ id: created.id, role: body.role, by: request.apiKey?.id }, 'API key created');
+
+    // Plaintext key is only ever returned here
+    return { success: true, data: created };
+  });
+
+  app.post('/api-keys/:id/revoke', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const revoked = await apiKeyService.revoke(id);
+
+    if (!revoked) {
+      throw new NotFoundError(`Active API key not found: ${id}`);
+    }
+
+    request.log.info({ id, by: request.apiKey?.id }, 'API key revoked');
+
+    return { success: true, message: `API key "${id}" revoked` };
+  });
+
+  // ============================================================================
+  // Patient Page Links
+  // ============================================================================
+
+  // Invalidate every magic link sent to a user so far
+  app.post('/users/:userId/revoke-links', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const revoked = await userService.revokeLinks(userId);
+
+    if (!revoked) {
+      throw new NotFoundError(`User not found: ${userId}`);
+    }
+
+    request.log.info({ userId, by: request.apiKey?.id }, 'All page links revoked');
+
+    return { success: true, message: `All links for user "${userId}" revoked` };
+  });
+
+  // ============================================================================
+  // Messaging Channel (Chatwoot, direct WhatsApp Cloud API or SMS)
+  // ============================================================================
+
+  const channelSchema = z.object({
+    channel: z.enum(['chatwoot', 'whatsapp', 'sms']).nullable(),
+  });
+
+  // Pin a user to a channel; null = reply through whichever inbox they write from
+  app.put('/users/:userId/channel', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const { channel } = channelSchema.parse(request.body);
+    const updated = await messagingService.setUserChannel(userId, channel);
+
+    if (!updated) {
+      throw new NotFoundError(`User not found: ${userId}`);
+    }
+
+    request.log.info({ userId, channel, by: request.apiKey?.id }, 'User messaging channel set');
+
+    return { success: true, data: { userId, channel } };
+  });
+
+  // ============================================================================
+  // Opt-outs (users who paused or stopped proactive messages)
+  // ============================================================================
+
+  app.get('/opt-outs', async (request, reply) => {
+    const optedOut = await optOutService.listOptedOut();
+    return { success: true, data: optedOut };
+  });
+
+  app.get('/users/:userId/opt-outs', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const [status, events] = await Promise.all([
+      optOutService.getStatus(userId),
+      optOutService.getEvents(userId),
+    ]);
+    return { success: true, data: { status, events } };
+  });
+
+  // ============================================================================
+  // Reply Language (sticky preference + change log)
+  // ============================================================================
+
+  const languageSchema = z.object({
+    language: z.enum(['es', 'en', 'pt', 'fr']).optional(),
+    locked: z.boolean(),
+  }).refine(body => !body.locked || body.language, {
+    message: 'language is required when locking',
+  });
+
+  app.get('/users/:userId/language', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const state = await languageService.getState(userId);
+
+    if (!state) {
+      throw new NotFoundError(`User not found: ${userId}`);
+    }
+
+    const changes = await languageService.getChanges(userId);
+    return { success: true, data: { ...state, changes } };
+  });
+
+  // locked + language = pin it; locked: false = back to detection
+  app.put('/users/:userId/language', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const body = languageSchema.parse(request.body);
+
+    if (!(await languageService.getState(userId))) {
+      throw new NotFoundError(`User not found: ${userId}`);
+    }
+
+    if (body.locked) {
+      await languageService.setPreference(userId, body.language!, 'admin');
+    } else {
+      if (body.language) await languageService.setPreference(userId, body.language, 'admin');
+      await languageService.unlock(userId, 'admin');
+    }
+
+    request.log.info({ userId, language: body.language, locked: body.locked, by: request.apiKey?.id }, 'User language set');
+
+    return { success: true, data: await languageService.getState(userId) };
+  });
+
+  // ============================================================================
+  // Timezone (schedulers and event dates follow it)
+  // ============================================================================
+
+  const timezoneSchema = z.object({
+    // IANA name ("Europe/Madrid") or a city/country ("madrid", "Puerto Rico")
+    timezone: z.string().min(1).max(64),
+  });
+
+  app.put('/users/:userId/timezone', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const body = timezoneSchema.parse(request.body);
+
+    const timezone = resolveTimezone(body.timezone);
+    if (!timezone) {
+      throw new BadRequestError(`Unknown timezone: ${body.timezone}`);
+    }
+
+    if (!(await userService.updateTimezone(userId, timezone, 'admin'))) {
+      throw new NotFoundError(`User not found: ${userId}`);
+    }
+
+    request.log.info({ userId, timezone, by: request.apiKey?.id }, 'User timezone set');
+
+    return { success: true, data: { userId, timezone, localTime: localTimeString(timezone) } };
+  });
+
+  // ============================================================================
+  // Nightly Digest Runs (one record per night, users' local date)
+  // ============================================================================
+
+  const runDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+  const rerunSchema = z.object({
+    // Also queue users whose events for that date are still unprocessed
+    includeUnprocessed: z.boolean().default(false),
+  });
+
+  app.get('/digest-runs', async (request, reply) => {
+    const { limit } = request.query as { limit?: string };
+    const runs = await digestRunService.listRuns(Math.min(parseInt(limit || '30', 10), 365));
+    return { success: true, data: runs };
+  });
+
+  app.get('/digest-runs/:date', async (request, reply) => {
+    const date = runDateSchema.parse((request.params as { date: string }).date);
+    const run = await digestRunService.getRun(date);
+
+    if (!run) {
+      throw new NotFoundError(`No digest run for ${date}`);
+    }
+
+    return { success: true, data: run };
+  });
+
+  // Re-queue the night's failed users (and optionally anyone still unprocessed)
+  app.post('/digest-runs/:date/rerun', async (request, reply) => {
+    const date = runDateSchema.parse((request.params as { date: string }).date);
+    const body = rerunSchema.parse(request.body ?? {});
+
+    const rerun = await digestRunService.prepareRerun(date, body.includeUnprocessed);
+    if (!rerun) {
+      throw new NotFoundError(`No digest run or unprocessed events for ${date}`);
+    }
+
+    for (const target of rerun.targets) {
+      await addNightlyDigestJob({
+        runId: rerun.runId,
+        runDate: date,
+        userId: target.userId,
+        language: target.language,
+        userName: target.userName ?? undefined,
+      });
+    }
+
+    request.log.info({ date, queued: rerun.targets.length, by: request.apiKey?.id }, 'Digest run re-run');
+
+    return { success: true, data: { runDate: date, queued: rerun.targets.map(t => t.userId) } };
+  });
+
+  // Message Batches submitted for scheduled nights (DIGEST_MODE=batch)
+  app.get('/digest-batches', async (request, reply) => {
+    const { limit } = request.query as { limit?: string };
+    const batches = await digestBatchService.listBatches(Math.min(parseInt(limit || '30', 10), 365));
+    return { success: true, data: batches };
+  });
+
+  // ============================================================================
+  // Account Deletion (right to erasure — receipts outlive the user)
+  // ============================================================================
+
+  // Schedule an erase; `immediate` skips the grace period and queues it now
+  app.post('/users/:userId/deletion', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const body = scheduleDeletionSchema.parse(request.body ?? {});
+
+    const scheduled = await accountDeletionService.schedule(userId, {
+      via: 'admin',
+      requestedBy: request.apiKey?.name ?? 'unknown',
+      reason: body.reason,
+      immediate: body.immediate,
+    });
+    if (!scheduled) {
+      throw new NotFoundError(`User not found: ${userId}`);
+    }
+
+    if (body.immediate) {
+      await addAccountDeletionJob(scheduled.deletion.id);
+    }
+
+    request.log.info({ userId, deletionId: scheduled.deletion.id, immediate: body.immediate, by: request.apiKey?.id }, 'Account deletion requested');
+
+    return { success: true, data: scheduled.deletion };
+  });
+
+  app.delete('/users/:userId/deletion', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const canceled = await accountDeletionService.cancel(userId);
+
+    if (!canceled) {
+      throw new NotFoundError(`No scheduled deletion for user ${userId}`);
+    }
+
+    return { success: true, data: canceled };
+  });
+
+  app.get('/deletions', async (request, reply) => {
+    const { status } = request.query as { status?: DeletionStatus };
+    const deletions = await accountDeletionService.list(status);
+    return { success: true, data: deletions };
+  });
+
+  // Includes the receipt once completed
+  app.get('/deletions/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const deletion = await accountDeletionService.get(id);
+
+    if (!deletion) {
+      throw new NotFoundError(`Account deletion not found: ${id}`);
+    }
+
+    return { success: true, data: deletion };
+  });
+
+  // Re-run the "nothing remains" check against the current database
+  app.post('/deletions/:id/verify', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const verification = await accountDeletionService.verify(id);
+
+    if (!verification) {
+      throw new NotFoundError(`Account deletion not found: ${id}`);
+    }
+
+    return { success: true, data: verification };
+  });
+
+  // ============================================================================
+  // Ingest Throttling (per-phone flood protection)
+  // ============================================================================
+
+  app.get('/throttled', async (request, reply) => {
+    const throttled = await ingestThrottle.listThrottled();
+    return { success: true, data: throttled };
+  });
+
+  app.delete('/throttled/:phone', async (request, reply) => {
+    const { phone } = request.params as { phone: string };
+    const cleared = await ingestThrottle.clear(phone);
+
+    if (!cleared) {
+      throw new NotFoundError(`No active cooldown for ${phone}`);
+    }
+
+    request.log.info({ phone, by: request.apiKey?.id }, 'Throttle cooldown cleared');
+
+    return { success: true, message: `Cooldown for ${phone} cleared` };
+  });
+
+  // ============================================================================
+  // Dead Letters (inbound jobs that exhausted their retries)
+  // ============================================================================
+
+  app.get('/dead-letters', async (request, reply) => {
+    const schema = z.object({
+      status: z.enum(['pending', 'replayed', 'discarded']).optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      offset: z.coerce.number().int().min(0).default(0),
+    });
+
+    const params = schema.parse(request.query);
+    const result = await deadLetterService.list(params);
+
+    return { success: true, data: result.items, total: result.total };
+  });
+
+  app.get('/dead-letters/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const entry = await deadLetterService.get(id);
+
+    if (!entry) {
+      throw new NotFoundError(`Dead letter not found: ${id}`);
+    }
+
+    return { success: true, data: entry };
+  });
+
+  app.post('/dead-letters/:id/replay', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const schema = z.object({
+      sendAck: z.boolean().default(true),
+    });
+
+    const body = schema.parse(request.body ?? {});
+    const entry = await deadLetterService.get(id);
+
+    if (!entry) {
+      throw new NotFoundError(`Dead letter not found: ${id}`);
+    }
+    if (entry.status === 'discarded') {
+      throw new BadRequestError(`Dead letter "${id}" was discarded`);
+    }
+
+    const jobId = await requeueInboundJob(deadLetterService.buildReplay(entry, body.sendAck));
+    await deadLetterService.markReplayed(id);
+
+    request.log.info({ id, jobId, sendAck: body.sendAck }, 'Dead letter replayed');
+
+    return { success: true, data: { jobId }, message: `Dead letter "${id}" re-enqueued` };
+  });
+
+  app.delete('/dead-letters/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const discarded = await deadLetterService.discard(id);
+
+    if (!discarded) {
+      throw new NotFoundError(`Dead letter not found or already discarded: ${id}`);
+    }
+
+    return { success: true, message: `Dead letter "${id}" discarded` };
+  });
+
   // ============================================================================
   // Stats & Monitoring
   // ============================================================================
@@ -0,0 +1,64 @@
+/**
+ * Plato Inteligente — Archetype Review Routes
+ *
+ * GET  /api/archetypes/proposals              — Open behavior-based archetype proposals
+ * POST /api/archetypes/proposals/:id/confirm  — Apply the proposed archetype
+ * POST /api/archetypes/proposals/:id/reject   — Keep the current archetype
+ * GET  /api/archetypes/:userId/history        — Archetype changes + proposals for a client
+ * POST /api/archetypes/:userId/rescore        — Re-score a client now
+ */
+
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { db } from '../../infra/db/client';
+import { ArchetypeService } from '../../domain/archetype/service';
+import { requirePermission } from '../middleware/auth';
+
+const archetypeService = new ArchetypeService(db);
+
+const reviewSchema = z.object({
+  note: z.string().max(1000).optional(),
+}).optional();
+
+export async function archetypeRoutes(app: FastifyInstance) {
+  // Coach review — admin/coach keys only
+  app.addHook('preHandler', requirePermission('archetypes:review'));
+
+  // ── GET /api/archetypes/proposals ─────────────────────────────────────────
+  app.get('/proposals', async () => {
+    const proposals = await archetypeService.listProposals();
+    return { success: true, data: proposals };
+  });
+
+  // ── POST /api/archetypes/proposals/:id/confirm ────────────────────────────
+  app.post('/proposals/:id/confirm', async (request) => {
+    const { id } = request.params as { id: string };
+    const body = reviewSchema.parse(request.body);
+
+    const entry = await archetypeService.confirmProposal(id, request.apiKey?.name ?? 'unknown', body?.note);
+    return { success: true, data: entry };
+  });
+
+  // ── POST /api/archetypes/proposals/:id/reject ─────────────────────────────
+  app.post('/proposals/:id/reject', async (request) => {
+    const { id } = request.params as { id: string };
+    const body = reviewSchema.parse(request.body);
+
+    const entry = await archetypeService.rejectProposal(id, request.apiKey?.name ?? 'unknown', body?.note);
+    return { success: true, data: entry };
+  });
+
+  // ── GET /api/archetypes/:userId/history ───────────────────────────────────
+  app.get('/:userId/history', async (request) => {
+    const { userId } = request.params as { userId: string };
+    const history = await archetypeService.getHistory(userId);
+    return { success: true, data: history };
+  });
+
+  // ── POST /api/archetypes/:userId/rescore ──────────────────────────────────
+  app.post('/:userId/rescore', async (request) => {
+    const { userId } = request.params as { userId: string };
+    const result = await archetypeService.rescoreUser(userId);
+    return { success: true, data: result };
+  });
+}
@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { queryOne, db } from '../../infra/db/client';
 import { ConcernService, ConcernStatus } from '../../domain/concern/service';
+import { requireUserAccess } from '../middleware/link-auth';
 
 const concernService = new ConcernService(db);
 
@@ -12,7 +13,7 @@ export const concernRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * GET /api/concerns/:userId
    * Get all concerns for a user (active first, then resolved)
    */
-  app.get('/:userId', async (request, reply) => {
+  app.get('/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     if (!UUID_REGEX.test(userId)) {
@@ -56,7 +57,7 @@ export const concernRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * GET /api/concerns/:userId/:concernId
    * Get a single concern with full detail
    */
-  app.get('/:userId/:concernId', async (request, reply) => {
+  app.get('/:userId/:concernId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId, concernId } = request.params as { userId: string; concernId: string };
 
     if (!UUID_REGEX.test(userId) || !UUID_REGEX.test(concernId)) {
@@ -89,7 +90,7 @@ export const concernRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * PUT /api/concerns/:userId/:concernId
    * Update a concern's summary content (from edit page)
    */
-  app.put('/:userId/:concernId', async (request, reply) => {
+  app.put('/:userId/:concernId', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
     const { userId, concernId } = request.params as { userId: string; concernId: string };
     const { summary, title } = request.body as { summary?: string; title?: string };
 
@@ -125,7 +126,7 @@ export const concernRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * PUT /api/concerns/:userId/:concernId/status
    * Change concern status (active → improving → resolved)
    */
-  app.put('/:userId/:concernId/status', async (request, reply) => {
+  app.put('/:userId/:concernId/status', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
     const { userId, concernId } = request.params as { userId: string; concernId: string };
     const { status } = request.body as { status: ConcernStatus };
 
@@ -157,7 +158,7 @@ export const concernRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * DELETE /api/concerns/:userId/:concernId
    * Delete a concern and all its snapshots
    */
-  app.delete('/:userId/:concernId', async (request, reply) => {
+  app.delete('/:userId/:concernId', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
     const { userId, concernId } = request.params as { userId: string; concernId: string };
 
     if (!UUID_REGEX.test(userId) || !UUID_REGEX.test(concernId)) {
@@ -183,7 +184,7 @@ export const concernRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * GET /api/concerns/:userId/:concernId/history
    * Get snapshot timeline for a specific concern
    */
-  app.get('/:userId/:concernId/history', async (request, reply) => {
+  app.get('/:userId/:concernId/history', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId, concernId } = request.params as { userId: string; concernId: string };
 
     if (!UUID_REGEX.test(userId) || !UUID_REGEX.test(concernId)) {
@@ -1,30 +1,26 @@
 import { FastifyInstance } from 'fastify';
-import { DigestService } from '../../domain/digest/service';
+import { DigestService, HEADS_UP_LEAD_MINUTES } from '../../domain/digest/service';
 import { HealthEventService } from '../../domain/health-event/service';
-import { ChatwootClient } from '../../adapters/chatwoot/client';
+import { MessagingService } from '../../domain/messaging/service';
 import { generateSummaryPdf } from '../../domain/pdf/generator';
 import { db } from '../../infra/db/client';
 import { logger } from '../../infra/logging/logger';
+import { requirePermission } from '../middleware/auth';
+import { requireUserAccess } from '../middleware/link-auth';
+import { t } from '../../shared/messages';
+import { InvalidAIOutputError } from '../../shared/errors';
 
 const digestService = new DigestService(db);
 const healthEventService = new HealthEventService(db);
-const chatwootClient = new ChatwootClient();
-
-// Heads-up messages
-const HEADS_UP_MESSAGES: Record<string, string> = {
-  es: 'Estamos terminando tu resumen nocturno. En unos 15 minutos lo tendrás listo.\nSi algo no refleja exactamente tu día o cómo te sentiste, escríbenos aquí mismo. Lo afinamos para que cada noche sea más clara que la anterior.',
-  en: "Your nightly summary is almost ready. You'll have it in about 15 minutes.\nIf anything doesn't quite match your day, just write us here. We'll fine-tune it so each night gets clearer.",
-  pt: 'Seu resumo noturno está quase pronto. Em uns 15 minutos estará listo.\nSe algo não refletir exatamente seu dia, escreva aqui. Ajustamos para que cada noite seja mais clara.',
-  fr: "Votre résumé nocturne est presque prêt. Dans environ 15 minutes il sera là.\nSi quelque chose ne reflète pas votre journée, écrivez-nous ici. On ajuste pour que chaque soir soit plus clair.",
-};
+const messagingService = new MessagingService(db);
 
 export async function digestRoutes(app: FastifyInstance) {
   // GET /api/digests/:userId/latest
-  app.get('/:userId/latest', async (request, reply) => {
+  app.get('/:userId/latest', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     try {
-      const digest = await digestService.getDigest(userId, new Date().toISOString().split('T')[0]!);
+      const digest = await digestService.getDigest(userId, await healthEventService.getLocalToday(userId));
       if (!digest) {
         return reply.status(404).send({ success: false, error: 'No digests found' });
       }
@@ -36,7 +32,7 @@ export async function digestRoutes(app: FastifyInstance) {
   });
 
   // GET /api/digests/:userId?date=YYYY-MM-DD
-  app.get('/:userId', async (request, reply) => {
+  app.get('/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     const { date } = request.query as { date?: string };
 
@@ -56,12 +52,12 @@ export async function digestRoutes(app: FastifyInstance) {
   });
 
   // POST /api/digests/:userId/generate — Generate digest only (no WhatsApp delivery)
-  app.post('/:userId/generate', async (request, reply) => {
+  app.post('/:userId/generate', { preHandler: requirePermission('digests:trigger') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     try {
-      const userResult = await db.query<{ language: string; name: string | null }>(
-        'SELECT language, name FROM users WHERE id = $1',
+      const userResult = await db.query<{ language: string; name: string | null; opted_out_at: Date | null }>(
+        'SELECT language, name, opted_out_at FROM users WHERE id = $1',
         [userId],
       );
 
@@ -70,6 +66,10 @@ export async function digestRoutes(app: FastifyInstance) {
       }
 
       const user = userResult.rows[0]!;
+
+      if (user.opted_out_at) {
+        return reply.status(409).send({ success: false, error: 'User has paused or stopped messages' });
+      }
       const result = await digestService.generateDigest(
         userId,
         new Date(),
@@ -95,12 +95,12 @@ export async function digestRoutes(app: FastifyInstance) {
    * Runs the AI pipeline and saves to nightly_summaries as status=pending.
    * Does NOT send to WhatsApp. Dashboard calls this, then shows a preview.
    */
-  app.post('/:userId/generate-draft', async (request, reply) => {
+  app.post('/:userId/generate-draft', { preHandler: requirePermission('digests:trigger') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     try {
-      const userResult = await db.query<{ language: string; name: string | null }>(
-        'SELECT language, name FROM users WHERE id = $1',
+      const userResult = await db.query<{ language: string; name: string | null; opted_out_at: Date | null }>(
+        'SELECT language, name, opted_out_at FROM users WHERE id = $1',
         [userId],
       );
 
@@ -109,9 +109,13 @@ export async function digestRoutes(app: FastifyInstance) {
       }
 
       const user = userResult.rows[0]!;
-      const today = new Date().toISOString().split('T')[0]!;
 
-      const events = await healthEventService.getUnprocessedEvents(userId, today);
+      if (user.opted_out_at) {
+        return reply.status(409).send({ success: false, error: 'User has paused or stopped messages' });
+      }
+      const today = await healthEventService.getLocalToday(userId);
+
+      const events = await healthEventService.getDigestEvents(userId, today);
       if (events.length === 0) {
         return reply.status(400).send({ success: false, error: 'No events to summarize today' });
       }
@@ -131,7 +135,7 @@ export async function digestRoutes(app: FastifyInstance) {
         `INSERT INTO nightly_summaries (user_id, digest_id, html_content, digest_data, status, digest_date)
          VALUES ($1, $2, '', $3, 'pending', $4)
          ON CONFLICT (user_id, digest_date)
-         DO UPDATE SET digest_data = $3, status = 'pending', digest_id = $2, created_at = NOW()
+         DO UPDATE SET digest_data = $3, status = 'pending', digest_id = $2, failure_reason = NULL, created_at = NOW()
          RETURNING *`,
         [userId, result.digest.id, JSON.stringify(result.summaryData), today],
       );
@@ -146,6 +150,10 @@ export async function digestRoutes(app: FastifyInstance) {
         status: 'pending',
       });
     } catch (error) {
+      // Saved to the queue as 'failed'; the events stay unprocessed for a retry
+      if (error instanceof InvalidAIOutputError) {
+        return reply.status(502).send({ success: false, error: error.message, issues: error.issues, status: 'failed' });
+      }
       const err = error instanceof Error ? error : new Error(String(error));
       return reply.status(500).send({ success: false, error: err.message });
     }
@@ -161,14 +169,14 @@ export async function digestRoutes(app: FastifyInstance) {
    *
    * Use for testing — skips the 15 min delay.
    */
-  app.post('/:userId/trigger-nightly', async (request, reply) => {
+  app.post('/:userId/trigger-nightly', { preHandler: requirePermission('digests:trigger') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     const { skipHeadsUp } = (request.body as { skipHeadsUp?: boolean }) || {};
 
     try {
       // 1. Load user
-      const userResult = await db.query<{ language: string; name: string | null }>(
-        'SELECT language, name FROM users WHERE id = $1',
+      const userResult = await db.query<{ language: string; name: string | null; opted_out_at: Date | null }>(
+        'SELECT language, name, opted_out_at FROM users WHERE id = $1',
         [userId],
       );
 
@@ -178,7 +186,11 @@ export async function digestRoutes(app: FastifyInstance) {
 
       const user = userResult.rows[0]!;
 
-      // 2. Find their conversation via Chatwoot API (look up by phone)
+      if (user.opted_out_at) {
+        return reply.status(409).send({ success: false, error: 'User has paused or stopped messages' });
+      }
+
+      // 2. Recipient — the user's channel finds the conversation by phone
       const phoneResult = await db.query<{ phone: string }>(
         'SELECT phone FROM users WHERE id = $1',
         [userId],
@@ -188,14 +200,11 @@ export async function digestRoutes(app: FastifyInstance) {
         return reply.status(404).send({ success: false, error: 'No phone number found for user' });
       }
 
-      const conversationId = await chatwootClient.findConversationByPhone(phone);
-      if (!conversationId) {
-        return reply.status(404).send({ success: false, error: 'No conversation found in Chatwoot for this user' });
-      }
+      const recipient = { userId, phone };
 
       // 3. Check for events
-      const today = new Date().toISOString().split('T')[0]!;
-      const events = await healthEventService.getUnprocessedEvents(userId, today);
+      const today = await healthEventService.getLocalToday(userId);
+      const events = await healthEventService.getDigestEvents(userId, today);
 
       if (events.length === 0) {
         return reply.send({ success: false, error: 'No unprocessed events today', eventsCount: 0 });
@@ -203,8 +212,8 @@ export async function digestRoutes(app: FastifyInstance) {
 
       // 4. Send heads-up (optional)
       if (!skipHeadsUp) {
-        const headsUpMsg = HEADS_UP_MESSAGES[user.language] || HEADS_UP_MESSAGES.es!;
-        await chatwootClient.sendMessage(conversationId, headsUpMsg);
+        const headsUpMsg = t('digest.heads_up', user.language, { count: HEADS_UP_LEAD_MINUTES });
+        await messagingService.sendMessage(recipient, headsUpMsg);
       }
 
       // 5. Generate digest
@@ -223,10 +232,9 @@ export async function digestRoutes(app: FastifyInstance) {
           const pdfBuffer = await generateSummaryPdf(result.summaryData);
           if (pdfBuffer) {
             const userName = ((result.summaryData as Record<string, unknown>).greeting_name as string || user.name || 'User').replace(/\s+/g, '_');
-            const dateStr = new Date().toISOString().split('T')[0];
-            const fileName = `Plato_Inteligente_${userName}_${dateStr}.pdf`;
-            await chatwootClient.sendAttachment(
-              conversationId,
+            const fileName = `Plato_Inteligente_${userName}_${today}.pdf`;
+            await messagingService.sendAttachment(
+              recipient,
               pdfBuffer,
               fileName,
               '📋 Tu resumen nocturno está listo. Ábrelo para ver tu análisis completo de hoy.',
@@ -242,7 +250,7 @@ export async function digestRoutes(app: FastifyInstance) {
         // Fallback: send text summary if PDF failed
         if (!pdfSent) {
           const summaryText = formatSummaryForWhatsApp(result.summaryData, user.language);
-          await chatwootClient.sendMessage(conversationId, summaryText);
+          await messagingService.sendMessage(recipient, summaryText);
         }
       }
 
@@ -251,7 +259,7 @@ export async function digestRoutes(app: FastifyInstance) {
         eventsProcessed: result.eventsProcessed,
         digest: result.digest,
         summaryData: result.summaryData,
-        deliveredTo: conversationId,
+        deliveredTo: phone,
         pdfSent,
       });
     } catch (error) {
@@ -264,12 +272,12 @@ export async function digestRoutes(app: FastifyInstance) {
   /**
    * GET /api/digests/events/:userId — View today's health events for a user
    */
-  app.get('/events/:userId', async (request, reply) => {
+  app.get('/events/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     const { date } = request.query as { date?: string };
 
     try {
-      const targetDate = date || new Date().toISOString().split('T')[0]!;
+      const targetDate = date || await healthEventService.getLocalToday(userId);
       const events = await healthEventService.getUnprocessedEvents(userId, targetDate);
 
       return reply.send({
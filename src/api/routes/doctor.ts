@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { queryOne, db } from '../../infra/db/client';
 import { ConcernService } from '../../domain/concern/service';
+import { requireUserAccess } from '../middleware/link-auth';
 
 /**
  * Doctor Note Data Structure
@@ -345,7 +346,7 @@ export const doctorRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * Transforms health summary into clinically-formatted doctor note
    * URL: /api/doctor/:userId
    */
-  app.get('/:userId', async (request, reply) => {
+  app.get('/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     // Validate UUID format
@@ -0,0 +1,48 @@
+/**
+ * Plato Inteligente — Data Export Routes
+ *
+ * GET /api/export/:userId          — Download the user's data export (ZIP: JSON + PDF)
+ * GET /api/export/:userId/history  — Past exports (WhatsApp and downloads)
+ *
+ * Owner access only: the patient's edit link, or a staff key with concerns:write.
+ * View-only (doctor) links can't export.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { db } from '../../infra/db/client';
+import { DataExportService } from '../../domain/export/service';
+import { requireUserAccess } from '../middleware/link-auth';
+import { BadRequestError, NotFoundError } from '../../shared/errors';
+
+const dataExportService = new DataExportService(db);
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function exportRoutes(app: FastifyInstance) {
+  // ── GET /api/export/:userId ───────────────────────────────────────────────
+  app.get('/:userId', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    if (!UUID_REGEX.test(userId)) throw new BadRequestError('Invalid user ID format');
+
+    const archive = await dataExportService.buildArchive(userId);
+    if (!archive) throw new NotFoundError('User not found');
+
+    await dataExportService.recordDownload(userId, archive);
+    request.log.info({ userId, size: archive.buffer.length, counts: archive.recordCounts }, 'Data export downloaded');
+
+    return reply
+      .type('application/zip')
+      .header('Content-Disposition', `attachment; filename="${archive.fileName}"`)
+      .header('Cache-Control', 'no-store')
+      .send(archive.buffer);
+  });
+
+  // ── GET /api/export/:userId/history ───────────────────────────────────────
+  app.get('/:userId/history', { preHandler: requireUserAccess('edit') }, async (request) => {
+    const { userId } = request.params as { userId: string };
+    if (!UUID_REGEX.test(userId)) throw new BadRequestError('Invalid user ID format');
+
+    const exports = await dataExportService.listExports(userId);
+    return { success: true, data: exports };
+  });
+}
@@ -1,8 +1,27 @@
-import { FastifyInstance, FastifyPluginAsync } from 'fastify';
-import { addInboundJob } from '../../infra/queue/client';
-import { checkIdempotencyKey, setIdempotencyKey } from '../../infra/db/client';
-import { InboundJobData, Attachment } from '../../shared/types';
-import { rateLimit } from '../middleware/auth';
+import { FastifyInstance, FastifyPluginAsync, FastifyBaseLogger } from 'fastify';
+import { addInboundJob, redis } from '../../infra/queue/client';
+import { assignInboundSequence } from '../../infra/queue/ordering';
+import { db, checkIdempotencyKey, claimIdempotencyKey, deleteIdempotencyKey } from '../../infra/db/client';
+import { saveExecutionLog } from '../../infra/logging/logger';
+import { config } from '../../config';
+import { InboundJobData, Attachment, ChannelName } from '../../shared/types';
+import { IngestThrottleService, Cooldown, getSlowDownMessage } from '../../domain/throttle/service';
+import { UserService } from '../../domain/user/service';
+import { MessagingService } from '../../domain/messaging/service';
+import { parseCloudWebhook, CloudWebhookPayload } from '../../adapters/whatsapp/webhook';
+import { parseTwilioWebhook, TwilioParams } from '../../adapters/sms/webhook';
+import { buildConversationKey, parseConversationKey } from '../../shared/conversation';
+import { buildDedupeKey, previousBucketDedupeKey } from '../../shared/dedupe';
+import {
+  captureRawBody,
+  verifyChatwootSignature,
+  verifyWhatsAppSignature,
+  verifyTwilioRequest,
+} from '../middleware/webhook-signature';
+
+const ingestThrottle = new IngestThrottleService(redis);
+const userService = new UserService(db);
+const messagingService = new MessagingService(db);
 
 // Helper to normalize phone numbers
 function normalizePhone(raw: string): string {
@@ -20,10 +39,16 @@ function mapFileType(fileType: string): Attachment['type'] {
 
 // Type for Chatwoot webhook payload (flexible to handle variations)
 interface ChatwootWebhook {
+  id?: number;
   event?: string;
+  created_at?: string | number;
   message_type?: string;
   content?: string;
   content_type?: string;
+  inbox?: {
+    id?: number;
+    name?: string;
+  };
   conversation?: {
     id?: number;
     contact_inbox?: {
@@ -49,11 +74,115 @@ interface ChatwootWebhook {
   }>;
 }
 
-const ingestRateLimit = rateLimit({ windowMs: 60_000, maxRequests: 120 });
+/**
+ * Send the "slow down" reply once per cooldown, in the user's language.
+ */
+async function notifyThrottled(cooldown: Cooldown, channel: ChannelName): Promise<boolean> {
+  if (!(await ingestThrottle.claimNotification(cooldown))) return false;
+
+  const user = await userService.findByPhone(cooldown.phone);
+  const ref = parseConversationKey(cooldown.conversationKey);
+  await messagingService.sendMessage(
+    { userId: user?.id, phone: cooldown.phone, conversationId: ref?.conversationId, channel },
+    getSlowDownMessage(user?.language ?? 'es'),
+  );
+  return true;
+}
+
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+type IngestResult =
+  | { status: 'queued'; correlationId: string }
+  | { status: 'skipped' | 'error'; reason: string };
+
+/**
+ * Shared tail of every ingest route: dedupe claim → throttle → per-phone
+ * sequence → enqueue. The claim is released if queueing fails so the
+ * provider's retry can get through. previousDedupeKey, when given, is the
+ * key the same delivery had in the previous hash bucket; it only counts
+ * as a duplicate and is never claimed.
+ */
+async function queueInbound(
+  log: FastifyBaseLogger,
+  jobData: InboundJobData & { dedupeKey: string },
+  previousDedupeKey: string | null = null,
+): Promise<IngestResult> {
+  const { correlationId, phone, conversationId, dedupeKey } = jobData;
+  const channel = jobData.channel ?? 'chatwoot';
+  const conversationKey = jobData.conversationKey
+    ?? buildConversationKey({ channel, phone, conversationId });
+  jobData.conversationKey = conversationKey;
+
+  const seenBefore = previousDedupeKey !== null && (await checkIdempotencyKey(previousDedupeKey)) !== null;
+  const claimed = !seenBefore
+    && await claimIdempotencyKey(dedupeKey, { status: 'queued', correlationId }, 24);
+
+  await saveExecutionLog({
+    correlationId,
+    action: 'ingest_dedupe',
+    status: 'completed',
+    input: { dedupeKey, previousDedupeKey, messageId: jobData.messageId ?? null, channel },
+    output: { decision: claimed ? 'accepted' : 'duplicate' },
+  });
+
+  if (!claimed) {
+    log.info({ correlationId, dedupeKey }, 'Duplicate message, skipping');
+    return { status: 'skipped', reason: 'duplicate' };
+  }
+
+  // Per-phone / per-conversation flood protection (escalating cooldowns)
+  const throttle = await ingestThrottle.check(phone, conversationKey);
+  if (!throttle.allowed) {
+    const notified = await notifyThrottled(throttle.cooldown, channel).catch((err) => {
+      log.error({ err, correlationId, phone }, 'Failed to send slow-down reply');
+      return false;
+    });
+
+    await saveExecutionLog({
+      correlationId,
+      action: 'ingest_throttle',
+      status: 'completed',
+      input: { phone, conversationKey, dedupeKey },
+      output: { ...throttle.cooldown, newCooldown: throttle.newCooldown, notified },
+    });
+
+    log.warn({
+      correlationId,
+      phone,
+      reason: throttle.cooldown.reason,
+      level: throttle.cooldown.level,
+      until: throttle.cooldown.until,
+    }, 'Message dropped — sender throttled');
+    return { status: 'skipped', reason: 'throttled' };
+  }
+
+  try {
+    // Per-phone sequence so the worker processes this user's messages in order
+    jobData.sequence = await assignInboundSequence(phone, correlationId);
+    await addInboundJob(jobData);
+  } catch (err) {
+    await deleteIdempotencyKey(dedupeKey).catch(() => undefined);
+    log.error({ err, correlationId, phone }, 'Failed to queue inbound job');
+    return { status: 'error', reason: 'failed to queue message' };
+  }
+
+  log.info({
+    correlationId,
+    phone,
+    conversationKey,
+    messageLength: jobData.message.length,
+    attachmentCount: jobData.attachments?.length ?? 0,
+  }, 'Message queued successfully');
+
+  return { status: 'queued', correlationId };
+}
 
 export const ingestRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  // Signatures are computed over the raw body, so keep it around
+  captureRawBody(app);
+
   // Main Chatwoot webhook endpoint
-  app.post('/ingest/chatwoot', { preHandler: ingestRateLimit }, async (request, reply) => {
+  app.post('/ingest/chatwoot', { preHandler: verifyChatwootSignature }, async (request, reply) => {
     const correlationId = request.id;
     const payload = request.body as ChatwootWebhook;
 
@@ -85,14 +214,6 @@ export const ingestRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
       return { status: 'error', reason: 'missing conversation id' };
     }
 
-    const idempotencyKey = `chatwoot:${conversationId}:${Date.now()}`;
-
-    const isDuplicate = await checkIdempotencyKey(idempotencyKey);
-    if (isDuplicate) {
-      app.log.info({ correlationId, idempotencyKey }, 'Duplicate message, skipping');
-      return { status: 'skipped', reason: 'duplicate' };
-    }
-
     // Extract phone from multiple possible locations
     const rawPhone = payload.sender?.phone_number
       || payload.sender?.identifier?.split('@')[0]
@@ -114,6 +235,11 @@ export const ingestRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
       return { status: 'error', reason: 'invalid phone number' };
     }
 
+    // Dedupe on the Chatwoot message id (content hash for relays without one)
+    const receivedAt = Date.now();
+    const dedupeKey = buildDedupeKey(payload, conversationId, phone, receivedAt);
+    const previousDedupeKey = previousBucketDedupeKey(payload, conversationId, phone, receivedAt);
+
     // Process attachments
     const attachments: Attachment[] = [];
     if (payload.attachments && payload.attachments.length > 0) {
@@ -127,44 +253,134 @@ export const ingestRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
       }
     }
 
-    // Build job data
-    const jobData: InboundJobData = {
+    // Inboxes migrated to the Cloud API still deliver through Chatwoot
+    // until the webhook is switched — reply over the direct channel
+    const inboxId = payload.inbox?.id;
+    const channel: ChannelName = inboxId && config.whatsappDirectInboxIds.includes(inboxId)
+      ? 'whatsapp'
+      : 'chatwoot';
+
+    const result = await queueInbound(app.log, {
       type: 'inbound_message',
       correlationId,
       phone,
       message: payload.content || '',
       conversationId,
       chatwootContactId: payload.sender?.id || 0,
+      channel,
+      messageId: payload.id,
+      dedupeKey,
       attachments: attachments.length > 0 ? attachments : undefined,
       timestamp: new Date().toISOString(),
-    };
+    }, previousDedupeKey);
+
+    if (result.status === 'error') {
+      return reply.status(500).send(result);
+    }
+    return result;
+  });
+
+  // WhatsApp Cloud API webhook verification handshake
+  app.get('/ingest/whatsapp', async (request, reply) => {
+    const query = request.query as Record<string, string | undefined>;
+
+    if (
+      query['hub.mode'] === 'subscribe'
+      && config.whatsappVerifyToken
+      && query['hub.verify_token'] === config.whatsappVerifyToken
+    ) {
+      return reply.type('text/plain').send(query['hub.challenge'] ?? '');
+    }
+
+    app.log.warn({ mode: query['hub.mode'] }, 'WhatsApp webhook verification rejected');
+    return reply.status(403).send({ status: 'error', reason: 'verification failed' });
+  });
+
+  // WhatsApp Cloud API deliveries (one POST may carry several messages)
+  app.post('/ingest/whatsapp', { preHandler: verifyWhatsAppSignature }, async (request, reply) => {
+    const messages = parseCloudWebhook(request.body as CloudWebhookPayload);
+
+    if (messages.length === 0) {
+      // Delivery/read receipts and other non-message changes
+      return { status: 'skipped', reason: 'no messages' };
+    }
+
+    const results: IngestResult[] = [];
+    for (const [i, msg] of messages.entries()) {
+      const correlationId = i === 0 ? request.id : `${request.id}-${i}`;
+
+      app.log.info({
+        correlationId,
+        messageId: msg.messageId,
+        hasContent: !!msg.text,
+        attachmentCount: msg.attachments.length,
+      }, 'Received WhatsApp Cloud API message');
 
-    try {
-      await addInboundJob(jobData);
-      await setIdempotencyKey(idempotencyKey, { status: 'queued' }, 24);
-    } catch (err) {
-      app.log.error({ err, correlationId, phone }, 'Failed to queue inbound job');
-      return reply.status(500).send({ status: 'error', reason: 'failed to queue message' });
+      results.push(await queueInbound(app.log, {
+        type: 'inbound_message',
+        correlationId,
+        phone: msg.phone,
+        message: msg.text,
+        conversationId: 0,
+        chatwootContactId: 0,
+        channel: 'whatsapp',
+        dedupeKey: `whatsapp:msg:${msg.messageId}`,
+        attachments: msg.attachments.length > 0 ? msg.attachments : undefined,
+        timestamp: msg.timestamp,
+      }));
+    }
+
+    // 500 makes Meta retry the delivery; messages already queued dedupe
+    if (results.some(r => r.status === 'error')) {
+      return reply.status(500).send({ status: 'error', results });
+    }
+    return { status: 'processed', results };
+  });
+
+  // Twilio-style SMS / MMS webhook (form-encoded); answers with empty TwiML
+  // because replies are sent asynchronously through the Messages API
+  app.post('/ingest/sms', { preHandler: verifyTwilioRequest }, async (request, reply) => {
+    const correlationId = request.id;
+    const msg = parseTwilioWebhook(request.body as TwilioParams);
+
+    if (!msg) {
+      return reply.type('text/xml').send(EMPTY_TWIML);
     }
 
     app.log.info({
       correlationId,
-      phone,
-      conversationId,
-      messageLength: payload.content?.length || 0,
-      attachmentCount: attachments.length,
-    }, 'Message queued successfully');
+      messageSid: msg.messageSid,
+      hasContent: !!msg.text,
+      attachmentCount: msg.attachments.length,
+    }, 'Received SMS webhook');
+
+    const result = await queueInbound(app.log, {
+      type: 'inbound_message',
+      correlationId,
+      phone: msg.phone,
+      message: msg.text,
+      conversationId: 0,
+      chatwootContactId: 0,
+      channel: 'sms',
+      dedupeKey: `sms:msg:${msg.messageSid}`,
+      attachments: msg.attachments.length > 0 ? msg.attachments : undefined,
+      timestamp: new Date().toISOString(),
+    });
 
-    return { status: 'queued', correlationId };
+    // Non-2xx makes Twilio retry (and alert); duplicates are deduped
+    return reply
+      .status(result.status === 'error' ? 500 : 200)
+      .type('text/xml')
+      .send(EMPTY_TWIML);
   });
 
   // Also support /api/ingest for backwards compatibility
   app.post('/api/ingest', async (request, reply) => {
-    // Forward to the main handler
+    // Forward to the main handler (raw body so the signature still matches)
     const res = await app.inject({
       method: 'POST',
       url: '/ingest/chatwoot',
-      payload: request.body as Record<string, unknown>,
+      payload: request.rawBody ?? JSON.stringify(request.body),
       headers: request.headers as Record<string, string>,
     });
     return reply.status(res.statusCode).send(res.json());
@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { googleFitService } from '../../domain/integrations/googlefit/service';
 import { logger } from '../../infra/logging/logger';
+import { requireUserAccess } from '../middleware/link-auth';
 
 export async function integrationsRoutes(app: FastifyInstance) {
 
@@ -47,7 +48,7 @@ export async function integrationsRoutes(app: FastifyInstance) {
    * GET /api/integrations/googlefit/status/:userId
    * Check if a user has connected Google Fit
    */
-  app.get('/api/integrations/googlefit/status/:userId', async (request, reply) => {
+  app.get('/api/integrations/googlefit/status/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     try {
       const connected = await googleFitService.isConnected(userId);
@@ -62,7 +63,7 @@ export async function integrationsRoutes(app: FastifyInstance) {
    * DELETE /api/integrations/googlefit/:userId
    * Disconnect Google Fit for a user
    */
-  app.delete('/api/integrations/googlefit/:userId', async (request, reply) => {
+  app.delete('/api/integrations/googlefit/:userId', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     try {
       await googleFitService.disconnect(userId);
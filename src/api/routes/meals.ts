@@ -1,13 +1,24 @@
 import { FastifyInstance } from 'fastify';
 import { MealService } from '../../domain/meal/service';
+import { NutritionService } from '../../domain/meal/nutrition';
+import { HealthEventService } from '../../domain/health-event/service';
 import { db } from '../../infra/db/client';
+import { BadRequestError } from '../../shared/errors';
+import { requireUserAccess } from '../middleware/link-auth';
 
 const mealService = new MealService(db);
+const nutritionService = new NutritionService(db);
+const healthEventService = new HealthEventService(db);
+
+// Longest range the nutrition rollup returns in one call
+const MAX_ROLLUP_DAYS = 31;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 
 export async function mealRoutes(app: FastifyInstance) {
   // GET /api/meals/:userId - Get meals for a user
   // Optional query params: date (YYYY-MM-DD), start, end
-  app.get('/:userId', async (request, reply) => {
+  app.get('/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     const { date, start, end } = request.query as {
       date?: string;
@@ -42,7 +53,7 @@ export async function mealRoutes(app: FastifyInstance) {
   });
 
   // GET /api/meals/:userId/today - Get today's meals
-  app.get('/:userId/today', async (request, reply) => {
+  app.get('/:userId/today', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     try {
@@ -62,8 +73,44 @@ export async function mealRoutes(app: FastifyInstance) {
     }
   });
 
+  // GET /api/meals/:userId/nutrition - Per-day nutrition rollup of the
+  // nightly meal estimates (local days). Query: date, or start + end
+  // (YYYY-MM-DD, up to 31 days); default the last 7 days
+  app.get('/:userId/nutrition', { preHandler: requireUserAccess('view') }, async (request) => {
+    const { userId } = request.params as { userId: string };
+    const { date, start, end } = request.query as { date?: string; start?: string; end?: string };
+
+    let startDate: string;
+    let endDate: string;
+    if (date) {
+      startDate = endDate = date;
+    } else if (start && end) {
+      startDate = start;
+      endDate = end;
+    } else {
+      endDate = await healthEventService.getLocalToday(userId);
+      const from = new Date(`${endDate}T12:00:00Z`);
+      from.setUTCDate(from.getUTCDate() - 6);
+      startDate = from.toISOString().split('T')[0]!;
+    }
+
+    if (![startDate, endDate].every(d => DATE_RE.test(d) && !Number.isNaN(Date.parse(d)))) {
+      throw new BadRequestError('Dates must be YYYY-MM-DD');
+    }
+    const days = (Date.parse(endDate) - Date.parse(startDate)) / 86400000 + 1;
+    if (!(days >= 1)) {
+      throw new BadRequestError('end must not be before start');
+    }
+    if (days > MAX_ROLLUP_DAYS) {
+      throw new BadRequestError(`At most ${MAX_ROLLUP_DAYS} days per request`);
+    }
+
+    const rollup = await nutritionService.getDailyRollup(userId, startDate, endDate);
+    return { success: true, data: { userId, start: startDate, end: endDate, days: rollup } };
+  });
+
   // GET /api/meals/:userId/stats - Meal statistics
-  app.get('/:userId/stats', async (request, reply) => {
+  app.get('/:userId/stats', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     const { days } = request.query as { days?: string };
 
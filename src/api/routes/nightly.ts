@@ -4,17 +4,24 @@
  * GET  /api/nightly/:userId/pending     — Get pending summary for a user
  * POST /api/nightly/:summaryId/approve  — Generate PDF + send via WhatsApp + mark sent
  * POST /api/nightly/:summaryId/discard  — Discard the pending summary
+ *
+ * A night whose summary never passed the schema (digest/summary-schema.ts)
+ * is queued as 'failed' with failureReason — it can be discarded or the
+ * night re-run, but not approved.
  */
 
 import { FastifyInstance } from 'fastify';
 import { db } from '../../infra/db/client';
 import { logger } from '../../infra/logging/logger';
 import { generateSummaryPdf } from '../../domain/pdf/generator';
-import { ChatwootClient } from '../../adapters/chatwoot/client';
+import { MessagingService } from '../../domain/messaging/service';
+import { requirePermission } from '../middleware/auth';
 
-const chatwootClient = new ChatwootClient();
+const messagingService = new MessagingService(db);
 
 export async function nightlyRoutes(app: FastifyInstance) {
+  // Coach review queue — admin/coach keys only
+  app.addHook('preHandler', requirePermission('nightly:review'));
 
   // ── GET /api/nightly/:userId/pending ──────────────────────────────────────
   app.get('/:userId/pending', async (request, reply) => {
@@ -23,11 +30,11 @@ export async function nightlyRoutes(app: FastifyInstance) {
     try {
       const result = await db.query(
         `SELECT ns.id, ns.user_id, ns.digest_id, ns.html_content, ns.digest_data,
-                ns.status, ns.digest_date, ns.created_at,
+                ns.status, ns.failure_reason, ns.digest_date, ns.created_at,
                 u.name, u.language
          FROM nightly_summaries ns
          JOIN users u ON u.id = ns.user_id
-         WHERE ns.user_id = $1 AND ns.status = 'pending'
+         WHERE ns.user_id = $1 AND ns.status IN ('pending', 'failed')
          ORDER BY ns.digest_date DESC
          LIMIT 1`,
         [userId],
@@ -47,6 +54,7 @@ export async function nightlyRoutes(app: FastifyInstance) {
           htmlContent: row.html_content,
           digestData: row.digest_data,
           status: row.status,
+          failureReason: row.failure_reason,
           digestDate: row.digest_date,
           createdAt: row.created_at,
           userName: row.name,
@@ -67,7 +75,7 @@ export async function nightlyRoutes(app: FastifyInstance) {
     try {
       // 1. Load the summary
       const summaryResult = await db.query(
-        `SELECT ns.*, u.phone, u.name, u.language,
+        `SELECT ns.*, u.phone, u.name, u.language, u.opted_out_at,
                 cs.conversation_id
          FROM nightly_summaries ns
          JOIN users u ON u.id = ns.user_id
@@ -86,19 +94,23 @@ export async function nightlyRoutes(app: FastifyInstance) {
         return reply.status(409).send({ success: false, error: 'Summary already sent' });
       }
 
+      if (summary.status === 'failed') {
+        return reply.status(409).send({ success: false, error: 'Summary failed validation — re-run the night or discard it' });
+      }
+
+      if (summary.opted_out_at) {
+        return reply.status(409).send({ success: false, error: 'User has paused or stopped messages' });
+      }
+
       // 2. Mark as approved
       await db.query(
         `UPDATE nightly_summaries SET status = 'approved', approved_at = NOW() WHERE id = $1`,
         [summaryId],
       );
 
-      // 3. Find conversation ID
-      const conversationId = summary.conversation_id
-        || await chatwootClient.findConversationByPhone(summary.phone);
-
-      if (!conversationId) {
-        return reply.status(404).send({ success: false, error: 'No Chatwoot conversation found for this user' });
-      }
+      // 3. Recipient — the channel finds the Chatwoot conversation by phone if needed
+      const conversationId = summary.conversation_id ?? null;
+      const recipient = { userId: summary.user_id, phone: summary.phone, conversationId: conversationId ?? undefined };
 
       // 4. Generate PDF from stored digest_data
       let pdfSent = false;
@@ -106,24 +118,32 @@ export async function nightlyRoutes(app: FastifyInstance) {
         ? JSON.parse(summary.digest_data)
         : summary.digest_data;
 
+      let pdfBuffer: Buffer;
+      try {
+        pdfBuffer = await generateSummaryPdf(digestData);
+      } catch (pdfErr) {
+        const err = pdfErr instanceof Error ? pdfErr : new Error(String(pdfErr));
+        logger.warn({ error: err.message, summaryId }, 'PDF generation failed on approve');
+        return reply.status(500).send({ success: false, error: `PDF generation failed: ${err.message}` });
+      }
+
       try {
-        const pdfBuffer = await generateSummaryPdf(digestData);
         const userName = (digestData.greeting_name as string || summary.name || 'User').replace(/\s+/g, '_');
         const dateStr = String(summary.digest_date).split('T')[0];
         const fileName = `Plato_Inteligente_${userName}_${dateStr}.pdf`;
 
-        await chatwootClient.sendAttachment(
-          conversationId,
+        await messagingService.sendAttachment(
+          recipient,
           pdfBuffer,
           fileName,
           '📋 Tu resumen nocturno está listo. Ábrelo para ver tu análisis completo de hoy.',
         );
         pdfSent = true;
         logger.info({ summaryId, userId: summary.user_id, fileName }, 'PDF approved and sent via WhatsApp');
-      } catch (pdfErr) {
-        const err = pdfErr instanceof Error ? pdfErr : new Error(String(pdfErr));
-        logger.warn({ error: err.message, summaryId }, 'PDF generation failed on approve');
-        return reply.status(500).send({ success: false, error: `PDF generation failed: ${err.message}` });
+      } catch (sendErr) {
+        const err = sendErr instanceof Error ? sendErr : new Error(String(sendErr));
+        logger.warn({ error: err.message, summaryId }, 'PDF delivery failed on approve');
+        return reply.status(502).send({ success: false, error: `PDF delivery failed: ${err.message}` });
       }
 
       // 5. Mark as sent
@@ -146,7 +166,7 @@ export async function nightlyRoutes(app: FastifyInstance) {
 
     try {
       const result = await db.query(
-        `UPDATE nightly_summaries SET status = 'discarded' WHERE id = $1 AND status = 'pending' RETURNING id`,
+        `UPDATE nightly_summaries SET status = 'discarded' WHERE id = $1 AND status IN ('pending', 'failed') RETURNING id`,
         [summaryId],
       );
 
@@ -2,6 +2,11 @@ import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { queryOne, queryMany, query, db } from '../../infra/db/client';
 import { NotFoundError } from '../../shared/errors';
 import { ConcernService } from '../../domain/concern/service';
+import { LanguagePreferenceService } from '../../domain/language/service';
+import { HealthEventService } from '../../domain/health-event/service';
+import { requirePermission } from '../middleware/auth';
+import { requireUserAccess } from '../middleware/link-auth';
+import { buildPageLink } from '../../shared/link-token';
 
 export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
   // ============================================================================
@@ -12,7 +17,7 @@ export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * Get health summary by user ID (simple endpoint for landing page)
    * URL: /api/summary/:userId
    */
-  app.get('/:userId', async (request, reply) => {
+  app.get('/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     // Validate UUID format
@@ -90,7 +95,7 @@ export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * Update health summary by user ID
    * URL: PUT /api/summary/:userId
    */
-  app.put('/:userId', async (request, reply) => {
+  app.put('/:userId', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
     const { summary } = request.body as { summary: string };
 
@@ -151,11 +156,24 @@ export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
     }
   });
 
+  /**
+   * Mint a view-only link to the doctor page (for sharing with a doctor)
+   * URL: POST /api/summary/:userId/share-link
+   */
+  app.post('/:userId/share-link', { preHandler: requireUserAccess('edit') }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+
+    return {
+      success: true,
+      data: { url: buildPageLink(userId, 'view', 'doctor') },
+    };
+  });
+
   /**
    * Get health summary for a user by phone number
    * This is the main endpoint for the website to display live summaries
    */
-  app.get('/user/:phone', async (request, reply) => {
+  app.get('/user/:phone', { preHandler: requirePermission('users:read') }, async (request, reply) => {
     const { phone } = request.params as { phone: string };
 
     // Normalize phone number (remove spaces, dashes, etc.)
@@ -239,7 +257,7 @@ export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
   /**
    * Get health summary by user ID (alternative lookup)
    */
-  app.get('/user/id/:userId', async (request, reply) => {
+  app.get('/user/id/:userId', { preHandler: requireUserAccess('view') }, async (request, reply) => {
     const { userId } = request.params as { userId: string };
 
     // Validate UUID format
@@ -304,7 +322,7 @@ export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
    * Returns paginated list of users with their latest summary preview
    * Optimized: Uses JOIN instead of N+1 queries
    */
-  app.get('/users', async (request, reply) => {
+  app.get('/users', { preHandler: requirePermission('users:read') }, async (request, reply) => {
     const queryParams = request.query as { limit?: string; offset?: string };
     const limit = Math.min(parseInt(queryParams.limit || '20', 10), 100);
     const offset = parseInt(queryParams.offset || '0', 10);
@@ -359,10 +377,52 @@ export const summaryRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
     };
   });
 
+  /**
+   * Get a user's reply language: current choice, whether they locked it,
+   * a switch in progress and the log of changes (with the triggering message)
+   */
+  app.get('/users/:userId/language', { preHandler: requirePermission('users:read') }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const languageService = new LanguagePreferenceService(db);
+    const state = await languageService.getState(userId);
+
+    if (!state) {
+      throw new NotFoundError('User not found');
+    }
+
+    const changes = await languageService.getChanges(userId);
+    return { success: true, data: { ...state, changes } };
+  });
+
+  /**
+   * What a user logged over the last `days` days (default 30, up to 365 —
+   * ending on their local today), per event type as classified by the
+   * nightly pass
+   */
+  app.get('/users/:userId/event-types', { preHandler: requirePermission('users:read') }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+    const queryParams = request.query as { days?: string };
+    const days = Math.min(Math.max(parseInt(queryParams.days || '30', 10) || 30, 1), 365);
+
+    const user = await queryOne<{ id: string }>('SELECT id FROM users WHERE id = $1', [userId]);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const healthEventService = new HealthEventService(db);
+    const end = await healthEventService.getLocalToday(userId);
+    const startDate = new Date(`${end}T12:00:00Z`);
+    startDate.setUTCDate(startDate.getUTCDate() - (days - 1));
+    const start = startDate.toISOString().split('T')[0]!;
+
+    const types = await healthEventService.getTypeCounts(userId, start, end);
+    return { success: true, data: { start, end, days, types } };
+  });
+
   /**
    * Get conversation history for a user (for detailed view)
    */
-  app.get('/user/:phone/messages', async (request, reply) => {
+  app.get('/user/:phone/messages', { preHandler: requirePermission('users:read') }, async (request, reply) => {
     const { phone } = request.params as { phone: string };
     const queryParams = request.query as { limit?: string };
     const limit = Math.min(parseInt(queryParams.limit || '50', 10), 200);
@@ -1,15 +1,16 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { db } from '../../infra/db/client';
-import { authMiddleware } from '../middleware/auth';
+import { requirePermission } from '../middleware/auth';
 import { UserService } from '../../domain/user/service';
 import { ConversationService } from '../../domain/conversation/service';
 import { AIService } from '../../domain/ai/service';
+import { AccountDeletionService } from '../../domain/account-deletion/service';
 import { detectLanguage, extractUserName, extractNameFromAIResponse } from '../../shared/language';
 
 const TEST_CONVERSATION_ID = 99999;
 
 export const testRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
-  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requirePermission('admin'));
 
   // POST /api/test/message — Run one message through the AI pipeline
   app.post('/message', async (request) => {
@@ -68,7 +69,8 @@ export const testRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     };
   });
 
-  // DELETE /api/test/user — Clean test user data
+  // DELETE /api/test/user — Clean test user data (same erase + verification
+  // as a real account deletion, without the grace period or queue cleanup)
   app.delete('/user', async (request) => {
     const { phone } = request.body as { phone: string };
 
@@ -76,20 +78,11 @@ export const testRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     const userId = userResult.rows[0]?.id;
     if (!userId) return { success: true, status: 'no_user' };
 
-    const client = await db.connect();
-    try {
-      await client.query('BEGIN');
-      for (const table of ['concern_snapshots', 'messages', 'health_concerns', 'memories', 'conversation_state', 'experiment_assignments', 'credit_transactions', 'billing_accounts']) {
-        await client.query(`DELETE FROM ${table} WHERE user_id = $1`, [userId]);
-      }
-      await client.query('DELETE FROM users WHERE id = $1', [userId]);
-      await client.query('COMMIT');
-      return { success: true, status: 'deleted', userId };
-    } catch (e) {
-      await client.query('ROLLBACK');
-      throw e;
-    } finally {
-      client.release();
-    }
+    const accountDeletionService = new AccountDeletionService(db);
+    const scheduled = await accountDeletionService.schedule(userId, { via: 'admin', requestedBy: 'test', immediate: true });
+    if (!scheduled) return { success: true, status: 'no_user' };
+
+    const receipt = await accountDeletionService.erase(scheduled.deletion.id, { queueJobsRemoved: 0, redisKeysRemoved: 0 });
+    return { success: true, status: 'deleted', userId, receipt };
   });
 };
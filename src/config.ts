@@ -18,11 +18,43 @@ const configSchema = z.object({
   // AI Services
   anthropicApiKey: z.string(),
   openaiApiKey: z.string().optional(),
+  aiProvider: z.enum(['anthropic', 'fake']).default('anthropic'), // Nightly digest calls; fake = canned replies, no API
 
   // Chatwoot
   chatwootUrl: z.string().url(),
   chatwootApiKey: z.string(),
   chatwootAccountId: z.coerce.number(),
+  chatwootWebhookSecret: z.string().optional(), // Fallback secret for inboxes without one in webhook_secrets
+
+  // Messaging channel (chatwoot | whatsapp | sms) when neither the user nor the inbox picks one
+  defaultMessagingChannel: z.enum(['chatwoot', 'whatsapp', 'sms']).default('chatwoot'),
+
+  // WhatsApp Cloud API (direct, no Chatwoot)
+  whatsappApiUrl: z.string().url().default('https://graph.facebook.com/v21.0'), // Point at the fake server locally
+  whatsappPhoneNumberId: z.string().optional(),
+  whatsappAccessToken: z.string().optional(),
+  whatsappAppSecret: z.string().optional(),     // Verifies X-Hub-Signature-256
+  whatsappVerifyToken: z.string().optional(),   // hub.verify_token for the GET handshake
+  whatsappDirectInboxIds: z.string().default('') // Chatwoot inboxes whose replies go out via the Cloud API
+    .transform((s) => s.split(',').map(v => v.trim()).filter(Boolean).map(Number)),
+
+  // SMS / MMS via Twilio (or any Twilio-compatible API)
+  twilioApiUrl: z.string().url().default('https://api.twilio.com/2010-04-01'), // Point at the fake server locally
+  twilioAccountSid: z.string().optional(),
+  twilioAuthToken: z.string().optional(),       // Also verifies X-Twilio-Signature
+  twilioFromNumber: z.string().optional(),      // E.164 sender, e.g. +15550001111
+  twilioWebhookUrl: z.string().url().optional(), // Public URL of /ingest/sms as Twilio sees it (signature base)
+  smsMaxSegments: z.coerce.number().default(4), // Segments per outbound SMS before splitting into several
+
+  // Webhook signature verification. 'monitor' is an opt-in for rolling out
+  // secrets: channels without one are let through, channels with one still fail closed
+  webhookSignatureMode: z.enum(['enforce', 'monitor', 'off']).default('enforce'),
+  webhookToleranceSeconds: z.coerce.number().default(300), // Replay window
+
+  // Patient page links
+  publicBaseUrl: z.string().url().default('https://carelog.vivebien.io'),
+  magicLinkSecret: z.string().min(16).optional(), // Falls back to API_SECRET_KEY
+  magicLinkTtlHours: z.coerce.number().min(1).default(72),
 
   // Worker
   workerConcurrency: z.coerce.number().default(50),
@@ -34,13 +66,27 @@ const configSchema = z.object({
   // Rate limiting
   claudeRpmLimit: z.coerce.number().default(50),
   whisperRpmLimit: z.coerce.number().default(30),
+  ingestPhoneRpm: z.coerce.number().min(1).default(20),          // Messages per phone per minute
+  ingestConversationRpm: z.coerce.number().min(1).default(30),   // Messages per conversation per minute
+  throttleBaseCooldownSeconds: z.coerce.number().min(1).default(60),  // First cooldown, doubles per strike
+  throttleMaxCooldownSeconds: z.coerce.number().min(1).default(3600),
 
   // Voice synthesis (ElevenLabs)
   elevenLabsApiKey: z.string().optional(),
   elevenLabsVoiceId: z.string().optional(), // Default voice for digest audio
 
+  // Onboarding recovery
+  onboardingNudgeAfterHours: z.coerce.number().min(1).default(24), // Silence before a stalled user is nudged
+  onboardingMaxNudges: z.coerce.number().min(0).default(2),        // Nudges per question; 0 disables them
+
+  // Account deletion ("borrar mis datos" / admin)
+  accountDeletionGraceDays: z.coerce.number().min(0).default(7), // Days to change your mind before data is erased
+
   // Daily digest
-  digestCronHour: z.coerce.number().min(0).max(23).default(21), // 9pm default
+  digestCronHour: z.coerce.number().min(0).max(23).default(21), // 9pm default, in each user's timezone
+  digestConcurrency: z.coerce.number().min(1).default(3),         // Digests generated at once (one Sonnet call each)
+  digestMode: z.enum(['batch', 'sync']).default('batch'),          // Scheduled run: one Message Batch per scan, or a job per user
+  digestBatchPollSeconds: z.coerce.number().min(10).default(60),  // How often open batches are checked
 });
 
 function loadConfig() {
@@ -53,17 +99,47 @@ function loadConfig() {
     redisUrl: process.env.REDIS_URL,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     openaiApiKey: process.env.OPENAI_API_KEY,
+    aiProvider: process.env.AI_PROVIDER,
     chatwootUrl: process.env.CHATWOOT_URL,
     chatwootApiKey: process.env.CHATWOOT_API_KEY,
     chatwootAccountId: process.env.CHATWOOT_ACCOUNT_ID,
+    chatwootWebhookSecret: process.env.CHATWOOT_WEBHOOK_SECRET,
+    defaultMessagingChannel: process.env.DEFAULT_MESSAGING_CHANNEL,
+    whatsappApiUrl: process.env.WHATSAPP_API_URL,
+    whatsappPhoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+    whatsappAccessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+    whatsappAppSecret: process.env.WHATSAPP_APP_SECRET,
+    whatsappVerifyToken: process.env.WHATSAPP_VERIFY_TOKEN,
+    whatsappDirectInboxIds: process.env.WHATSAPP_DIRECT_INBOX_IDS,
+    twilioApiUrl: process.env.TWILIO_API_URL,
+    twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
+    twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
+    twilioFromNumber: process.env.TWILIO_FROM_NUMBER,
+    twilioWebhookUrl: process.env.TWILIO_WEBHOOK_URL || undefined,
+    smsMaxSegments: process.env.SMS_MAX_SEGMENTS,
+    webhookSignatureMode: process.env.WEBHOOK_SIGNATURE_MODE,
+    webhookToleranceSeconds: process.env.WEBHOOK_TOLERANCE_SECONDS,
+    publicBaseUrl: process.env.PUBLIC_BASE_URL,
+    magicLinkSecret: process.env.MAGIC_LINK_SECRET || undefined,
+    magicLinkTtlHours: process.env.MAGIC_LINK_TTL_HOURS,
     workerConcurrency: process.env.WORKER_CONCURRENCY,
     jobTimeoutMs: process.env.JOB_TIMEOUT_MS,
     logLevel: process.env.LOG_LEVEL,
     claudeRpmLimit: process.env.CLAUDE_RPM_LIMIT,
     whisperRpmLimit: process.env.WHISPER_RPM_LIMIT,
+    ingestPhoneRpm: process.env.INGEST_PHONE_RPM,
+    ingestConversationRpm: process.env.INGEST_CONVERSATION_RPM,
+    throttleBaseCooldownSeconds: process.env.THROTTLE_BASE_COOLDOWN_SECONDS,
+    throttleMaxCooldownSeconds: process.env.THROTTLE_MAX_COOLDOWN_SECONDS,
     elevenLabsApiKey: process.env.ELEVENLABS_API_KEY,
     elevenLabsVoiceId: process.env.ELEVENLABS_VOICE_ID,
+    onboardingNudgeAfterHours: process.env.ONBOARDING_NUDGE_AFTER_HOURS,
+    onboardingMaxNudges: process.env.ONBOARDING_MAX_NUDGES,
+    accountDeletionGraceDays: process.env.ACCOUNT_DELETION_GRACE_DAYS,
     digestCronHour: process.env.DIGEST_CRON_HOUR,
+    digestConcurrency: process.env.DIGEST_CONCURRENCY,
+    digestMode: process.env.DIGEST_MODE,
+    digestBatchPollSeconds: process.env.DIGEST_BATCH_POLL_SECONDS,
   });
 
   if (!result.success) {
@@ -0,0 +1,420 @@
+/**
+ * Account Deletion Service (right to erasure)
+ *
+ * "borrar mis datos" (shared/account-commands.ts) or the admin API:
+ *   - schedule() opens an account_deletions row; the erase runs after
+ *     ACCOUNT_DELETION_GRACE_DAYS (immediately for admin `immediate` requests)
+ *     and can be canceled until then ("cancelar borrado")
+ *   - The worker (handlers/account-deletion.ts) removes the user's BullMQ jobs
+ *     and Redis keys, then calls erase()
+ *   - erase() deletes every row in USER_TABLES and the users row in one
+ *     transaction, then sweeps every table with a user_id column (plus dead
+ *     letters by phone) — anything left rolls the whole erase back
+ *   - The account_deletions row survives as the receipt: counts per table,
+ *     jobs / keys removed and the verification result. Only a SHA-256 of the
+ *     phone is kept.
+ *
+ * A new table holding user data needs `REFERENCES users(id) ON DELETE CASCADE`
+ * or an entry in USER_TABLES — otherwise every erase fails verification.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { config } from '../../config';
+import { withTransaction } from '../../infra/db/client';
+import { logger } from '../../infra/logging/logger';
+
+export type DeletionChannel = 'whatsapp' | 'admin';
+export type DeletionStatus = 'scheduled' | 'canceled' | 'completed' | 'failed';
+
+interface UserTable {
+  table: string;
+  where: string;
+  // Also matched by phone ($2)
+  byPhone?: boolean;
+  // Not created by our migrations (legacy ViveBien schema) — skipped if absent
+  optional?: boolean;
+}
+
+/**
+ * Everything keyed to a user, children before parents.
+ */
+const USER_TABLES: UserTable[] = [
+  { table: 'concern_snapshots', where: 'user_id = $1' },
+  { table: 'health_concerns', where: 'user_id = $1' },
+  { table: 'digest_run_items', where: 'user_id = $1' },
+  { table: 'nightly_summaries', where: 'user_id = $1' },
+  { table: 'daily_digests', where: 'user_id = $1', optional: true },
+  { table: 'food_patterns', where: 'user_id = $1', optional: true },
+  { table: 'health_events', where: 'user_id = $1' },
+  { table: 'messages', where: 'user_id = $1' },
+  { table: 'memories', where: 'user_id = $1' },
+  { table: 'archetype_history', where: 'user_id = $1' },
+  { table: 'archetype_classifications', where: 'user_id = $1' },
+  { table: 'client_profiles', where: 'user_id = $1' },
+  { table: 'experiment_assignments', where: 'user_id = $1' },
+  { table: 'credit_transactions', where: 'user_id = $1' },
+  { table: 'billing_accounts', where: 'user_id = $1', optional: true },
+  { table: 'google_fit_tokens', where: 'user_id = $1' },
+  { table: 'opt_out_events', where: 'user_id = $1' },
+  { table: 'data_exports', where: 'user_id = $1' },
+  { table: 'language_changes', where: 'user_id = $1' },
+  { table: 'conversation_state', where: 'user_id = $1' },
+  { table: 'ai_usage', where: 'user_id = $1' },
+  { table: 'execution_logs', where: 'user_id = $1' },
+  { table: 'dead_letters', where: "job_data->>'userId' = $1::text OR job_data->>'phone' = $2", byPhone: true },
+];
+
+// The receipt table itself is never swept
+const VERIFY_EXCLUDED_TABLES = ['account_deletions'];
+
+export interface DeletionVerification {
+  clean: boolean;
+  // table → rows still linked to the user
+  remaining: Record<string, number>;
+  checkedTables: number;
+  checkedAt: Date;
+}
+
+export interface DeletionReceipt {
+  rowsDeleted: Record<string, number>;
+  queueJobsRemoved: number;
+  redisKeysRemoved: number;
+  verification: DeletionVerification;
+}
+
+export interface AccountDeletion {
+  id: string;
+  userId: string;
+  requestedVia: DeletionChannel;
+  requestedBy: string | null;
+  reason: string | null;
+  status: DeletionStatus;
+  scheduledFor: Date;
+  canceledAt: Date | null;
+  completedAt: Date | null;
+  receipt: DeletionReceipt | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+export interface DeletionTarget {
+  deletion: AccountDeletion;
+  // Null when the users row is already gone
+  user: {
+    phone: string;
+    language: string | null;
+    conversationId: number | null;
+    channel: string | null;
+  } | null;
+}
+
+interface DeletionRow {
+  id: string;
+  user_id: string;
+  phone_hash: string;
+  requested_via: DeletionChannel;
+  requested_by: string | null;
+  reason: string | null;
+  status: DeletionStatus;
+  scheduled_for: Date;
+  canceled_at: Date | null;
+  completed_at: Date | null;
+  receipt: DeletionReceipt | null;
+  error: string | null;
+  created_at: Date;
+}
+
+export interface ScheduleOptions {
+  via: DeletionChannel;
+  requestedBy?: string;
+  reason?: string;
+  // Skip the grace period (admin)
+  immediate?: boolean;
+}
+
+export class AccountDeletionService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Schedule a user's deletion. An already-scheduled deletion is returned
+   * as-is (`created: false`), or brought forward when `immediate`.
+   * Returns null if the user doesn't exist.
+   */
+  async schedule(userId: string, options: ScheduleOptions): Promise<{ deletion: AccountDeletion; created: boolean } | null> {
+    const existing = await this.getScheduled(userId);
+    if (existing) {
+      if (!options.immediate) return { deletion: existing, created: false };
+
+      const result = await this.db.query<DeletionRow>(
+        `UPDATE account_deletions SET scheduled_for = NOW() WHERE id = $1 RETURNING *`,
+        [existing.id],
+      );
+      return { deletion: this.mapRow(result.rows[0]!), created: false };
+    }
+
+    const graceDays = options.immediate ? 0 : config.accountDeletionGraceDays;
+    const result = await this.db.query<DeletionRow>(
+      `INSERT INTO account_deletions (user_id, phone_hash, requested_via, requested_by, reason, scheduled_for)
+       SELECT u.id, encode(digest(u.phone, 'sha256'), 'hex'), $2, $3, $4, NOW() + make_interval(days => $5)
+       FROM users u
+       WHERE u.id = $1
+       ON CONFLICT (user_id) WHERE status = 'scheduled' DO NOTHING
+       RETURNING *`,
+      [userId, options.via, options.requestedBy ?? null, options.reason ?? null, graceDays],
+    );
+
+    if (result.rows.length === 0) {
+      // Lost a race with a concurrent request, or no such user
+      const raced = await this.getScheduled(userId);
+      return raced ? { deletion: raced, created: false } : null;
+    }
+
+    const deletion = this.mapRow(result.rows[0]!);
+    logger.info({ userId, deletionId: deletion.id, via: options.via, scheduledFor: deletion.scheduledFor }, 'Account deletion scheduled');
+    return { deletion, created: true };
+  }
+
+  /**
+   * Cancel a scheduled deletion. Returns null if none was pending.
+   */
+  async cancel(userId: string): Promise<AccountDeletion | null> {
+    const result = await this.db.query<DeletionRow>(
+      `UPDATE account_deletions SET status = 'canceled', canceled_at = NOW()
+       WHERE user_id = $1 AND status = 'scheduled'
+       RETURNING *`,
+      [userId],
+    );
+    if (result.rows.length === 0) return null;
+
+    const deletion = this.mapRow(result.rows[0]!);
+    logger.info({ userId, deletionId: deletion.id }, 'Account deletion canceled');
+    return deletion;
+  }
+
+  async getScheduled(userId: string): Promise<AccountDeletion | null> {
+    const result = await this.db.query<DeletionRow>(
+      `SELECT * FROM account_deletions WHERE user_id = $1 AND status = 'scheduled'`,
+      [userId],
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async get(deletionId: string): Promise<AccountDeletion | null> {
+    const result = await this.db.query<DeletionRow>('SELECT * FROM account_deletions WHERE id = $1', [deletionId]);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async list(status?: DeletionStatus): Promise<AccountDeletion[]> {
+    const result = await this.db.query<DeletionRow>(
+      `SELECT * FROM account_deletions
+       WHERE $1::text IS NULL OR status = $1
+       ORDER BY created_at DESC
+       LIMIT 200`,
+      [status ?? null],
+    );
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Scheduled deletions whose grace period is over.
+   */
+  async findDue(): Promise<string[]> {
+    const result = await this.db.query<{ id: string }>(
+      `SELECT id FROM account_deletions
+       WHERE status = 'scheduled' AND scheduled_for <= NOW()
+       ORDER BY scheduled_for`,
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * The deletion plus what the worker needs to clean up around it (phone for
+   * Redis keys and jobs, channel for the goodbye message).
+   */
+  async loadTarget(deletionId: string): Promise<DeletionTarget | null> {
+    const deletion = await this.get(deletionId);
+    if (!deletion) return null;
+
+    const result = await this.db.query<{
+      phone: string;
+      language: string | null;
+      conversation_id: number | null;
+      channel: string | null;
+    }>(
+      `SELECT u.phone, u.language, cs.conversation_id, cs.channel
+       FROM users u
+       LEFT JOIN conversation_state cs ON cs.user_id = u.id
+       WHERE u.id = $1`,
+      [deletion.userId],
+    );
+    const row = result.rows[0];
+
+    return {
+      deletion,
+      user: row
+        ? { phone: row.phone, language: row.language, conversationId: row.conversation_id, channel: row.channel }
+        : null,
+    };
+  }
+
+  /**
+   * Delete every row linked to the user, verify nothing is left and store
+   * the receipt — all in one transaction. Throws (and rolls back) if the
+   * verification finds anything.
+   */
+  async erase(
+    deletionId: string,
+    cleanup: { queueJobsRemoved: number; redisKeysRemoved: number },
+  ): Promise<DeletionReceipt> {
+    return withTransaction(async (client) => {
+      const deletionResult = await client.query<{ user_id: string; phone_hash: string; status: DeletionStatus }>(
+        'SELECT user_id, phone_hash, status FROM account_deletions WHERE id = $1 FOR UPDATE',
+        [deletionId],
+      );
+      const deletion = deletionResult.rows[0];
+      if (!deletion) throw new Error(`Account deletion ${deletionId} not found`);
+      if (deletion.status !== 'scheduled') {
+        throw new Error(`Account deletion ${deletionId} is ${deletion.status}, not scheduled`);
+      }
+
+      const userId = deletion.user_id;
+      const userResult = await client.query<{ phone: string }>(
+        'SELECT phone FROM users WHERE id = $1 FOR UPDATE',
+        [userId],
+      );
+      const phone = userResult.rows[0]?.phone ?? null;
+
+      const rowsDeleted: Record<string, number> = {};
+      for (const entry of USER_TABLES) {
+        if (entry.optional && !(await this.tableExists(client, entry.table))) continue;
+
+        const params = entry.byPhone ? [userId, phone] : [userId];
+        const result = await client.query(`DELETE FROM ${entry.table} WHERE ${entry.where}`, params);
+        rowsDeleted[entry.table] = result.rowCount ?? 0;
+      }
+
+      const usersResult = await client.query('DELETE FROM users WHERE id = $1', [userId]);
+      rowsDeleted.users = usersResult.rowCount ?? 0;
+
+      const verification = await this.runVerification(client, userId, deletion.phone_hash);
+      if (!verification.clean) {
+        logger.error({ deletionId, userId, remaining: verification.remaining }, 'Account deletion left rows behind — rolling back');
+        throw new Error(`Rows left after erase: ${Object.entries(verification.remaining).map(([t, n]) => `${t}=${n}`).join(', ')}`);
+      }
+
+      const receipt: DeletionReceipt = { rowsDeleted, ...cleanup, verification };
+      await client.query(
+        `UPDATE account_deletions
+         SET status = 'completed', completed_at = NOW(), receipt = $2, error = NULL
+         WHERE id = $1`,
+        [deletionId, JSON.stringify(receipt)],
+      );
+
+      logger.info({ deletionId, userId, rowsDeleted, ...cleanup }, 'Account erased');
+      return receipt;
+    }, this.db);
+  }
+
+  /**
+   * Record a failed erase. The user's data is untouched (the erase rolled back).
+   */
+  async markFailed(deletionId: string, error: string): Promise<void> {
+    await this.db.query(
+      `UPDATE account_deletions SET status = 'failed', error = $2 WHERE id = $1 AND status = 'scheduled'`,
+      [deletionId, error],
+    );
+  }
+
+  /**
+   * Re-check that nothing linked to a deletion's user remains.
+   */
+  async verify(deletionId: string): Promise<DeletionVerification | null> {
+    const result = await this.db.query<{ user_id: string; phone_hash: string }>(
+      'SELECT user_id, phone_hash FROM account_deletions WHERE id = $1',
+      [deletionId],
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const client = await this.db.connect();
+    try {
+      return await this.runVerification(client, row.user_id, row.phone_hash);
+    } finally {
+      client.release();
+    }
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  /**
+   * Count rows still linked to the user in every table with a user_id
+   * column (whether or not it's in USER_TABLES), the users row itself and
+   * dead letters carrying the phone.
+   */
+  private async runVerification(client: PoolClient, userId: string, phoneHash: string): Promise<DeletionVerification> {
+    const tables = await client.query<{ table_name: string }>(
+      `SELECT DISTINCT table_name
+       FROM information_schema.columns
+       WHERE table_schema = current_schema()
+         AND column_name = 'user_id'
+         AND table_name <> ALL($1::text[])
+       ORDER BY table_name`,
+      [VERIFY_EXCLUDED_TABLES],
+    );
+
+    const remaining: Record<string, number> = {};
+    for (const { table_name: table } of tables.rows) {
+      const result = await client.query<{ count: number }>(
+        `SELECT COUNT(*)::int AS count FROM "${table}" WHERE user_id::text = $1`,
+        [userId],
+      );
+      if (result.rows[0]!.count > 0) remaining[table] = result.rows[0]!.count;
+    }
+
+    const users = await client.query<{ count: number }>(
+      'SELECT COUNT(*)::int AS count FROM users WHERE id = $1',
+      [userId],
+    );
+    if (users.rows[0]!.count > 0) remaining.users = users.rows[0]!.count;
+
+    const deadLetters = await client.query<{ count: number }>(
+      `SELECT COUNT(*)::int AS count FROM dead_letters
+       WHERE job_data->>'userId' = $1
+          OR encode(digest(job_data->>'phone', 'sha256'), 'hex') = $2`,
+      [userId, phoneHash],
+    );
+    if (deadLetters.rows[0]!.count > 0) remaining.dead_letters = deadLetters.rows[0]!.count;
+
+    return {
+      clean: Object.keys(remaining).length === 0,
+      remaining,
+      checkedTables: tables.rows.length + 2,
+      checkedAt: new Date(),
+    };
+  }
+
+  private async tableExists(client: PoolClient, table: string): Promise<boolean> {
+    const result = await client.query<{ exists: boolean }>(
+      'SELECT to_regclass($1) IS NOT NULL AS exists',
+      [table],
+    );
+    return result.rows[0]!.exists;
+  }
+
+  private mapRow(row: DeletionRow): AccountDeletion {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      requestedVia: row.requested_via,
+      requestedBy: row.requested_by,
+      reason: row.reason,
+      status: row.status,
+      scheduledFor: row.scheduled_for,
+      canceledAt: row.canceled_at,
+      completedAt: row.completed_at,
+      receipt: row.receipt,
+      error: row.error,
+      createdAt: row.created_at,
+    };
+  }
+}
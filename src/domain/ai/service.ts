@@ -7,6 +7,8 @@ import { ConversationService } from '../conversation/service';
 import { db } from '../../infra/db/client';
 import { RateLimiter } from '../../shared/rate-limiter';
 import { detectLanguage as detectMessageLanguage } from '../../shared/language';
+import { buildPageLink } from '../../shared/link-token';
+import { t } from '../../shared/messages';
 
 const conversationService = new ConversationService(db);
 
@@ -193,13 +195,7 @@ export class AIService {
       // duplication with the system-generated header that includes the concern title
       cleanSummary = cleanSummary.replace(/^📋[^\n]*\n+/, '');
 
-      const headerTemplates: Record<string, string> = {
-        es: `📋 *Tu Nota de Salud — ${concernTitle}*`,
-        en: `📋 *Your Health Note — ${concernTitle}*`,
-        pt: `📋 *Sua Nota de Saúde — ${concernTitle}*`,
-        fr: `📋 *Votre Note de Santé — ${concernTitle}*`,
-      };
-      header = (headerTemplates[language] || headerTemplates.en!) + '\n\n';
+      header = t('note.header', language, { title: concernTitle }) + '\n\n';
     }
 
     return `${header}${cleanSummary}\n\n${containment}\n\n${link}`;
@@ -281,29 +277,17 @@ export class AIService {
    * "You don't need to remember this — it's saved."
    */
   private getContainmentText(language: string): string {
-    const texts: Record<string, string> = {
-      es: 'No necesitas recordar todo esto — está guardado y organizado. Si algo cambia, solo escríbeme.',
-      en: "You don't need to remember all this — it's saved and organized. If anything changes, just tell me.",
-      pt: 'Você não precisa lembrar de tudo isso — está salvo e organizado. Se algo mudar, é só me escrever.',
-      fr: "Vous n'avez pas besoin de tout retenir — c'est sauvegardé et organisé. Si quelque chose change, dites-le moi.",
-    };
-    return texts[language] || texts.en!;
+    return t('note.containment', language);
   }
 
   /**
    * Get the summary link text in the appropriate language
    * Only shown after summaries, not on every message
    * Reinforces containment: the note is safely saved and accessible
+   * The link carries a signed, expiring edit token for this user
    */
   private getSummaryLinkText(language: string, userId: string): string {
-    const link = `https://carelog.vivebien.io/${userId}`;
-    const texts: Record<string, string> = {
-      es: `📋 *Tu nota está aquí* 👇\n${link}`,
-      en: `📋 *Your note is here* 👇\n${link}`,
-      pt: `📋 *Sua nota está aqui* 👇\n${link}`,
-      fr: `📋 *Votre note est ici* 👇\n${link}`,
-    };
-    return texts[language] || texts.en!;
+    return t('note.link', language, { link: buildPageLink(userId, 'edit') });
   }
 
   /**
@@ -311,13 +295,7 @@ export class AIService {
    * Sent as a separate message after the health note to feel natural
    */
   getNameAskMessage(language: string): string {
-    const messages: Record<string, string> = {
-      es: 'Por cierto, ¿cómo te gustaría que te llame? Así personalizo tu Nota de Salud. Totalmente opcional.',
-      en: "By the way, what's your name? I'll personalize your Health Note. Totally optional.",
-      pt: 'A propósito, como gostaria que eu te chamasse? Assim personalizo sua Nota de Saúde. Totalmente opcional.',
-      fr: "Au fait, quel nom aimeriez-vous que j'utilise? Je personnaliserai votre Note de Santé. Totalement optionnel.",
-    };
-    return messages[language] || messages.en!;
+    return t('note.ask_name', language);
   }
 
   /**
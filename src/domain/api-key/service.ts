@@ -0,0 +1,119 @@
+/**
+ * API Key Service
+ *
+ * Role-based keys for the HTTP API:
+ *   - Keys are random tokens; only their SHA-256 hash is stored
+ *   - The plaintext is returned once, on creation
+ *   - last_used_at / last_used_ip are updated at most once a minute per key
+ *   - Revoked or expired keys stop authenticating immediately
+ */
+
+import { Pool } from 'pg';
+import { createHash, randomBytes } from 'crypto';
+import { logger } from '../../infra/logging/logger';
+import { ApiKeyRole } from '../../shared/permissions';
+
+const KEY_PREFIX = 'pk_';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  role: ApiKeyRole;
+  keyPrefix: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  role: ApiKeyRole;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export class ApiKeyService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Resolve a presented token to its key, or null if unknown/revoked/expired.
+   */
+  async authenticate(token: string, ip?: string): Promise<ApiKeyPrincipal | null> {
+    const result = await this.db.query<ApiKeyPrincipal>(
+      `SELECT id, name, role
+       FROM api_keys
+       WHERE key_hash = $1
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())`,
+      [hashApiKey(token)],
+    );
+
+    const principal = result.rows[0];
+    if (!principal) return null;
+
+    // Throttled so hot keys don't write on every request
+    await this.db.query(
+      `UPDATE api_keys
+       SET last_used_at = NOW(), last_used_ip = $2
+       WHERE id = $1
+         AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')`,
+      [principal.id, ip ?? null],
+    );
+
+    return principal;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const result = await this.db.query<ApiKey>(
+      `SELECT id, name, role,
+              key_prefix AS "keyPrefix",
+              expires_at AS "expiresAt",
+              last_used_at AS "lastUsedAt",
+              last_used_ip AS "lastUsedIp",
+              revoked_at AS "revokedAt",
+              created_at AS "createdAt"
+       FROM api_keys
+       ORDER BY revoked_at NULLS FIRST, created_at DESC`,
+    );
+    return result.rows;
+  }
+
+  /**
+   * Create a key. The plaintext is only returned here.
+   */
+  async create(input: { name: string; role: ApiKeyRole; expiresAt?: Date | null }): Promise<{ id: string; key: string }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO api_keys (name, role, key_prefix, key_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [input.name, input.role, key.substring(0, 10), hashApiKey(key), input.expiresAt ?? null],
+    );
+
+    const id = result.rows[0]!.id;
+    logger.info({ id, name: input.name, role: input.role }, 'API key created');
+    return { id, key };
+  }
+
+  /**
+   * Returns false if the key does not exist or was already revoked.
+   */
+  async revoke(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL`,
+      [id],
+    );
+
+    const revoked = (result.rowCount ?? 0) > 0;
+    if (revoked) {
+      logger.info({ id }, 'API key revoked');
+    }
+    return revoked;
+  }
+}
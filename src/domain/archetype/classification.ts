@@ -0,0 +1,252 @@
+/**
+ * Archetype Classification Service
+ *
+ * Picks the onboarding archetype through the archetype_classifier experiment:
+ *   - Not enrolled (experiment disabled): keyword scoring only
+ *   - Enrolled: keyword scoring AND the Claude classifier both run; the arm
+ *     (`keyword` or `llm`) decides which is applied. Both arms wait on the
+ *     LLM call, so response time doesn't differ between them.
+ *   - A failed LLM call falls back to the keyword result
+ *   - Both results go to archetype_classifications for the report:
+ *     agreement between methods + engagement after onboarding, per arm
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+import { detectArchetype, findStep, localize } from '../../shared/onboarding';
+import { Archetype, ArchetypeScores, OnboardingAnswer, OnboardingFlowDefinition } from '../../shared/types';
+import { ExperimentService } from '../experiment/service';
+import { LlmArchetypeClassifier, LlmClassification, QuestionAnswer } from './classifier';
+
+export const ARCHETYPE_CLASSIFIER_EXPERIMENT = 'archetype_classifier';
+
+const LLM_ARM = 'llm';
+
+export interface OnboardingClassification {
+  archetype: Archetype;
+  scores: ArchetypeScores;
+  reasons: string[];
+  // Experiment arm, null when the user isn't enrolled
+  variant: string | null;
+}
+
+export interface ClassifierArmReport {
+  variant: string;
+  users: number;
+  // Users with both a keyword and a successful LLM result
+  compared: number;
+  agreementRate: number | null;
+  llmFailures: number;
+  avgLlmConfidence: number | null;
+  // Engagement in the first `engagementDays` after onboarding, for users
+  // who finished onboarding at least that long ago
+  maturedUsers: number;
+  avgEvents: number | null;
+  avgActiveDays: number | null;
+  // Share still logging in the second half of that window
+  retentionRate: number | null;
+  // Behavior-based archetype changes the coach confirmed afterwards
+  coachCorrections: number;
+}
+
+export interface ClassifierReport {
+  experimentKey: string;
+  engagementDays: number;
+  arms: ClassifierArmReport[];
+  // keyword → llm archetype pairs among compared users
+  confusion: Array<{ keyword: Archetype; llm: Archetype; users: number }>;
+}
+
+export class ArchetypeClassificationService {
+  private experimentService: ExperimentService;
+  private classifier: LlmArchetypeClassifier;
+
+  constructor(private db: Pool) {
+    this.experimentService = new ExperimentService(db);
+    this.classifier = new LlmArchetypeClassifier();
+  }
+
+  /**
+   * Archetype for a client finishing (or skipping) onboarding.
+   */
+  async classifyOnboarding(
+    userId: string,
+    answers: OnboardingAnswer[],
+    flow: OnboardingFlowDefinition,
+    language: string,
+  ): Promise<OnboardingClassification> {
+    const keyword = detectArchetype(answers);
+    const keywordReason = `Keyword scoring of ${answers.length} onboarding answer(s)`;
+
+    const variant = await this.experimentService.getVariant(userId, ARCHETYPE_CLASSIFIER_EXPERIMENT);
+    if (!variant) {
+      return { ...keyword, reasons: [keywordReason], variant: null };
+    }
+
+    let llm: LlmClassification | null = null;
+    let llmError: string | null = null;
+    if (answers.length > 0) {
+      try {
+        llm = await this.classifier.classify(userId, this.toQuestionAnswers(answers, flow, language));
+      } catch (error) {
+        llmError = error instanceof Error ? error.message : String(error);
+        logger.warn({ userId, error: llmError }, 'LLM archetype classification failed — using keyword result');
+      }
+    } else {
+      llmError = 'No answers to classify';
+    }
+
+    const useLlm = variant === LLM_ARM && llm !== null;
+
+    await this.db.query(
+      `INSERT INTO archetype_classifications
+         (user_id, experiment_key, variant, method, archetype, scores, applied)
+       VALUES ($1, $2, $3, 'keyword', $4, $5, $6)`,
+      [userId, ARCHETYPE_CLASSIFIER_EXPERIMENT, variant, keyword.archetype, JSON.stringify(keyword.scores), !useLlm],
+    );
+    await this.db.query(
+      `INSERT INTO archetype_classifications
+         (user_id, experiment_key, variant, method, archetype, scores, confidence, rationale, model, latency_ms, error, applied)
+       VALUES ($1, $2, $3, 'llm', $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        userId, ARCHETYPE_CLASSIFIER_EXPERIMENT, variant,
+        llm?.archetype ?? null, JSON.stringify(llm?.scores ?? {}), llm?.confidence ?? null,
+        llm?.rationale ?? null, llm?.model ?? null, llm?.latencyMs ?? null, llmError, useLlm,
+      ],
+    );
+
+    logger.info(
+      { userId, variant, keyword: keyword.archetype, llm: llm?.archetype ?? null, applied: useLlm ? 'llm' : 'keyword' },
+      'Onboarding archetype classified',
+    );
+
+    if (useLlm) {
+      return {
+        archetype: llm!.archetype,
+        scores: llm!.scores,
+        reasons: [`LLM classifier (confidence ${llm!.confidence.toFixed(2)}): ${llm!.rationale}`],
+        variant,
+      };
+    }
+
+    return {
+      ...keyword,
+      reasons: [keywordReason, ...(variant === LLM_ARM ? ['LLM classifier unavailable — keyword fallback'] : [])],
+      variant,
+    };
+  }
+
+  /**
+   * Agreement between methods and downstream engagement, per arm. Uses each
+   * user's latest classification (restarts re-classify).
+   */
+  async getReport(engagementDays: number = 14): Promise<ClassifierReport> {
+    const arms = await this.db.query<{
+      variant: string;
+      users: number;
+      compared: number;
+      agreed: number;
+      llm_failures: number;
+      avg_llm_confidence: number | null;
+      matured_users: number;
+      avg_events: number | null;
+      avg_active_days: number | null;
+      retention_rate: number | null;
+      coach_corrections: number;
+    }>(
+      `WITH latest AS (
+         SELECT DISTINCT ON (user_id, method) user_id, variant, method, archetype, confidence, error, created_at
+         FROM archetype_classifications
+         WHERE experiment_key = $1
+         ORDER BY user_id, method, created_at DESC
+       ),
+       cohort AS (
+         SELECT k.user_id, k.variant, k.created_at AS classified_at,
+                k.archetype AS keyword_archetype, l.archetype AS llm_archetype,
+                l.confidence AS llm_confidence, l.error AS llm_error
+         FROM latest k
+         LEFT JOIN latest l ON l.user_id = k.user_id AND l.method = 'llm'
+         WHERE k.method = 'keyword'
+       )
+       SELECT c.variant,
+              COUNT(*)::int AS users,
+              COUNT(*) FILTER (WHERE c.llm_archetype IS NOT NULL)::int AS compared,
+              COUNT(*) FILTER (WHERE c.llm_archetype = c.keyword_archetype)::int AS agreed,
+              COUNT(*) FILTER (WHERE c.llm_error IS NOT NULL)::int AS llm_failures,
+              AVG(c.llm_confidence)::float AS avg_llm_confidence,
+              COUNT(*) FILTER (WHERE c.classified_at <= NOW() - make_interval(days => $2))::int AS matured_users,
+              AVG(ev.events) FILTER (WHERE c.classified_at <= NOW() - make_interval(days => $2))::float AS avg_events,
+              AVG(ev.active_days) FILTER (WHERE c.classified_at <= NOW() - make_interval(days => $2))::float AS avg_active_days,
+              AVG((ev.late_events > 0)::int) FILTER (WHERE c.classified_at <= NOW() - make_interval(days => $2))::float AS retention_rate,
+              COALESCE(SUM(corr.confirmed), 0)::int AS coach_corrections
+       FROM cohort c
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) AS events,
+                COUNT(DISTINCT he.event_date) AS active_days,
+                COUNT(*) FILTER (WHERE he.created_at >= c.classified_at + make_interval(days => $2) / 2) AS late_events
+         FROM health_events he
+         WHERE he.user_id = c.user_id
+           AND he.created_at >= c.classified_at
+           AND he.created_at < c.classified_at + make_interval(days => $2)
+       ) ev ON TRUE
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) AS confirmed
+         FROM archetype_history ah
+         WHERE ah.user_id = c.user_id
+           AND ah.source = 'behavior'
+           AND ah.status = 'confirmed'
+           AND ah.created_at >= c.classified_at
+       ) corr ON TRUE
+       GROUP BY c.variant
+       ORDER BY c.variant`,
+      [ARCHETYPE_CLASSIFIER_EXPERIMENT, engagementDays],
+    );
+
+    const confusion = await this.db.query<{ keyword: Archetype; llm: Archetype; users: number }>(
+      `WITH latest AS (
+         SELECT DISTINCT ON (user_id, method) user_id, method, archetype
+         FROM archetype_classifications
+         WHERE experiment_key = $1
+         ORDER BY user_id, method, created_at DESC
+       )
+       SELECT k.archetype AS keyword, l.archetype AS llm, COUNT(*)::int AS users
+       FROM latest k
+       JOIN latest l ON l.user_id = k.user_id AND l.method = 'llm' AND l.archetype IS NOT NULL
+       WHERE k.method = 'keyword'
+       GROUP BY k.archetype, l.archetype
+       ORDER BY users DESC`,
+      [ARCHETYPE_CLASSIFIER_EXPERIMENT],
+    );
+
+    return {
+      experimentKey: ARCHETYPE_CLASSIFIER_EXPERIMENT,
+      engagementDays,
+      arms: arms.rows.map(row => ({
+        variant: row.variant,
+        users: row.users,
+        compared: row.compared,
+        agreementRate: row.compared > 0 ? row.agreed / row.compared : null,
+        llmFailures: row.llm_failures,
+        avgLlmConfidence: row.avg_llm_confidence,
+        maturedUsers: row.matured_users,
+        avgEvents: row.avg_events,
+        avgActiveDays: row.avg_active_days,
+        retentionRate: row.retention_rate,
+        coachCorrections: row.coach_corrections,
+      })),
+      confusion: confusion.rows,
+    };
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private toQuestionAnswers(answers: OnboardingAnswer[], flow: OnboardingFlowDefinition, language: string): QuestionAnswer[] {
+    return answers.map(a => {
+      const step = a.stepId ? findStep(flow, a.stepId) : flow.steps[a.question - 1] ?? null;
+      return {
+        question: step ? localize(step.text, language) : `Question ${a.question}`,
+        answer: a.answer,
+      };
+    });
+  }
+}
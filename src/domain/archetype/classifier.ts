@@ -0,0 +1,120 @@
+/**
+ * LLM Archetype Classifier
+ *
+ * Claude (Haiku) reads the onboarding questions + answers and returns the
+ * archetype with per-archetype scores, a confidence and a short rationale.
+ * Used as the `llm` arm of the archetype_classifier experiment
+ * (see classification.ts) — the keyword scoring in shared/onboarding.ts
+ * stays the default.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { config } from '../../config';
+import { logAIUsage } from '../../infra/logging/logger';
+import { RateLimiter } from '../../shared/rate-limiter';
+import { Archetype, ArchetypeScores } from '../../shared/types';
+
+const MODEL = 'claude-haiku-4-5-20251001';
+
+// The user is waiting on the completion message
+const TIMEOUT_MS = 15000;
+
+export interface QuestionAnswer {
+  question: string;
+  answer: string;
+}
+
+export interface LlmClassification {
+  archetype: Exclude<Archetype, 'unknown'>;
+  scores: ArchetypeScores;
+  confidence: number;
+  rationale: string;
+  model: string;
+  latencyMs: number;
+}
+
+const responseSchema = z.object({
+  archetype: z.enum(['performance', 'skeptic', 'curious', 'passive']),
+  scores: z.object({
+    performance: z.number().min(0).max(10),
+    skeptic: z.number().min(0).max(10),
+    curious: z.number().min(0).max(10),
+    passive: z.number().min(0).max(10),
+  }),
+  confidence: z.number().min(0).max(1),
+  rationale: z.string().min(1).max(1000),
+});
+
+export class LlmArchetypeClassifier {
+  private client: Anthropic;
+  private rateLimiter: RateLimiter;
+
+  constructor() {
+    this.client = new Anthropic({ apiKey: config.anthropicApiKey, timeout: TIMEOUT_MS, maxRetries: 1 });
+    this.rateLimiter = new RateLimiter({ maxRequestsPerMinute: config.claudeRpmLimit });
+  }
+
+  /**
+   * Classify a client from their onboarding answers. Throws when the call
+   * fails or the reply doesn't match the expected JSON.
+   */
+  async classify(userId: string, answers: QuestionAnswer[]): Promise<LlmClassification> {
+    await this.rateLimiter.acquire();
+
+    const transcript = answers
+      .map((a, i) => `Q${i + 1}: ${a.question}\nA${i + 1}: ${a.answer}`)
+      .join('\n\n');
+
+    const prompt = `You classify new clients of a WhatsApp nutrition coaching service into one of four archetypes, based on their onboarding answers (any language).
+
+ARCHETYPES:
+- performance: goal-driven; trains, tracks or measures; wants to optimize energy, body or results
+- skeptic: has tried and failed before, or doubts that this will work; cares about proof, privacy, how long it takes
+- curious: wants to understand why and how food affects them; asks questions, enjoys learning
+- passive: no clear goal, low engagement; came because someone sent them; short or vague answers
+
+ONBOARDING:
+${transcript}
+
+Score every archetype from 0 to 10 by how well it fits, pick the best fit, and give your confidence (0-1) and a one or two sentence rationale in English that quotes the answers that decided it.
+
+Return ONLY JSON:
+{"archetype": "performance|skeptic|curious|passive", "scores": {"performance": 0, "skeptic": 0, "curious": 0, "passive": 0}, "confidence": 0.0, "rationale": "..."}`;
+
+    const startTime = Date.now();
+    const response = await this.client.messages.create({
+      model: MODEL,
+      max_tokens: 400,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    const latencyMs = Date.now() - startTime;
+
+    logAIUsage({
+      userId,
+      correlationId: `archetype-${userId}`,
+      model: response.model,
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      latencyMs,
+    }).catch(() => {});
+
+    const text = response.content
+      .filter(block => block.type === 'text')
+      .map(block => ('text' in block ? block.text : ''))
+      .join('');
+
+    const json = text.match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new Error('Archetype classifier returned no JSON');
+    }
+
+    const parsed = responseSchema.parse(JSON.parse(json[0]));
+
+    return {
+      ...parsed,
+      model: response.model,
+      latencyMs,
+    };
+  }
+}
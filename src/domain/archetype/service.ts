@@ -0,0 +1,437 @@
+/**
+ * Archetype Re-scoring Service
+ *
+ * Onboarding answers give a first archetype; behavior refines it:
+ *   - Signals over the last RESCORE_WINDOW_DAYS of health_events (engagement,
+ *     voice/photo use, questions, self-initiated vs replies to our messages)
+ *   - Behavior points are added to the onboarding scores
+ *   - A different top archetype becomes a proposal in archetype_history;
+ *     the coach confirms (profile updated) or rejects it
+ *   - Signals are also merged into client_profiles.behavioral_data
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { withTransaction } from '../../infra/db/client';
+import { logger } from '../../infra/logging/logger';
+import { ConflictError, NotFoundError } from '../../shared/errors';
+import { topArchetype } from '../../shared/onboarding';
+import { Archetype, ArchetypeScores } from '../../shared/types';
+
+export const RESCORE_WINDOW_DAYS = 28;
+
+// Fewer events than this in the window — not enough to judge behavior
+const MIN_EVENTS = 10;
+
+// Proposed archetype must lead the current one by at least this much
+const PROPOSAL_MARGIN = 2;
+
+// A message within this many hours of one of ours counts as a reply
+const REPLY_WINDOW_HOURS = 3;
+
+// Questions that doubt the method rather than ask about food
+const SKEPTICAL_QUESTION_PATTERN =
+  '\\m(funciona|works?|evidencia|evidence|estudios?|stud(y|ies)|científic|scientific|de verdad|really|prueba|proof|privacidad|privacy)';
+
+export type ArchetypeHistorySource = 'onboarding' | 'behavior';
+
+export type ArchetypeHistoryStatus = 'applied' | 'proposed' | 'confirmed' | 'rejected' | 'superseded';
+
+export interface BehaviorSignals {
+  windowDays: number;
+  events: number;
+  activeDays: number;
+  activeDayShare: number;
+  eventsPerActiveDay: number;
+  voiceShare: number;
+  photoShare: number;
+  questionShare: number;
+  skepticalQuestions: number;
+  selfInitiatedShare: number;
+  avgWords: number;
+  // Share of the window's events that fell in its second half
+  recentShare: number;
+}
+
+export interface ArchetypeHistoryEntry {
+  id: string;
+  userId: string;
+  previousArchetype: Archetype | null;
+  archetype: Archetype;
+  scores: ArchetypeScores;
+  signals: BehaviorSignals | null;
+  reasons: string[];
+  source: ArchetypeHistorySource;
+  status: ArchetypeHistoryStatus;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  createdAt: Date;
+}
+
+export interface ArchetypeProposal extends ArchetypeHistoryEntry {
+  userName: string | null;
+  phone: string;
+}
+
+export interface RescoreResult {
+  userId: string;
+  outcome: 'no_profile' | 'insufficient_data' | 'unchanged' | 'proposed';
+  signals?: BehaviorSignals;
+  scores?: ArchetypeScores;
+  proposalId?: string;
+}
+
+interface HistoryRow {
+  id: string;
+  user_id: string;
+  previous_archetype: Archetype | null;
+  archetype: Archetype;
+  scores: ArchetypeScores;
+  signals: BehaviorSignals | null;
+  reasons: string[];
+  source: ArchetypeHistorySource;
+  status: ArchetypeHistoryStatus;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  created_at: Date;
+}
+
+const HISTORY_COLUMNS = `id, user_id, previous_archetype, archetype, scores, signals, reasons,
+  source, status, reviewed_by, reviewed_at, review_note, created_at`;
+
+// ============================================================================
+// Scoring (pure)
+// ============================================================================
+
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+
+/**
+ * Behavior points per archetype, with the reason for each point awarded.
+ */
+export function scoreBehavior(signals: BehaviorSignals): { scores: ArchetypeScores; reasons: string[] } {
+  const scores: ArchetypeScores = { performance: 0, skeptic: 0, curious: 0, passive: 0 };
+  const reasons: string[] = [];
+  const award = (archetype: keyof ArchetypeScores, points: number, reason: string) => {
+    scores[archetype] += points;
+    reasons.push(`${reason} (+${points} ${archetype})`);
+  };
+  const days = `${signals.activeDays} of ${signals.windowDays} days`;
+
+  if (signals.activeDayShare >= 0.6) award('performance', 2, `Logged on ${days}`);
+  if (signals.photoShare >= 0.5) award('performance', 1, `${pct(signals.photoShare)} of logs include a photo`);
+  if (signals.selfInitiatedShare >= 0.7) award('performance', 1, `${pct(signals.selfInitiatedShare)} of messages sent unprompted`);
+
+  if (signals.questionShare >= 0.25) award('curious', 2, `${pct(signals.questionShare)} of messages are questions`);
+  if (signals.avgWords >= 20) award('curious', 1, `Detailed messages (${Math.round(signals.avgWords)} words on average)`);
+
+  if (signals.skepticalQuestions >= 2) award('skeptic', 2, `${signals.skepticalQuestions} questions about whether the method works`);
+  if (signals.recentShare < 0.25) award('skeptic', 1, `Logging dropped off: ${pct(signals.recentShare)} of events in the last ${Math.floor(signals.windowDays / 2)} days`);
+
+  if (signals.activeDayShare < 0.25) award('passive', 2, `Logged on only ${days}`);
+  if (signals.selfInitiatedShare < 0.3) award('passive', 2, `Mostly replies to reminders (${pct(1 - signals.selfInitiatedShare)} of messages)`);
+  if (signals.avgWords < 4) award('passive', 1, `Very short messages (${signals.avgWords.toFixed(1)} words on average)`);
+  if (signals.voiceShare >= 0.3) award('passive', 1, `${pct(signals.voiceShare)} of logs are voice notes`);
+
+  return { scores, reasons };
+}
+
+/**
+ * Onboarding scores plus behavior points.
+ */
+export function combineScores(onboarding: Partial<ArchetypeScores>, behavior: ArchetypeScores): ArchetypeScores {
+  return {
+    performance: (onboarding.performance ?? 0) + behavior.performance,
+    skeptic: (onboarding.skeptic ?? 0) + behavior.skeptic,
+    curious: (onboarding.curious ?? 0) + behavior.curious,
+    passive: (onboarding.passive ?? 0) + behavior.passive,
+  };
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class ArchetypeService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Active clients (onboarding done) due a re-score.
+   */
+  async findDueForRescore(limit: number = 1000): Promise<string[]> {
+    const result = await this.db.query<{ user_id: string }>(
+      `SELECT cp.user_id
+       FROM client_profiles cp
+       JOIN conversation_state cs ON cs.user_id = cp.user_id
+       WHERE cs.phase = 'active'
+         AND (cp.archetype_rescored_at IS NULL OR cp.archetype_rescored_at < NOW() - INTERVAL '20 hours')
+       ORDER BY cp.archetype_rescored_at NULLS FIRST
+       LIMIT $1`,
+      [limit],
+    );
+    return result.rows.map(row => row.user_id);
+  }
+
+  /**
+   * Behavioral signals from the last `windowDays` of health events. A message
+   * counts as a reply when it follows one of ours (messages table) or falls in
+   * the evening reminder window (user's local time); everything else is
+   * self-initiated.
+   */
+  async computeSignals(userId: string, windowDays: number = RESCORE_WINDOW_DAYS): Promise<BehaviorSignals> {
+    const result = await this.db.query<{
+      events: number;
+      active_days: number;
+      voice_events: number;
+      photo_events: number;
+      questions: number;
+      skeptical_questions: number;
+      self_initiated: number;
+      avg_words: number | null;
+      recent_events: number;
+    }>(
+      `WITH events AS (
+         SELECT he.*,
+                (
+                  EXISTS (
+                    SELECT 1 FROM messages m
+                    WHERE m.user_id = he.user_id
+                      AND m.role <> 'user'
+                      AND m.created_at BETWEEN he.created_at - make_interval(hours => $3) AND he.created_at
+                  )
+                  OR ((he.created_at AT TIME ZONE u.timezone)::time >= '20:00'
+                      AND (he.created_at AT TIME ZONE u.timezone)::time < make_time($3 + 20, 0, 0))
+                ) AS prompted
+         FROM health_events he
+         JOIN users u ON u.id = he.user_id
+         WHERE he.user_id = $1
+           AND he.created_at >= NOW() - make_interval(days => $2)
+       )
+       SELECT COUNT(*)::int AS events,
+              COUNT(DISTINCT event_date)::int AS active_days,
+              COUNT(*) FILTER (WHERE raw_input LIKE '%[Voice message]%')::int AS voice_events,
+              COUNT(*) FILTER (WHERE image_url IS NOT NULL OR jsonb_array_length(media_urls) > 0)::int AS photo_events,
+              COUNT(*) FILTER (WHERE is_question)::int AS questions,
+              COUNT(*) FILTER (WHERE is_question AND raw_input ~* $4)::int AS skeptical_questions,
+              COUNT(*) FILTER (WHERE NOT prompted)::int AS self_initiated,
+              AVG(array_length(regexp_split_to_array(btrim(raw_input), '\\s+'), 1))
+                FILTER (WHERE btrim(COALESCE(raw_input, '')) <> '')::float AS avg_words,
+              COUNT(*) FILTER (WHERE created_at >= NOW() - make_interval(days => $2 / 2))::int AS recent_events
+       FROM events`,
+      [userId, windowDays, REPLY_WINDOW_HOURS, SKEPTICAL_QUESTION_PATTERN],
+    );
+
+    const row = result.rows[0]!;
+    const share = (n: number) => (row.events > 0 ? n / row.events : 0);
+
+    return {
+      windowDays,
+      events: row.events,
+      activeDays: row.active_days,
+      activeDayShare: row.active_days / windowDays,
+      eventsPerActiveDay: row.active_days > 0 ? row.events / row.active_days : 0,
+      voiceShare: share(row.voice_events),
+      photoShare: share(row.photo_events),
+      questionShare: share(row.questions),
+      skepticalQuestions: row.skeptical_questions,
+      selfInitiatedShare: share(row.self_initiated),
+      avgWords: row.avg_words ?? 0,
+      recentShare: share(row.recent_events),
+    };
+  }
+
+  /**
+   * Re-score one client. Records (or refreshes) a proposal when behavior
+   * points to a different archetype; withdraws a stale one when it doesn't.
+   */
+  async rescoreUser(userId: string): Promise<RescoreResult> {
+    const profile = await this.db.query<{ archetype: Archetype; archetype_scores: Partial<ArchetypeScores> }>(
+      'SELECT archetype, archetype_scores FROM client_profiles WHERE user_id = $1',
+      [userId],
+    );
+    const current = profile.rows[0];
+    if (!current) return { userId, outcome: 'no_profile' };
+
+    const signals = await this.computeSignals(userId);
+
+    await this.db.query(
+      `UPDATE client_profiles
+       SET behavioral_data = behavioral_data || $2::jsonb, archetype_rescored_at = NOW()
+       WHERE user_id = $1`,
+      [userId, JSON.stringify({
+        engagement_level: signals.activeDayShare >= 0.6 ? 'high' : signals.activeDayShare >= 0.25 ? 'medium' : 'low',
+        self_initiates: signals.selfInitiatedShare >= 0.5,
+        sends_voice: signals.voiceShare >= 0.3,
+        sends_photos: signals.photoShare >= 0.5,
+        asks_questions: signals.questionShare >= 0.25,
+        signals,
+        signals_computed_at: new Date().toISOString(),
+      })],
+    );
+
+    if (signals.events < MIN_EVENTS) {
+      return { userId, outcome: 'insufficient_data', signals };
+    }
+
+    const behavior = scoreBehavior(signals);
+    const scores = combineScores(current.archetype_scores ?? {}, behavior.scores);
+    const proposed = topArchetype(scores);
+    const currentScore = current.archetype === 'unknown' ? 0 : scores[current.archetype];
+
+    if (proposed === 'unknown' || proposed === current.archetype || scores[proposed] - currentScore < PROPOSAL_MARGIN) {
+      const withdrawn = await this.db.query(
+        `UPDATE archetype_history SET status = 'superseded'
+         WHERE user_id = $1 AND status = 'proposed'`,
+        [userId],
+      );
+      if ((withdrawn.rowCount ?? 0) > 0) {
+        logger.info({ userId, archetype: current.archetype }, 'Archetype proposal withdrawn — behavior agrees with current archetype');
+      }
+      return { userId, outcome: 'unchanged', signals, scores };
+    }
+
+    const reasons = [
+      `Onboarding scores: ${this.formatScores(current.archetype_scores ?? {})}`,
+      ...behavior.reasons,
+      `Combined: ${this.formatScores(scores)}`,
+    ];
+
+    const proposalId = await withTransaction(async (client) => {
+      // Same archetype still proposed — refresh it instead of queueing a new one
+      const refreshed = await client.query<{ id: string }>(
+        `UPDATE archetype_history
+         SET scores = $3, signals = $4, reasons = $5, created_at = NOW()
+         WHERE user_id = $1 AND status = 'proposed' AND archetype = $2
+         RETURNING id`,
+        [userId, proposed, JSON.stringify(scores), JSON.stringify(signals), JSON.stringify(reasons)],
+      );
+      if (refreshed.rows[0]) return refreshed.rows[0].id;
+
+      await client.query(
+        `UPDATE archetype_history SET status = 'superseded'
+         WHERE user_id = $1 AND status = 'proposed'`,
+        [userId],
+      );
+
+      const inserted = await client.query<{ id: string }>(
+        `INSERT INTO archetype_history
+           (user_id, previous_archetype, archetype, scores, signals, reasons, source, status)
+         VALUES ($1, $2, $3, $4, $5, $6, 'behavior', 'proposed')
+         RETURNING id`,
+        [userId, current.archetype, proposed, JSON.stringify(scores), JSON.stringify(signals), JSON.stringify(reasons)],
+      );
+      return inserted.rows[0]!.id;
+    }, this.db);
+
+    logger.info({ userId, from: current.archetype, to: proposed, scores }, 'Archetype change proposed');
+    return { userId, outcome: 'proposed', signals, scores, proposalId };
+  }
+
+  /**
+   * Open proposals, oldest first (coach review queue).
+   */
+  async listProposals(): Promise<ArchetypeProposal[]> {
+    const result = await this.db.query<HistoryRow & { name: string | null; phone: string }>(
+      `SELECT ah.*, u.name, u.phone
+       FROM archetype_history ah
+       JOIN users u ON u.id = ah.user_id
+       WHERE ah.status = 'proposed'
+       ORDER BY ah.created_at`,
+    );
+    return result.rows.map(row => ({ ...this.mapRow(row), userName: row.name, phone: row.phone }));
+  }
+
+  /**
+   * Every archetype change and proposal for a client, newest first.
+   */
+  async getHistory(userId: string): Promise<ArchetypeHistoryEntry[]> {
+    const result = await this.db.query<HistoryRow>(
+      `SELECT ${HISTORY_COLUMNS} FROM archetype_history
+       WHERE user_id = $1
+       ORDER BY created_at DESC`,
+      [userId],
+    );
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Coach accepts a proposal — the profile takes the proposed archetype.
+   * archetype_scores keeps the onboarding scores (re-scoring adds behavior
+   * on top of them each run); the combined scores stay in the history row.
+   */
+  async confirmProposal(proposalId: string, reviewedBy: string, note?: string): Promise<ArchetypeHistoryEntry> {
+    const entry = await withTransaction(async (client) => {
+      const row = await this.reviewProposal(client, proposalId, 'confirmed', reviewedBy, note);
+
+      await client.query(
+        'UPDATE client_profiles SET archetype = $2 WHERE user_id = $1',
+        [row.user_id, row.archetype],
+      );
+      return this.mapRow(row);
+    }, this.db);
+
+    logger.info({ userId: entry.userId, from: entry.previousArchetype, to: entry.archetype, reviewedBy }, 'Archetype change confirmed');
+    return entry;
+  }
+
+  /**
+   * Coach rejects a proposal — the current archetype stays.
+   */
+  async rejectProposal(proposalId: string, reviewedBy: string, note?: string): Promise<ArchetypeHistoryEntry> {
+    const entry = await withTransaction(
+      async (client) => this.mapRow(await this.reviewProposal(client, proposalId, 'rejected', reviewedBy, note)),
+      this.db,
+    );
+
+    logger.info({ userId: entry.userId, archetype: entry.archetype, reviewedBy }, 'Archetype change rejected');
+    return entry;
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async reviewProposal(
+    client: PoolClient,
+    proposalId: string,
+    status: 'confirmed' | 'rejected',
+    reviewedBy: string,
+    note?: string,
+  ): Promise<HistoryRow> {
+    const result = await client.query<HistoryRow>(
+      `UPDATE archetype_history
+       SET status = $2, reviewed_by = $3, reviewed_at = NOW(), review_note = $4
+       WHERE id = $1 AND status = 'proposed'
+       RETURNING ${HISTORY_COLUMNS}`,
+      [proposalId, status, reviewedBy, note ?? null],
+    );
+
+    if (result.rows[0]) return result.rows[0];
+
+    const exists = await client.query('SELECT 1 FROM archetype_history WHERE id = $1', [proposalId]);
+    if (exists.rows.length === 0) throw new NotFoundError('Archetype proposal not found');
+    throw new ConflictError('Archetype proposal is no longer open');
+  }
+
+  private formatScores(scores: Partial<ArchetypeScores>): string {
+    return (['performance', 'skeptic', 'curious', 'passive'] as const)
+      .map(key => `${key} ${scores[key] ?? 0}`)
+      .join(', ');
+  }
+
+  private mapRow(row: HistoryRow): ArchetypeHistoryEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      previousArchetype: row.previous_archetype,
+      archetype: row.archetype,
+      scores: row.scores,
+      signals: row.signals,
+      reasons: row.reasons ?? [],
+      source: row.source,
+      status: row.status,
+      reviewedBy: row.reviewed_by,
+      reviewedAt: row.reviewed_at,
+      reviewNote: row.review_note,
+      createdAt: row.created_at,
+    };
+  }
+}
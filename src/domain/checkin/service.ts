@@ -2,7 +2,8 @@ import { Pool } from 'pg';
 import { Queue } from 'bullmq';
 import { CheckinStatus, CheckinState } from '../../shared/types';
 import { logger } from '../../infra/logging/logger';
-import { ChatwootClient } from '../../adapters/chatwoot/client';
+import { MessagingService } from '../messaging/service';
+import { t } from '../../shared/messages';
 
 // 24 hours in milliseconds
 const CHECKIN_DELAY_MS = 24 * 60 * 60 * 1000;
@@ -11,13 +12,13 @@ const CHECKIN_DELAY_MS = 24 * 60 * 60 * 1000;
 const ACTIVE_CONVERSATION_WINDOW_MS = 6 * 60 * 60 * 1000;
 
 export class CheckinService {
-  private chatwootClient: ChatwootClient;
+  private messagingService: MessagingService;
 
   constructor(
     private db: Pool,
     private checkinQueue: Queue
   ) {
-    this.chatwootClient = new ChatwootClient();
+    this.messagingService = new MessagingService(db);
   }
 
   // ============================================================================
@@ -28,63 +29,10 @@ export class CheckinService {
     // Permission-based continuity: gentle reminder that their note exists,
     // not a push to report back. The user should feel they have a calm place
     // to return to, not that they're being monitored.
-    const templates: Record<string, { withName: string; withoutName: string }> = {
-      es: {
-        withName: `Hola {name} 👋
-
-Tu nota sobre ${caseLabel || 'tu salud'} sigue aquí, organizada y lista.
-
-Si algo ha cambiado — aunque sea algo pequeño — puedes contarme y lo agrego.`,
-        withoutName: `Hola 👋
-
-Tu nota sobre ${caseLabel || 'tu salud'} sigue aquí, organizada y lista.
-
-Si algo ha cambiado — aunque sea algo pequeño — puedes contarme y lo agrego.`,
-      },
-      en: {
-        withName: `Hi {name} 👋
-
-Your note about ${caseLabel || 'your health'} is still here, organized and ready.
-
-If anything has changed — even something small — you can tell me and I'll add it.`,
-        withoutName: `Hi 👋
-
-Your note about ${caseLabel || 'your health'} is still here, organized and ready.
-
-If anything has changed — even something small — you can tell me and I'll add it.`,
-      },
-      pt: {
-        withName: `Oi {name} 👋
-
-Sua nota sobre ${caseLabel || 'sua saúde'} continua aqui, organizada e pronta.
-
-Se algo mudou — mesmo algo pequeno — pode me contar que eu adiciono.`,
-        withoutName: `Oi 👋
-
-Sua nota sobre ${caseLabel || 'sua saúde'} continua aqui, organizada e pronta.
-
-Se algo mudou — mesmo algo pequeno — pode me contar que eu adiciono.`,
-      },
-      fr: {
-        withName: `Bonjour {name} 👋
-
-Votre note sur ${caseLabel || 'votre santé'} est toujours là, organisée et prête.
-
-Si quelque chose a changé — même quelque chose de petit — vous pouvez me le dire et je l'ajouterai.`,
-        withoutName: `Bonjour 👋
-
-Votre note sur ${caseLabel || 'votre santé'} est toujours là, organisée et prête.
-
-Si quelque chose a changé — même quelque chose de petit — vous pouvez me le dire et je l'ajouterai.`,
-      },
-    };
-
-    const langTemplates = templates[language] || templates.en!;
-
-    if (name) {
-      return langTemplates!.withName.replace('{name}', name);
-    }
-    return langTemplates!.withoutName;
+    const topic = caseLabel || t('checkin.default_topic', language);
+    return name
+      ? t('checkin.reminder.named', language, { name, topic })
+      : t('checkin.reminder.unnamed', language, { topic });
   }
 
   private getCheckinAcknowledgment(userResponse: string, language: string): { message: string; noteEntry: string } {
@@ -95,89 +43,16 @@ Si quelque chose a changé — même quelque chose de petit — vous pouvez me l
     const isBetter = /\b(better|mejor|melhor|mieux|less pain|menos dolor|improvement|mejora)\b/i.test(lowerResponse);
     const isWorse = /\b(worse|peor|pior|pire|more pain|más dolor|swelling|hincha|empeor)\b/i.test(lowerResponse);
 
-    // Containment-first acknowledgments: calm, grounded, reinforce that info is safely captured
-    const responses: Record<string, Record<string, { message: string; noteEntry: string }>> = {
-      same: {
-        es: {
-          message: 'Anotado — tu nota ahora refleja que sigue igual. No necesitas recordar esto, está guardado.\n\nSi algo cambia después, solo escríbeme.',
-          noteEntry: `Seguimiento: Sin cambios significativos - "${userResponse}"`,
-        },
-        en: {
-          message: "Noted — your note now reflects that it's about the same. You don't need to remember this, it's saved.\n\nIf anything changes later, just tell me.",
-          noteEntry: `Follow-up: No significant changes - "${userResponse}"`,
-        },
-        pt: {
-          message: 'Anotado — sua nota agora reflete que continua igual. Você não precisa lembrar disso, está salvo.\n\nSe algo mudar depois, é só me escrever.',
-          noteEntry: `Acompanhamento: Sem mudanças significativas - "${userResponse}"`,
-        },
-        fr: {
-          message: "Noté — votre note reflète maintenant que c'est à peu près pareil. Vous n'avez pas besoin de retenir cela, c'est sauvegardé.\n\nSi ça change plus tard, dites-le moi.",
-          noteEntry: `Suivi: Pas de changements significatifs - "${userResponse}"`,
-        },
-      },
-      better: {
-        es: {
-          message: 'Qué bueno — he actualizado tu nota con la mejoría. Está todo organizado.\n\nSi algo más cambia, aquí estoy.',
-          noteEntry: `Seguimiento: Mejoría reportada - "${userResponse}"`,
-        },
-        en: {
-          message: "Good to hear — I've updated your note with the improvement. Everything's organized.\n\nIf anything else changes, I'm here.",
-          noteEntry: `Follow-up: Improvement reported - "${userResponse}"`,
-        },
-        pt: {
-          message: 'Que bom — atualizei sua nota com a melhora. Está tudo organizado.\n\nSe algo mais mudar, estou aqui.',
-          noteEntry: `Acompanhamento: Melhora reportada - "${userResponse}"`,
-        },
-        fr: {
-          message: "Bonne nouvelle — j'ai mis à jour votre note avec l'amélioration. Tout est organisé.\n\nSi autre chose change, je suis là.",
-          noteEntry: `Suivi: Amélioration signalée - "${userResponse}"`,
-        },
-      },
-      worse: {
-        es: {
-          message: 'Gracias por contarme. He añadido esto a tu nota.\n\nSi quieres, cuéntame un poco más sobre qué cambió y lo organizo claramente para tu médico.',
-          noteEntry: `Seguimiento: Empeoramiento reportado - "${userResponse}"`,
-        },
-        en: {
-          message: "Thank you for sharing that. I've added it to your note.\n\nIf you'd like, tell me a bit more about what changed and I'll organize it clearly for your doctor.",
-          noteEntry: `Follow-up: Worsening reported - "${userResponse}"`,
-        },
-        pt: {
-          message: 'Obrigado por compartilhar. Adicionei isso à sua nota.\n\nSe quiser, me conte um pouco mais sobre o que mudou e eu organizo claramente para seu médico.',
-          noteEntry: `Acompanhamento: Piora reportada - "${userResponse}"`,
-        },
-        fr: {
-          message: "Merci de me le dire. J'ai ajouté cela à votre note.\n\nSi vous voulez, dites-moi ce qui a changé et je l'organiserai clairement pour votre médecin.",
-          noteEntry: `Suivi: Aggravation signalée - "${userResponse}"`,
-        },
-      },
-      default: {
-        es: {
-          message: 'Anotado — he actualizado tu nota. No necesitas recordar esto, está guardado.\n\nSi algo más cambia, solo escríbeme.',
-          noteEntry: `Seguimiento: "${userResponse}"`,
-        },
-        en: {
-          message: "Noted — I've updated your note. You don't need to remember this, it's saved.\n\nIf anything else changes, just tell me.",
-          noteEntry: `Follow-up: "${userResponse}"`,
-        },
-        pt: {
-          message: 'Anotado — atualizei sua nota. Você não precisa lembrar disso, está salvo.\n\nSe algo mais mudar, é só me escrever.',
-          noteEntry: `Acompanhamento: "${userResponse}"`,
-        },
-        fr: {
-          message: "Noté — j'ai mis à jour votre note. Vous n'avez pas besoin de retenir cela, c'est sauvegardé.\n\nSi autre chose change, dites-le moi.",
-          noteEntry: `Suivi: "${userResponse}"`,
-        },
-      },
-    };
-
-    let responseType = 'default';
+    let responseType: 'same' | 'better' | 'worse' | 'default' = 'default';
     if (isSame) responseType = 'same';
     else if (isBetter) responseType = 'better';
     else if (isWorse) responseType = 'worse';
 
-    const langResponses = responses[responseType]![language] || responses[responseType]!.en!;
-    return langResponses!;
+    // Containment-first acknowledgments: calm, grounded, reinforce that info is safely captured
+    return {
+      message: t(`checkin.ack.${responseType}`, language),
+      noteEntry: t(`checkin.note.${responseType}`, language, { response: userResponse }),
+    };
   }
 
   // ============================================================================
@@ -359,8 +234,9 @@ Si quelque chose a changé — même quelque chose de petit — vous pouvez me l
     const userResult = await this.db.query<{
       name: string | null;
       language: string;
+      opted_out_at: Date | null;
     }>(
-      `SELECT name, COALESCE(language, 'en') as language FROM users WHERE id = $1`,
+      `SELECT name, COALESCE(language, 'en') as language, opted_out_at FROM users WHERE id = $1`,
       [userId]
     );
 
@@ -371,11 +247,18 @@ Si quelque chose a changé — même quelque chose de petit — vous pouvez me l
     }
 
     const user = userResult.rows[0]!;
+
+    // Paused or stopped proactive messages ("pausa" / "stop")
+    if (user.opted_out_at) {
+      logger.info({ userId }, 'User opted out, canceling check-in');
+      await this.updateCheckinStatus(userId, 'canceled');
+      return false;
+    }
     const message = this.getCheckinMessage(user.name, state.caseLabel || null, user.language);
 
     // Send the check-in message
     try {
-      await this.chatwootClient.sendMessage(conversationId, message);
+      await this.messagingService.sendMessage({ userId, conversationId }, message);
       await this.updateCheckinStatus(userId, 'sent');
       await this.updateLastBotMessageAt(userId);
 
@@ -452,18 +335,11 @@ Si quelque chose a changé — même quelque chose de petit — vous pouvez me l
     };
 
     const langPatterns = patterns[language] || patterns.en!;
-    const prefixes: Record<string, string> = {
-      en: 'your ',
-      es: 'tu ',
-      pt: 'seu ',
-      fr: 'votre ',
-    };
 
     for (const pattern of langPatterns!) {
       const match = summary.match(pattern);
       if (match) {
-        const prefix = prefixes[language] || prefixes.en;
-        return prefix + match[0].toLowerCase();
+        return t('checkin.case_label', language, { area: match[0].toLowerCase() });
       }
     }
 
@@ -4,9 +4,11 @@
  * Manages the client_profiles table:
  *   - Create profile on first message (archetype = unknown)
  *   - Save onboarding answers one by one
- *   - Set archetype after Q5
+ *   - Set archetype + completed flow version when onboarding ends
  *   - Track coaching phase + graduation
  *   - Update behavioral data over time
+ *
+ * Behavior-based archetype re-scoring lives in domain/archetype.
  */
 
 import { Pool } from 'pg';
@@ -27,6 +29,8 @@ export class ClientProfileService {
       archetype_scores: ArchetypeScores;
       coaching_phase: CoachingPhase;
       onboarding_answers: OnboardingAnswer[];
+      onboarding_flow_id: string | null;
+      onboarding_flow_version: number | null;
       patterns_confirmed: number;
       graduation_pending: boolean;
       graduated_at: Date | null;
@@ -36,7 +40,8 @@ export class ClientProfileService {
       updated_at: Date;
     }>(
       `SELECT id, user_id, archetype, archetype_scores, coaching_phase,
-              onboarding_answers, patterns_confirmed, graduation_pending,
+              onboarding_answers, onboarding_flow_id, onboarding_flow_version,
+              patterns_confirmed, graduation_pending,
               graduated_at, coach_notes, behavioral_data, created_at, updated_at
        FROM client_profiles
        WHERE user_id = $1`,
@@ -60,6 +65,8 @@ export class ClientProfileService {
       archetype_scores: ArchetypeScores;
       coaching_phase: CoachingPhase;
       onboarding_answers: OnboardingAnswer[];
+      onboarding_flow_id: string | null;
+      onboarding_flow_version: number | null;
       patterns_confirmed: number;
       graduation_pending: boolean;
       graduated_at: Date | null;
@@ -72,7 +79,8 @@ export class ClientProfileService {
        VALUES ($1)
        ON CONFLICT (user_id) DO UPDATE SET updated_at = NOW()
        RETURNING id, user_id, archetype, archetype_scores, coaching_phase,
-                 onboarding_answers, patterns_confirmed, graduation_pending,
+                 onboarding_answers, onboarding_flow_id, onboarding_flow_version,
+                 patterns_confirmed, graduation_pending,
                  graduated_at, coach_notes, behavioral_data, created_at, updated_at`,
       [userId],
     );
@@ -85,8 +93,8 @@ export class ClientProfileService {
   /**
    * Append an onboarding answer and save it to the profile.
    */
-  async saveOnboardingAnswer(userId: string, question: number, answer: string): Promise<void> {
-    const newAnswer: OnboardingAnswer = { question, answer };
+  async saveOnboardingAnswer(userId: string, question: number, answer: string, stepId?: string): Promise<void> {
+    const newAnswer: OnboardingAnswer = { question, answer, stepId };
 
     await this.pool.query(
       `UPDATE client_profiles
@@ -99,17 +107,64 @@ export class ClientProfileService {
   }
 
   /**
-   * Set the final archetype after all 5 questions are answered.
+   * Set the final archetype once the onboarding flow is finished.
+   * The change is recorded in archetype_history with its reasons.
    */
-  async setArchetype(userId: string, archetype: Archetype, scores: ArchetypeScores): Promise<void> {
+  async setArchetype(userId: string, archetype: Archetype, scores: ArchetypeScores, reasons: string[] = []): Promise<void> {
+    // CTEs share one snapshot, so `prev` still sees the old archetype
+    await this.pool.query(
+      `WITH prev AS (
+         SELECT archetype FROM client_profiles WHERE user_id = $1
+       ), updated AS (
+         UPDATE client_profiles
+         SET archetype = $2, archetype_scores = $3
+         WHERE user_id = $1
+         RETURNING user_id
+       )
+       INSERT INTO archetype_history (user_id, previous_archetype, archetype, scores, reasons, source, status)
+       SELECT updated.user_id, prev.archetype, $2, $3, $4, 'onboarding', 'applied'
+       FROM updated, prev`,
+      [userId, archetype, JSON.stringify(scores), JSON.stringify(reasons)],
+    );
+
+    logger.info({ userId, archetype, scores }, 'Archetype set');
+  }
+
+  /**
+   * Record which onboarding flow version the client completed.
+   */
+  async setCompletedFlow(userId: string, flowId: string, version: number): Promise<void> {
     await this.pool.query(
       `UPDATE client_profiles
-       SET archetype = $2, archetype_scores = $3
+       SET onboarding_flow_id = $2, onboarding_flow_version = $3
        WHERE user_id = $1`,
-      [userId, archetype, JSON.stringify(scores)],
+      [userId, flowId, version],
     );
+  }
 
-    logger.info({ userId, archetype, scores }, 'Archetype set');
+  /**
+   * Forget onboarding answers and the archetype derived from them (restart).
+   */
+  async resetOnboarding(userId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE client_profiles
+       SET onboarding_answers = '[]', archetype = 'unknown', archetype_scores = '{}',
+           onboarding_flow_id = NULL, onboarding_flow_version = NULL, onboarding_skipped_at = NULL
+       WHERE user_id = $1`,
+      [userId],
+    );
+
+    logger.info({ userId }, 'Onboarding reset');
+  }
+
+  /**
+   * Record that the client skipped the rest of onboarding.
+   */
+  async markOnboardingSkipped(userId: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE client_profiles SET onboarding_skipped_at = NOW() WHERE user_id = $1',
+      [userId],
+    );
   }
 
   /**
@@ -181,6 +236,8 @@ export class ClientProfileService {
       archetype_scores: ArchetypeScores;
       coaching_phase: CoachingPhase;
       onboarding_answers: OnboardingAnswer[];
+      onboarding_flow_id: string | null;
+      onboarding_flow_version: number | null;
       patterns_confirmed: number;
       graduation_pending: boolean;
       graduated_at: Date | null;
@@ -210,6 +267,8 @@ export class ClientProfileService {
       archetype_scores: ArchetypeScores;
       coaching_phase: CoachingPhase;
       onboarding_answers: OnboardingAnswer[];
+      onboarding_flow_id: string | null;
+      onboarding_flow_version: number | null;
       patterns_confirmed: number;
       graduation_pending: boolean;
       graduated_at: Date | null;
@@ -250,6 +309,8 @@ export class ClientProfileService {
     archetype_scores: ArchetypeScores;
     coaching_phase: CoachingPhase;
     onboarding_answers: OnboardingAnswer[];
+    onboarding_flow_id: string | null;
+    onboarding_flow_version: number | null;
     patterns_confirmed: number;
     graduation_pending: boolean;
     graduated_at: Date | null;
@@ -265,6 +326,8 @@ export class ClientProfileService {
       archetypeScores: row.archetype_scores,
       coachingPhase: row.coaching_phase,
       onboardingAnswers: row.onboarding_answers ?? [],
+      onboardingFlowId: row.onboarding_flow_id,
+      onboardingFlowVersion: row.onboarding_flow_version,
       patternsConfirmed: row.patterns_confirmed,
       graduationPending: row.graduation_pending,
       graduatedAt: row.graduated_at,
@@ -5,7 +5,9 @@ import {
   Message,
   SafetyCheckResult,
 } from '../../shared/types';
-import { getActivePrompt, getConfigTemplate, getFeatureFlag } from '../../infra/db/client';
+import { getActivePrompt, getFeatureFlag } from '../../infra/db/client';
+import { t } from '../../shared/messages';
+import { MessageKey } from '../../shared/message-catalog';
 import { logger } from '../../infra/logging/logger';
 
 export class ConversationService {
@@ -288,9 +290,8 @@ export class ConversationService {
     };
   }
 
-  async getTemplate(key: string, language: string = 'es'): Promise<string> {
-    const template = await getConfigTemplate(key, language as 'es' | 'en');
-    return template || this.getDefaultTemplate(key, language);
+  async getTemplate(key: MessageKey, language: string = 'es'): Promise<string> {
+    return t(key, language);
   }
 
   async getSystemPrompt(context: ConversationContext, userLanguage?: string): Promise<string> {
@@ -364,66 +365,6 @@ ${userLanguage ? `User's stored language preference: ${userLanguage}` : 'No stor
     return context.phase;
   }
 
-  private getDefaultTemplate(key: string, language: string): string {
-    const templates: Record<string, Record<string, string>> = {
-      no_credits: {
-        es: 'Plato Inteligente necesita créditos adicionales para continuar. Visita la web para más información.',
-        en: 'Plato Inteligente needs additional credits to continue. Visit the website for more info.',
-        pt: 'Plato Inteligente precisa de créditos adicionais para continuar. Visite o site para mais informações.',
-        fr: 'Plato Inteligente a besoin de crédits supplémentaires pour continuer. Visitez le site pour plus d\'infos.',
-      },
-      error: {
-        es: 'Algo salió mal. Intenta de nuevo.',
-        en: 'Something went wrong. Please try again.',
-        pt: 'Algo deu errado. Por favor, tente novamente.',
-        fr: 'Une erreur s\'est produite. Veuillez réessayer.',
-      },
-      maintenance: {
-        es: 'Plato Inteligente no está disponible en este momento. Vuelve pronto.',
-        en: 'Plato Inteligente is temporarily unavailable. Please try again soon.',
-        pt: 'Plato Inteligente está temporariamente indisponível. Tente novamente em breve.',
-        fr: 'Plato Inteligente est temporairement indisponible. Réessayez bientôt.',
-      },
-      // Step 1: First Contact - Warm, food-first
-      onboarding_greeting: {
-        es: 'Hola 👋\nSoy tu guía de nutrición de Plato Inteligente.\nTe ayudo a comer mejor con lo que ya tienes en tu cocina. Una doctora de verdad entrena la inteligencia artificial que te ayuda.\nMándame una foto de lo que vas a comer, o dime qué tienes en la nevera.',
-        en: 'Hello 👋\nI\'m your nutrition guide from Plato Inteligente.\nI help you eat better with what you already have in your kitchen. A real doctor trains the AI that helps you.\nSend me a photo of what you\'re about to eat, or tell me what you have in your fridge.',
-        pt: 'Olá 👋\nSou seu guia de nutrição do Plato Inteligente.\nTe ajudo a comer melhor com o que você já tem na cozinha. Uma médica de verdade treina a inteligência artificial que te ajuda.\nMe manda uma foto do que vai comer, ou me diz o que tem na geladeira.',
-        fr: 'Bonjour 👋\nJe suis votre guide nutrition de Plato Inteligente.\nJe vous aide à mieux manger avec ce que vous avez déjà dans votre cuisine. Un vrai médecin entraîne l\'IA qui vous aide.\nEnvoyez-moi une photo de ce que vous allez manger, ou dites-moi ce que vous avez dans votre frigo.',
-      },
-      // Return prompt - warm, food-first re-engagement
-      return_prompt: {
-        es: '¡Qué bueno verte! ¿Qué vas a comer hoy?',
-        en: 'Great to see you! What are you eating today?',
-        pt: 'Que bom te ver! O que vai comer hoje?',
-        fr: 'Content de vous revoir! Qu\'allez-vous manger aujourd\'hui?',
-      },
-      // Name Request - Light, optional
-      ask_name: {
-        es: '¿Cómo te gustaría que te llame? Totalmente opcional.',
-        en: 'What name would you like me to use? Totally optional.',
-        pt: 'Como gostaria que eu te chamasse? Totalmente opcional.',
-        fr: 'Quel nom aimeriez-vous que j\'utilise? Totalement optionnel.',
-      },
-      // Safety: Urgent Care - Calm, not alarming
-      urgent_care: {
-        es: `Lo que describes necesita atención médica ahora. Por favor contacta emergencias o ve a urgencias.`,
-        en: `What you're describing needs medical attention right away. Please contact emergency services or go to urgent care now.`,
-        pt: `O que você descreve precisa de atenção médica agora. Por favor, entre em contato com emergências ou vá ao pronto-socorro.`,
-        fr: `Ce que vous décrivez nécessite une attention médicale immédiate. Veuillez contacter les urgences maintenant.`,
-      },
-      logged: {
-        es: 'Registrado.',
-        en: 'Logged.',
-        pt: 'Registrado.',
-        fr: 'Enregistré.',
-      },
-    };
-
-    // Return template in requested language, fallback to English, then Spanish
-    return templates[key]?.[language] || templates[key]?.en || templates[key]?.es || '';
-  }
-
   private getDefaultSystemPrompt(): string {
     return `You are the AI nutrition guide for Plato Inteligente, personally trained by Dr. Hernandez, a licensed physician specializing in clinical nutrition for Hispanic and Latino communities. You communicate through WhatsApp.
 
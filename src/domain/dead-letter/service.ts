@@ -0,0 +1,183 @@
+/**
+ * Dead Letter Service
+ *
+ * Persists inbound jobs that exhausted their retries so the user's message is
+ * not lost when BullMQ cleans up failed jobs:
+ *   - recordFailedJob / record: called by the worker on a job's final failure
+ *   - list / get: admin inspection
+ *   - buildReplay + markReplayed: re-enqueue the original job data
+ *   - discard: keep the row for audit but drop it from the pending list
+ */
+
+import { Pool } from 'pg';
+import { Job } from 'bullmq';
+import { logger } from '../../infra/logging/logger';
+import { InboundQueueJobData } from '../../shared/types';
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'discarded';
+
+export interface DeadLetter {
+  id: string;
+  queueName: string;
+  jobId: string | null;
+  jobName: string;
+  correlationId: string | null;
+  jobData: InboundQueueJobData;
+  error: string;
+  stack: string | null;
+  attemptsMade: number;
+  status: DeadLetterStatus;
+  replayCount: number;
+  lastReplayedAt: Date | null;
+  discardedAt: Date | null;
+  failedAt: Date;
+}
+
+export interface RecordDeadLetterInput {
+  queueName: string;
+  jobId?: string;
+  jobName: string;
+  jobData: InboundQueueJobData;
+  error: string;
+  stack?: string;
+  attemptsMade: number;
+}
+
+const DEAD_LETTER_COLUMNS = `
+  id,
+  queue_name AS "queueName",
+  job_id AS "jobId",
+  job_name AS "jobName",
+  correlation_id AS "correlationId",
+  job_data AS "jobData",
+  error,
+  stack,
+  attempts_made AS "attemptsMade",
+  status,
+  replay_count AS "replayCount",
+  last_replayed_at AS "lastReplayedAt",
+  discarded_at AS "discardedAt",
+  failed_at AS "failedAt"`;
+
+export type FailedJob = Pick<Job<InboundQueueJobData>, 'id' | 'name' | 'data' | 'attemptsMade' | 'opts'>;
+
+export class DeadLetterService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Record a failed job if BullMQ won't run it again — out of attempts, or
+   * failed as unrecoverable. Returns the dead letter id, or null if the job
+   * will be retried.
+   */
+  async recordFailedJob(queueName: string, job: FailedJob, err: Error): Promise<string | null> {
+    const exhausted = job.attemptsMade >= (job.opts.attempts ?? 1) || err.name === 'UnrecoverableError';
+    if (!exhausted) return null;
+
+    return this.record({
+      queueName,
+      jobId: job.id,
+      jobName: job.name,
+      jobData: job.data,
+      error: err.message,
+      stack: err.stack,
+      attemptsMade: job.attemptsMade,
+    });
+  }
+
+  async record(input: RecordDeadLetterInput): Promise<string> {
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO dead_letters
+         (queue_name, job_id, job_name, correlation_id, job_data, error, stack, attempts_made)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        input.queueName,
+        input.jobId ?? null,
+        input.jobName,
+        input.jobData.correlationId ?? null,
+        JSON.stringify(input.jobData),
+        input.error,
+        input.stack ?? null,
+        input.attemptsMade,
+      ],
+    );
+
+    const id = result.rows[0]!.id;
+    logger.warn(
+      { deadLetterId: id, jobId: input.jobId, correlationId: input.jobData.correlationId },
+      'Job moved to dead letters',
+    );
+    return id;
+  }
+
+  async list(options: { status?: DeadLetterStatus; limit?: number; offset?: number } = {}): Promise<{
+    items: DeadLetter[];
+    total: number;
+  }> {
+    const { status, limit = 50, offset = 0 } = options;
+
+    const [items, count] = await Promise.all([
+      this.db.query<DeadLetter>(
+        `SELECT ${DEAD_LETTER_COLUMNS}
+         FROM dead_letters
+         WHERE ($1::text IS NULL OR status = $1)
+         ORDER BY failed_at DESC
+         LIMIT $2 OFFSET $3`,
+        [status ?? null, limit, offset],
+      ),
+      this.db.query<{ count: string }>(
+        `SELECT COUNT(*) AS count FROM dead_letters WHERE ($1::text IS NULL OR status = $1)`,
+        [status ?? null],
+      ),
+    ]);
+
+    return { items: items.rows, total: parseInt(count.rows[0]?.count ?? '0', 10) };
+  }
+
+  async get(id: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetter>(
+      `SELECT ${DEAD_LETTER_COLUMNS} FROM dead_letters WHERE id = $1`,
+      [id],
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Job data to re-enqueue. The correlation id is kept so execution logs
+   * line up with the original attempt and the worker's message dedupe
+   * treats the replay as a retry, not a duplicate.
+   */
+  buildReplay(entry: DeadLetter, sendAck: boolean): InboundQueueJobData {
+    if (entry.jobData.type !== 'inbound_message') {
+      return entry.jobData;
+    }
+
+    // The failed job already released its ordering turn
+    const { sequence: _sequence, ...data } = entry.jobData;
+    return { ...data, replay: { deadLetterId: entry.id, sendAck } };
+  }
+
+  async markReplayed(id: string): Promise<void> {
+    await this.db.query(
+      `UPDATE dead_letters
+       SET status = 'replayed',
+           replay_count = replay_count + 1,
+           last_replayed_at = NOW()
+       WHERE id = $1`,
+      [id],
+    );
+  }
+
+  /**
+   * Returns false if the entry does not exist or was already discarded.
+   */
+  async discard(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE dead_letters
+       SET status = 'discarded', discarded_at = NOW()
+       WHERE id = $1 AND status <> 'discarded'`,
+      [id],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * Nightly Digest Batches
+ *
+ * In DIGEST_MODE=batch the hourly scan doesn't queue one digest job per
+ * user: it prepares every due user's summary prompt and submits them as one
+ * Message Batch (half the per-token price, no rate limiting). The worker
+ * polls open batches every DIGEST_BATCH_POLL_SECONDS; when one ends, each
+ * reply goes through the same validation as a sync digest:
+ *   - valid: events marked processed, digest + pending nightly summary saved
+ *     (DigestService.completeDigest), run item 'ok'
+ *   - invalid: the conversation plus repair turns goes out in a follow-up
+ *     batch, up to SUMMARY_REPAIR_ATTEMPTS times — then the night is flagged
+ *     'failed' for the coach like a sync digest
+ *   - errored / expired / canceled: run item 'failed', so a re-run (which
+ *     uses sync jobs) picks it up
+ *
+ * Each request's custom_id is its digest_run_items id; the item holds the
+ * event ids in prompt order and the conversation until it finishes.
+ */
+
+import { Pool } from 'pg';
+import Anthropic from '@anthropic-ai/sdk';
+import { logAIUsage, logger } from '../../infra/logging/logger';
+import { AIProvider, BatchRequest, BatchResult, BatchStatus, messageText } from '../../adapters/ai/provider';
+import { getAIProvider } from '../../adapters/ai/registry';
+import { InvalidAIOutputError } from '../../shared/errors';
+import { HealthEventService } from '../health-event/service';
+import { DigestItemOutcome, DigestRunService, DigestTarget } from './runs';
+import {
+  checkSummary,
+  DigestService,
+  repairTurns,
+  summaryRequest,
+  SUMMARY_REPAIR_ATTEMPTS,
+} from './service';
+
+// How long a poll job holds a batch while saving its results
+const COLLECT_LOCK_MINUTES = 10;
+
+export interface DigestBatch {
+  id: string;
+  provider: string;
+  providerBatchId: string;
+  status: 'submitted' | 'ended';
+  repairRound: number;
+  requestCount: number;
+  succeeded: number | null;
+  errored: number | null;
+  canceled: number | null;
+  expired: number | null;
+  submittedAt: Date;
+  endedAt: Date | null;
+}
+
+export type BatchTarget = DigestTarget & { runId: string };
+
+interface BatchRow {
+  id: string;
+  provider: string;
+  provider_batch_id: string;
+  status: 'submitted' | 'ended';
+  repair_round: number;
+  request_count: number;
+  succeeded: number | null;
+  errored: number | null;
+  canceled: number | null;
+  expired: number | null;
+  submitted_at: Date;
+  ended_at: Date | null;
+}
+
+function mapBatch(row: BatchRow): DigestBatch {
+  return {
+    id: row.id,
+    provider: row.provider,
+    providerBatchId: row.provider_batch_id,
+    status: row.status,
+    repairRound: row.repair_round,
+    requestCount: row.request_count,
+    succeeded: row.succeeded,
+    errored: row.errored,
+    canceled: row.canceled,
+    expired: row.expired,
+    submittedAt: row.submitted_at,
+    endedAt: row.ended_at,
+  };
+}
+
+interface ItemRow {
+  id: string;
+  run_id: string;
+  run_date: string;
+  user_id: string;
+  event_ids: string[];
+  messages: Anthropic.MessageParam[];
+  expect_questions: boolean;
+  repair_attempts: number;
+  opted_out: boolean;
+}
+
+// A conversation to send (or send again) for a run item
+interface PendingRequest {
+  itemId: string;
+  messages: Anthropic.MessageParam[];
+  repairAttempts: number;
+}
+
+export class DigestBatchService {
+  private digestService: DigestService;
+  private runService: DigestRunService;
+  private healthEventService: HealthEventService;
+
+  constructor(private db: Pool, private ai: AIProvider = getAIProvider()) {
+    this.digestService = new DigestService(db, ai);
+    this.runService = new DigestRunService(db);
+    this.healthEventService = new HealthEventService(db);
+  }
+
+  /**
+   * Prepare queued run items and submit them as one batch. Users with
+   * nothing left to digest are marked skipped; a user whose prompt can't be
+   * built is marked failed. Returns the batch id, or null if nothing needed
+   * submitting. Throws if the submission itself fails — the items are still
+   * queued, so the caller can fall back to sync jobs.
+   */
+  async submit(targets: BatchTarget[]): Promise<string | null> {
+    const pending: PendingRequest[] = [];
+
+    for (const target of targets) {
+      const { runId, userId } = target;
+      await this.runService.startItem(runId, userId);
+
+      try {
+        const prepared = await this.digestService.prepareDigest(userId, target.runDate, target.language, target.userName ?? undefined);
+        if (!prepared) {
+          await this.runService.completeItem(runId, userId, { status: 'skipped', reason: 'no_unprocessed_events' });
+          continue;
+        }
+
+        const item = await this.db.query<{ id: string }>(
+          `UPDATE digest_run_items
+           SET event_ids = $3, expect_questions = $4, repair_attempts = 0, updated_at = NOW()
+           WHERE run_id = $1 AND user_id = $2
+           RETURNING id`,
+          [runId, userId, prepared.events.map(e => e.id), prepared.expected.questions],
+        );
+        pending.push({
+          itemId: item.rows[0]!.id,
+          messages: [{ role: 'user', content: prepared.prompt }],
+          repairAttempts: 0,
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error({ userId, runDate: target.runDate, error: message }, 'Failed to prepare digest for batch');
+        await this.runService.completeItem(runId, userId, { status: 'failed', reason: message });
+      }
+    }
+
+    if (pending.length === 0) return null;
+    return this.submitRequests(pending, 0);
+  }
+
+  /**
+   * Check every open batch and save the results of those that ended.
+   * Returns how many were collected.
+   */
+  async pollOpenBatches(): Promise<number> {
+    const open = await this.db.query<BatchRow>(
+      `SELECT * FROM digest_batches WHERE status = 'submitted' ORDER BY submitted_at`,
+    );
+
+    let collected = 0;
+    for (const batch of open.rows) {
+      // Submitted under another AI_PROVIDER — this process can't see it
+      if (batch.provider !== this.ai.name) continue;
+
+      try {
+        const status = await this.ai.getBatch(batch.provider_batch_id);
+        if (!status.ended) continue;
+        if (!(await this.claim(batch.id))) continue;
+
+        await this.collect(batch, status);
+        collected++;
+      } catch (err) {
+        logger.error({ batchId: batch.id, providerBatchId: batch.provider_batch_id, error: (err as Error).message }, 'Failed to collect digest batch');
+      }
+    }
+    return collected;
+  }
+
+  async listBatches(limit: number = 30): Promise<DigestBatch[]> {
+    const result = await this.db.query<BatchRow>(
+      'SELECT * FROM digest_batches ORDER BY submitted_at DESC LIMIT $1',
+      [limit],
+    );
+    return result.rows.map(mapBatch);
+  }
+
+  private async submitRequests(pending: PendingRequest[], repairRound: number): Promise<string> {
+    const requests: BatchRequest[] = pending.map(p => ({
+      customId: p.itemId,
+      params: summaryRequest(p.messages),
+    }));
+    const providerBatchId = await this.ai.submitBatch(requests);
+
+    const batch = await this.db.query<{ id: string }>(
+      `INSERT INTO digest_batches (provider, provider_batch_id, repair_round, request_count)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [this.ai.name, providerBatchId, repairRound, requests.length],
+    );
+    const batchId = batch.rows[0]!.id;
+
+    for (const p of pending) {
+      await this.db.query(
+        `UPDATE digest_run_items
+         SET batch_id = $2, messages = $3, repair_attempts = $4, updated_at = NOW()
+         WHERE id = $1`,
+        [p.itemId, batchId, JSON.stringify(p.messages), p.repairAttempts],
+      );
+    }
+
+    logger.info({ batchId, providerBatchId, requests: requests.length, repairRound }, 'Digest batch submitted');
+    return batchId;
+  }
+
+  /**
+   * Take a batch for collection. False if another poll job has it.
+   */
+  private async claim(batchId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE digest_batches
+       SET locked_until = NOW() + make_interval(mins => $2)
+       WHERE id = $1 AND status = 'submitted'
+         AND (locked_until IS NULL OR locked_until < NOW())`,
+      [batchId, COLLECT_LOCK_MINUTES],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async collect(batch: BatchRow, status: BatchStatus): Promise<void> {
+    const results = await this.ai.getBatchResults(batch.provider_batch_id);
+
+    // Items still waiting on this batch (a retried collection skips the
+    // ones already saved; a re-run takes an item out of the batch)
+    const items = await this.db.query<ItemRow>(
+      `SELECT i.id, i.run_id, r.run_date::text AS run_date, i.user_id, i.event_ids, i.messages,
+              i.expect_questions, i.repair_attempts, u.opted_out_at IS NOT NULL AS opted_out
+       FROM digest_run_items i
+       JOIN digest_runs r ON r.id = i.run_id
+       JOIN users u ON u.id = i.user_id
+       WHERE i.batch_id = $1 AND i.status = 'queued'`,
+      [batch.id],
+    );
+    const waiting = new Map(items.rows.map(row => [row.id, row]));
+    const latencyMs = Date.now() - new Date(batch.submitted_at).getTime();
+
+    const repairs: PendingRequest[] = [];
+    for (const result of results) {
+      const item = waiting.get(result.customId);
+      if (!item) continue;
+      waiting.delete(result.customId);
+
+      try {
+        const repair = await this.handleResult(item, result, latencyMs);
+        if (repair) repairs.push(repair);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error({ userId: item.user_id, runDate: item.run_date, error: message }, 'Failed to save batched digest');
+        await this.finishItem(item, { status: 'failed', reason: message });
+      }
+    }
+
+    for (const item of waiting.values()) {
+      await this.finishItem(item, { status: 'failed', reason: 'missing_from_batch_results' });
+    }
+
+    if (repairs.length > 0) {
+      try {
+        await this.submitRequests(repairs, batch.repair_round + 1);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error({ batchId: batch.id, error: message }, 'Failed to submit digest repair batch');
+        for (const repair of repairs) {
+          const item = items.rows.find(row => row.id === repair.itemId)!;
+          await this.finishItem(item, { status: 'failed', reason: message });
+        }
+      }
+    }
+
+    await this.db.query(
+      `UPDATE digest_batches
+       SET status = 'ended', ended_at = NOW(), locked_until = NULL,
+           succeeded = $2, errored = $3, canceled = $4, expired = $5
+       WHERE id = $1`,
+      [batch.id, status.counts.succeeded, status.counts.errored, status.counts.canceled, status.counts.expired],
+    );
+    logger.info({ batchId: batch.id, counts: status.counts, repairs: repairs.length }, 'Digest batch collected');
+  }
+
+  /**
+   * Save one reply. Returns the repair request if it failed validation and
+   * has repair attempts left.
+   */
+  private async handleResult(item: ItemRow, result: BatchResult, latencyMs: number): Promise<PendingRequest | null> {
+    const userId = item.user_id;
+
+    if (item.opted_out) {
+      await this.finishItem(item, { status: 'skipped', reason: 'opted_out' });
+      return null;
+    }
+
+    if (result.type !== 'succeeded') {
+      await this.finishItem(item, { status: 'failed', reason: `batch_${result.type}${result.error ? `: ${result.error}` : ''}` });
+      return null;
+    }
+
+    const message = result.message;
+    await logAIUsage({
+      userId,
+      correlationId: `digest-${item.run_date}`,
+      model: message.model,
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      latencyMs,
+      batch: true,
+    });
+
+    const text = messageText(message);
+    const validation = checkSummary(text, { events: item.event_ids.length, questions: item.expect_questions });
+
+    if (!validation.success) {
+      logger.warn(
+        { userId, attempt: item.repair_attempts, issues: validation.issues, rawText: text.substring(0, 500) },
+        'Batched summary failed validation',
+      );
+      if (item.repair_attempts < SUMMARY_REPAIR_ATTEMPTS) {
+        return {
+          itemId: item.id,
+          messages: [...item.messages, ...repairTurns(text, validation.issues)],
+          repairAttempts: item.repair_attempts + 1,
+        };
+      }
+
+      const err = new InvalidAIOutputError(
+        `Nightly summary invalid after ${SUMMARY_REPAIR_ATTEMPTS} repair attempts`,
+        validation.issues,
+        text,
+      );
+      await this.digestService.recordInvalidSummary(userId, item.run_date, err);
+      await this.finishItem(item, { status: 'failed', reason: err.message });
+      return null;
+    }
+
+    // The classifications are by prompt position, so the events have to be
+    // exactly the ones that were sent
+    const events = await this.healthEventService.getEventsByIds(userId, item.event_ids);
+    if (events.length !== item.event_ids.length) {
+      await this.finishItem(item, { status: 'failed', reason: 'events_changed_since_submission' });
+      return null;
+    }
+    if (events.every(e => e.processed)) {
+      // Processed by a manual trigger since the scan
+      await this.finishItem(item, { status: 'skipped', reason: 'no_unprocessed_events' });
+      return null;
+    }
+
+    if (item.repair_attempts > 0) logger.info({ userId, attempt: item.repair_attempts }, 'Batched summary repaired');
+    const digest = await this.digestService.completeDigest(userId, item.run_date, events, validation.data);
+    await this.finishItem(item, {
+      status: 'ok',
+      eventsProcessed: digest.eventsProcessed,
+      nightlySummaryId: digest.nightlySummaryId,
+    });
+    return null;
+  }
+
+  /**
+   * Record the outcome and drop the stored conversation (it quotes the
+   * user's messages).
+   */
+  private async finishItem(item: ItemRow, outcome: DigestItemOutcome): Promise<void> {
+    await this.runService.completeItem(item.run_id, item.user_id, outcome);
+    await this.db.query('UPDATE digest_run_items SET messages = NULL WHERE id = $1', [item.id]);
+  }
+}
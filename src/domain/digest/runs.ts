@@ -0,0 +1,347 @@
+/**
+ * Nightly Digest Runs
+ *
+ * The worker checks hourly for users whose local clock is at
+ * DIGEST_CRON_HOUR and who have unprocessed events (that day or left over
+ * from earlier ones), and queues one digest job each (worker/index.ts).
+ * This service keeps the books:
+ *   - digest_runs: one row per night (the users' local date) with
+ *     queued / ok / failed / skipped counts
+ *   - digest_run_items: one row per user per night with the outcome
+ *   - Re-running a night puts its failed users (and, optionally, anyone whose
+ *     events for that date are still unprocessed) back in the queue
+ *
+ * In DIGEST_MODE=batch the scan submits the night's users as one Message
+ * Batch instead of queueing jobs (batches.ts); re-runs always use jobs.
+ *
+ * Generated summaries land in nightly_summaries as pending — the coach
+ * approves them (api/routes/nightly.ts); nothing is sent from here.
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+import { DIGEST_LOOKBACK_DAYS } from '../health-event/service';
+
+export type DigestRunItemStatus = 'queued' | 'ok' | 'failed' | 'skipped';
+
+export interface DigestRun {
+  id: string;
+  runDate: string;
+  queued: number;
+  ok: number;
+  failed: number;
+  skipped: number;
+  createdAt: Date;
+  updatedAt: Date;
+  lastRerunAt: Date | null;
+}
+
+export interface DigestRunItem {
+  userId: string;
+  userName: string | null;
+  status: DigestRunItemStatus;
+  reason: string | null;
+  eventsProcessed: number | null;
+  nightlySummaryId: string | null;
+  attempts: number;
+  updatedAt: Date;
+}
+
+export interface DigestTarget {
+  userId: string;
+  language: string;
+  userName: string | null;
+  // The user's local date the digest covers
+  runDate: string;
+  optedOut: boolean;
+}
+
+export interface DigestItemOutcome {
+  status: Exclude<DigestRunItemStatus, 'queued'>;
+  reason?: string;
+  eventsProcessed?: number;
+  nightlySummaryId?: string | null;
+}
+
+interface TargetRow {
+  user_id: string;
+  language: string | null;
+  name: string | null;
+  run_date: string;
+  opted_out: boolean;
+}
+
+function mapTarget(row: TargetRow): DigestTarget {
+  return {
+    userId: row.user_id,
+    language: row.language || 'es',
+    userName: row.name,
+    runDate: row.run_date,
+    optedOut: row.opted_out,
+  };
+}
+
+interface RunRow {
+  id: string;
+  run_date: string;
+  queued: number;
+  ok: number;
+  failed: number;
+  skipped: number;
+  created_at: Date;
+  updated_at: Date;
+  last_rerun_at: Date | null;
+}
+
+function mapRun(row: RunRow): DigestRun {
+  return {
+    id: row.id,
+    runDate: row.run_date,
+    queued: row.queued,
+    ok: row.ok,
+    failed: row.failed,
+    skipped: row.skipped,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastRerunAt: row.last_rerun_at,
+  };
+}
+
+export class DigestRunService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Users whose local time is `hour` o'clock now and who have unprocessed
+   * events dated today (their today) or up to DIGEST_LOOKBACK_DAYS earlier —
+   * e.g. sent after last night's digest, on a night the worker was down, or
+   * on a night whose digest failed. Earlier days still queued on their own
+   * night are left to that night's job.
+   */
+  async findDueUsers(hour: number): Promise<DigestTarget[]> {
+    const result = await this.db.query<TargetRow>(
+      `SELECT u.id AS user_id, u.language, u.name, local_day::text AS run_date,
+              u.opted_out_at IS NOT NULL AS opted_out
+       FROM users u
+       CROSS JOIN LATERAL (SELECT NOW() AT TIME ZONE u.timezone AS local_now) t
+       CROSS JOIN LATERAL (SELECT t.local_now::date AS local_day) d
+       WHERE EXTRACT(HOUR FROM t.local_now) = $1
+         AND EXISTS (
+           SELECT 1 FROM health_events he
+           WHERE he.user_id = u.id AND he.event_date <= d.local_day AND he.processed = FALSE
+             AND he.event_date >= d.local_day - $2::int
+             AND NOT EXISTS (
+               SELECT 1 FROM digest_run_items i
+               JOIN digest_runs r ON r.id = i.run_id
+               WHERE i.user_id = he.user_id AND r.run_date = he.event_date
+                 AND r.run_date < d.local_day AND i.status = 'queued'
+             )
+         )`,
+      [hour, DIGEST_LOOKBACK_DAYS],
+    );
+    return result.rows.map(mapTarget);
+  }
+
+  /**
+   * Users with events still unprocessed on `runDate` (re-runs).
+   */
+  async findUnprocessedUsers(runDate: string): Promise<DigestTarget[]> {
+    const result = await this.db.query<TargetRow>(
+      `SELECT u.id AS user_id, u.language, u.name, $1::date::text AS run_date,
+              u.opted_out_at IS NOT NULL AS opted_out
+       FROM users u
+       WHERE EXISTS (
+         SELECT 1 FROM health_events he
+         WHERE he.user_id = u.id AND he.event_date = $1::date AND he.processed = FALSE
+       )`,
+      [runDate],
+    );
+    return result.rows.map(mapTarget);
+  }
+
+  /**
+   * The run record for a night, created on first use.
+   */
+  async ensureRun(runDate: string): Promise<string> {
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO digest_runs (run_date) VALUES ($1)
+       ON CONFLICT (run_date) DO UPDATE SET updated_at = digest_runs.updated_at
+       RETURNING id`,
+      [runDate],
+    );
+    return result.rows[0]!.id;
+  }
+
+  /**
+   * Add a user to a night. Returns false if they're already on it (the
+   * hourly scan ran twice, or a re-run overlaps).
+   */
+  async addItem(runId: string, userId: string, status: 'queued' | 'skipped', reason?: string): Promise<boolean> {
+    const result = await this.db.query(
+      `INSERT INTO digest_run_items (run_id, user_id, status, reason)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (run_id, user_id) DO NOTHING`,
+      [runId, userId, status, reason ?? null],
+    );
+    await this.refreshCounts(runId);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Put a user back in the queue for a re-run (adds them if new). Takes
+   * them out of any digest batch they were in — the re-run job decides.
+   */
+  async requeueItem(runId: string, userId: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO digest_run_items (run_id, user_id, status)
+       VALUES ($1, $2, 'queued')
+       ON CONFLICT (run_id, user_id)
+       DO UPDATE SET status = 'queued', reason = NULL, batch_id = NULL, messages = NULL, updated_at = NOW()`,
+      [runId, userId],
+    );
+  }
+
+  /**
+   * A job picked the item up (counts attempts across retries and re-runs).
+   */
+  async startItem(runId: string, userId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE digest_run_items SET attempts = attempts + 1, updated_at = NOW()
+       WHERE run_id = $1 AND user_id = $2`,
+      [runId, userId],
+    );
+  }
+
+  /**
+   * Record an attempt that will be retried — the item stays queued.
+   */
+  async noteRetry(runId: string, userId: string, error: string): Promise<void> {
+    await this.db.query(
+      `UPDATE digest_run_items SET reason = $3, updated_at = NOW()
+       WHERE run_id = $1 AND user_id = $2`,
+      [runId, userId, error],
+    );
+  }
+
+  async completeItem(runId: string, userId: string, outcome: DigestItemOutcome): Promise<void> {
+    await this.db.query(
+      `UPDATE digest_run_items
+       SET status = $3, reason = $4, events_processed = $5, nightly_summary_id = $6, updated_at = NOW()
+       WHERE run_id = $1 AND user_id = $2`,
+      [runId, userId, outcome.status, outcome.reason ?? null, outcome.eventsProcessed ?? null, outcome.nightlySummaryId ?? null],
+    );
+    await this.refreshCounts(runId);
+  }
+
+  async listRuns(limit: number = 30): Promise<DigestRun[]> {
+    const result = await this.db.query<RunRow>(
+      `SELECT id, run_date::text AS run_date, queued, ok, failed, skipped, created_at, updated_at, last_rerun_at
+       FROM digest_runs
+       ORDER BY run_date DESC
+       LIMIT $1`,
+      [limit],
+    );
+    return result.rows.map(mapRun);
+  }
+
+  /**
+   * A night with every user's outcome. Null if there was no run that night.
+   */
+  async getRun(runDate: string): Promise<(DigestRun & { items: DigestRunItem[] }) | null> {
+    const runResult = await this.db.query<RunRow>(
+      `SELECT id, run_date::text AS run_date, queued, ok, failed, skipped, created_at, updated_at, last_rerun_at
+       FROM digest_runs WHERE run_date = $1`,
+      [runDate],
+    );
+    const row = runResult.rows[0];
+    if (!row) return null;
+
+    const items = await this.db.query<{
+      user_id: string;
+      name: string | null;
+      status: DigestRunItemStatus;
+      reason: string | null;
+      events_processed: number | null;
+      nightly_summary_id: string | null;
+      attempts: number;
+      updated_at: Date;
+    }>(
+      `SELECT i.user_id, u.name, i.status, i.reason, i.events_processed, i.nightly_summary_id, i.attempts, i.updated_at
+       FROM digest_run_items i
+       JOIN users u ON u.id = i.user_id
+       WHERE i.run_id = $1
+       ORDER BY i.status, i.updated_at DESC`,
+      [row.id],
+    );
+
+    return {
+      ...mapRun(row),
+      items: items.rows.map(item => ({
+        userId: item.user_id,
+        userName: item.name,
+        status: item.status,
+        reason: item.reason,
+        eventsProcessed: item.events_processed,
+        nightlySummaryId: item.nightly_summary_id,
+        attempts: item.attempts,
+        updatedAt: item.updated_at,
+      })),
+    };
+  }
+
+  /**
+   * Pick who a re-run of `runDate` should queue: the night's failed users,
+   * plus (includeUnprocessed) anyone with events for that date still
+   * unprocessed. Marks them queued; the caller enqueues the jobs.
+   * Returns null if there's nothing to go on (no run and nothing pending).
+   */
+  async prepareRerun(runDate: string, includeUnprocessed: boolean): Promise<{ runId: string; targets: DigestTarget[] } | null> {
+    const existing = await this.db.query<{ id: string }>('SELECT id FROM digest_runs WHERE run_date = $1', [runDate]);
+    const unprocessed = includeUnprocessed ? await this.findUnprocessedUsers(runDate) : [];
+    if (!existing.rows[0] && unprocessed.length === 0) return null;
+
+    const runId = existing.rows[0]?.id ?? await this.ensureRun(runDate);
+
+    const failed = await this.db.query<TargetRow>(
+      `SELECT u.id AS user_id, u.language, u.name, $2::date::text AS run_date,
+              u.opted_out_at IS NOT NULL AS opted_out
+       FROM digest_run_items i
+       JOIN users u ON u.id = i.user_id
+       WHERE i.run_id = $1 AND i.status = 'failed'`,
+      [runId, runDate],
+    );
+
+    const targets = new Map<string, DigestTarget>();
+    for (const target of [...failed.rows.map(mapTarget), ...unprocessed]) {
+      if (!target.optedOut) targets.set(target.userId, target);
+    }
+
+    for (const target of targets.values()) {
+      await this.requeueItem(runId, target.userId);
+    }
+    await this.db.query('UPDATE digest_runs SET last_rerun_at = NOW() WHERE id = $1', [runId]);
+    await this.refreshCounts(runId);
+
+    logger.info({ runDate, runId, users: targets.size }, 'Digest run re-run prepared');
+    return { runId, targets: [...targets.values()] };
+  }
+
+  private async refreshCounts(runId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE digest_runs r
+       SET queued  = c.queued,
+           ok      = c.ok,
+           failed  = c.failed,
+           skipped = c.skipped,
+           updated_at = NOW()
+       FROM (
+         SELECT COUNT(*) FILTER (WHERE status = 'queued')::int  AS queued,
+                COUNT(*) FILTER (WHERE status = 'ok')::int      AS ok,
+                COUNT(*) FILTER (WHERE status = 'failed')::int  AS failed,
+                COUNT(*) FILTER (WHERE status = 'skipped')::int AS skipped
+         FROM digest_run_items WHERE run_id = $1
+       ) c
+       WHERE r.id = $1`,
+      [runId],
+    );
+  }
+}
@@ -5,21 +5,76 @@
  * 1. Collect all unprocessed health_events for the day
  * 2. Load user profile + last 7 days of events for patterns
  * 3. Send ONE Sonnet call with the Nightly Summary Framework prompt
- * 4. Receive structured JSON matching the PDF data dict
- * 5. Mark events as processed
+ * 4. Receive structured JSON matching the PDF data dict, validated against
+ *    summary-schema.ts — a reply that doesn't match goes back to Sonnet with
+ *    the issues (up to SUMMARY_REPAIR_ATTEMPTS times). If it still doesn't,
+ *    the night is saved to nightly_summaries as 'failed' for the coach and
+ *    the events stay unprocessed so the night can be re-run
+ * 5. Mark events as processed, with the type and structured fields Sonnet
+ *    classified each one as; meals also get a nutrition estimate
+ *    (meal/nutrition-extractor.ts — the one place photos are looked at)
  * 6. Save digest to daily_digests table
  *
- * Cost: ~$0.005-0.01 per user per night (Sonnet 4.5)
+ * The scheduled nightly run sends step 3 through the Message Batches API
+ * instead (batches.ts): prepareDigest builds the prompt, the batch carries
+ * it and any repair turns, completeDigest takes it from the validated reply.
+ *
+ * Cost: ~$0.005-0.01 per user per night (Sonnet 4.5; half that batched),
+ * plus one extraction call per meal
  */
 
 import { Pool } from 'pg';
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../../config';
+import { AIProvider, MessageParams, messageText } from '../../adapters/ai/provider';
+import { getAIProvider } from '../../adapters/ai/registry';
 import { logger } from '../../infra/logging/logger';
 import { HealthEventService, HealthEvent } from '../health-event/service';
 import { RateLimiter } from '../../shared/rate-limiter';
 import { GoogleFitService } from '../integrations/googlefit/service';
 import { renderHtml } from '../pdf/generator';
+import { MealNutrition, MealNutritionExtractor } from '../meal/nutrition-extractor';
+import { DEFAULT_TIMEZONE, localDateString, localTimeString } from '../../shared/timezone';
+import { InvalidAIOutputError } from '../../shared/errors';
+import { NightlySummary, SummaryValidation, validateNightlySummary } from './summary-schema';
+
+// Heads-up is sent this many minutes before the summary
+export const HEADS_UP_LEAD_MINUTES = 15;
+
+// Extra Sonnet round-trips to fix a summary that fails the schema
+export const SUMMARY_REPAIR_ATTEMPTS = 2;
+
+export const SUMMARY_MODEL = 'claude-sonnet-4-5-20250929';
+const SUMMARY_MAX_TOKENS = 3000;
+
+/**
+ * The summary request for a conversation so far (prompt + repair turns).
+ */
+export function summaryRequest(messages: Anthropic.MessageParam[]): MessageParams {
+  return { model: SUMMARY_MODEL, max_tokens: SUMMARY_MAX_TOKENS, messages };
+}
+
+/**
+ * Validate a reply's text — an empty reply is an issue, not a parse error.
+ */
+export function checkSummary(text: string, expected: PreparedDigest['expected']): SummaryValidation {
+  return text.trim()
+    ? validateNightlySummary(text, expected)
+    : { success: false, issues: ['Empty response'] };
+}
+
+/**
+ * The turns that send an invalid reply back with what's wrong with it.
+ */
+export function repairTurns(lastText: string, issues: string[]): Anthropic.MessageParam[] {
+  return [
+    { role: 'assistant', content: lastText || '(empty)' },
+    {
+      role: 'user',
+      content: `That JSON does not match the required structure:\n${issues.map(i => `- ${i}`).join('\n')}\n\nReturn the complete corrected JSON object with every required section filled in. Keep the content you already wrote where it was valid. Output ONLY the JSON object, no markdown fences, no explanation.`,
+    },
+  ];
+}
 
 // ============================================================================
 // Types
@@ -42,6 +97,15 @@ export interface DigestGenerationResult {
   nightlySummaryId: string | null;
 }
 
+export interface PreparedDigest {
+  userId: string;
+  dateStr: string;
+  // The unprocessed events, in prompt order ("event": 1 is events[0])
+  events: HealthEvent[];
+  prompt: string;
+  expected: { events: number; questions: boolean };
+}
+
 export interface UserProfile {
   name: string;
   language: string;
@@ -62,16 +126,16 @@ export interface UserProfile {
 // ============================================================================
 
 export class DigestService {
-  private client: Anthropic;
   private rateLimiter: RateLimiter;
   private healthEventService: HealthEventService;
   private googleFitService: GoogleFitService;
+  private nutritionExtractor: MealNutritionExtractor;
 
-  constructor(private db: Pool) {
-    this.client = new Anthropic({ apiKey: config.anthropicApiKey });
+  constructor(private db: Pool, private ai: AIProvider = getAIProvider()) {
     this.rateLimiter = new RateLimiter({ maxRequestsPerMinute: config.claudeRpmLimit });
     this.healthEventService = new HealthEventService(db);
     this.googleFitService = new GoogleFitService();
+    this.nutritionExtractor = new MealNutritionExtractor(ai);
   }
 
   /**
@@ -80,25 +144,61 @@ export class DigestService {
    */
   async generateDigest(
     userId: string,
-    date: Date,
+    date: Date | string,
     language: string,
     userName?: string,
   ): Promise<DigestGenerationResult> {
-    const dateStr = date.toISOString().split('T')[0]!;
-    logger.info({ userId, date: dateStr, language }, 'Starting nightly digest generation');
+    const prepared = await this.prepareDigest(userId, date, language, userName);
 
-    // 1. Get today's unprocessed events
-    const todayEvents = await this.healthEventService.getUnprocessedEvents(userId, dateStr);
+    if (!prepared) {
+      const dateStr = typeof date === 'string' ? date : localDateString(await this.getUserTimezone(userId), date);
+      const digest = await this.saveDigest(userId, dateStr, 0, null, null);
+      return { digest, summaryData: {}, eventsProcessed: 0, nightlySummaryId: null };
+    }
+
+    // 6. Generate the summary with ONE Sonnet call (plus repairs if needed)
+    let generated: NightlySummary;
+    try {
+      generated = await this.generateSummary(prepared);
+    } catch (err) {
+      if (err instanceof InvalidAIOutputError) {
+        await this.recordInvalidSummary(userId, prepared.dateStr, err);
+      }
+      throw err;
+    }
+
+    return this.completeDigest(userId, prepared.dateStr, prepared.events, generated);
+  }
+
+  /**
+   * Steps 1-5: everything up to the Sonnet call. Returns the prompt and what
+   * a valid reply must cover, or null if there are no unprocessed events.
+   * Batch mode submits `prompt` itself and calls completeDigest with the
+   * validated result.
+   */
+  async prepareDigest(
+    userId: string,
+    date: Date | string,
+    language: string,
+    userName?: string,
+  ): Promise<PreparedDigest | null> {
+    // The user's calendar day — event_date is in their timezone. A string is
+    // already that day (YYYY-MM-DD, e.g. re-running a past night)
+    const timezone = await this.getUserTimezone(userId);
+    const dateStr = typeof date === 'string' ? date : localDateString(timezone, date);
+    logger.info({ userId, date: dateStr, timezone, language }, 'Starting nightly digest generation');
+
+    // 1. Get today's unprocessed events (and any left over from earlier days)
+    const todayEvents = await this.healthEventService.getDigestEvents(userId, dateStr);
 
     if (todayEvents.length === 0) {
       logger.info({ userId, date: dateStr }, 'No events to digest');
-      const digest = await this.saveDigest(userId, dateStr, 0, null, null);
-      return { digest, summaryData: {}, eventsProcessed: 0, nightlySummaryId: null };
+      return null;
     }
 
     // 2. Get last 7 days for pattern detection
-    const weekAgo = new Date(date);
-    weekAgo.setDate(weekAgo.getDate() - 7);
+    const weekAgo = new Date(`${dateStr}T12:00:00Z`);
+    weekAgo.setUTCDate(weekAgo.getUTCDate() - 7);
     const weekEvents = await this.healthEventService.getEventsByDateRange(
       userId,
       weekAgo.toISOString().split('T')[0]!,
@@ -123,25 +223,45 @@ export class DigestService {
       logger.warn({ userId, err }, 'Google Fit fetch failed — proceeding without it');
     }
 
-    // 6. Generate the summary with ONE Sonnet call
-    const summaryData = await this.generateSummaryWithSonnet(
-      todayEvents,
-      weekEvents,
-      profile,
-      recentSummaries,
-      googleFitSummary,
+    return {
       userId,
-    );
+      dateStr,
+      events: todayEvents,
+      prompt: this.buildSummaryPrompt(dateStr, todayEvents, weekEvents, profile, recentSummaries, googleFitSummary),
+      expected: { events: todayEvents.length, questions: todayEvents.some(e => e.isQuestion) },
+    };
+  }
 
-    // 7. Mark today's events as processed
-    for (const event of todayEvents) {
+  /**
+   * Steps 7-9, given a validated summary for `events`: mark them processed,
+   * save the digest and the pending nightly summary.
+   */
+  async completeDigest(
+    userId: string,
+    dateStr: string,
+    events: HealthEvent[],
+    generated: NightlySummary,
+  ): Promise<DigestGenerationResult> {
+    const timezone = await this.getUserTimezone(userId);
+    // The classifications go to health_events, not into the PDF
+    const { event_classifications: classifications, ...summaryData } = generated;
+
+    // 7. Mark today's events as processed with their type and structured
+    // fields; meals also get their local time and a nutrition estimate
+    const byEvent = new Map(classifications.map(c => [c.event, c]));
+    for (const [index, event] of events.entries()) {
       try {
-        // Extract event type from the AI's analysis
-        const eventType = this.inferEventType(event);
-        await this.healthEventService.markProcessed(event.id, eventType, {
+        const classification = byEvent.get(index + 1);
+        const extractedData: Record<string, unknown> = {
+          ...classification?.data,
           processedAt: new Date().toISOString(),
           digestDate: dateStr,
-        });
+        };
+        if (classification?.event_type === 'meal') {
+          extractedData.meal_time = localTimeString(timezone, new Date(event.eventTime));
+          extractedData.nutrition = await this.estimateNutrition(userId, event, classification.data);
+        }
+        await this.healthEventService.markProcessed(event.id, classification?.event_type ?? 'general', extractedData);
       } catch (err) {
         logger.warn({ eventId: event.id, error: err }, 'Failed to mark event processed');
       }
@@ -151,7 +271,7 @@ export class DigestService {
     const digest = await this.saveDigest(
       userId,
       dateStr,
-      todayEvents.length,
+      events.length,
       null, // PDF URL — filled after PDF generation
       summaryData,
     );
@@ -167,33 +287,104 @@ export class DigestService {
     }
 
     logger.info(
-      { userId, date: dateStr, eventCount: todayEvents.length },
+      { userId, date: dateStr, eventCount: events.length },
       'Nightly digest generated',
     );
 
     return {
       digest,
       summaryData,
-      eventsProcessed: todayEvents.length,
+      eventsProcessed: events.length,
       nightlySummaryId,
     };
   }
 
   /**
-   * The ONE AI call — Sonnet processes the entire day.
+   * A summary that never validated: flag the night as 'failed' for the
+   * coach. The events stay unprocessed so the night can be re-run.
+   */
+  async recordInvalidSummary(userId: string, dateStr: string, err: InvalidAIOutputError): Promise<string | null> {
+    const failedId = await this.saveFailedNightlySummary(userId, dateStr, err);
+    logger.error({ userId, date: dateStr, nightlySummaryId: failedId, issues: err.issues }, 'Nightly summary failed validation — flagged for review');
+    return failedId;
+  }
+
+  /**
+   * The ONE AI call — Sonnet processes the entire day, with repair turns
+   * while the reply fails validation.
    */
-  private async generateSummaryWithSonnet(
+  private async generateSummary(prepared: PreparedDigest): Promise<NightlySummary> {
+    const { userId, expected } = prepared;
+
+    // Conversation so far — repair turns quote the previous reply and its issues
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prepared.prompt }];
+    let lastText: string | null = null;
+    let issues: string[] = [];
+
+    try {
+      for (let attempt = 0; attempt <= SUMMARY_REPAIR_ATTEMPTS; attempt++) {
+        await this.rateLimiter.acquire();
+        const startTime = Date.now();
+
+        const response = await this.ai.createMessage(summaryRequest(messages));
+
+        const latencyMs = Date.now() - startTime;
+
+        // Log AI usage
+        const { logAIUsage } = await import('../../infra/logging/logger.js');
+        await logAIUsage({
+          userId: userId,
+          correlationId: `digest-${new Date().toISOString().split('T')[0]}`,
+          model: SUMMARY_MODEL,
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+          latencyMs,
+        });
+
+        lastText = messageText(response);
+        const validation = checkSummary(lastText, expected);
+
+        if (validation.success) {
+          if (attempt > 0) logger.info({ userId, attempt }, 'Sonnet summary repaired');
+          return validation.data;
+        }
+
+        issues = validation.issues;
+        logger.warn(
+          { userId, attempt, issues, rawText: lastText.substring(0, 500) },
+          'Sonnet summary failed validation',
+        );
+
+        messages.push(...repairTurns(lastText, issues));
+      }
+    } catch (error) {
+      const err = error as Error;
+      logger.error({ error: err.message }, 'Failed to generate summary with Sonnet');
+      throw error;
+    }
+
+    throw new InvalidAIOutputError(
+      `Nightly summary invalid after ${SUMMARY_REPAIR_ATTEMPTS} repair attempts`,
+      issues,
+      lastText,
+    );
+  }
+
+  /**
+   * The Nightly Summary Framework prompt for one user's day (`dateStr`,
+   * YYYY-MM-DD in their timezone).
+   */
+  private buildSummaryPrompt(
+    dateStr: string,
     todayEvents: HealthEvent[],
     weekEvents: HealthEvent[],
     profile: UserProfile,
     recentSummaries: DailyDigest[],
-    googleFitSummary: string | null = null,
-    userId: string = 'unknown',
-  ): Promise<Record<string, unknown>> {
-    await this.rateLimiter.acquire();
-
+    googleFitSummary: string | null,
+  ): string {
     // Format today's events for the prompt
-    const todayFormatted = todayEvents.map(e => ({
+    const todayFormatted = todayEvents.map((e, i) => ({
+      event: i + 1,
       time: new Date(e.eventTime).toLocaleTimeString('es', { hour: '2-digit', minute: '2-digit' }),
       raw_input: e.rawInput,
       has_image: !!e.imageUrl,
@@ -212,6 +403,12 @@ export class DigestService {
         summary: s.summaryJson,
       }));
 
+    // The night being summarized, in the user's language — not the server's
+    // clock, which is already tomorrow for late runs and re-runs
+    const displayDate = new Date(`${dateStr}T12:00:00Z`).toLocaleDateString(profile.language, {
+      weekday: 'long', day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC',
+    });
+
     // Separate questions
     const questions = todayEvents.filter(e => e.isQuestion);
 
@@ -240,7 +437,7 @@ SECTIONS REQUIRED (output as JSON):
 {
   "greeting_name": "${profile.name || 'Amigo/a'}",
   "day_number": ${profile.dayCount},
-  "date": "${new Date().toLocaleDateString('es', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}",
+  "date": "${displayDate}",
   "title_line1": "Tu dia tiene un patron.",
   "title_line2": "Hoy lo hicimos visible.",
   "meals": [
@@ -259,9 +456,25 @@ SECTIONS REQUIRED (output as JSON):
   "experiment_steps": ["Step 1", "Step 2", "Step 3"],
   "observe_text": "What to notice after the experiment",
   "footer_quote_1": "Short motivational closing line (e.g. 'No estás haciendo dieta.')",
-  "footer_quote_2": "Second line of the closing thought (e.g. 'Estás aprendiendo a leer tu biología.')"
+  "footer_quote_2": "Second line of the closing thought (e.g. 'Estás aprendiendo a leer tu biología.')",
+  "event_classifications": [
+    {"event": 1, "event_type": "meal", "data": {"meal_type": "breakfast", "foods": ["arroz", "pollo"]}}
+  ]
 }
 
+EVENT CLASSIFICATIONS — one entry for EVERY event in TODAY'S HEALTH EVENTS, by its "event" number.
+event_type is one of these, with these data fields (? = optional; keep food/symptom names in their words):
+- meal: meal_type? (breakfast|lunch|dinner|snack|drink), foods (list)
+- symptom: symptom, severity? (mild|moderate|severe), body_part?
+- sleep: hours? (number), quality? (good|fair|poor)
+- medication: name, dose?
+- mood: mood, energy? (low|normal|high)
+- lab_result: test, value, unit?
+- digestion: description
+- exercise: activity, duration_minutes? (number)
+- question: topic
+- general: note?
+
 RULES:
 - Their words, not yours (use exact vocabulary from their messages)
 - Mirror, don't lecture
@@ -273,56 +486,40 @@ RULES:
 - ALL content in ${profile.language === 'en' ? 'English' : profile.language === 'pt' ? 'Portuguese' : profile.language === 'fr' ? 'French' : 'Spanish'}
 - Output ONLY the JSON object, no markdown fences, no explanation`;
 
-    try {
-      const startTime = Date.now();
+    return prompt;
+  }
 
-      const response = await this.client.messages.create({
-        model: 'claude-sonnet-4-5-20250929',
-        max_tokens: 3000,
-        messages: [{ role: 'user', content: prompt }],
+  /**
+   * Nutrition estimate for one meal — null if there was nothing to go on or
+   * the extraction failed (the meal still counts; it just has no numbers).
+   */
+  private async estimateNutrition(
+    userId: string,
+    event: HealthEvent,
+    classified: { meal_type?: string; foods: string[] },
+  ): Promise<MealNutrition | null> {
+    try {
+      return await this.nutritionExtractor.extract({
+        userId,
+        rawInput: event.rawInput,
+        imageUrl: event.imageUrl,
+        foods: classified.foods,
+        mealType: classified.meal_type,
       });
-
-      const latencyMs = Date.now() - startTime;
-      const content = response.content[0];
-
-      if (content && content.type === 'text') {
-        // Parse the JSON response
-        let jsonText = content.text.trim();
-        // Strip markdown fences if present
-        if (jsonText.startsWith('```')) {
-          jsonText = jsonText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
-        }
-
-        try {
-          const summaryData = JSON.parse(jsonText);
-
-          // Log AI usage
-          const { logAIUsage } = await import('../../infra/logging/logger.js');
-          await logAIUsage({
-            userId: userId,
-            correlationId: `digest-${new Date().toISOString().split('T')[0]}`,
-            model: 'claude-sonnet-4-5-20250929',
-            inputTokens: response.usage.input_tokens,
-            outputTokens: response.usage.output_tokens,
-            latencyMs,
-          });
-
-          return summaryData;
-        } catch (parseErr) {
-          logger.error({ error: parseErr, rawText: jsonText.substring(0, 500) }, 'Failed to parse Sonnet summary JSON');
-          // Return raw text as fallback
-          return { raw_summary: content.text, parse_error: true };
-        }
-      }
-
-      return { error: 'Empty response from Sonnet' };
-    } catch (error) {
-      const err = error as Error;
-      logger.error({ error: err.message }, 'Failed to generate summary with Sonnet');
-      throw error;
+    } catch (err) {
+      logger.warn({ userId, eventId: event.id, error: (err as Error).message }, 'Meal nutrition extraction failed');
+      return null;
     }
   }
 
+  private async getUserTimezone(userId: string): Promise<string> {
+    const result = await this.db.query<{ timezone: string | null }>(
+      'SELECT timezone FROM users WHERE id = $1',
+      [userId],
+    );
+    return result.rows[0]?.timezone || DEFAULT_TIMEZONE;
+  }
+
   /**
    * Load user profile from the database.
    */
@@ -348,7 +545,7 @@ RULES:
     return {
       name: userName || user?.name || '',
       language: language || user?.language || 'es',
-      timezone: user?.timezone || 'America/New_York',
+      timezone: user?.timezone || DEFAULT_TIMEZONE,
       dayCount,
       communicationStyle: 'experiments', // Default — will be personalized over time
     };
@@ -402,26 +599,6 @@ RULES:
     return lines.join('\n');
   }
 
-  /**
-   * Infer event type from raw input (simple heuristic).
-   * The real classification happens in the Sonnet call, but we need
-   * something for the markProcessed call.
-   */
-  private inferEventType(event: HealthEvent): string {
-    if (!event.rawInput) return 'general';
-    const lower = event.rawInput.toLowerCase();
-
-    if (event.isQuestion) return 'question';
-    if (event.imageUrl) return 'meal'; // Most images are food photos
-    if (lower.includes('duele') || lower.includes('dolor') || lower.includes('pain') || lower.includes('hurt')) return 'symptom';
-    if (lower.includes('medicin') || lower.includes('pastilla') || lower.includes('metformin') || lower.includes('pill')) return 'medication';
-    if (lower.includes('lab') || lower.includes('resultado') || lower.includes('blood') || lower.includes('sangre')) return 'lab_result';
-    if (lower.includes('dormi') || lower.includes('sleep') || lower.includes('sueño') || lower.includes('insomni')) return 'sleep';
-    if (lower.includes('comí') || lower.includes('desayun') || lower.includes('almuerz') || lower.includes('cen') || lower.includes('arroz') || lower.includes('pollo')) return 'meal';
-
-    return 'general';
-  }
-
   /**
    * Save or update a daily digest.
    */
@@ -473,13 +650,42 @@ RULES:
          html_content = EXCLUDED.html_content,
          digest_data  = EXCLUDED.digest_data,
          digest_id    = EXCLUDED.digest_id,
-         status       = 'pending'
+         status       = 'pending',
+         failure_reason = NULL
        RETURNING id`,
       [userId, digestId, htmlContent, JSON.stringify(digestData), dateStr],
     );
     return result.rows[0]!.id;
   }
 
+  /**
+   * Record a summary that never passed the schema. It shows up in the
+   * approval queue as 'failed' with the issues and the model's last reply;
+   * a later successful run for the same night replaces it.
+   */
+  private async saveFailedNightlySummary(
+    userId: string,
+    dateStr: string,
+    error: InvalidAIOutputError,
+  ): Promise<string | null> {
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO nightly_summaries (user_id, html_content, digest_data, status, digest_date, failure_reason)
+       VALUES ($1, '', $2, 'failed', $3, $4)
+       ON CONFLICT (user_id, digest_date)
+       DO UPDATE SET
+         html_content   = EXCLUDED.html_content,
+         digest_data    = EXCLUDED.digest_data,
+         digest_id      = NULL,
+         status         = 'failed',
+         failure_reason = EXCLUDED.failure_reason
+       WHERE nightly_summaries.status IN ('pending', 'failed', 'discarded')
+       RETURNING id`,
+      [userId, JSON.stringify({ raw_output: error.rawOutput, issues: error.issues }), dateStr, error.issues.join('\n')],
+    );
+    // Null when that night's summary was already approved or sent
+    return result.rows[0]?.id ?? null;
+  }
+
   /**
    * Update the PDF URL after generation.
    */
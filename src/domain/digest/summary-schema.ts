@@ -0,0 +1,161 @@
+/**
+ * Nightly Summary Schema
+ *
+ * The JSON Sonnet returns for the 10-section nightly summary — the same
+ * fields the PDF template (pdf/generator.ts) renders — plus a classification
+ * of each of the day's events with its structured fields, which the digest
+ * service writes to health_events.event_type / extracted_data.
+ *
+ * Every response is checked against it before anything is saved; the
+ * digest service sends the issues back to the model for a repair
+ * round-trip when it doesn't match.
+ */
+
+import { z } from 'zod';
+import { HealthEventType } from '../health-event/service';
+
+const text = z.string().trim().min(1);
+
+// `event` is the 1-based position of the event in the prompt's list
+function classification<T extends HealthEventType, S extends z.ZodRawShape>(eventType: T, data: S) {
+  return z.object({
+    event: z.coerce.number().int().min(1),
+    event_type: z.literal(eventType),
+    data: z.object(data).passthrough(),
+  });
+}
+
+export const eventClassificationSchema = z.discriminatedUnion('event_type', [
+  classification('meal', {
+    meal_type: z.enum(['breakfast', 'lunch', 'dinner', 'snack', 'drink']).optional(),
+    foods: z.array(text).min(1),
+  }),
+  classification('symptom', {
+    symptom: text,
+    severity: z.enum(['mild', 'moderate', 'severe']).optional(),
+    body_part: text.optional(),
+  }),
+  classification('sleep', {
+    hours: z.coerce.number().min(0).max(24).optional(),
+    quality: z.enum(['good', 'fair', 'poor']).optional(),
+  }),
+  classification('medication', {
+    name: text,
+    dose: text.optional(),
+  }),
+  classification('mood', {
+    mood: text,
+    energy: z.enum(['low', 'normal', 'high']).optional(),
+  }),
+  classification('lab_result', {
+    test: text,
+    value: z.union([z.number(), text]),
+    unit: text.optional(),
+  }),
+  classification('digestion', {
+    description: text,
+  }),
+  classification('exercise', {
+    activity: text,
+    duration_minutes: z.coerce.number().min(0).optional(),
+  }),
+  classification('question', {
+    topic: text,
+  }),
+  classification('general', {
+    note: text.optional(),
+  }),
+]);
+
+export type EventClassification = z.infer<typeof eventClassificationSchema>;
+
+export const nightlySummarySchema = z.object({
+  greeting_name: text,
+  day_number: z.coerce.number().int().min(1),
+  date: text,
+  title_line1: text,
+  title_line2: text,
+  meals: z.array(z.object({
+    time: text,
+    title: text,
+    bullets: z.array(text).min(1),
+  }).passthrough()).min(1),
+  signal_intro: text,
+  signal_items: z.array(z.object({
+    direction: z.enum(['up', 'down']),
+    text,
+  }).passthrough()).min(1),
+  signal_explanation: text,
+  willpower_text: text,
+  advantage_text: text,
+  pattern_text: text,
+  questions: z.array(z.object({
+    question: text,
+    answer: text,
+  })).optional(),
+  experiment_heading: text,
+  experiment_steps: z.array(text).min(1),
+  observe_text: text,
+  footer_quote_1: text,
+  footer_quote_2: text,
+  event_classifications: z.array(eventClassificationSchema),
+}).passthrough();
+
+export type NightlySummary = z.infer<typeof nightlySummarySchema>;
+
+export type SummaryValidation =
+  | { success: true; data: NightlySummary }
+  | { success: false; issues: string[] };
+
+/**
+ * Parse and validate the model's reply against the day it covers: every
+ * one of `expected.events` events needs a classification, and answers are
+ * required when the user asked something. Issues are one line each
+ * ("meals.0.bullets: Required"), ready to quote back to the model.
+ */
+export function validateNightlySummary(
+  rawText: string,
+  expected: { events: number; questions: boolean },
+): SummaryValidation {
+  let jsonText = rawText.trim();
+  // Strip markdown fences if present
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (err) {
+    return { success: false, issues: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+
+  const result = nightlySummarySchema.safeParse(parsed);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  const issues: string[] = [];
+  if (expected.questions && !result.data.questions?.length) {
+    issues.push('questions: Required — answer every question asked today');
+  }
+
+  const classified = new Set(result.data.event_classifications.map(c => c.event));
+  const missing: number[] = [];
+  for (let n = 1; n <= expected.events; n++) {
+    if (!classified.has(n)) missing.push(n);
+  }
+  if (missing.length > 0) {
+    issues.push(`event_classifications: missing event ${missing.join(', ')} — classify every event`);
+  }
+  const unknown = [...classified].filter(n => n > expected.events);
+  if (unknown.length > 0) {
+    issues.push(`event_classifications: there is no event ${unknown.join(', ')} (events are numbered 1-${expected.events})`);
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+  return { success: true, data: result.data };
+}
@@ -0,0 +1,67 @@
+/**
+ * Experiment Service
+ *
+ * Assigns users to experiment variants (experiments / experiment_assignments):
+ *   - Only enabled experiments assign; disabled or unknown ones return null
+ *   - The first assignment sticks, even if weights change later
+ *   - Buckets come from a hash of experiment key + user id, so retries and
+ *     concurrent jobs land on the same variant
+ */
+
+import { createHash } from 'crypto';
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+
+export class ExperimentService {
+  constructor(private db: Pool) {}
+
+  /**
+   * The user's variant, assigning one if the experiment is enabled.
+   */
+  async getVariant(userId: string, experimentKey: string): Promise<string | null> {
+    const existing = await this.findAssignment(userId, experimentKey);
+    if (existing) return existing;
+
+    const result = await this.db.query<{ variants: string[]; weights: number[]; enabled: boolean }>(
+      'SELECT variants, weights, enabled FROM experiments WHERE key = $1',
+      [experimentKey],
+    );
+    const experiment = result.rows[0];
+    if (!experiment?.enabled || experiment.variants.length === 0) return null;
+
+    const variant = pickVariant(`${experimentKey}:${userId}`, experiment.variants, experiment.weights);
+
+    await this.db.query(
+      `INSERT INTO experiment_assignments (user_id, experiment_key, variant)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, experiment_key) DO NOTHING`,
+      [userId, experimentKey, variant],
+    );
+
+    logger.info({ userId, experimentKey, variant }, 'Experiment variant assigned');
+    return (await this.findAssignment(userId, experimentKey)) ?? variant;
+  }
+
+  private async findAssignment(userId: string, experimentKey: string): Promise<string | null> {
+    const result = await this.db.query<{ variant: string }>(
+      'SELECT variant FROM experiment_assignments WHERE user_id = $1 AND experiment_key = $2',
+      [userId, experimentKey],
+    );
+    return result.rows[0]?.variant ?? null;
+  }
+}
+
+/**
+ * Weighted pick from a stable hash of `seed` (same seed → same variant).
+ */
+function pickVariant(seed: string, variants: string[], weights: number[]): string {
+  const bucket = parseInt(createHash('sha256').update(seed).digest('hex').slice(0, 8), 16) / 0x100000000;
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+
+  let cumulative = 0;
+  for (let i = 0; i < variants.length; i++) {
+    cumulative += (weights[i] ?? 0) / total;
+    if (bucket < cumulative) return variants[i]!;
+  }
+  return variants[variants.length - 1]!;
+}
@@ -0,0 +1,227 @@
+/**
+ * Data Export — readable report
+ *
+ * Renders a UserDataExport as a plain, printable HTML document (turned into
+ * the PDF in the export ZIP). The JSON file next to it is the complete
+ * record; this is the version a person can read.
+ */
+
+import type { UserDataExport } from './service';
+
+type ReportLanguage = 'es' | 'en' | 'pt' | 'fr';
+
+type LabelKey =
+  | 'title' | 'generated' | 'account' | 'phone' | 'name' | 'language' | 'memberSince'
+  | 'profile' | 'archetype' | 'onboarding' | 'events' | 'digests' | 'summaries'
+  | 'concerns' | 'history' | 'patterns' | 'evidence' | 'none';
+
+const LABELS: Record<ReportLanguage, Record<LabelKey, string>> = {
+  es: {
+    title: 'Tus datos en Plato Inteligente',
+    generated: 'Generado el',
+    account: 'Cuenta',
+    phone: 'Teléfono',
+    name: 'Nombre',
+    language: 'Idioma',
+    memberSince: 'Cliente desde',
+    profile: 'Perfil',
+    archetype: 'Arquetipo',
+    onboarding: 'Respuestas de bienvenida',
+    events: 'Registros',
+    digests: 'Resúmenes diarios',
+    summaries: 'Resúmenes nocturnos',
+    concerns: 'Temas de salud',
+    history: 'Historial',
+    patterns: 'Patrones',
+    evidence: 'evidencias',
+    none: 'Sin datos',
+  },
+  en: {
+    title: 'Your data at Plato Inteligente',
+    generated: 'Generated on',
+    account: 'Account',
+    phone: 'Phone',
+    name: 'Name',
+    language: 'Language',
+    memberSince: 'Client since',
+    profile: 'Profile',
+    archetype: 'Archetype',
+    onboarding: 'Welcome answers',
+    events: 'Logged entries',
+    digests: 'Daily digests',
+    summaries: 'Nightly summaries',
+    concerns: 'Health topics',
+    history: 'History',
+    patterns: 'Patterns',
+    evidence: 'evidence',
+    none: 'No data',
+  },
+  pt: {
+    title: 'Seus dados no Plato Inteligente',
+    generated: 'Gerado em',
+    account: 'Conta',
+    phone: 'Telefone',
+    name: 'Nome',
+    language: 'Idioma',
+    memberSince: 'Cliente desde',
+    profile: 'Perfil',
+    archetype: 'Arquétipo',
+    onboarding: 'Respostas de boas-vindas',
+    events: 'Registros',
+    digests: 'Resumos diários',
+    summaries: 'Resumos noturnos',
+    concerns: 'Temas de saúde',
+    history: 'Histórico',
+    patterns: 'Padrões',
+    evidence: 'evidências',
+    none: 'Sem dados',
+  },
+  fr: {
+    title: 'Vos données chez Plato Inteligente',
+    generated: 'Généré le',
+    account: 'Compte',
+    phone: 'Téléphone',
+    name: 'Nom',
+    language: 'Langue',
+    memberSince: 'Client depuis',
+    profile: 'Profil',
+    archetype: 'Archétype',
+    onboarding: "Réponses d'accueil",
+    events: 'Entrées',
+    digests: 'Résumés quotidiens',
+    summaries: 'Résumés du soir',
+    concerns: 'Sujets de santé',
+    history: 'Historique',
+    patterns: 'Motifs',
+    evidence: 'preuves',
+    none: 'Aucune donnée',
+  },
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(value: unknown, withTime: boolean = false): string {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) return String(value);
+  const iso = date.toISOString();
+  return withTime ? `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC` : iso.slice(0, 10);
+}
+
+/**
+ * Key/value lines for a JSON object, skipping empty values.
+ */
+function renderJson(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'object') return escapeHtml(value);
+
+  const entries = Array.isArray(value)
+    ? value.map((item, i) => [String(i + 1), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+
+  const lines = entries
+    .filter(([, v]) => v !== null && v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0))
+    .map(([k, v]) => `<li><span class="key">${escapeHtml(k)}:</span> ${
+      typeof v === 'object' ? renderJson(v) : escapeHtml(v)
+    }</li>`);
+
+  return lines.length > 0 ? `<ul class="json">${lines.join('')}</ul>` : '';
+}
+
+function section(title: string, count: number, body: string, emptyLabel: string): string {
+  return `<h2>${escapeHtml(title)} <span class="count">(${count})</span></h2>
+${count > 0 ? body : `<p class="muted">${escapeHtml(emptyLabel)}</p>`}`;
+}
+
+export function renderExportHtml(data: UserDataExport): string {
+  const lang: ReportLanguage = (['es', 'en', 'pt', 'fr'] as const).find(l => l === data.user.language) ?? 'es';
+  const L = LABELS[lang];
+
+  const profile = data.profile;
+  const onboardingAnswers = Array.isArray(profile?.onboarding_answers)
+    ? (profile!.onboarding_answers as Array<{ question?: unknown; answer?: unknown }>)
+    : [];
+
+  const events = data.healthEvents.map(e => `<tr>
+  <td>${escapeHtml(formatDate(e.event_time, true))}</td>
+  <td>${escapeHtml(e.event_type ?? '')}</td>
+  <td>${escapeHtml(e.raw_input ?? '')}${e.image_url ? ' 📷' : ''}${renderJson(e.extracted_data)}</td>
+</tr>`).join('');
+
+  const digests = data.dailyDigests.map(d => `<div class="item">
+  <h3>${escapeHtml(formatDate(d.digest_date))}</h3>
+  ${renderJson(d.pattern_summary)}
+</div>`).join('');
+
+  const summaries = data.nightlySummaries.map(s => `<div class="item">
+  <h3>${escapeHtml(formatDate(s.digest_date))} <span class="muted">${escapeHtml(s.status)}</span></h3>
+  ${renderJson(s.digest_data)}
+</div>`).join('');
+
+  const concerns = data.concerns.map(c => `<div class="item">
+  <h3>${escapeHtml(c.icon ?? '')} ${escapeHtml(c.title)} <span class="muted">${escapeHtml(c.status)}</span></h3>
+  <p>${escapeHtml(c.summary_content ?? '')}</p>
+  ${c.snapshots.length > 0 ? `<h4>${escapeHtml(L.history)}</h4><ul>${c.snapshots.map(s =>
+    `<li><span class="key">${escapeHtml(formatDate(s.created_at, true))} · ${escapeHtml(s.change_type)}:</span> ${escapeHtml(s.content)}</li>`,
+  ).join('')}</ul>` : ''}
+</div>`).join('');
+
+  const patterns = `<ul>${data.foodPatterns.map(p =>
+    `<li>${escapeHtml(p.pattern_description)} <span class="muted">(${escapeHtml(p.evidence_count)} ${escapeHtml(L.evidence)})</span></li>`,
+  ).join('')}</ul>`;
+
+  return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(L.title)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; font-size: 11px; color: #222; line-height: 1.45; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 22px 0 8px; border-bottom: 1px solid #ddd; padding-bottom: 3px; }
+  h3 { font-size: 12px; margin: 10px 0 4px; }
+  h4 { font-size: 11px; margin: 6px 0 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { border-bottom: 1px solid #eee; padding: 4px; vertical-align: top; }
+  td:first-child { white-space: nowrap; width: 110px; }
+  ul { margin: 2px 0; padding-left: 16px; }
+  ul.json { list-style: none; padding-left: 8px; color: #555; }
+  .key { font-weight: 600; }
+  .muted { color: #888; font-weight: normal; }
+  .count { color: #888; font-weight: normal; font-size: 12px; }
+  .item { page-break-inside: avoid; margin-bottom: 8px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(L.title)}</h1>
+<p class="muted">${escapeHtml(L.generated)} ${escapeHtml(formatDate(data.exportedAt, true))}</p>
+
+<h2>${escapeHtml(L.account)}</h2>
+<ul>
+  <li><span class="key">${escapeHtml(L.name)}:</span> ${escapeHtml(data.user.name ?? '')}</li>
+  <li><span class="key">${escapeHtml(L.phone)}:</span> ${escapeHtml(data.user.phone)}</li>
+  <li><span class="key">${escapeHtml(L.language)}:</span> ${escapeHtml(data.user.language ?? '')}</li>
+  <li><span class="key">${escapeHtml(L.memberSince)}:</span> ${escapeHtml(formatDate(data.user.created_at))}</li>
+</ul>
+
+${profile ? `<h2>${escapeHtml(L.profile)}</h2>
+<ul>
+  <li><span class="key">${escapeHtml(L.archetype)}:</span> ${escapeHtml(profile.archetype)}</li>
+</ul>
+${onboardingAnswers.length > 0 ? `<h3>${escapeHtml(L.onboarding)}</h3>
+<ol>${onboardingAnswers.map(a => `<li>${escapeHtml(a.answer)}</li>`).join('')}</ol>` : ''}` : ''}
+
+${section(L.events, data.healthEvents.length, `<table>${events}</table>`, L.none)}
+${section(L.digests, data.dailyDigests.length, digests, L.none)}
+${section(L.summaries, data.nightlySummaries.length, summaries, L.none)}
+${section(L.concerns, data.concerns.length, concerns, L.none)}
+${section(L.patterns, data.foodPatterns.length, patterns, L.none)}
+</body>
+</html>`;
+}
@@ -0,0 +1,332 @@
+/**
+ * Data Export Service
+ *
+ * "mis datos" / "send me my data" (shared/account-commands.ts) or
+ * GET /api/export/:userId:
+ *   - Collects everything stored for the user: account, client profile,
+ *     health_events, daily digests, nightly summaries, concerns with their
+ *     snapshots and food patterns
+ *   - Packs it as a ZIP: data.json (complete) + a readable PDF (report.ts)
+ *   - WhatsApp requests are queued (data_exports row + plato-data-export job)
+ *     and the worker delivers the ZIP as an attachment
+ *   - Channels that can't carry files (SMS) get a signed download link to
+ *     GET /api/export/:userId instead (status 'link_sent')
+ *   - The PDF is best effort: if Chromium fails, the ZIP still carries the JSON
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+import { createZip, ZipEntry } from '../../shared/zip';
+import { t } from '../../shared/messages';
+import { buildPageLink } from '../../shared/link-token';
+import { MessagingService } from '../messaging/service';
+import { generateDocumentPdf } from '../pdf/generator';
+import { renderExportHtml } from './report';
+
+export type ExportChannel = 'whatsapp' | 'api';
+export type ExportStatus = 'queued' | 'sent' | 'link_sent' | 'downloaded' | 'failed';
+
+// A queued export younger than this is "still on its way" — no second job
+const QUEUED_DEDUPE_MINUTES = 30;
+
+type Row = Record<string, unknown>;
+
+export interface ExportUser {
+  id: string;
+  phone: string;
+  name: string | null;
+  language: string | null;
+  timezone: string | null;
+  created_at: Date;
+}
+
+export interface ExportConcern extends Row {
+  id: string;
+  title: string;
+  status: string;
+  summary_content: string | null;
+  icon: string | null;
+  snapshots: Array<Row & { content: string; change_type: string; created_at: Date }>;
+}
+
+export interface UserDataExport {
+  exportedAt: Date;
+  user: ExportUser;
+  profile: (Row & { archetype: string; onboarding_answers: unknown }) | null;
+  healthEvents: Array<Row & { event_time: Date; event_type: string | null; raw_input: string | null; image_url: string | null; extracted_data: unknown }>;
+  dailyDigests: Array<Row & { digest_date: Date; pattern_summary: unknown }>;
+  nightlySummaries: Array<Row & { digest_date: Date; status: string; digest_data: unknown }>;
+  concerns: ExportConcern[];
+  foodPatterns: Array<Row & { pattern_description: string; evidence_count: number }>;
+}
+
+export type ExportRecordCounts = Record<'healthEvents' | 'dailyDigests' | 'nightlySummaries' | 'concerns' | 'concernSnapshots' | 'foodPatterns', number>;
+
+export interface ExportArchive {
+  fileName: string;
+  buffer: Buffer;
+  recordCounts: ExportRecordCounts;
+  pdfIncluded: boolean;
+}
+
+export interface DataExportRecord {
+  id: string;
+  userId: string;
+  requestedVia: ExportChannel;
+  status: ExportStatus;
+  fileName: string | null;
+  sizeBytes: number | null;
+  recordCounts: Partial<ExportRecordCounts>;
+  pdfIncluded: boolean | null;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export class DataExportService {
+  private messagingService: MessagingService;
+
+  constructor(private db: Pool) {
+    this.messagingService = new MessagingService(db);
+  }
+
+  /**
+   * Everything stored for a user. Returns null if the user doesn't exist.
+   */
+  async collect(userId: string): Promise<UserDataExport | null> {
+    const userResult = await this.db.query<ExportUser>(
+      'SELECT id, phone, name, language, timezone, created_at FROM users WHERE id = $1',
+      [userId],
+    );
+    const user = userResult.rows[0];
+    if (!user) return null;
+
+    const [profile, events, digests, summaries, concerns, snapshots, patterns] = await Promise.all([
+      this.db.query(
+        `SELECT archetype, archetype_scores, coaching_phase, onboarding_answers, patterns_confirmed,
+                behavioral_data, created_at, updated_at
+         FROM client_profiles WHERE user_id = $1`,
+        [userId],
+      ),
+      this.db.query(
+        `SELECT id, event_type, event_time, event_date, raw_input, image_url, extracted_data,
+                is_question, processed, source, language, created_at
+         FROM health_events WHERE user_id = $1
+         ORDER BY event_time`,
+        [userId],
+      ),
+      this.db.query(
+        `SELECT id, digest_date, meal_count, pdf_url, pattern_summary, recommendations, created_at
+         FROM daily_digests WHERE user_id = $1
+         ORDER BY digest_date`,
+        [userId],
+      ),
+      this.db.query(
+        `SELECT id, digest_date, status, digest_data, approved_at, sent_at, created_at
+         FROM nightly_summaries WHERE user_id = $1
+         ORDER BY digest_date`,
+        [userId],
+      ),
+      this.db.query(
+        `SELECT id, title, status, summary_content, icon, created_at, updated_at
+         FROM health_concerns WHERE user_id = $1
+         ORDER BY created_at`,
+        [userId],
+      ),
+      this.db.query(
+        `SELECT id, concern_id, content, change_type, status, created_at
+         FROM concern_snapshots WHERE user_id = $1
+         ORDER BY created_at`,
+        [userId],
+      ),
+      this.db.query(
+        `SELECT id, pattern_description, confidence, evidence_count, first_seen_at, last_seen_at, created_at
+         FROM food_patterns WHERE user_id = $1
+         ORDER BY first_seen_at`,
+        [userId],
+      ),
+    ]);
+
+    return {
+      exportedAt: new Date(),
+      user,
+      profile: profile.rows[0] ?? null,
+      healthEvents: events.rows,
+      dailyDigests: digests.rows,
+      nightlySummaries: summaries.rows,
+      concerns: concerns.rows.map(concern => ({
+        ...concern,
+        snapshots: snapshots.rows
+          .filter(s => s.concern_id === concern.id)
+          .map(({ concern_id: _concernId, ...s }) => s),
+      })),
+      foodPatterns: patterns.rows,
+    };
+  }
+
+  /**
+   * Build the export ZIP. Returns null if the user doesn't exist.
+   */
+  async buildArchive(userId: string): Promise<ExportArchive | null> {
+    const data = await this.collect(userId);
+    if (!data) return null;
+
+    const dateStr = data.exportedAt.toISOString().split('T')[0];
+    const entries: ZipEntry[] = [
+      { name: 'data.json', data: Buffer.from(JSON.stringify(data, null, 2), 'utf-8') },
+    ];
+
+    let pdfIncluded = false;
+    try {
+      entries.push({ name: `plato-data-${dateStr}.pdf`, data: await generateDocumentPdf(renderExportHtml(data)) });
+      pdfIncluded = true;
+    } catch (error) {
+      logger.warn({ userId, error: error instanceof Error ? error.message : String(error) }, 'Export PDF failed — sending JSON only');
+    }
+
+    return {
+      fileName: `plato-data-${dateStr}.zip`,
+      buffer: createZip(entries, data.exportedAt),
+      recordCounts: {
+        healthEvents: data.healthEvents.length,
+        dailyDigests: data.dailyDigests.length,
+        nightlySummaries: data.nightlySummaries.length,
+        concerns: data.concerns.length,
+        concernSnapshots: data.concerns.reduce((sum, c) => sum + c.snapshots.length, 0),
+        foodPatterns: data.foodPatterns.length,
+      },
+      pdfIncluded,
+    };
+  }
+
+  /**
+   * Record a WhatsApp export request. Returns the data_exports id to queue,
+   * or null when an earlier request is still being prepared.
+   */
+  async requestExport(userId: string): Promise<string | null> {
+    const pending = await this.db.query(
+      `SELECT 1 FROM data_exports
+       WHERE user_id = $1 AND status = 'queued'
+         AND created_at > NOW() - make_interval(mins => $2)`,
+      [userId, QUEUED_DEDUPE_MINUTES],
+    );
+    if (pending.rows.length > 0) return null;
+
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO data_exports (user_id, requested_via) VALUES ($1, 'whatsapp') RETURNING id`,
+      [userId],
+    );
+    return result.rows[0]!.id;
+  }
+
+  /**
+   * Build a queued export and send it to the user as an attachment, or a
+   * download link when their channel can't carry files.
+   */
+  async deliver(exportId: string, conversationId?: number): Promise<void> {
+    const exportRow = await this.db.query<{ user_id: string; status: ExportStatus; language: string | null }>(
+      `SELECT de.user_id, de.status, u.language
+       FROM data_exports de
+       JOIN users u ON u.id = de.user_id
+       WHERE de.id = $1`,
+      [exportId],
+    );
+    const row = exportRow.rows[0];
+    if (!row || row.status !== 'queued') {
+      logger.info({ exportId, status: row?.status }, 'Data export not pending — skipping delivery');
+      return;
+    }
+
+    const recipient = { userId: row.user_id, conversationId };
+    const language = row.language || 'es';
+
+    if (!(await this.messagingService.supportsAttachments(recipient))) {
+      // The link builds a fresh ZIP on download (logged as 'downloaded')
+      await this.messagingService.sendMessage(
+        recipient,
+        t('export.link', language, { url: buildPageLink(row.user_id, 'edit', 'api/export') }),
+      );
+      await this.db.query(
+        `UPDATE data_exports SET status = 'link_sent', completed_at = NOW() WHERE id = $1`,
+        [exportId],
+      );
+      logger.info({ exportId, userId: row.user_id }, 'Data export link sent — channel cannot carry files');
+      return;
+    }
+
+    const archive = await this.buildArchive(row.user_id);
+    if (!archive) throw new Error(`User ${row.user_id} not found`);
+
+    await this.messagingService.sendAttachment(
+      recipient,
+      archive.buffer,
+      archive.fileName,
+      t('export.ready', language),
+    );
+
+    await this.complete(exportId, 'sent', archive);
+    logger.info({ exportId, userId: row.user_id, size: archive.buffer.length, counts: archive.recordCounts }, 'Data export delivered');
+  }
+
+  /**
+   * Give up on a queued export and tell the user.
+   */
+  async fail(exportId: string, error: string, conversationId?: number): Promise<void> {
+    const result = await this.db.query<{ user_id: string; language: string | null }>(
+      `UPDATE data_exports de
+       SET status = 'failed', error = $2, completed_at = NOW()
+       FROM users u
+       WHERE de.id = $1 AND u.id = de.user_id AND de.status = 'queued'
+       RETURNING de.user_id, u.language`,
+      [exportId, error],
+    );
+    const row = result.rows[0];
+    if (!row) return;
+
+    logger.error({ exportId, userId: row.user_id, error }, 'Data export failed');
+    await this.messagingService.sendMessage(
+      { userId: row.user_id, conversationId },
+      t('export.failed', row.language || 'es'),
+    );
+  }
+
+  /**
+   * Log an export downloaded straight from the API.
+   */
+  async recordDownload(userId: string, archive: ExportArchive): Promise<void> {
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO data_exports (user_id, requested_via) VALUES ($1, 'api') RETURNING id`,
+      [userId],
+    );
+    await this.complete(result.rows[0]!.id, 'downloaded', archive);
+  }
+
+  async listExports(userId: string): Promise<DataExportRecord[]> {
+    const result = await this.db.query(
+      `SELECT * FROM data_exports WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId],
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      requestedVia: row.requested_via,
+      status: row.status,
+      fileName: row.file_name,
+      sizeBytes: row.size_bytes,
+      recordCounts: row.record_counts,
+      pdfIncluded: row.pdf_included,
+      error: row.error,
+      createdAt: row.created_at,
+      completedAt: row.completed_at,
+    }));
+  }
+
+  private async complete(exportId: string, status: 'sent' | 'downloaded', archive: ExportArchive): Promise<void> {
+    await this.db.query(
+      `UPDATE data_exports
+       SET status = $2, file_name = $3, size_bytes = $4, record_counts = $5, pdf_included = $6, completed_at = NOW()
+       WHERE id = $1`,
+      [exportId, status, archive.fileName, archive.buffer.length, JSON.stringify(archive.recordCounts), archive.pdfIncluded],
+    );
+  }
+}
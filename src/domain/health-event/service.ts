@@ -1,19 +1,39 @@
 /**
  * Plato Inteligente — HealthEventService
  *
- * Phase 1 (inbound): saves raw user input to health_events with processed=FALSE.
- * Phase 2 (nightly): the nightly pipeline fills event_type + extracted_data.
+ * Phase 1 (inbound): saves raw user input to health_events with processed=FALSE,
+ *   dated in the user's timezone.
+ * Phase 2 (nightly): the nightly Sonnet call classifies each event and its
+ *   structured fields fill event_type + extracted_data.
  *
  * Zero AI calls during the day. All intelligence concentrated at night.
  */
 
 import { Pool } from 'pg';
 import { logger } from '../../infra/logging/logger';
+import { DEFAULT_TIMEZONE } from '../../shared/timezone';
+import { ChannelName } from '../../shared/types';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+// What the nightly pass classifies events as (health_events.event_type)
+export const HEALTH_EVENT_TYPES = [
+  'meal',
+  'symptom',
+  'sleep',
+  'medication',
+  'mood',
+  'lab_result',
+  'digestion',
+  'exercise',
+  'question',
+  'general',
+] as const;
+
+export type HealthEventType = typeof HEALTH_EVENT_TYPES[number];
+
 export interface HealthEvent {
   id: string;
   userId: string;
@@ -22,6 +42,7 @@ export interface HealthEvent {
   eventDate: string;
   rawInput: string | null;
   imageUrl: string | null;
+  mediaUrls: string[];
   extractedData: Record<string, unknown>;
   isQuestion: boolean;
   processed: boolean;
@@ -30,15 +51,42 @@ export interface HealthEvent {
   createdAt: Date;
 }
 
+export interface EventTypeCount {
+  eventType: string;
+  events: number;
+  // Distinct days with at least one event of this type
+  days: number;
+}
+
 export interface SaveEventInput {
   userId: string;
   rawInput: string | null;
   imageUrl?: string | null;
+  mediaUrls?: string[];
   language?: string | null;
   isQuestion?: boolean;
-  source?: string;
+  source?: HealthEventSource;
+}
+
+// Where the input came from (health_events.source)
+export type HealthEventSource = 'whatsapp' | 'sms';
+
+/**
+ * The source recorded for a message from this channel. Chatwoot inboxes are
+ * WhatsApp numbers, so both WhatsApp channels record 'whatsapp'.
+ */
+export function eventSourceForChannel(channel: ChannelName | undefined): HealthEventSource {
+  return channel === 'sms' ? 'sms' : 'whatsapp';
 }
 
+// Today in the user's timezone ($1 = user id) — a 11 PM dinner in Madrid
+// belongs to that day, not to the server's
+const USER_LOCAL_DATE_SQL = `(NOW() AT TIME ZONE COALESCE((SELECT timezone FROM users WHERE id = $1), '${DEFAULT_TIMEZONE}'))::date`;
+
+// How many days before a digest's date its leftover events are picked up
+// from; anything older is left out rather than surfacing in a late summary
+export const DIGEST_LOOKBACK_DAYS = 3;
+
 // ============================================================================
 // Service
 // ============================================================================
@@ -55,6 +103,7 @@ export class HealthEventService {
       userId,
       rawInput,
       imageUrl = null,
+      mediaUrls = [],
       language = null,
       isQuestion = false,
       source = 'whatsapp',
@@ -63,8 +112,8 @@ export class HealthEventService {
     try {
       const result = await this.pool.query<HealthEvent>(
         `INSERT INTO health_events
-         (user_id, raw_input, image_url, language, is_question, source)
-         VALUES ($1, $2, $3, $4, $5, $6)
+         (user_id, raw_input, image_url, media_urls, language, is_question, source, event_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, ${USER_LOCAL_DATE_SQL})
          RETURNING
            id,
            user_id       AS "userId",
@@ -73,13 +122,14 @@ export class HealthEventService {
            event_date    AS "eventDate",
            raw_input     AS "rawInput",
            image_url     AS "imageUrl",
+           media_urls    AS "mediaUrls",
            extracted_data AS "extractedData",
            is_question   AS "isQuestion",
            processed,
            source,
            language,
            created_at    AS "createdAt"`,
-        [userId, rawInput, imageUrl, language, isQuestion, source],
+        [userId, rawInput, imageUrl, JSON.stringify(mediaUrls), language, isQuestion, source],
       );
 
       const event = result.rows[0]!;
@@ -118,6 +168,7 @@ export class HealthEventService {
          event_date    AS "eventDate",
          raw_input     AS "rawInput",
          image_url     AS "imageUrl",
+         media_urls    AS "mediaUrls",
          extracted_data AS "extractedData",
          is_question   AS "isQuestion",
          processed,
@@ -135,6 +186,48 @@ export class HealthEventService {
     return result.rows;
   }
 
+  /**
+   * Unprocessed events a digest for `date` covers: that day's plus any left
+   * over from the DIGEST_LOOKBACK_DAYS before it, except days whose own
+   * nightly digest is still queued (that job picks them up). Days whose
+   * digest failed age back in, so an expired or errored batch doesn't strand
+   * its events.
+   */
+  async getDigestEvents(userId: string, date: string): Promise<HealthEvent[]> {
+    const result = await this.pool.query<HealthEvent>(
+      `SELECT
+         id,
+         user_id       AS "userId",
+         event_type    AS "eventType",
+         event_time    AS "eventTime",
+         event_date    AS "eventDate",
+         raw_input     AS "rawInput",
+         image_url     AS "imageUrl",
+         media_urls    AS "mediaUrls",
+         extracted_data AS "extractedData",
+         is_question   AS "isQuestion",
+         processed,
+         source,
+         language,
+         created_at    AS "createdAt"
+       FROM health_events he
+       WHERE he.user_id = $1
+         AND he.event_date <= $2
+         AND he.event_date >= $2::date - $3::int
+         AND he.processed = FALSE
+         AND NOT EXISTS (
+           SELECT 1 FROM digest_run_items i
+           JOIN digest_runs r ON r.id = i.run_id
+           WHERE i.user_id = he.user_id AND r.run_date = he.event_date
+             AND r.run_date < $2 AND i.status = 'queued'
+         )
+       ORDER BY event_time ASC`,
+      [userId, date, DIGEST_LOOKBACK_DAYS],
+    );
+
+    return result.rows;
+  }
+
   /**
    * Get events for a date range (used for weekly summaries / pattern detection).
    */
@@ -152,6 +245,7 @@ export class HealthEventService {
          event_date    AS "eventDate",
          raw_input     AS "rawInput",
          image_url     AS "imageUrl",
+         media_urls    AS "mediaUrls",
          extracted_data AS "extractedData",
          is_question   AS "isQuestion",
          processed,
@@ -168,13 +262,46 @@ export class HealthEventService {
     return result.rows;
   }
 
+  /**
+   * Get a user's events by id, in the order given (a batched digest's events
+   * in prompt order). Ids that no longer exist are left out.
+   */
+  async getEventsByIds(userId: string, ids: string[]): Promise<HealthEvent[]> {
+    if (ids.length === 0) return [];
+
+    const result = await this.pool.query<HealthEvent>(
+      `SELECT
+         id,
+         user_id       AS "userId",
+         event_type    AS "eventType",
+         event_time    AS "eventTime",
+         event_date    AS "eventDate",
+         raw_input     AS "rawInput",
+         image_url     AS "imageUrl",
+         media_urls    AS "mediaUrls",
+         extracted_data AS "extractedData",
+         is_question   AS "isQuestion",
+         processed,
+         source,
+         language,
+         created_at    AS "createdAt"
+       FROM health_events
+       WHERE user_id = $1
+         AND id = ANY($2::uuid[])
+       ORDER BY array_position($2::uuid[], id)`,
+      [userId, ids],
+    );
+
+    return result.rows;
+  }
+
   /**
    * Mark events as processed after the nightly pipeline runs.
    * Also fills in event_type and extracted_data from the AI analysis.
    */
   async markProcessed(
     eventId: string,
-    eventType: string,
+    eventType: HealthEventType,
     extractedData: Record<string, unknown>,
   ): Promise<void> {
     await this.pool.query(
@@ -187,6 +314,44 @@ export class HealthEventService {
     );
   }
 
+  /**
+   * Processed events per type over a date range (inclusive) — what the
+   * nightly classification found.
+   */
+  async getTypeCounts(
+    userId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<EventTypeCount[]> {
+    const result = await this.pool.query<EventTypeCount>(
+      `SELECT event_type AS "eventType",
+              COUNT(*)::int AS events,
+              COUNT(DISTINCT event_date)::int AS days
+       FROM health_events
+       WHERE user_id = $1
+         AND event_date BETWEEN $2 AND $3
+         AND processed = TRUE
+         AND event_type IS NOT NULL
+       GROUP BY event_type
+       ORDER BY events DESC`,
+      [userId, startDate, endDate],
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Today's date (YYYY-MM-DD) in the user's timezone — the event_date new
+   * events get.
+   */
+  async getLocalToday(userId: string): Promise<string> {
+    const result = await this.pool.query<{ today: string }>(
+      `SELECT ${USER_LOCAL_DATE_SQL}::text AS today`,
+      [userId],
+    );
+    return result.rows[0]!.today;
+  }
+
   /**
    * Count today's events for a user (useful for ack message variation).
    */
@@ -195,7 +360,7 @@ export class HealthEventService {
       `SELECT COUNT(*) AS count
        FROM health_events
        WHERE user_id = $1
-         AND event_date = CURRENT_DATE`,
+         AND event_date = ${USER_LOCAL_DATE_SQL}`,
       [userId],
     );
 
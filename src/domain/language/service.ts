@@ -0,0 +1,188 @@
+/**
+ * Language Preference Service
+ *
+ * users.language drives every reply, ack and nightly summary, so it must
+ * not follow each message blindly:
+ *   - New users: the first detected language is taken as-is
+ *   - Locked (explicit command or admin): detection never changes it
+ *   - Otherwise hysteresis: only messages of MIN_EVIDENCE_WORDS+ words count,
+ *     and a different language must be detected SWITCH_AFTER_MESSAGES times
+ *     in a row (a message in the current language resets the streak)
+ *   - Every change is logged to language_changes with the message behind it
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+import { detectLanguage } from '../../shared/language';
+import { Language } from '../../shared/types';
+
+const SWITCH_AFTER_MESSAGES = 2;
+const MIN_EVIDENCE_WORDS = 4;
+// language_changes.message is for context, not a transcript
+const LOGGED_MESSAGE_CHARS = 200;
+
+export type LanguageChangeSource = 'first_message' | 'detected' | 'command' | 'admin';
+
+export interface LanguageState {
+  language: Language;
+  locked: boolean;
+  // A different language seen in recent messages, not yet adopted
+  pending: { language: Language; count: number } | null;
+}
+
+export interface LanguageChange {
+  id: string;
+  previousLanguage: Language | null;
+  language: Language;
+  locked: boolean;
+  source: LanguageChangeSource;
+  message: string | null;
+  createdAt: Date;
+}
+
+export class LanguagePreferenceService {
+  constructor(private db: Pool) {}
+
+  async getState(userId: string): Promise<LanguageState | null> {
+    const result = await this.db.query<{
+      language: Language;
+      language_locked: boolean;
+      language_pending: Language | null;
+      language_pending_count: number;
+    }>(
+      'SELECT language, language_locked, language_pending, language_pending_count FROM users WHERE id = $1',
+      [userId],
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      language: row.language,
+      locked: row.language_locked,
+      pending: row.language_pending ? { language: row.language_pending, count: row.language_pending_count } : null,
+    };
+  }
+
+  /**
+   * Feed one inbound message (or voice transcript) through detection and
+   * return the language to answer in.
+   */
+  async observe(userId: string, message: string, isNewUser: boolean): Promise<Language> {
+    const state = await this.getState(userId);
+    if (!state) return detectLanguage(message) ?? 'es';
+
+    const detected = detectLanguage(message);
+
+    if (isNewUser) {
+      if (detected && detected !== state.language) {
+        await this.applyChange(userId, state, detected, 'first_message', message);
+        return detected;
+      }
+      return state.language;
+    }
+
+    if (state.locked || !detected) return state.language;
+
+    if (detected === state.language) {
+      if (state.pending) await this.setPending(userId, null, 0);
+      return state.language;
+    }
+
+    // Too short to be evidence ("ok thanks", "sí", "merci")
+    if (countWords(message) < MIN_EVIDENCE_WORDS) return state.language;
+
+    const count = state.pending?.language === detected ? state.pending.count + 1 : 1;
+    if (count < SWITCH_AFTER_MESSAGES) {
+      await this.setPending(userId, detected, count);
+      logger.debug({ userId, current: state.language, detected, count }, 'Different language detected — waiting for more evidence');
+      return state.language;
+    }
+
+    await this.applyChange(userId, state, detected, 'detected', message);
+    return detected;
+  }
+
+  /**
+   * Explicit choice (user command or admin): switch and lock.
+   */
+  async setPreference(userId: string, language: Language, source: 'command' | 'admin', message?: string): Promise<void> {
+    const state = await this.getState(userId);
+    if (!state) return;
+    await this.applyChange(userId, state, language, source, message, true);
+  }
+
+  /**
+   * Go back to detecting the language from messages.
+   */
+  async unlock(userId: string, source: 'command' | 'admin', message?: string): Promise<void> {
+    const state = await this.getState(userId);
+    if (!state || !state.locked) return;
+    await this.applyChange(userId, state, state.language, source, message, false);
+  }
+
+  async getChanges(userId: string, limit: number = 50): Promise<LanguageChange[]> {
+    const result = await this.db.query<{
+      id: string;
+      previous_language: Language | null;
+      language: Language;
+      locked: boolean;
+      source: LanguageChangeSource;
+      message: string | null;
+      created_at: Date;
+    }>(
+      `SELECT id, previous_language, language, locked, source, message, created_at
+       FROM language_changes
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [userId, limit],
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      previousLanguage: row.previous_language,
+      language: row.language,
+      locked: row.locked,
+      source: row.source,
+      message: row.message,
+      createdAt: row.created_at,
+    }));
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async setPending(userId: string, language: Language | null, count: number): Promise<void> {
+    await this.db.query(
+      'UPDATE users SET language_pending = $2, language_pending_count = $3 WHERE id = $1',
+      [userId, language, count],
+    );
+  }
+
+  private async applyChange(
+    userId: string,
+    state: LanguageState,
+    language: Language,
+    source: LanguageChangeSource,
+    message?: string,
+    locked: boolean = state.locked,
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE users
+       SET language = $2, language_locked = $3, language_pending = NULL, language_pending_count = 0
+       WHERE id = $1`,
+      [userId, language, locked],
+    );
+
+    await this.db.query(
+      `INSERT INTO language_changes (user_id, previous_language, language, locked, source, message)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [userId, state.language, language, locked, source, message ? message.slice(0, LOGGED_MESSAGE_CHARS) : null],
+    );
+
+    logger.info({ userId, from: state.language, to: language, locked, source }, 'User language changed');
+  }
+}
+
+function countWords(message: string): number {
+  return message.trim().split(/\s+/).filter(Boolean).length;
+}
@@ -0,0 +1,171 @@
+/**
+ * Meal Nutrition Extractor
+ *
+ * Runs in the nightly pass for every event the summary call classified as a
+ * meal. Claude reads what the user wrote and, when there is one, looks at
+ * the photo (the first time anything does — inbound only notes
+ * "[Image attached]"), and returns a normalized food list with portion
+ * estimates and macro ranges. The digest service stores the result in
+ * health_events.extracted_data.nutrition together with the meal's local
+ * time; nutrition.ts rolls it up per day.
+ *
+ * Calls go through the AIProvider (adapters/ai), so AI_PROVIDER=fake covers
+ * them too. They are made one meal at a time, also in batch mode.
+ *
+ * Estimates are ranges, never single numbers. Meals logged with a photo and
+ * no words are flagged `photoOnly` and capped at medium confidence.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { config } from '../../config';
+import { logAIUsage, logger } from '../../infra/logging/logger';
+import { RateLimiter } from '../../shared/rate-limiter';
+import { downloadMedia } from '../../adapters/messaging/registry';
+import { AIProvider, messageText } from '../../adapters/ai/provider';
+import { getAIProvider } from '../../adapters/ai/registry';
+
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+// Nightly, nobody is waiting — but one stuck photo shouldn't hold the run
+const TIMEOUT_MS = 45000;
+
+// What inbound writes in place of a photo (worker/handlers/inbound.ts)
+const IMAGE_PLACEHOLDER = /\[Image attached\]/gi;
+
+export const FOOD_CATEGORIES = ['starch', 'protein', 'vegetable', 'fruit', 'dairy', 'fat', 'sweet', 'drink', 'other'] as const;
+
+export type FoodCategory = typeof FOOD_CATEGORIES[number];
+
+const range = z.object({
+  min: z.coerce.number().min(0),
+  max: z.coerce.number().min(0),
+}).refine(r => r.min <= r.max, { message: 'min must not exceed max' });
+
+const responseSchema = z.object({
+  foods: z.array(z.object({
+    name: z.string().trim().min(1),
+    normalized: z.string().trim().min(1),
+    category: z.enum(FOOD_CATEGORIES),
+    portion: z.string().trim().min(1),
+    grams: range,
+  })).min(1),
+  dominant: z.enum(FOOD_CATEGORIES),
+  macros: z.object({
+    kcal: range,
+    carbs_g: range,
+    protein_g: range,
+    fat_g: range,
+    fiber_g: range,
+  }),
+  confidence: z.enum(['high', 'medium', 'low']),
+});
+
+export type NutritionRange = { min: number; max: number };
+
+export type NutritionEstimate = z.infer<typeof responseSchema>;
+
+export type NutritionBasis = 'text' | 'photo' | 'text_and_photo';
+
+export interface MealNutrition extends NutritionEstimate {
+  // What the estimate was made from
+  basis: NutritionBasis;
+  // Nothing but a photo to go on — portions and hidden ingredients are guesses
+  photoOnly: boolean;
+  model: string;
+}
+
+export interface MealInput {
+  userId: string;
+  rawInput: string | null;
+  imageUrl: string | null;
+  // From the nightly classification, in the user's words
+  foods?: string[];
+  mealType?: string;
+}
+
+export class MealNutritionExtractor {
+  private rateLimiter: RateLimiter;
+
+  constructor(private ai: AIProvider = getAIProvider()) {
+    this.rateLimiter = new RateLimiter({ maxRequestsPerMinute: config.claudeRpmLimit });
+  }
+
+  /**
+   * Estimate a meal's nutrition. Returns null when there is nothing to go
+   * on (no text and the photo can't be downloaded). Throws when the call
+   * fails or the reply doesn't match the expected JSON.
+   */
+  async extract(meal: MealInput): Promise<MealNutrition | null> {
+    const text = (meal.rawInput ?? '').replace(IMAGE_PLACEHOLDER, '').trim();
+
+    let image: Anthropic.ImageBlockParam | null = null;
+    if (meal.imageUrl) {
+      try {
+        const { buffer, contentType } = await downloadMedia(meal.imageUrl);
+        const mediaType = contentType.includes('png') ? 'image/png'
+          : contentType.includes('gif') ? 'image/gif'
+          : contentType.includes('webp') ? 'image/webp'
+          : 'image/jpeg';
+        image = { type: 'image', source: { type: 'base64', media_type: mediaType, data: buffer.toString('base64') } };
+      } catch (err) {
+        logger.warn({ userId: meal.userId, err }, 'Meal photo download failed — estimating from text');
+      }
+    }
+
+    if (!text && !image) return null;
+
+    const basis: NutritionBasis = text && image ? 'text_and_photo' : image ? 'photo' : 'text';
+
+    await this.rateLimiter.acquire();
+
+    const prompt = `Estimate the nutrition of one meal a client logged on WhatsApp (any language).
+
+${text ? `WHAT THEY WROTE:\n${text}\n` : 'They sent only the photo, no words.\n'}${meal.foods?.length ? `FOODS ALREADY IDENTIFIED: ${meal.foods.join(', ')}\n` : ''}${meal.mealType ? `MEAL: ${meal.mealType}\n` : ''}${image ? 'The photo of the plate is attached.\n' : 'There is no photo — judge portions from the words, assuming a typical home serving when they don\'t say.\n'}
+For every food: "name" in their words, "normalized" as a short lowercase English name ("white rice", "fried plantain"), a category (${FOOD_CATEGORIES.join(', ')}), a "portion" in household terms ("1 cup", "2 pieces") and a grams range.
+"dominant" is the category that makes up most of the plate by volume.
+Macros are ranges for the whole meal. Keep ranges honest: wider when you can't see or aren't told the portion.
+"confidence": high only when both the foods and the portions are clear; low when you are mostly guessing.
+
+Return ONLY JSON:
+{"foods": [{"name": "...", "normalized": "...", "category": "starch", "portion": "...", "grams": {"min": 0, "max": 0}}], "dominant": "starch", "macros": {"kcal": {"min": 0, "max": 0}, "carbs_g": {"min": 0, "max": 0}, "protein_g": {"min": 0, "max": 0}, "fat_g": {"min": 0, "max": 0}, "fiber_g": {"min": 0, "max": 0}}, "confidence": "medium"}`;
+
+    const startTime = Date.now();
+    const response = await this.ai.createMessage({
+      model: MODEL,
+      max_tokens: 800,
+      messages: [{
+        role: 'user',
+        content: image ? [image, { type: 'text', text: prompt }] : prompt,
+      }],
+    }, { timeoutMs: TIMEOUT_MS, maxRetries: 1 });
+    const latencyMs = Date.now() - startTime;
+
+    logAIUsage({
+      userId: meal.userId,
+      correlationId: `meal-nutrition-${meal.userId}`,
+      model: response.model,
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      latencyMs,
+    }).catch(() => {});
+
+    const replyText = messageText(response);
+
+    const json = replyText.match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new Error('Meal nutrition extractor returned no JSON');
+    }
+
+    const parsed = responseSchema.parse(JSON.parse(json[0]));
+    const photoOnly = basis === 'photo';
+
+    return {
+      ...parsed,
+      confidence: photoOnly && parsed.confidence === 'high' ? 'medium' : parsed.confidence,
+      basis,
+      photoOnly,
+      model: response.model,
+    };
+  }
+}
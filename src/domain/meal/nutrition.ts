@@ -0,0 +1,156 @@
+/**
+ * Meal Nutrition Rollup
+ *
+ * Per-day totals over the meal estimates the nightly pass stored in
+ * health_events.extracted_data.nutrition (see nutrition-extractor.ts).
+ * Days are the user's local calendar days (event_date). Totals are ranges:
+ * the sum of each meal's min and max. Meals the pass hasn't reached yet
+ * (or couldn't estimate) count as meals but add nothing to the totals.
+ */
+
+import { Pool } from 'pg';
+import { FoodCategory, MealNutrition, NutritionRange } from './nutrition-extractor';
+
+export interface MealNutritionEntry {
+  eventId: string;
+  // Local HH:MM
+  time: string | null;
+  mealType: string | null;
+  foods: string[];
+  dominant: FoodCategory | null;
+  kcal: NutritionRange | null;
+  confidence: MealNutrition['confidence'] | null;
+  photoOnly: boolean;
+  estimated: boolean;
+}
+
+export interface DailyNutrition {
+  date: string;
+  mealCount: number;
+  // Meals without an estimate (not processed yet, or nothing to go on)
+  unestimatedMeals: number;
+  photoOnlyMeals: number;
+  lowConfidenceMeals: number;
+  firstMealAt: string | null;
+  lastMealAt: string | null;
+  kcal: NutritionRange;
+  carbsG: NutritionRange;
+  proteinG: NutritionRange;
+  fatG: NutritionRange;
+  fiberG: NutritionRange;
+  // Meals per dominant category ("mostly starch": 2)
+  dominant: Partial<Record<FoodCategory, number>>;
+  meals: MealNutritionEntry[];
+}
+
+interface MealRow {
+  id: string;
+  event_date: string;
+  extracted_data: {
+    meal_type?: string;
+    meal_time?: string;
+    foods?: string[];
+    nutrition?: MealNutrition;
+  };
+}
+
+function emptyRange(): NutritionRange {
+  return { min: 0, max: 0 };
+}
+
+function addRange(total: NutritionRange, add: NutritionRange | undefined): void {
+  if (!add) return;
+  total.min += add.min;
+  total.max += add.max;
+}
+
+function emptyDay(date: string): DailyNutrition {
+  return {
+    date,
+    mealCount: 0,
+    unestimatedMeals: 0,
+    photoOnlyMeals: 0,
+    lowConfidenceMeals: 0,
+    firstMealAt: null,
+    lastMealAt: null,
+    kcal: emptyRange(),
+    carbsG: emptyRange(),
+    proteinG: emptyRange(),
+    fatG: emptyRange(),
+    fiberG: emptyRange(),
+    dominant: {},
+    meals: [],
+  };
+}
+
+export class NutritionService {
+  constructor(private db: Pool) {}
+
+  /**
+   * One entry per day from `startDate` to `endDate` (inclusive, YYYY-MM-DD),
+   * days without meals included.
+   */
+  async getDailyRollup(userId: string, startDate: string, endDate: string): Promise<DailyNutrition[]> {
+    const result = await this.db.query<MealRow>(
+      `SELECT id, event_date::text AS event_date, extracted_data
+       FROM health_events
+       WHERE user_id = $1
+         AND event_date BETWEEN $2 AND $3
+         AND event_type = 'meal'
+       ORDER BY event_time ASC`,
+      [userId, startDate, endDate],
+    );
+
+    const days = new Map<string, DailyNutrition>();
+    for (
+      const day = new Date(`${startDate}T12:00:00Z`);
+      day <= new Date(`${endDate}T12:00:00Z`);
+      day.setUTCDate(day.getUTCDate() + 1)
+    ) {
+      const date = day.toISOString().split('T')[0]!;
+      days.set(date, emptyDay(date));
+    }
+
+    for (const row of result.rows) {
+      const day = days.get(row.event_date);
+      if (!day) continue;
+
+      const data = row.extracted_data ?? {};
+      const nutrition = data.nutrition;
+      const time = data.meal_time ?? null;
+
+      day.mealCount++;
+      if (time) {
+        if (!day.firstMealAt || time < day.firstMealAt) day.firstMealAt = time;
+        if (!day.lastMealAt || time > day.lastMealAt) day.lastMealAt = time;
+      }
+
+      if (nutrition) {
+        addRange(day.kcal, nutrition.macros.kcal);
+        addRange(day.carbsG, nutrition.macros.carbs_g);
+        addRange(day.proteinG, nutrition.macros.protein_g);
+        addRange(day.fatG, nutrition.macros.fat_g);
+        addRange(day.fiberG, nutrition.macros.fiber_g);
+        day.dominant[nutrition.dominant] = (day.dominant[nutrition.dominant] ?? 0) + 1;
+        if (nutrition.photoOnly) day.photoOnlyMeals++;
+        if (nutrition.confidence === 'low') day.lowConfidenceMeals++;
+      } else {
+        day.unestimatedMeals++;
+      }
+
+      day.meals.push({
+        eventId: row.id,
+        time,
+        mealType: data.meal_type ?? null,
+        foods: nutrition ? nutrition.foods.map(f => f.normalized) : (data.foods ?? []),
+        dominant: nutrition?.dominant ?? null,
+        kcal: nutrition?.macros.kcal ?? null,
+        confidence: nutrition?.confidence ?? null,
+        photoOnly: nutrition?.photoOnly ?? false,
+        estimated: !!nutrition,
+      });
+    }
+
+    return [...days.values()];
+  }
+}
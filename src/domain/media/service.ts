@@ -2,6 +2,7 @@ import Anthropic from '@anthropic-ai/sdk';
 import OpenAI, { toFile } from 'openai';
 import { config } from '../../config';
 import { logger } from '../../infra/logging/logger';
+import { downloadMedia } from '../../adapters/messaging/registry';
 
 export class MediaService {
   private anthropic: Anthropic;
@@ -27,14 +28,9 @@ export class MediaService {
     try {
       logger.info({ audioUrl, language }, 'Starting audio transcription with Whisper');
 
-      const audioResponse = await fetch(audioUrl);
-      if (!audioResponse.ok) {
-        throw new Error(`Failed to download audio: ${audioResponse.status}`);
-      }
-
-      const audioBuffer = await audioResponse.arrayBuffer();
-      const buffer = Buffer.from(audioBuffer);
-      const contentType = audioResponse.headers.get('content-type') || 'audio/ogg';
+      // Chatwoot URL or whatsapp-media:<id> reference
+      const { buffer, contentType: downloadedType } = await downloadMedia(audioUrl);
+      const contentType = downloadedType || 'audio/ogg';
       const ext = contentType.includes('mp3') ? 'mp3' : contentType.includes('wav') ? 'wav' : contentType.includes('webm') ? 'webm' : 'ogg';
 
       // Don't pass language hint - let Whisper auto-detect
@@ -58,15 +54,10 @@ export class MediaService {
     try {
       logger.info({ imageUrl, language }, 'Starting image analysis');
 
-      const imageResponse = await fetch(imageUrl);
-      if (!imageResponse.ok) {
-        throw new Error(`Failed to download image: ${imageResponse.status}`);
-      }
-
-      const imageBuffer = await imageResponse.arrayBuffer();
-      const base64Image = Buffer.from(imageBuffer).toString('base64');
+      const { buffer: imageBuffer, contentType: downloadedType } = await downloadMedia(imageUrl);
+      const base64Image = imageBuffer.toString('base64');
 
-      const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
+      const contentType = downloadedType || 'image/jpeg';
       const mediaType = contentType.includes('png') ? 'image/png'
         : contentType.includes('gif') ? 'image/gif'
         : contentType.includes('webp') ? 'image/webp'
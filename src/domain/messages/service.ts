@@ -0,0 +1,150 @@
+/**
+ * Message Catalog Service
+ *
+ * Admin view over the message catalog (shared/message-catalog.ts) and its
+ * per-language overrides in config_templates:
+ *   - List every key with its built-in text and override
+ *   - Report keys missing per language (no built-in text and no override)
+ *   - Save overrides; the lookup cache is refreshed right away
+ */
+
+import { Pool } from 'pg';
+import {
+  CATALOG_LANGUAGES,
+  CatalogLanguage,
+  MESSAGES,
+  MESSAGE_KEYS,
+  MessageForm,
+  MessageKey,
+  isMessageKey,
+} from '../../shared/message-catalog';
+import { refreshMessageOverrides } from '../../shared/messages';
+import { logger } from '../../infra/logging/logger';
+
+interface TemplateRow {
+  key: string;
+  content_es: string | null;
+  content_en: string | null;
+  content_pt: string | null;
+  content_fr: string | null;
+  description: string | null;
+  updated_at: Date;
+}
+
+export interface CatalogEntry {
+  key: MessageKey;
+  description: string;
+  builtin: Partial<Record<CatalogLanguage, MessageForm>>;
+  overrides: Partial<Record<CatalogLanguage, string>>;
+  overriddenAt: Date | null;
+}
+
+export interface MissingMessagesReport {
+  languages: Record<CatalogLanguage, {
+    missing: MessageKey[];
+    // No built-in text, covered only by an override
+    overrideOnly: MessageKey[];
+  }>;
+  // config_templates rows whose key is not in the catalog
+  unknownOverrides: string[];
+}
+
+export type OverrideInput = Partial<Record<CatalogLanguage, string | null>> & { description?: string };
+
+export class MessageCatalogService {
+  constructor(private db: Pool) {}
+
+  async list(): Promise<CatalogEntry[]> {
+    const rows = await this.loadRows();
+
+    return MESSAGE_KEYS.map(key => {
+      const row = rows.get(key);
+      return {
+        key,
+        description: MESSAGES[key].description,
+        builtin: MESSAGES[key].text,
+        overrides: row ? this.rowTexts(row) : {},
+        overriddenAt: row?.updated_at ?? null,
+      };
+    });
+  }
+
+  /**
+   * Keys with no text in a language. Those users get the es → en fallback.
+   */
+  async getMissingReport(): Promise<MissingMessagesReport> {
+    const rows = await this.loadRows();
+
+    const languages = Object.fromEntries(
+      CATALOG_LANGUAGES.map(lang => [lang, { missing: [] as MessageKey[], overrideOnly: [] as MessageKey[] }]),
+    ) as MissingMessagesReport['languages'];
+
+    for (const key of MESSAGE_KEYS) {
+      const builtin: Partial<Record<CatalogLanguage, MessageForm>> = MESSAGES[key].text;
+      const overrides = rows.has(key) ? this.rowTexts(rows.get(key)!) : {};
+
+      for (const lang of CATALOG_LANGUAGES) {
+        if (builtin[lang] !== undefined) continue;
+        if (overrides[lang]) languages[lang].overrideOnly.push(key);
+        else languages[lang].missing.push(key);
+      }
+    }
+
+    return {
+      languages,
+      unknownOverrides: [...rows.keys()].filter(key => !isMessageKey(key)).sort(),
+    };
+  }
+
+  /**
+   * Upsert an override. A null language clears it; an omitted one is kept.
+   */
+  async setOverride(key: MessageKey, input: OverrideInput): Promise<void> {
+    const value = (lang: CatalogLanguage) => (input[lang] === undefined ? null : input[lang] ?? '');
+
+    // '' marks "clear" so COALESCE keeps omitted languages
+    await this.db.query(
+      `INSERT INTO config_templates (key, content_es, content_en, content_pt, content_fr, description, updated_at)
+       VALUES ($1, NULLIF($2, ''), NULLIF($3, ''), NULLIF($4, ''), NULLIF($5, ''), $6, NOW())
+       ON CONFLICT (key) DO UPDATE SET
+         content_es = CASE WHEN $2::text IS NULL THEN config_templates.content_es ELSE NULLIF($2, '') END,
+         content_en = CASE WHEN $3::text IS NULL THEN config_templates.content_en ELSE NULLIF($3, '') END,
+         content_pt = CASE WHEN $4::text IS NULL THEN config_templates.content_pt ELSE NULLIF($4, '') END,
+         content_fr = CASE WHEN $5::text IS NULL THEN config_templates.content_fr ELSE NULLIF($5, '') END,
+         description = COALESCE(EXCLUDED.description, config_templates.description),
+         updated_at = NOW()`,
+      [key, value('es'), value('en'), value('pt'), value('fr'), input.description ?? null],
+    );
+
+    logger.info({ key }, 'Message override saved');
+    await refreshMessageOverrides();
+  }
+
+  /**
+   * Drop every override for a key — the built-in text applies again.
+   */
+  async clearOverride(key: string): Promise<boolean> {
+    const result = await this.db.query('DELETE FROM config_templates WHERE key = $1', [key]);
+    await refreshMessageOverrides();
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async loadRows(): Promise<Map<string, TemplateRow>> {
+    const result = await this.db.query<TemplateRow>(
+      `SELECT key, content_es, content_en, content_pt, content_fr, description, updated_at
+       FROM config_templates`,
+    );
+    return new Map(result.rows.map(row => [row.key, row]));
+  }
+
+  private rowTexts(row: TemplateRow): Partial<Record<CatalogLanguage, string>> {
+    const texts: Partial<Record<CatalogLanguage, string>> = {};
+    if (row.content_es) texts.es = row.content_es;
+    if (row.content_en) texts.en = row.content_en;
+    if (row.content_pt) texts.pt = row.content_pt;
+    if (row.content_fr) texts.fr = row.content_fr;
+    return texts;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Messaging Service
+ *
+ * Sends to a user over the right MessagingChannel. Channel precedence:
+ *   1. users.messaging_channel      — per-user override (admin)
+ *   2. recipient.channel            — the inbox the current message came from
+ *   3. conversation_state.channel   — the inbox of the user's last message
+ *   4. DEFAULT_MESSAGING_CHANNEL
+ */
+
+import { Pool } from 'pg';
+import { config } from '../../config';
+import { logger } from '../../infra/logging/logger';
+import { ChannelName, ChannelTarget, TemplateMessage } from '../../adapters/messaging/channel';
+import { getChannel } from '../../adapters/messaging/registry';
+
+export interface Recipient extends ChannelTarget {
+  userId?: string;
+  channel?: ChannelName;
+}
+
+export class MessagingService {
+  constructor(private db: Pool) {}
+
+  async sendMessage(recipient: Recipient, content: string): Promise<void> {
+    const { channel, target } = await this.resolve(recipient);
+    await getChannel(channel).sendMessage(target, content);
+  }
+
+  async sendAttachment(recipient: Recipient, fileBuffer: Buffer, fileName: string, caption?: string): Promise<void> {
+    const { channel, target } = await this.resolve(recipient);
+    await getChannel(channel).sendAttachment(target, fileBuffer, fileName, caption);
+  }
+
+  /**
+   * Whether the channel this recipient resolves to can carry a file.
+   */
+  async supportsAttachments(recipient: Recipient): Promise<boolean> {
+    const { channel } = await this.resolve(recipient);
+    return getChannel(channel).supportsAttachments;
+  }
+
+  async sendTemplate(recipient: Recipient, template: TemplateMessage): Promise<void> {
+    const { channel, target } = await this.resolve(recipient);
+    await getChannel(channel).sendTemplate(target, template);
+  }
+
+  /**
+   * Pin a user to a channel (null = follow the inbox they write from).
+   * Returns false if the user does not exist.
+   */
+  async setUserChannel(userId: string, channel: ChannelName | null): Promise<boolean> {
+    const result = await this.db.query(
+      'UPDATE users SET messaging_channel = $2 WHERE id = $1',
+      [userId, channel],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async resolve(recipient: Recipient): Promise<{ channel: ChannelName; target: ChannelTarget }> {
+    const target: ChannelTarget = { phone: recipient.phone, conversationId: recipient.conversationId };
+
+    if (!recipient.userId) {
+      return { channel: recipient.channel ?? config.defaultMessagingChannel, target };
+    }
+
+    const result = await this.db.query<{
+      phone: string;
+      messaging_channel: ChannelName | null;
+      last_channel: ChannelName | null;
+    }>(
+      `SELECT u.phone, u.messaging_channel, cs.channel AS last_channel
+       FROM users u
+       LEFT JOIN conversation_state cs ON cs.user_id = u.id
+       WHERE u.id = $1`,
+      [recipient.userId],
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      logger.warn({ userId: recipient.userId }, 'Recipient user not found — using default channel');
+    }
+
+    const channel = row?.messaging_channel
+      ?? recipient.channel
+      ?? row?.last_channel
+      ?? config.defaultMessagingChannel;
+
+    return { channel, target: { ...target, phone: target.phone ?? row?.phone } };
+  }
+}
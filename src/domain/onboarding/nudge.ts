@@ -0,0 +1,112 @@
+/**
+ * Onboarding Nudge Service
+ *
+ * Users who go quiet on an onboarding question get re-asked it:
+ *   - Stalled = still in onboarding, no answer for ONBOARDING_NUDGE_AFTER_HOURS
+ *     since the question (or the last nudge)
+ *   - At most ONBOARDING_MAX_NUDGES per question; answering resets the count
+ *   - The nudge repeats the pending question and mentions skip / restart
+ *   - Never sent to users who paused or stopped messages
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+import { t } from '../../shared/messages';
+import { findCurrentStep, localize } from '../../shared/onboarding';
+import { MessagingService } from '../messaging/service';
+import { OnboardingFlowService } from './service';
+
+export interface StalledOnboarding {
+  userId: string;
+  nudgeCount: number;
+}
+
+interface StateRow {
+  user_id: string;
+  phone: string;
+  language: string | null;
+  conversation_id: number | null;
+  onboarding_step: number;
+  onboarding_flow_id: string | null;
+  onboarding_step_id: string | null;
+  onboarding_nudge_count: number;
+}
+
+export class OnboardingNudgeService {
+  private messagingService: MessagingService;
+  private flowService: OnboardingFlowService;
+
+  constructor(private db: Pool) {
+    this.messagingService = new MessagingService(db);
+    this.flowService = new OnboardingFlowService(db);
+  }
+
+  /**
+   * Users due a nudge, longest-silent first.
+   */
+  async findStalled(afterHours: number, maxNudges: number, limit: number = 500): Promise<StalledOnboarding[]> {
+    const result = await this.db.query<{ user_id: string; onboarding_nudge_count: number }>(
+      `SELECT cs.user_id, cs.onboarding_nudge_count
+       FROM conversation_state cs
+       JOIN users u ON u.id = cs.user_id
+       WHERE cs.phase = 'onboarding'
+         AND cs.onboarding_step IS NOT NULL
+         AND cs.onboarding_step_at IS NOT NULL
+         AND cs.onboarding_nudge_count < $2
+         AND GREATEST(cs.onboarding_step_at, COALESCE(cs.onboarding_nudged_at, cs.onboarding_step_at))
+             < NOW() - make_interval(hours => $1)
+         AND u.opted_out_at IS NULL
+       ORDER BY cs.onboarding_step_at
+       LIMIT $3`,
+      [afterHours, maxNudges, limit],
+    );
+
+    return result.rows.map(row => ({ userId: row.user_id, nudgeCount: row.onboarding_nudge_count }));
+  }
+
+  /**
+   * Send one nudge. `expectedCount` is the count seen when the nudge was
+   * scheduled — if the user answered (count reset) or another nudge went out
+   * since, nothing is sent. Returns whether a nudge was sent.
+   */
+  async sendNudge(userId: string, expectedCount: number): Promise<boolean> {
+    const result = await this.db.query<StateRow>(
+      `SELECT cs.user_id, u.phone, u.language, cs.conversation_id, cs.onboarding_step,
+              cs.onboarding_flow_id, cs.onboarding_step_id, cs.onboarding_nudge_count
+       FROM conversation_state cs
+       JOIN users u ON u.id = cs.user_id
+       WHERE cs.user_id = $1
+         AND cs.phase = 'onboarding'
+         AND cs.onboarding_step IS NOT NULL
+         AND cs.onboarding_nudge_count = $2
+         AND u.opted_out_at IS NULL`,
+      [userId, expectedCount],
+    );
+
+    const state = result.rows[0];
+    if (!state) {
+      logger.info({ userId }, 'Onboarding nudge no longer needed');
+      return false;
+    }
+
+    const flow = (state.onboarding_flow_id && await this.flowService.getById(state.onboarding_flow_id))
+      || await this.flowService.getActive();
+    const step = findCurrentStep(flow.definition, state.onboarding_step_id, state.onboarding_step);
+    const lang = state.language || 'es';
+
+    await this.messagingService.sendMessage(
+      { userId, phone: state.phone, conversationId: state.conversation_id ?? undefined },
+      t('onboarding.nudge', lang, { question: localize(step.text, lang) }),
+    );
+
+    await this.db.query(
+      `UPDATE conversation_state
+       SET onboarding_nudge_count = onboarding_nudge_count + 1, onboarding_nudged_at = NOW()
+       WHERE user_id = $1`,
+      [userId],
+    );
+
+    logger.info({ userId, step: step.id, nudge: expectedCount + 1 }, 'Onboarding nudge sent');
+    return true;
+  }
+}
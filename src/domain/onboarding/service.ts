@@ -0,0 +1,262 @@
+/**
+ * Onboarding Flow Service
+ *
+ * Versioned onboarding flows (onboarding_flows):
+ *   - Versions are immutable; editing a flow = creating a new version
+ *   - One active version per flow name; new users start on it
+ *   - Users mid-onboarding stay on the version they started with
+ *   - The built-in flow is seeded as `default` v1 the first time it's needed
+ */
+
+import { Pool } from 'pg';
+import { z } from 'zod';
+import { withTransaction } from '../../infra/db/client';
+import { logger } from '../../infra/logging/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '../../shared/errors';
+import { OnboardingFlow, OnboardingFlowDefinition } from '../../shared/types';
+import { DEFAULT_FLOW_NAME, buildBuiltinFlow, validateFlowDefinition } from '../../shared/onboarding';
+
+const localizedTextSchema = z.record(z.string().min(1));
+
+export const onboardingFlowDefinitionSchema = z.object({
+  intro: localizedTextSchema,
+  complete: localizedTextSchema,
+  steps: z.array(z.object({
+    id: z.string().min(1).max(50),
+    text: localizedTextSchema,
+    scoreAs: z.number().int().min(1).max(5).optional(),
+    branches: z.array(z.object({
+      match: z.string().min(1),
+      next: z.string().nullable(),
+    })).optional(),
+    next: z.string().nullable().optional(),
+  })).min(1),
+});
+
+interface FlowRow {
+  id: string;
+  name: string;
+  version: number;
+  definition: OnboardingFlowDefinition;
+  is_active: boolean;
+  notes: string | null;
+  created_at: Date;
+  activated_at: Date | null;
+}
+
+const FLOW_COLUMNS = 'id, name, version, definition, is_active, notes, created_at, activated_at';
+
+export class OnboardingFlowService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Active version of a flow — seeds the built-in flow if `default` has none.
+   */
+  async getActive(name: string = DEFAULT_FLOW_NAME): Promise<OnboardingFlow> {
+    const row = await this.findActiveRow(name);
+    if (row) return this.mapRow(row);
+
+    if (name !== DEFAULT_FLOW_NAME) {
+      throw new NotFoundError(`No active onboarding flow: ${name}`);
+    }
+
+    await this.db.query(
+      `INSERT INTO onboarding_flows (name, version, definition, is_active, notes, created_by, activated_at)
+       SELECT $1, 1, $2, TRUE, 'Built-in flow', 'system', NOW()
+       WHERE NOT EXISTS (SELECT 1 FROM onboarding_flows WHERE name = $1)
+       ON CONFLICT DO NOTHING`,
+      [name, JSON.stringify(buildBuiltinFlow())],
+    );
+
+    const seeded = await this.findActiveRow(name);
+    if (!seeded) {
+      // Versions exist but none is active — an admin deactivated them on purpose
+      throw new NotFoundError(`No active onboarding flow: ${name}`);
+    }
+
+    logger.info({ name, version: seeded.version }, 'Seeded built-in onboarding flow');
+    return this.mapRow(seeded);
+  }
+
+  async getById(id: string): Promise<OnboardingFlow | null> {
+    const result = await this.db.query<FlowRow>(
+      `SELECT ${FLOW_COLUMNS} FROM onboarding_flows WHERE id = $1`,
+      [id],
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async getVersion(name: string, version: number): Promise<OnboardingFlow | null> {
+    const result = await this.db.query<FlowRow>(
+      `SELECT ${FLOW_COLUMNS} FROM onboarding_flows WHERE name = $1 AND version = $2`,
+      [name, version],
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * One row per flow name: latest + active version, how many clients completed it.
+   */
+  async list(): Promise<Array<{
+    name: string;
+    latestVersion: number;
+    activeVersion: number | null;
+    completedCount: number;
+  }>> {
+    const result = await this.db.query<{
+      name: string;
+      latest_version: number;
+      active_version: number | null;
+      completed_count: string;
+    }>(
+      `SELECT f.name,
+              MAX(f.version) AS latest_version,
+              MAX(f.version) FILTER (WHERE f.is_active) AS active_version,
+              COUNT(cp.id) AS completed_count
+       FROM onboarding_flows f
+       LEFT JOIN client_profiles cp ON cp.onboarding_flow_id = f.id
+       GROUP BY f.name
+       ORDER BY f.name`,
+    );
+
+    return result.rows.map(row => ({
+      name: row.name,
+      latestVersion: row.latest_version,
+      activeVersion: row.active_version,
+      completedCount: parseInt(row.completed_count, 10),
+    }));
+  }
+
+  async listVersions(name: string): Promise<Array<OnboardingFlow & { completedCount: number }>> {
+    const result = await this.db.query<FlowRow & { completed_count: string }>(
+      `SELECT f.id, f.name, f.version, f.definition, f.is_active, f.notes, f.created_at, f.activated_at,
+              (SELECT COUNT(*) FROM client_profiles cp WHERE cp.onboarding_flow_id = f.id) AS completed_count
+       FROM onboarding_flows f
+       WHERE f.name = $1
+       ORDER BY f.version DESC`,
+      [name],
+    );
+
+    return result.rows.map(row => ({
+      ...this.mapRow(row),
+      completedCount: parseInt(row.completed_count, 10),
+    }));
+  }
+
+  /**
+   * Store a new version (validated). Optionally make it the active one.
+   */
+  async createVersion(
+    name: string,
+    definition: OnboardingFlowDefinition,
+    options: { notes?: string; activate?: boolean; createdBy?: string } = {},
+  ): Promise<OnboardingFlow> {
+    const errors = validateFlowDefinition(definition);
+    if (errors.length > 0) {
+      throw new BadRequestError(`Invalid onboarding flow: ${errors.join('; ')}`);
+    }
+
+    return withTransaction(async (client) => {
+      // Serialize version numbering per flow name
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`onboarding_flow:${name}`]);
+
+      const current = await client.query<{ max_version: number }>(
+        'SELECT COALESCE(MAX(version), 0) AS max_version FROM onboarding_flows WHERE name = $1',
+        [name],
+      );
+      const version = current.rows[0]!.max_version + 1;
+
+      if (options.activate) {
+        await client.query(
+          'UPDATE onboarding_flows SET is_active = FALSE WHERE name = $1 AND is_active',
+          [name],
+        );
+      }
+
+      const result = await client.query<FlowRow>(
+        `INSERT INTO onboarding_flows (name, version, definition, is_active, notes, created_by, activated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $4 THEN NOW() END)
+         RETURNING ${FLOW_COLUMNS}`,
+        [name, version, JSON.stringify(definition), !!options.activate, options.notes ?? null, options.createdBy ?? null],
+      );
+
+      logger.info({ name, version, activated: !!options.activate }, 'Onboarding flow version created');
+      return this.mapRow(result.rows[0]!);
+    }, this.db);
+  }
+
+  /**
+   * Make a version the one new users start on.
+   */
+  async activate(name: string, version: number): Promise<OnboardingFlow> {
+    return withTransaction(async (client) => {
+      await client.query(
+        'UPDATE onboarding_flows SET is_active = FALSE WHERE name = $1 AND is_active AND version <> $2',
+        [name, version],
+      );
+
+      const result = await client.query<FlowRow>(
+        `UPDATE onboarding_flows
+         SET is_active = TRUE, activated_at = COALESCE(activated_at, NOW())
+         WHERE name = $1 AND version = $2
+         RETURNING ${FLOW_COLUMNS}`,
+        [name, version],
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError(`Onboarding flow version not found: ${name} v${version}`);
+      }
+
+      logger.info({ name, version }, 'Onboarding flow activated');
+      return this.mapRow(result.rows[0]!);
+    }, this.db);
+  }
+
+  /**
+   * Delete a version nobody has completed. The active version can't be deleted;
+   * users mid-way through a deleted version continue on the active one.
+   */
+  async deleteVersion(name: string, version: number): Promise<void> {
+    const flow = await this.getVersion(name, version);
+    if (!flow) {
+      throw new NotFoundError(`Onboarding flow version not found: ${name} v${version}`);
+    }
+    if (flow.isActive) {
+      throw new ConflictError('Cannot delete the active version — activate another one first');
+    }
+
+    const completed = await this.db.query<{ count: string }>(
+      'SELECT COUNT(*) AS count FROM client_profiles WHERE onboarding_flow_id = $1',
+      [flow.id],
+    );
+    if (parseInt(completed.rows[0]!.count, 10) > 0) {
+      throw new ConflictError('Clients have completed this version — it is kept for their history');
+    }
+
+    await this.db.query('DELETE FROM onboarding_flows WHERE id = $1', [flow.id]);
+    logger.info({ name, version }, 'Onboarding flow version deleted');
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async findActiveRow(name: string): Promise<FlowRow | null> {
+    const result = await this.db.query<FlowRow>(
+      `SELECT ${FLOW_COLUMNS} FROM onboarding_flows WHERE name = $1 AND is_active`,
+      [name],
+    );
+    return result.rows[0] ?? null;
+  }
+
+  private mapRow(row: FlowRow): OnboardingFlow {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      definition: row.definition,
+      isActive: row.is_active,
+      notes: row.notes,
+      createdAt: row.created_at,
+      activatedAt: row.activated_at,
+    };
+  }
+}
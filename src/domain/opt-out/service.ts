@@ -0,0 +1,145 @@
+/**
+ * Opt-out Service
+ *
+ * "pausa" / "stop" / "volver" from the user (shared/opt-out-commands.ts):
+ *   - pause / stop set users.opted_out_at — every proactive sender checks it
+ *   - Active users move to the `paused` phase; a pending check-in is canceled
+ *   - resume clears the flag and puts paused users back to `active`
+ *   - Every change is logged to opt_out_events (compliance trail)
+ */
+
+import { Pool } from 'pg';
+import { logger } from '../../infra/logging/logger';
+
+export type OptOutKind = 'pause' | 'stop';
+
+export interface OptOutStatus {
+  kind: OptOutKind;
+  since: Date;
+}
+
+export interface OptedOutUser {
+  userId: string;
+  phone: string;
+  name: string | null;
+  language: string | null;
+  kind: OptOutKind;
+  optedOutAt: Date;
+}
+
+export interface OptOutEvent {
+  id: string;
+  action: OptOutKind | 'resume';
+  message: string | null;
+  createdAt: Date;
+}
+
+export class OptOutService {
+  constructor(private db: Pool) {}
+
+  async getStatus(userId: string): Promise<OptOutStatus | null> {
+    const result = await this.db.query<{ opt_out_kind: OptOutKind; opted_out_at: Date }>(
+      'SELECT opt_out_kind, opted_out_at FROM users WHERE id = $1 AND opted_out_at IS NOT NULL',
+      [userId],
+    );
+    const row = result.rows[0];
+    return row ? { kind: row.opt_out_kind, since: row.opted_out_at } : null;
+  }
+
+  /**
+   * Whether proactive messages to this user must be skipped.
+   */
+  async isOptedOut(userId: string): Promise<boolean> {
+    return (await this.getStatus(userId)) !== null;
+  }
+
+  /**
+   * Pause or stop proactive messages. Switching pause → stop restarts the clock.
+   */
+  async optOut(userId: string, kind: OptOutKind, message?: string): Promise<void> {
+    await this.db.query(
+      `UPDATE users
+       SET opted_out_at = CASE WHEN opted_out_at IS NULL OR opt_out_kind IS DISTINCT FROM $2 THEN NOW() ELSE opted_out_at END,
+           opt_out_kind = $2
+       WHERE id = $1`,
+      [userId, kind],
+    );
+
+    await this.db.query(
+      `UPDATE conversation_state
+       SET phase = CASE WHEN phase = 'active' THEN 'paused' ELSE phase END,
+           checkin_status = CASE WHEN checkin_status = 'scheduled' THEN 'canceled' ELSE checkin_status END
+       WHERE user_id = $1`,
+      [userId],
+    );
+
+    await this.logEvent(userId, kind, message);
+    logger.info({ userId, kind }, 'User opted out of proactive messages');
+  }
+
+  /**
+   * Undo a pause / stop. Returns false if the user wasn't opted out.
+   */
+  async resume(userId: string, message?: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE users SET opted_out_at = NULL, opt_out_kind = NULL
+       WHERE id = $1 AND opted_out_at IS NOT NULL`,
+      [userId],
+    );
+    if ((result.rowCount ?? 0) === 0) return false;
+
+    await this.db.query(
+      `UPDATE conversation_state SET phase = 'active' WHERE user_id = $1 AND phase = 'paused'`,
+      [userId],
+    );
+
+    await this.logEvent(userId, 'resume', message);
+    logger.info({ userId }, 'User resumed proactive messages');
+    return true;
+  }
+
+  /**
+   * Everyone currently paused or stopped, most recent first.
+   */
+  async listOptedOut(): Promise<OptedOutUser[]> {
+    const result = await this.db.query<{
+      id: string;
+      phone: string;
+      name: string | null;
+      language: string | null;
+      opt_out_kind: OptOutKind;
+      opted_out_at: Date;
+    }>(
+      `SELECT id, phone, name, language, opt_out_kind, opted_out_at
+       FROM users
+       WHERE opted_out_at IS NOT NULL
+       ORDER BY opted_out_at DESC`,
+    );
+
+    return result.rows.map(row => ({
+      userId: row.id,
+      phone: row.phone,
+      name: row.name,
+      language: row.language,
+      kind: row.opt_out_kind,
+      optedOutAt: row.opted_out_at,
+    }));
+  }
+
+  async getEvents(userId: string): Promise<OptOutEvent[]> {
+    const result = await this.db.query<{ id: string; action: OptOutEvent['action']; message: string | null; created_at: Date }>(
+      `SELECT id, action, message, created_at FROM opt_out_events
+       WHERE user_id = $1
+       ORDER BY created_at DESC`,
+      [userId],
+    );
+    return result.rows.map(row => ({ id: row.id, action: row.action, message: row.message, createdAt: row.created_at }));
+  }
+
+  private async logEvent(userId: string, action: OptOutEvent['action'], message?: string): Promise<void> {
+    await this.db.query(
+      'INSERT INTO opt_out_events (user_id, action, message) VALUES ($1, $2, $3)',
+      [userId, action, message ?? null],
+    );
+  }
+}
@@ -696,5 +696,39 @@ export async function generateSummaryPdf(summaryData: Record<string, unknown>):
   }
 }
 
+/**
+ * Render a self-contained HTML document to a paginated A4 PDF (data exports
+ * and other plain documents — the nightly summary uses generateSummaryPdf).
+ */
+export async function generateDocumentPdf(html: string): Promise<Buffer> {
+  const puppeteer = await import('puppeteer');
+  const browser = await puppeteer.default.launch({
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+    ],
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+  });
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'load', timeout: 30000 });
+
+    const pdfBuffer = await page.pdf({
+      format: 'A4',
+      margin: { top: '16mm', right: '14mm', bottom: '16mm', left: '14mm' },
+      printBackground: true,
+    });
+
+    logger.info({ size: pdfBuffer.length }, 'Document PDF generated');
+    return Buffer.from(pdfBuffer);
+  } finally {
+    await browser.close();
+  }
+}
+
 // Export renderHtml for testing
 export { renderHtml };
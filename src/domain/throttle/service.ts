@@ -0,0 +1,160 @@
+/**
+ * Ingest Throttle Service
+ *
+ * Per-phone and per-conversation limits on inbound messages (Redis, shared
+ * by every API instance):
+ *   - Sliding-window limits via DistributedRateLimiter
+ *   - Exceeding a limit puts the phone in a cooldown; each repeat offence
+ *     within 24h doubles it (base → 2x → 4x … capped)
+ *   - One localized "slow down" reply per cooldown
+ *   - Active cooldowns are listed for the admin dashboard
+ */
+
+import Redis from 'ioredis';
+import { config } from '../../config';
+import { logger } from '../../infra/logging/logger';
+import { t } from '../../shared/messages';
+import { DistributedRateLimiter } from '../../shared/rate-limiter';
+import { TooManyRequestsError } from '../../shared/errors';
+
+const COOLDOWN_KEY_PREFIX = 'throttle:cooldown:';
+const STRIKES_KEY_PREFIX = 'throttle:strikes:';
+const NOTIFIED_KEY_PREFIX = 'throttle:notified:';
+const ACTIVE_SET_KEY = 'throttle:active';
+// Strikes decay after a quiet day
+const STRIKES_TTL_SECONDS = 24 * 60 * 60;
+
+export type ThrottleReason = 'phone_limit' | 'conversation_limit';
+
+export interface Cooldown {
+  phone: string;
+  conversationKey: string; // shared/conversation.ts
+  reason: ThrottleReason;
+  level: number;
+  startedAt: string;
+  until: string;
+}
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; cooldown: Cooldown; newCooldown: boolean };
+
+export function getSlowDownMessage(language: string): string {
+  return t('throttle.slow_down', language);
+}
+
+export class IngestThrottleService {
+  constructor(private redis: Redis) {}
+
+  /**
+   * Count this message against the phone + conversation limits.
+   * Messages during a cooldown are rejected without being counted.
+   */
+  async check(phone: string, conversationKey: string): Promise<ThrottleDecision> {
+    const active = await this.getCooldown(phone);
+    if (active) {
+      return { allowed: false, cooldown: active, newCooldown: false };
+    }
+
+    const limits: Array<[ThrottleReason, DistributedRateLimiter]> = [
+      ['phone_limit', new DistributedRateLimiter(this.redis, `ingest:phone:${phone}`, config.ingestPhoneRpm)],
+      ['conversation_limit', new DistributedRateLimiter(this.redis, `ingest:conv:${conversationKey}`, config.ingestConversationRpm)],
+    ];
+
+    for (const [reason, limiter] of limits) {
+      try {
+        await limiter.acquire();
+      } catch (error) {
+        if (!(error instanceof TooManyRequestsError)) throw error;
+        const cooldown = await this.startCooldown(phone, conversationKey, reason);
+        return { allowed: false, cooldown, newCooldown: true };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * True the first time it is called for a cooldown — gate for the
+   * "slow down" reply so it is sent once, not per dropped message.
+   */
+  async claimNotification(cooldown: Cooldown): Promise<boolean> {
+    const ttlMs = Math.max(1000, new Date(cooldown.until).getTime() - Date.now());
+    const result = await this.redis.set(
+      `${NOTIFIED_KEY_PREFIX}${cooldown.phone}:${cooldown.startedAt}`,
+      '1',
+      'PX',
+      ttlMs,
+      'NX',
+    );
+    return result === 'OK';
+  }
+
+  async getCooldown(phone: string): Promise<Cooldown | null> {
+    const raw = await this.redis.get(`${COOLDOWN_KEY_PREFIX}${phone}`);
+    return raw ? JSON.parse(raw) as Cooldown : null;
+  }
+
+  /**
+   * Phones currently in a cooldown, longest remaining first.
+   */
+  async listThrottled(): Promise<Array<Cooldown & { strikes: number }>> {
+    const now = Date.now();
+    await this.redis.zremrangebyscore(ACTIVE_SET_KEY, 0, now);
+    const phones = await this.redis.zrevrangebyscore(ACTIVE_SET_KEY, '+inf', now);
+
+    const entries = await Promise.all(phones.map(async (phone) => {
+      const [cooldown, strikes] = await Promise.all([
+        this.getCooldown(phone),
+        this.redis.get(`${STRIKES_KEY_PREFIX}${phone}`),
+      ]);
+      return cooldown ? { ...cooldown, strikes: parseInt(strikes || '0', 10) } : null;
+    }));
+
+    return entries.filter((e): e is Cooldown & { strikes: number } => e !== null);
+  }
+
+  /**
+   * Lift a cooldown and forget past strikes. Returns false if none was active.
+   */
+  async clear(phone: string): Promise<boolean> {
+    const [deleted] = await Promise.all([
+      this.redis.del(`${COOLDOWN_KEY_PREFIX}${phone}`),
+      this.redis.del(`${STRIKES_KEY_PREFIX}${phone}`),
+      this.redis.zrem(ACTIVE_SET_KEY, phone),
+    ]);
+    return deleted > 0;
+  }
+
+  private async startCooldown(phone: string, conversationKey: string, reason: ThrottleReason): Promise<Cooldown> {
+    const strikesKey = `${STRIKES_KEY_PREFIX}${phone}`;
+    const [[, level]] = (await this.redis
+      .multi()
+      .incr(strikesKey)
+      .expire(strikesKey, STRIKES_TTL_SECONDS)
+      .exec()) as [[Error | null, number], [Error | null, number]];
+
+    const seconds = Math.min(
+      config.throttleBaseCooldownSeconds * Math.pow(2, level - 1),
+      config.throttleMaxCooldownSeconds,
+    );
+    const now = Date.now();
+    const cooldown: Cooldown = {
+      phone,
+      conversationKey,
+      reason,
+      level,
+      startedAt: new Date(now).toISOString(),
+      until: new Date(now + seconds * 1000).toISOString(),
+    };
+
+    await this.redis
+      .multi()
+      .set(`${COOLDOWN_KEY_PREFIX}${phone}`, JSON.stringify(cooldown), 'EX', seconds)
+      .zadd(ACTIVE_SET_KEY, now + seconds * 1000, phone)
+      .exec();
+
+    logger.warn({ phone, conversationKey, reason, level, cooldownSeconds: seconds }, 'Inbound throttle cooldown started');
+    return cooldown;
+  }
+}
@@ -1,6 +1,9 @@
 import { Pool } from 'pg';
 import { User } from '../../shared/types';
 import { InvalidPhoneError } from '../../shared/errors';
+import { DEFAULT_TIMEZONE, timezoneFromPhone } from '../../shared/timezone';
+
+export type TimezoneSource = 'default' | 'phone' | 'command' | 'admin';
 
 export class UserService {
   constructor(private db: Pool) {}
@@ -89,7 +92,8 @@ export class UserService {
     try {
       await client.query('BEGIN');
 
-      // Create user with default settings
+      // Create user with default settings (timezone from the country code)
+      const inferredTimezone = timezoneFromPhone(phone);
       const userResult = await client.query<{
         id: string;
         phone: string;
@@ -97,10 +101,10 @@ export class UserService {
         timezone: string;
         created_at: Date;
       }>(
-        `INSERT INTO users (id, phone, language, timezone, created_at)
-         VALUES (gen_random_uuid(), $1, 'en', 'America/Mexico_City', NOW())
+        `INSERT INTO users (id, phone, language, timezone, timezone_source, created_at)
+         VALUES (gen_random_uuid(), $1, 'en', $2, $3, NOW())
          RETURNING id, phone, language, timezone, created_at`,
-        [phone]
+        [phone, inferredTimezone ?? DEFAULT_TIMEZONE, inferredTimezone ? 'phone' : 'default']
       );
 
       const user = userResult.rows[0]!;
@@ -144,6 +148,18 @@ export class UserService {
     );
   }
 
+  /**
+   * Override the user's timezone (command or admin). Returns false if the
+   * user does not exist. Callers validate the zone (shared/timezone.ts).
+   */
+  async updateTimezone(userId: string, timezone: string, source: TimezoneSource): Promise<boolean> {
+    const result = await this.db.query(
+      'UPDATE users SET timezone = $1, timezone_source = $2 WHERE id = $3',
+      [timezone, source, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async updateName(userId: string, name: string): Promise<void> {
     await this.db.query(
       'UPDATE users SET name = $1 WHERE id = $2',
@@ -151,6 +167,26 @@ export class UserService {
     );
   }
 
+  /**
+   * Invalidate every page link issued so far (tokens with an earlier iat).
+   * Returns false if the user does not exist.
+   */
+  async revokeLinks(userId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'UPDATE users SET links_revoked_at = NOW() WHERE id = $1',
+      [userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getLinksRevokedAt(userId: string): Promise<Date | null> {
+    const result = await this.db.query<{ links_revoked_at: Date | null }>(
+      'SELECT links_revoked_at FROM users WHERE id = $1',
+      [userId]
+    );
+    return result.rows[0]?.links_revoked_at ?? null;
+  }
+
   private isValidPhone(phone: string): boolean {
     // Basic validation: starts with +, has 10-15 digits
     const cleaned = phone.replace(/[^\d+]/g, '');
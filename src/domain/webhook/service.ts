@@ -0,0 +1,191 @@
+/**
+ * Webhook Secret Service
+ *
+ * Manages the shared secrets used to verify inbound webhook signatures:
+ *   - One or more secrets per Chatwoot inbox (inbox_id NULL = any inbox)
+ *   - Rotation: add a new secret, retire the old one with a grace period
+ *   - Rejected-delivery counters (Redis) for the admin dashboard
+ */
+
+import { Pool } from 'pg';
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { config } from '../../config';
+import { logger } from '../../infra/logging/logger';
+import { SigningSecret, SignatureRejectReason } from '../../shared/webhook-signature';
+
+const REJECTIONS_KEY = 'webhook:rejections';
+const REPLAY_KEY_PREFIX = 'webhook:sig:';
+
+export interface WebhookSecret {
+  id: string;
+  inboxId: number | null;
+  label: string | null;
+  secretPreview: string;
+  isActive: boolean;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface RejectionStats {
+  total: number;
+  byReason: Record<string, number>;
+  byInbox: Record<string, number>;
+  lastRejectedAt: string | null;
+}
+
+export class WebhookSecretService {
+  constructor(private db: Pool, private redis: Redis) {}
+
+  /**
+   * Secrets currently valid for an inbox: inbox-specific + global ones,
+   * plus the env fallback (CHATWOOT_WEBHOOK_SECRET) if set.
+   */
+  async getActiveSecrets(inboxId: number | null): Promise<SigningSecret[]> {
+    const result = await this.db.query<{ id: string; secret: string }>(
+      `SELECT id, secret
+       FROM webhook_secrets
+       WHERE is_active = TRUE
+         AND (expires_at IS NULL OR expires_at > NOW())
+         AND (inbox_id IS NULL OR inbox_id = $1)
+       ORDER BY created_at DESC`,
+      [inboxId],
+    );
+
+    const secrets: SigningSecret[] = result.rows.map(r => ({ id: r.id, secret: r.secret }));
+
+    if (config.chatwootWebhookSecret) {
+      secrets.push({ id: 'env', secret: config.chatwootWebhookSecret });
+    }
+
+    return secrets;
+  }
+
+  async list(): Promise<WebhookSecret[]> {
+    const result = await this.db.query<{
+      id: string;
+      inbox_id: number | null;
+      label: string | null;
+      secret: string;
+      is_active: boolean;
+      expires_at: Date | null;
+      last_used_at: Date | null;
+      created_at: Date;
+    }>(
+      `SELECT id, inbox_id, label, secret, is_active, expires_at, last_used_at, created_at
+       FROM webhook_secrets
+       ORDER BY inbox_id NULLS FIRST, created_at DESC`,
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      inboxId: row.inbox_id,
+      label: row.label,
+      secretPreview: `${row.secret.substring(0, 4)}…`,
+      isActive: row.is_active,
+      expiresAt: row.expires_at,
+      lastUsedAt: row.last_used_at,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Create a new secret. The plaintext is returned once so it can be pasted
+   * into the Chatwoot webhook settings.
+   */
+  async create(input: { inboxId?: number | null; label?: string; secret?: string }): Promise<{ id: string; secret: string }> {
+    const secret = input.secret || randomBytes(32).toString('hex');
+
+    const result = await this.db.query<{ id: string }>(
+      `INSERT INTO webhook_secrets (inbox_id, label, secret)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [input.inboxId ?? null, input.label ?? null, secret],
+    );
+
+    const id = result.rows[0]!.id;
+    logger.info({ id, inboxId: input.inboxId ?? null }, 'Webhook secret created');
+    return { id, secret };
+  }
+
+  /**
+   * Retire a secret. With a grace period the secret keeps verifying until
+   * expires_at, so deliveries signed before the switch are not rejected.
+   */
+  async retire(id: string, graceMinutes: number = 0): Promise<boolean> {
+    const result = await this.db.query(
+      graceMinutes > 0
+        ? `UPDATE webhook_secrets
+           SET expires_at = NOW() + INTERVAL '1 minute' * $2
+           WHERE id = $1 AND is_active = TRUE`
+        : `UPDATE webhook_secrets
+           SET is_active = FALSE, expires_at = NOW()
+           WHERE id = $1 AND is_active = TRUE`,
+      graceMinutes > 0 ? [id, graceMinutes] : [id],
+    );
+
+    const retired = (result.rowCount ?? 0) > 0;
+    if (retired) {
+      logger.info({ id, graceMinutes }, 'Webhook secret retired');
+    }
+    return retired;
+  }
+
+  async markUsed(id: string): Promise<void> {
+    if (id === 'env') return;
+    await this.db.query(
+      'UPDATE webhook_secrets SET last_used_at = NOW() WHERE id = $1',
+      [id],
+    );
+  }
+
+  /**
+   * Remember a signature for the length of the replay window.
+   * Returns false if the same signature was already seen (replayed delivery).
+   */
+  async claimSignature(signature: string, ttlSeconds: number): Promise<boolean> {
+    const result = await this.redis.set(`${REPLAY_KEY_PREFIX}${signature}`, '1', 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
+  async recordRejection(reason: SignatureRejectReason, inboxId: number | null): Promise<void> {
+    try {
+      await this.redis
+        .multi()
+        .hincrby(REJECTIONS_KEY, 'total', 1)
+        .hincrby(REJECTIONS_KEY, `reason:${reason}`, 1)
+        .hincrby(REJECTIONS_KEY, `inbox:${inboxId ?? 'unknown'}`, 1)
+        .hset(REJECTIONS_KEY, 'last_rejected_at', new Date().toISOString())
+        .exec();
+    } catch (error) {
+      // Counting must never block the rejection itself
+      logger.error({ error, reason }, 'Failed to record webhook rejection');
+    }
+  }
+
+  async getRejectionStats(): Promise<RejectionStats> {
+    const raw = await this.redis.hgetall(REJECTIONS_KEY);
+
+    const stats: RejectionStats = {
+      total: parseInt(raw.total || '0', 10),
+      byReason: {},
+      byInbox: {},
+      lastRejectedAt: raw.last_rejected_at || null,
+    };
+
+    for (const [field, value] of Object.entries(raw)) {
+      if (field.startsWith('reason:')) {
+        stats.byReason[field.slice('reason:'.length)] = parseInt(value, 10);
+      } else if (field.startsWith('inbox:')) {
+        stats.byInbox[field.slice('inbox:'.length)] = parseInt(value, 10);
+      }
+    }
+
+    return stats;
+  }
+
+  async resetRejectionStats(): Promise<void> {
+    await this.redis.del(REJECTIONS_KEY);
+  }
+}
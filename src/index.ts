@@ -13,11 +13,15 @@ import { testRoutes } from './api/routes/test';
 import { mealRoutes } from './api/routes/meals';
 import { digestRoutes } from './api/routes/digests';
 import { nightlyRoutes } from './api/routes/nightly';
+import { archetypeRoutes } from './api/routes/archetypes';
+import { exportRoutes } from './api/routes/export';
 import { integrationsRoutes } from './api/routes/integrations';
 import { correlationMiddleware } from './api/middleware/correlation';
+import { servePatientPage } from './api/middleware/link-auth';
 import { logger } from './infra/logging/logger';
 import { db } from './infra/db/client';
 import { redis, closeRedis } from './infra/queue/client';
+import { refreshMessageOverrides } from './shared/messages';
 
 const app = Fastify({
   logger: logger,
@@ -86,6 +90,8 @@ async function bootstrap() {
   await app.register(mealRoutes, { prefix: '/api/meals' });
   await app.register(digestRoutes, { prefix: '/api/digests' });
   await app.register(nightlyRoutes, { prefix: '/api/nightly' });
+  await app.register(archetypeRoutes, { prefix: '/api/archetypes' });
+  await app.register(exportRoutes, { prefix: '/api/export' });
   await app.register(integrationsRoutes);
 
   // Serve Plato Inteligente pages
@@ -124,6 +130,9 @@ async function bootstrap() {
     return reply.status(404).send({ error: 'Not found' });
   });
 
+  // Patient pages below (doctor, suggest, history, questions, summary) need a
+  // signed link token — see api/middleware/link-auth.ts
+
   // Serve doctor view page for /doctor/:userId URLs
   app.get('/doctor/:userId', async (request, reply) => {
     const { userId } = request.params as { userId: string };
@@ -131,7 +140,7 @@ async function bootstrap() {
     // Only serve for UUID-like paths
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (uuidRegex.test(userId)) {
-      return reply.sendFile('doctor.html');
+      return servePatientPage(request, reply, userId, 'doctor.html');
     }
     return reply.status(404).send({ error: 'Not found' });
   });
@@ -155,7 +164,7 @@ async function bootstrap() {
     // Only serve for UUID-like paths
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (uuidRegex.test(userId)) {
-      return reply.sendFile('suggest.html');
+      return servePatientPage(request, reply, userId, 'suggest.html');
     }
     return reply.status(404).send({ error: 'Not found' });
   });
@@ -167,7 +176,7 @@ async function bootstrap() {
     // Only serve for UUID-like paths
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (uuidRegex.test(userId)) {
-      return reply.sendFile('history.html');
+      return servePatientPage(request, reply, userId, 'history.html');
     }
     return reply.status(404).send({ error: 'Not found' });
   });
@@ -179,7 +188,7 @@ async function bootstrap() {
     // Only serve for UUID-like paths
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (uuidRegex.test(userId)) {
-      return reply.sendFile('questions.html');
+      return servePatientPage(request, reply, userId, 'questions.html');
     }
     return reply.status(404).send({ error: 'Not found' });
   });
@@ -197,7 +206,7 @@ async function bootstrap() {
     // Only serve for UUID-like paths (avoid conflicts with other routes)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (uuidRegex.test(userId)) {
-      return reply.sendFile('summary.html');
+      return servePatientPage(request, reply, userId, 'summary.html');
     }
     // Not a UUID, return 404
     return reply.status(404).send({ error: 'Not found' });
@@ -225,6 +234,9 @@ async function bootstrap() {
     });
   });
 
+  // Message overrides (config_templates) — t() refreshes them from here on
+  await refreshMessageOverrides();
+
   // Start server
   try {
     await app.listen({ port: config.port, host: '0.0.0.0' });
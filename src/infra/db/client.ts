@@ -111,10 +111,15 @@ export async function queryMany<T extends QueryResultRow = QueryResultRow>(
 // Transaction Support
 // ============================================================================
 
+/**
+ * Run `callback` in one transaction on a client from `pool` (the shared pool
+ * unless a service was given its own). Rolls back and rethrows on error.
+ */
 export async function withTransaction<T>(
-  callback: (client: PoolClient) => Promise<T>
+  callback: (client: PoolClient) => Promise<T>,
+  pool: Pool = db,
 ): Promise<T> {
-  const client = await db.connect();
+  const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
@@ -156,6 +161,34 @@ export async function setIdempotencyKey(
   );
 }
 
+/**
+ * Atomically claim a key. Returns true if this caller now owns it, false if
+ * another live claim already exists (expired claims are taken over).
+ */
+export async function claimIdempotencyKey(
+  key: string,
+  result: unknown,
+  ttlHours: number = 24
+): Promise<boolean> {
+  const row = await queryOne<{ key: string }>(
+    `INSERT INTO idempotency_keys (key, result, expires_at)
+     VALUES ($1, $2, NOW() + INTERVAL '1 hour' * $3)
+     ON CONFLICT (key) DO UPDATE SET
+       result = EXCLUDED.result,
+       created_at = NOW(),
+       expires_at = EXCLUDED.expires_at
+     WHERE idempotency_keys.expires_at <= NOW()
+     RETURNING key`,
+    [key, JSON.stringify(result), ttlHours]
+  );
+
+  return row !== null;
+}
+
+export async function deleteIdempotencyKey(key: string): Promise<void> {
+  await query('DELETE FROM idempotency_keys WHERE key = $1', [key]);
+}
+
 // ============================================================================
 // Common Queries
 // ============================================================================
@@ -183,19 +216,6 @@ export async function getActivePrompt(name: string): Promise<string | null> {
   return result?.content || null;
 }
 
-export async function getConfigTemplate(
-  key: string,
-  language: 'es' | 'en' = 'es'
-): Promise<string | null> {
-  const result = await queryOne<{ content_es: string; content_en: string | null }>(
-    'SELECT content_es, content_en FROM config_templates WHERE key = $1',
-    [key]
-  );
-
-  if (!result) return null;
-  return language === 'en' && result.content_en ? result.content_en : result.content_es;
-}
-
 export async function getCreditCost(action: string): Promise<number> {
   const result = await queryOne<{ credits: number }>(
     'SELECT credits FROM config_costs WHERE action = $1',
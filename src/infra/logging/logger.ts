@@ -142,6 +142,8 @@ interface AIUsageLog {
   inputTokens: number;
   outputTokens: number;
   latencyMs: number;
+  // Message Batches API — billed at half the per-token price
+  batch?: boolean;
 }
 
 export async function logAIUsage(usage: AIUsageLog): Promise<void> {
@@ -166,8 +168,8 @@ export async function logAIUsage(usage: AIUsageLog): Promise<void> {
   const costPerInputToken = pricing!.input / 1_000_000;
   const costPerOutputToken = pricing!.output / 1_000_000;
   const costUsd =
-    (usage.inputTokens * costPerInputToken) +
-    (usage.outputTokens * costPerOutputToken);
+    ((usage.inputTokens * costPerInputToken) +
+    (usage.outputTokens * costPerOutputToken)) * (usage.batch ? 0.5 : 1);
 
   try {
     await db.query(
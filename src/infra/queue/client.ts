@@ -2,7 +2,7 @@ import { Queue, QueueEvents } from 'bullmq';
 import Redis from 'ioredis';
 import { config } from '../../config';
 import { logger } from '../logging/logger';
-import { InboundJobData } from '../../shared/types';
+import { InboundJobData, BurstFlushJobData, InboundQueueJobData, NightlyDigestJobData } from '../../shared/types';
 
 // Redis connection with production settings
 export const redis = new Redis(config.redisUrl, {
@@ -39,8 +39,11 @@ redis.on('close', () => {
 
 const QUEUE_NAME = 'vivebien-inbound';
 const CHECKIN_QUEUE_NAME = 'vivebien-checkin';
+const DATA_EXPORT_QUEUE_NAME = 'plato-data-export';
+const ACCOUNT_DELETION_QUEUE_NAME = 'plato-account-deletion';
+const DIGEST_QUEUE_NAME = 'plato-daily-digest';
 
-export const inboundQueue = new Queue<InboundJobData>(QUEUE_NAME, {
+export const inboundQueue = new Queue<InboundQueueJobData>(QUEUE_NAME, {
   connection: redis,
   defaultJobOptions: {
     attempts: 3,
@@ -83,6 +86,78 @@ export function getCheckinQueue(): Queue {
   return checkinQueue;
 }
 
+// Data export queue ("mis datos" → ZIP over WhatsApp)
+let dataExportQueue: Queue | null = null;
+
+export function getDataExportQueue(): Queue {
+  if (!dataExportQueue) {
+    dataExportQueue = new Queue(DATA_EXPORT_QUEUE_NAME, {
+      connection: redis,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 30000,
+        },
+        removeOnComplete: true,
+        removeOnFail: {
+          count: 1000,
+          age: 86400 * 7,
+        },
+      },
+    });
+  }
+  return dataExportQueue;
+}
+
+// Nightly digest queue (per-user jobs from the nightly scan, or admin re-runs)
+let digestQueue: Queue | null = null;
+
+export function getDigestQueue(): Queue {
+  if (!digestQueue) {
+    digestQueue = new Queue(DIGEST_QUEUE_NAME, {
+      connection: redis,
+      defaultJobOptions: {
+        attempts: 2,
+        backoff: {
+          type: 'exponential',
+          delay: 60000,
+        },
+        removeOnComplete: true,
+        removeOnFail: {
+          count: 1000,
+          age: 86400 * 7,
+        },
+      },
+    });
+  }
+  return digestQueue;
+}
+
+// Account deletion queue (erase after the grace period, or now for admins)
+let accountDeletionQueue: Queue | null = null;
+
+export function getAccountDeletionQueue(): Queue {
+  if (!accountDeletionQueue) {
+    accountDeletionQueue = new Queue(ACCOUNT_DELETION_QUEUE_NAME, {
+      connection: redis,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 60000,
+        },
+        removeOnComplete: true,
+        removeOnFail: {
+          count: 1000,
+          age: 86400 * 30,
+        },
+      },
+    });
+  }
+  return accountDeletionQueue;
+}
+
 // Queue events for monitoring
 export const queueEvents = new QueueEvents(QUEUE_NAME, {
   connection: redis,
@@ -118,6 +193,119 @@ export async function addInboundJob(data: InboundJobData): Promise<string> {
   return job.id!;
 }
 
+/**
+ * Schedule (or push back) the flush of a user's message burst.
+ * Debounce mode: each new message replaces the delayed job and restarts
+ * the window, so the flush runs windowMs after the LAST message.
+ */
+export async function addBurstFlushJob(data: BurstFlushJobData, windowMs: number): Promise<void> {
+  await inboundQueue.add(data.type, data, {
+    delay: windowMs,
+    deduplication: {
+      id: `burst-${data.userId}`,
+      ttl: windowMs,
+      extend: true,
+      replace: true,
+    },
+  });
+
+  logger.debug({ userId: data.userId, windowMs }, 'Burst flush scheduled');
+}
+
+/**
+ * Queue an account erase (account_deletions row) to run now.
+ */
+export async function addAccountDeletionJob(deletionId: string): Promise<void> {
+  await getAccountDeletionQueue().add('erase-account', { deletionId }, { jobId: `account-deletion-${deletionId}` });
+  logger.info({ deletionId }, 'Account deletion job added to queue');
+}
+
+/**
+ * Queue a re-run of one user's nightly digest (digest_run_items row). The
+ * job id carries a timestamp so it doesn't collide with the night's first job.
+ */
+export async function addNightlyDigestJob(data: NightlyDigestJobData): Promise<void> {
+  await getDigestQueue().add('nightly-digest', data, {
+    jobId: `nightly-digest-${data.userId}-${data.runDate}-rerun-${Date.now()}`,
+  });
+  logger.info({ userId: data.userId, runDate: data.runDate }, 'Nightly digest re-run added to queue');
+}
+
+/**
+ * Queue delivery of a data export (data_exports row) to the user.
+ */
+export async function addDataExportJob(exportId: string, conversationId?: number): Promise<void> {
+  await getDataExportQueue().add('deliver-export', { exportId, conversationId }, { jobId: `data-export-${exportId}` });
+  logger.info({ exportId }, 'Data export job added to queue');
+}
+
+/**
+ * Re-enqueue a dead-lettered job. A finished job still held by BullMQ under
+ * the same id (the original failure, or an earlier replay) is removed first,
+ * otherwise add() would be a no-op.
+ */
+export async function requeueInboundJob(data: InboundQueueJobData): Promise<string> {
+  const jobId = data.type === 'inbound_message' ? data.correlationId : undefined;
+
+  if (jobId) {
+    const existing = await inboundQueue.getJob(jobId);
+    const state = existing ? await existing.getState() : null;
+    if (existing && (state === 'failed' || state === 'completed')) {
+      await existing.remove();
+    }
+  }
+
+  const job = await inboundQueue.add(data.type, data, { jobId });
+
+  logger.info({
+    jobId: job.id,
+    correlationId: data.correlationId,
+    type: data.type,
+  }, 'Dead-lettered job re-enqueued');
+
+  return job.id!;
+}
+
+// Queues whose job data can carry a userId or phone — swept on account deletion
+const USER_JOB_QUEUE_NAMES = [
+  QUEUE_NAME,
+  CHECKIN_QUEUE_NAME,
+  DIGEST_QUEUE_NAME,
+  'plato-daily-reminder',
+  'plato-weekly-summary',
+  'plato-onboarding-nudge',
+  'plato-archetype-rescore',
+];
+
+/**
+ * Remove every pending, delayed and finished job for a user (account
+ * deletion). Active jobs can't be removed — they finish, and anything they
+ * write is caught by the deletion's verification. Returns jobs removed.
+ */
+export async function removeUserJobs(userId: string, phone: string): Promise<number> {
+  let removed = 0;
+
+  for (const name of USER_JOB_QUEUE_NAMES) {
+    const queue = name === QUEUE_NAME ? inboundQueue : new Queue(name, { connection: redis });
+    try {
+      const jobs = await queue.getJobs(['waiting', 'delayed', 'paused', 'prioritized', 'completed', 'failed']);
+      for (const job of jobs) {
+        if (!job || (job.data?.userId !== userId && job.data?.phone !== phone)) continue;
+        try {
+          await job.remove();
+          removed++;
+        } catch (error) {
+          logger.warn({ queue: name, jobId: job.id, error: (error as Error).message }, 'Could not remove job for deleted user');
+        }
+      }
+    } finally {
+      if (queue !== inboundQueue) await queue.close();
+    }
+  }
+
+  return removed;
+}
+
 export async function getQueueStats(): Promise<{
   waiting: number;
   active: number;
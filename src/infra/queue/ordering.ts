@@ -0,0 +1,116 @@
+/**
+ * Per-user ordering for the inbound queue
+ *
+ * The inbound worker runs with high concurrency, so two quick messages from
+ * the same phone could otherwise be processed in parallel (e.g. onboarding
+ * answer 3 saved under step 2). Each phone gets a Redis hash:
+ *
+ *   inbound:order:<phone>  { seq: last sequence handed out at ingest,
+ *                            next: sequence allowed to run now,
+ *                            job:<seq>: job id holding that sequence }
+ *
+ * Ingest stamps each job with the next `seq`. The processor only runs a job
+ * when its seq <= next, and advances `next` once the job is finished for good
+ * (success, skip, or final failure). Other users are unaffected, so global
+ * concurrency is unchanged.
+ *
+ * A sequence whose job is gone (queueing failed after the sequence was handed
+ * out, the job was removed, or the worker died before completing the turn)
+ * would hold up everything after it, so waiting jobs skip past it.
+ */
+
+import { redis, inboundQueue } from './client';
+
+const ORDER_KEY_PREFIX = 'inbound:order:';
+// Both fields live in one key so they always expire together
+const ORDER_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const ASSIGN_SCRIPT = `
+local seq = redis.call('HINCRBY', KEYS[1], 'seq', 1)
+redis.call('HSETNX', KEYS[1], 'next', seq)
+redis.call('HSET', KEYS[1], 'job:' .. seq, ARGV[2])
+redis.call('EXPIRE', KEYS[1], ARGV[1])
+return seq`;
+
+const COMPLETE_SCRIPT = `
+local nextSeq = tonumber(redis.call('HGET', KEYS[1], 'next') or '0')
+local done = tonumber(ARGV[1]) + 1
+if done > nextSeq then
+  redis.call('HSET', KEYS[1], 'next', done)
+end
+redis.call('HDEL', KEYS[1], 'job:' .. ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[2])
+return done`;
+
+// Only moves past the given sequence if nothing else advanced it meanwhile
+const SKIP_SCRIPT = `
+local nextSeq = tonumber(redis.call('HGET', KEYS[1], 'next') or '0')
+if nextSeq ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'next', nextSeq + 1)
+redis.call('HDEL', KEYS[1], 'job:' .. ARGV[1])
+return 1`;
+
+function orderKey(phone: string): string {
+  return `${ORDER_KEY_PREFIX}${phone}`;
+}
+
+/**
+ * Hand out the next per-phone sequence number (called at ingest) and remember
+ * which job will carry it.
+ */
+export async function assignInboundSequence(phone: string, jobId: string): Promise<number> {
+  const seq = await redis.eval(ASSIGN_SCRIPT, 1, orderKey(phone), ORDER_TTL_SECONDS, jobId);
+  return Number(seq);
+}
+
+/**
+ * True if the job with this sequence may run now.
+ */
+export async function isInboundTurn(phone: string, sequence: number): Promise<boolean> {
+  const next = await redis.hget(orderKey(phone), 'next');
+  // No state (expired / pre-ordering job) — nothing to wait for
+  if (next === null) return true;
+  return sequence <= Number(next);
+}
+
+/**
+ * Move `next` past every sequence before this one whose job can no longer
+ * complete its turn: never queued, removed, or already finished without
+ * releasing it. Stops at the first predecessor that is still pending.
+ * Returns how many sequences were skipped.
+ */
+export async function skipLostTurns(phone: string, sequence: number): Promise<number> {
+  const key = orderKey(phone);
+  let skipped = 0;
+
+  for (;;) {
+    const next = await redis.hget(key, 'next');
+    if (next === null || sequence <= Number(next)) return skipped;
+
+    const jobId = await redis.hget(key, `job:${next}`);
+    const job = jobId ? await inboundQueue.getJob(jobId) : undefined;
+    const holdsTurn = job?.data.type === 'inbound_message' && job.data.sequence === Number(next);
+    if (job && holdsTurn) {
+      const state = await job.getState();
+      if (state !== 'completed' && state !== 'failed' && state !== 'unknown') return skipped;
+    }
+
+    skipped += Number(await redis.eval(SKIP_SCRIPT, 1, key, next));
+  }
+}
+
+/**
+ * Let the following message for this phone run.
+ */
+export async function completeInboundTurn(phone: string, sequence: number): Promise<void> {
+  await redis.eval(COMPLETE_SCRIPT, 1, orderKey(phone), sequence, ORDER_TTL_SECONDS);
+}
+
+/**
+ * Forget a phone's sequence state (account deletion). Returns keys removed.
+ */
+export async function clearInboundOrder(phone: string): Promise<number> {
+  return redis.del(orderKey(phone));
+}
@@ -0,0 +1,67 @@
+/**
+ * Account data commands
+ * Supports 4 languages: EN, ES, PT, FR
+ *
+ *   export — send the user a copy of everything stored about them
+ *            ("mis datos", "send me my data")
+ *   delete — schedule the erase of their account and data
+ *            ("borrar mis datos", "delete my account")
+ *   cancel_delete — keep the account during the grace period
+ *            ("cancelar borrado", "cancel deletion")
+ *
+ * Only a whole message counts, so "mis datos de ayer: arroz…" is a log entry.
+ */
+
+export type AccountCommand = 'export' | 'delete' | 'cancel_delete';
+
+const EXPORT_WORDS = [
+  // ES
+  'mis datos', 'envíame mis datos', 'enviame mis datos', 'mándame mis datos', 'mandame mis datos',
+  'quiero mis datos', 'exportar mis datos', 'descargar mis datos',
+  // EN
+  'my data', 'send me my data', 'export my data', 'download my data', 'i want my data',
+  // PT
+  'meus dados', 'me envie meus dados', 'me manda meus dados', 'quero meus dados', 'exportar meus dados', 'baixar meus dados',
+  // FR
+  'mes données', 'mes donnees', 'envoyez-moi mes données', 'envoie-moi mes données', 'exporter mes données', 'télécharger mes données',
+].join('|');
+
+const DELETE_WORDS = [
+  // ES
+  'borrar mis datos', 'borra mis datos', 'eliminar mis datos', 'elimina mis datos',
+  'borrar mi cuenta', 'borra mi cuenta', 'eliminar mi cuenta', 'elimina mi cuenta',
+  // EN
+  'delete my data', 'delete my account', 'erase my data', 'remove my data',
+  // PT
+  'apagar meus dados', 'apague meus dados', 'excluir meus dados', 'apagar minha conta', 'excluir minha conta',
+  // FR
+  'supprimer mes données', 'supprimer mes donnees', 'effacer mes données', 'supprimer mon compte',
+].join('|');
+
+const CANCEL_DELETE_WORDS = [
+  'cancelar borrado', 'cancelar el borrado', 'no borrar', 'no borres mis datos',
+  'cancel deletion', 'cancel delete', 'keep my account', "don't delete", 'dont delete',
+  'cancelar exclusão', 'cancelar exclusao', 'não apagar', 'nao apagar',
+  'annuler la suppression', 'annuler suppression', 'ne pas supprimer',
+].join('|');
+
+const commandPattern = (words: string) => new RegExp(`^(?:${words})\\s*[.!?]*$`, 'i');
+
+const PATTERNS: Array<[AccountCommand, RegExp]> = [
+  ['export', commandPattern(EXPORT_WORDS)],
+  ['delete', commandPattern(DELETE_WORDS)],
+  ['cancel_delete', commandPattern(CANCEL_DELETE_WORDS)],
+];
+
+/**
+ * Detects an account data command. Returns null for anything else.
+ */
+export function detectAccountCommand(message: string): AccountCommand | null {
+  const normalized = message.trim().replace(/^\/+/, '').replace(/\s+/g, ' ');
+  if (!normalized || normalized.length > 40) return null;
+
+  for (const [command, pattern] of PATTERNS) {
+    if (pattern.test(normalized)) return command;
+  }
+  return null;
+}
@@ -5,95 +5,20 @@
  * Uses ONE tiny Haiku call (~$0.001) to generate a warm, short ack.
  * Falls back to template acks if the AI call fails.
  * Image-only messages skip AI entirely and use image templates.
+ * Template copy lives in the message catalog (shared/message-catalog.ts).
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../config';
 import { logger } from '../infra/logging/logger';
+import { t } from './messages';
 
 const client = new Anthropic({
   apiKey: config.anthropicApiKey,
 });
 
 // ============================================================================
-// Image Ack Templates (no AI needed — just acknowledge the photo)
-// ============================================================================
-
-const IMAGE_ACKS: Record<string, string[]> = {
-  es: [
-    'Foto recibida 📸 La analizamos en tu resumen de esta noche.',
-    'Imagen guardada 📸 Esta noche la revisamos con detalle.',
-    'Recibida tu foto 📸 La incluimos en el análisis de hoy.',
-  ],
-  en: [
-    'Photo received 📸 We\'ll analyze it in your summary tonight.',
-    'Image saved 📸 We\'ll review it in detail tonight.',
-    'Got your photo 📸 Including it in today\'s analysis.',
-  ],
-  pt: [
-    'Foto recebida 📸 Analisamos no seu resumo de hoje à noite.',
-    'Imagem guardada 📸 Revisamos com detalhe hoje à noite.',
-  ],
-  fr: [
-    'Photo reçue 📸 On l\'analyse dans votre résumé ce soir.',
-    'Image enregistrée 📸 On la revoit en détail ce soir.',
-  ],
-};
-
-// ============================================================================
-// Fallback Templates (used if Haiku call fails)
-// ============================================================================
-
-const FALLBACK_INPUT_ACKS: Record<string, string[]> = {
-  es: [
-    'Recibido ✓',
-    'Listo.',
-    'Anotado.',
-    'Va.',
-    'Ok 👍',
-  ],
-  en: [
-    'Received ✓',
-    'Got it.',
-    'Noted.',
-    'Ok 👍',
-    'Logged.',
-  ],
-  pt: [
-    'Recebido ✓',
-    'Anotado.',
-    'Ok 👍',
-  ],
-  fr: [
-    'Reçu ✓',
-    'Noté.',
-    'Ok 👍',
-  ],
-};
-
-const FALLBACK_QUESTION_ACKS: Record<string, string[]> = {
-  es: [
-    'Buena pregunta 👀',
-    'Interesante, lo revisamos.',
-    'Me la apunto 🤔',
-  ],
-  en: [
-    'Good question 👀',
-    'Interesting one, noted.',
-    "I'll look into that 🤔",
-  ],
-  pt: [
-    'Boa pergunta 👀',
-    'Interessante, anoto aqui.',
-  ],
-  fr: [
-    'Bonne question 👀',
-    'Intéressant, je note.',
-  ],
-};
-
-// ============================================================================
-// Social Message Detection + Templates
+// Social Message Detection
 // Short replies like "yes", "thanks", "ok" — no food log, just a warm reply
 // ============================================================================
 
@@ -112,13 +37,6 @@ const SOCIAL_PATTERNS: Record<string, RegExp[]> = {
   ],
 };
 
-const SOCIAL_ACKS: Record<string, string[]> = {
-  es: ['😊', '👍', '¡Aquí estoy!', 'Cuando quieras.', 'Con gusto.'],
-  en: ['😊', '👍', 'Here for you!', 'Anytime.', 'You got it.'],
-  pt: ['😊', '👍', 'Aqui estou!', 'Quando quiser.', 'Com prazer.'],
-  fr: ['😊', '👍', 'Je suis là!', 'Quand vous voulez.', 'Avec plaisir.'],
-};
-
 export function isSocialMessage(message: string): boolean {
   const trimmed = message.trim();
   // Very short messages (1-2 words, no food/health content)
@@ -138,40 +56,14 @@ function detectMessageLanguage(message: string): string {
 }
 
 export function getSocialAck(language: string): string {
-  const lang = language in SOCIAL_ACKS ? language : 'es';
-  const pool = SOCIAL_ACKS[lang]!;
-  return pool[Math.floor(Math.random() * pool.length)]!;
+  return t('ack.social', language);
 }
 
-// ============================================================================
-// Question Ack Templates (NO Haiku — clear expectation setting)
-// ============================================================================
-
-const QUESTION_ACK_TEMPLATES: Record<string, string[]> = {
-  es: [
-    'Buena pregunta 👀 Te la respondo esta noche en tu resumen con contexto de tu día.',
-    'Me la apunto. Esta noche te doy la respuesta basada en tus datos.',
-    'Anotada la pregunta. La incluyo en tu análisis de esta noche.',
-  ],
-  en: [
-    "Good question 👀 I'll answer it tonight in your summary with the context of your day.",
-    "Noted. Tonight I'll give you the answer based on your own data.",
-    "Question logged. I'll include it in tonight's analysis.",
-  ],
-  pt: [
-    'Boa pergunta 👀 Respondo hoje à noite no seu resumo com contexto do seu dia.',
-    'Anotei. Esta noite te dou a resposta baseada nos seus dados.',
-  ],
-  fr: [
-    'Bonne question 👀 Je vous réponds ce soir dans votre résumé avec le contexte de votre journée.',
-    'Noté. Ce soir je vous donne la réponse basée sur vos données.',
-  ],
-};
-
+/**
+ * Question ack (no Haiku) — sets the expectation that the answer comes tonight.
+ */
 export function getQuestionAck(language: string): string {
-  const lang = language in QUESTION_ACK_TEMPLATES ? language : 'es';
-  const pool = QUESTION_ACK_TEMPLATES[lang]!;
-  return pool[Math.floor(Math.random() * pool.length)]!;
+  return t('ack.question', language);
 }
 
 // ============================================================================
@@ -219,9 +111,7 @@ function isImageOnlyMessage(message: string): boolean {
  * Get a random image ack template.
  */
 function getImageAck(language: string): string {
-  const lang = language in IMAGE_ACKS ? language : 'es';
-  const pool = IMAGE_ACKS[lang] || IMAGE_ACKS.es!;
-  return pool[Math.floor(Math.random() * pool.length)]!;
+  return t('ack.image', language);
 }
 
 /**
@@ -313,12 +203,7 @@ Vary which one you use. Reply ONLY with the ack. No quotes.`;
  * Pick a random fallback ack (no AI needed).
  */
 export function getFallbackAck(language: string, isQuestionMsg: boolean): string {
-  const lang = language in FALLBACK_INPUT_ACKS ? language : 'es';
-  const pool = isQuestionMsg
-    ? (FALLBACK_QUESTION_ACKS[lang] || FALLBACK_QUESTION_ACKS.es!)
-    : (FALLBACK_INPUT_ACKS[lang] || FALLBACK_INPUT_ACKS.es!);
-
-  return pool[Math.floor(Math.random() * pool.length)]!;
+  return t(isQuestionMsg ? 'ack.question_short' : 'ack.input', language);
 }
 
 // Keep old function name for backward compatibility
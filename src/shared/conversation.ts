@@ -0,0 +1,41 @@
+/**
+ * Channel-neutral conversation identity
+ *
+ * Chatwoot threads have an integer id; the WhatsApp Cloud API and SMS only
+ * have the user's phone. A conversation key covers all three:
+ *
+ *   chatwoot:<conversation id>
+ *   whatsapp:<+phone>
+ *   sms:<+phone>
+ *
+ * It is what throttling, logs and conversation_state.conversation_key use;
+ * conversationId stays around only for Chatwoot API calls.
+ */
+
+import { ChannelName } from './types';
+
+export interface ConversationRef {
+  channel: ChannelName;
+  phone?: string;
+  conversationId?: number;
+}
+
+export function buildConversationKey(ref: ConversationRef): string {
+  if (ref.channel === 'chatwoot' && ref.conversationId) {
+    return `chatwoot:${ref.conversationId}`;
+  }
+  // Chatwoot without a conversation yet falls back to the phone like the others
+  return `${ref.channel}:${ref.phone ?? 'unknown'}`;
+}
+
+export function parseConversationKey(key: string): ConversationRef | null {
+  const match = /^(chatwoot|whatsapp|sms):(.+)$/.exec(key);
+  if (!match) return null;
+
+  const channel = match[1] as ChannelName;
+  const id = match[2]!;
+
+  return channel === 'chatwoot' && /^\d+$/.test(id)
+    ? { channel, conversationId: parseInt(id, 10) }
+    : { channel, phone: id };
+}
@@ -0,0 +1,56 @@
+/**
+ * Inbound dedupe keys for Chatwoot deliveries
+ *
+ * Chatwoot deliveries carry the message id, so retries map to the same key.
+ * n8n relays may drop it — fall back to a hash of conversation + phone +
+ * content + attachment URLs + send time. Without a send time the hash uses
+ * a 2-minute bucket, and a retry landing in the next bucket is caught by
+ * also checking the key it would have had in the previous one.
+ */
+
+import { createHash } from 'crypto';
+
+// Window used to bucket content-hash keys when the payload has no created_at
+export const HASH_BUCKET_MS = 2 * 60 * 1000;
+
+export interface DedupePayload {
+  id?: number;
+  created_at?: string | number;
+  content?: string;
+  attachments?: Array<{ data_url?: string }>;
+}
+
+export function buildDedupeKey(
+  payload: DedupePayload,
+  conversationId: number,
+  phone: string,
+  now: number = Date.now(),
+): string {
+  if (payload.id) {
+    return `chatwoot:msg:${payload.id}`;
+  }
+
+  const sentAt = payload.created_at ?? Math.floor(now / HASH_BUCKET_MS);
+  const attachmentUrls = (payload.attachments || []).map(a => a.data_url || '').join(',');
+  const hash = createHash('sha256')
+    .update([conversationId, phone, payload.content || '', attachmentUrls, sentAt].join('|'))
+    .digest('hex');
+
+  return `chatwoot:hash:${hash}`;
+}
+
+/**
+ * The key the same delivery got one bucket earlier, or null when the key
+ * doesn't depend on the arrival time (message id or created_at present).
+ */
+export function previousBucketDedupeKey(
+  payload: DedupePayload,
+  conversationId: number,
+  phone: string,
+  now: number = Date.now(),
+): string | null {
+  if (payload.id || (payload.created_at !== undefined && payload.created_at !== null)) {
+    return null;
+  }
+  return buildDedupeKey(payload, conversationId, phone, now - HASH_BUCKET_MS);
+}
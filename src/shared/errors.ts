@@ -116,12 +116,35 @@ export class AIServiceError extends ExternalServiceError {
   }
 }
 
+export class InvalidAIOutputError extends AIServiceError {
+  public readonly issues: string[];
+  public readonly rawOutput: string | null;
+
+  constructor(message: string, issues: string[], rawOutput: string | null = null) {
+    super(`${message}: ${issues.join('; ')}`);
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+  }
+}
+
 export class ChatwootError extends ExternalServiceError {
   constructor(message: string, originalError?: Error) {
     super('Chatwoot', message, originalError);
   }
 }
 
+export class WhatsAppError extends ExternalServiceError {
+  constructor(message: string, originalError?: Error) {
+    super('WhatsApp', message, originalError);
+  }
+}
+
+export class TwilioError extends ExternalServiceError {
+  constructor(message: string, originalError?: Error) {
+    super('Twilio', message, originalError);
+  }
+}
+
 export class WhisperError extends ExternalServiceError {
   constructor(message: string, originalError?: Error) {
     super('Whisper', message, originalError);
@@ -0,0 +1,56 @@
+/**
+ * Language commands
+ * Supports 4 languages: EN, ES, PT, FR
+ *
+ *   set  — "idioma inglés", "english please", "em português", "/lang fr"
+ *          → reply in that language from now on (locked)
+ *   auto — "idioma automático", "language auto"
+ *          → go back to detecting the language from messages
+ *
+ * Only a whole, short message counts.
+ */
+
+import { Language } from './types';
+
+export type LanguageCommand =
+  | { type: 'set'; language: Language }
+  | { type: 'auto' };
+
+const LANGUAGE_NAMES: Record<Language, string[]> = {
+  es: ['español', 'espanol', 'spanish', 'castellano', 'espagnol', 'espanhol'],
+  en: ['english', 'inglés', 'ingles', 'inglês', 'anglais'],
+  pt: ['português', 'portugues', 'portuguese', 'portugués', 'portugais'],
+  fr: ['français', 'francais', 'french', 'francés', 'frances', 'francês'],
+};
+
+const PREFIX = '(?:idioma|language|lang|língua|lingua|langue)\\s*:?\\s*';
+const IN_WORDS = '(?:en|in|em)\\s+';
+const POLITE = '(?:\\s+(?:please|por favor|porfa|s\'il vous plaît|s\'il vous plait|svp))?';
+const AUTO_PATTERN = new RegExp(`^${PREFIX}(?:auto|automático|automatico|automatic|automatique)\\s*[.!]*$`, 'i');
+
+function namePattern(language: Language): RegExp {
+  const names = [...LANGUAGE_NAMES[language], language].join('|');
+  const bareNames = LANGUAGE_NAMES[language].join('|');
+  // "idioma inglés" / "lang en" / "in english please" / "english please" / "english"
+  return new RegExp(
+    `^(?:${PREFIX}(?:${names})|${IN_WORDS}(?:${bareNames})|(?:${bareNames}))${POLITE}\\s*[.!]*$`,
+    'i',
+  );
+}
+
+const PATTERNS = (Object.keys(LANGUAGE_NAMES) as Language[]).map(language => [language, namePattern(language)] as const);
+
+/**
+ * Detects a language command. Returns null for anything else.
+ */
+export function detectLanguageCommand(message: string): LanguageCommand | null {
+  const normalized = message.trim().replace(/^\/+/, '').replace(/\s+/g, ' ');
+  if (!normalized || normalized.length > 40) return null;
+
+  if (AUTO_PATTERN.test(normalized)) return { type: 'auto' };
+
+  for (const [language, pattern] of PATTERNS) {
+    if (pattern.test(normalized)) return { type: 'set', language };
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+/**
+ * Signed, expiring tokens for patient-facing page links
+ *
+ * Format: <base64url(JSON payload)>.<base64url(HMAC-SHA256 of payload part)>
+ *
+ * Payload: { u: userId, s: scope, iat, exp } (unix seconds)
+ *
+ * Scopes:
+ *   view — read the summary, doctor, history and questions pages
+ *   edit — also edit / delete concerns and the summary
+ *
+ * Tokens are stateless; "revoke all links" for a user works by rejecting
+ * tokens issued before users.links_revoked_at (checked by the caller).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+
+export type LinkScope = 'view' | 'edit';
+
+export interface LinkTokenPayload {
+  userId: string;
+  scope: LinkScope;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export type LinkTokenRejectReason = 'malformed' | 'bad_signature' | 'expired';
+
+function signingSecret(): string {
+  return config.magicLinkSecret ?? config.apiSecretKey;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', signingSecret()).update(data).digest('base64url');
+}
+
+export function signLinkToken(
+  userId: string,
+  scope: LinkScope,
+  ttlSeconds: number = config.magicLinkTtlHours * 3600,
+  now: number = Date.now(),
+): string {
+  const iat = Math.floor(now / 1000);
+  const payload = Buffer.from(JSON.stringify({ u: userId, s: scope, iat, exp: iat + ttlSeconds }))
+    .toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyLinkToken(
+  token: string,
+  now: number = Date.now(),
+): { valid: true; payload: LinkTokenPayload } | { valid: false; reason: LinkTokenRejectReason } {
+  const [payloadPart, signaturePart, extra] = token.split('.');
+  if (!payloadPart || !signaturePart || extra !== undefined) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const expected = Buffer.from(sign(payloadPart));
+  const provided = Buffer.from(signaturePart);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, reason: 'bad_signature' };
+  }
+
+  let raw: { u?: unknown; s?: unknown; iat?: unknown; exp?: unknown };
+  try {
+    raw = JSON.parse(Buffer.from(payloadPart, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (
+    typeof raw.u !== 'string' ||
+    (raw.s !== 'view' && raw.s !== 'edit') ||
+    typeof raw.iat !== 'number' ||
+    typeof raw.exp !== 'number'
+  ) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (raw.exp * 1000 <= now) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return {
+    valid: true,
+    payload: { userId: raw.u, scope: raw.s, issuedAt: raw.iat, expiresAt: raw.exp },
+  };
+}
+
+/**
+ * Page URL with a freshly minted token, e.g. buildPageLink(id, 'edit')
+ * → https://carelog.vivebien.io/<id>?t=...
+ */
+export function buildPageLink(userId: string, scope: LinkScope, page: string = ''): string {
+  const path = page ? `${page}/${userId}` : userId;
+  return `${config.publicBaseUrl}/${path}?t=${signLinkToken(userId, scope)}`;
+}
@@ -0,0 +1,772 @@
+/**
+ * Plato Inteligente — Message Catalog
+ *
+ * Every user-facing string, keyed and localized (es / en / pt / fr).
+ * Read it through `t()` in shared/messages.ts, never directly.
+ *
+ * A message in one language is one of:
+ *   - a string            — `{param}` placeholders are interpolated
+ *   - a string[]          — variants, one is picked at random
+ *   - plural forms        — picked by `params.count` (Intl.PluralRules)
+ *
+ * Any key can be overridden per language from the admin API
+ * (config_templates, same key). Keys that existed before the catalog
+ * (no_credits, error, ...) keep their names so existing rows still apply.
+ */
+
+export const CATALOG_LANGUAGES = ['es', 'en', 'pt', 'fr'] as const;
+export type CatalogLanguage = typeof CATALOG_LANGUAGES[number];
+
+export interface PluralForms {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type MessageForm = string | string[] | PluralForms;
+
+export interface MessageDefinition {
+  description: string;
+  text: Partial<Record<CatalogLanguage, MessageForm>>;
+}
+
+export const MESSAGES = {
+  // ==========================================================================
+  // Acknowledgments (shared/ack-messages.ts)
+  // ==========================================================================
+
+  'ack.image': {
+    description: 'Reply to an image-only message',
+    text: {
+      es: [
+        'Foto recibida 📸 La analizamos en tu resumen de esta noche.',
+        'Imagen guardada 📸 Esta noche la revisamos con detalle.',
+        'Recibida tu foto 📸 La incluimos en el análisis de hoy.',
+      ],
+      en: [
+        'Photo received 📸 We\'ll analyze it in your summary tonight.',
+        'Image saved 📸 We\'ll review it in detail tonight.',
+        'Got your photo 📸 Including it in today\'s analysis.',
+      ],
+      pt: [
+        'Foto recebida 📸 Analisamos no seu resumo de hoje à noite.',
+        'Imagem guardada 📸 Revisamos com detalhe hoje à noite.',
+      ],
+      fr: [
+        'Photo reçue 📸 On l\'analyse dans votre résumé ce soir.',
+        'Image enregistrée 📸 On la revoit en détail ce soir.',
+      ],
+    },
+  },
+
+  'ack.input': {
+    description: 'Fallback ack for a food/health log when the AI ack fails',
+    text: {
+      es: ['Recibido ✓', 'Listo.', 'Anotado.', 'Va.', 'Ok 👍'],
+      en: ['Received ✓', 'Got it.', 'Noted.', 'Ok 👍', 'Logged.'],
+      pt: ['Recebido ✓', 'Anotado.', 'Ok 👍'],
+      fr: ['Reçu ✓', 'Noté.', 'Ok 👍'],
+    },
+  },
+
+  'ack.question_short': {
+    description: 'Fallback ack for a question when the AI ack fails',
+    text: {
+      es: ['Buena pregunta 👀', 'Interesante, lo revisamos.', 'Me la apunto 🤔'],
+      en: ['Good question 👀', 'Interesting one, noted.', "I'll look into that 🤔"],
+      pt: ['Boa pergunta 👀', 'Interessante, anoto aqui.'],
+      fr: ['Bonne question 👀', 'Intéressant, je note.'],
+    },
+  },
+
+  'ack.question': {
+    description: 'Reply to a question — the answer comes in tonight\'s summary',
+    text: {
+      es: [
+        'Buena pregunta 👀 Te la respondo esta noche en tu resumen con contexto de tu día.',
+        'Me la apunto. Esta noche te doy la respuesta basada en tus datos.',
+        'Anotada la pregunta. La incluyo en tu análisis de esta noche.',
+      ],
+      en: [
+        "Good question 👀 I'll answer it tonight in your summary with the context of your day.",
+        "Noted. Tonight I'll give you the answer based on your own data.",
+        "Question logged. I'll include it in tonight's analysis.",
+      ],
+      pt: [
+        'Boa pergunta 👀 Respondo hoje à noite no seu resumo com contexto do seu dia.',
+        'Anotei. Esta noite te dou a resposta baseada nos seus dados.',
+      ],
+      fr: [
+        'Bonne question 👀 Je vous réponds ce soir dans votre résumé avec le contexte de votre journée.',
+        'Noté. Ce soir je vous donne la réponse basée sur vos données.',
+      ],
+    },
+  },
+
+  'ack.social': {
+    description: 'Reply to "thanks", "ok", "yes" and similar',
+    text: {
+      es: ['😊', '👍', '¡Aquí estoy!', 'Cuando quieras.', 'Con gusto.'],
+      en: ['😊', '👍', 'Here for you!', 'Anytime.', 'You got it.'],
+      pt: ['😊', '👍', 'Aqui estou!', 'Quando quiser.', 'Com prazer.'],
+      fr: ['😊', '👍', 'Je suis là!', 'Quand vous voulez.', 'Avec plaisir.'],
+    },
+  },
+
+  // ==========================================================================
+  // Inbound handling (worker/handlers/inbound.ts)
+  // ==========================================================================
+
+  'inbound.temporary_error': {
+    description: 'Sent when processing a message fails unexpectedly',
+    text: {
+      es: 'Lo siento, tuve un problema temporal. ¿Podrías intentar enviarlo de nuevo?',
+      en: 'Sorry, I had a temporary issue. Could you try sending it again?',
+      pt: 'Desculpe, tive um problema temporário. Poderia tentar novamente?',
+      fr: "Désolé, j'ai eu un problème temporaire. Pourriez-vous réessayer?",
+    },
+  },
+
+  'crisis.resources': {
+    description: 'Sent instead of an ack when a crisis keyword is detected',
+    text: {
+      es: 'Tu mensaje es importante para nosotros. Si estás en crisis, por favor llama a la Línea Nacional 800-290-0024 o Línea de la Vida 800-911-2000. Estamos aquí contigo.',
+      en: 'Your message matters to us. If you\'re in crisis, please call 988 (Suicide & Crisis Lifeline). We\'re here with you.',
+      pt: 'Sua mensagem é importante para nós. Se estiver em crise, ligue para o CVV 188. Estamos aqui com você.',
+      fr: 'Votre message est important pour nous. Si vous êtes en crise, appelez le 3114. Nous sommes avec vous.',
+    },
+  },
+
+  'throttle.slow_down': {
+    description: 'Sent once when a phone or conversation is throttled',
+    text: {
+      es: 'Recibí muchos mensajes seguidos 🙏 Dame unos minutos y vuelve a escribirme. Lo que mandes después quedará guardado.',
+      en: 'I got a lot of messages in a row 🙏 Give me a few minutes and write again. Anything you send after that will be saved.',
+      pt: 'Recebi muitas mensagens seguidas 🙏 Me dê alguns minutos e escreva de novo. O que você mandar depois ficará salvo.',
+      fr: "J'ai reçu beaucoup de messages d'un coup 🙏 Laissez-moi quelques minutes et réécrivez-moi. Ce que vous enverrez ensuite sera bien enregistré.",
+    },
+  },
+
+  // ==========================================================================
+  // Conversation templates (domain/conversation)
+  // ==========================================================================
+
+  no_credits: {
+    description: 'Sent when the user has no credits left',
+    text: {
+      es: 'Plato Inteligente necesita créditos adicionales para continuar. Visita la web para más información.',
+      en: 'Plato Inteligente needs additional credits to continue. Visit the website for more info.',
+      pt: 'Plato Inteligente precisa de créditos adicionais para continuar. Visite o site para mais informações.',
+      fr: 'Plato Inteligente a besoin de crédits supplémentaires pour continuer. Visitez le site pour plus d\'infos.',
+    },
+  },
+
+  error: {
+    description: 'Generic error message',
+    text: {
+      es: 'Algo salió mal. Intenta de nuevo.',
+      en: 'Something went wrong. Please try again.',
+      pt: 'Algo deu errado. Por favor, tente novamente.',
+      fr: 'Une erreur s\'est produite. Veuillez réessayer.',
+    },
+  },
+
+  maintenance: {
+    description: 'Maintenance mode message',
+    text: {
+      es: 'Plato Inteligente no está disponible en este momento. Vuelve pronto.',
+      en: 'Plato Inteligente is temporarily unavailable. Please try again soon.',
+      pt: 'Plato Inteligente está temporariamente indisponível. Tente novamente em breve.',
+      fr: 'Plato Inteligente est temporairement indisponible. Réessayez bientôt.',
+    },
+  },
+
+  onboarding_greeting: {
+    description: 'First contact — warm, food-first',
+    text: {
+      es: 'Hola 👋\nSoy tu guía de nutrición de Plato Inteligente.\nTe ayudo a comer mejor con lo que ya tienes en tu cocina. Una doctora de verdad entrena la inteligencia artificial que te ayuda.\nMándame una foto de lo que vas a comer, o dime qué tienes en la nevera.',
+      en: 'Hello 👋\nI\'m your nutrition guide from Plato Inteligente.\nI help you eat better with what you already have in your kitchen. A real doctor trains the AI that helps you.\nSend me a photo of what you\'re about to eat, or tell me what you have in your fridge.',
+      pt: 'Olá 👋\nSou seu guia de nutrição do Plato Inteligente.\nTe ajudo a comer melhor com o que você já tem na cozinha. Uma médica de verdade treina a inteligência artificial que te ajuda.\nMe manda uma foto do que vai comer, ou me diz o que tem na geladeira.',
+      fr: 'Bonjour 👋\nJe suis votre guide nutrition de Plato Inteligente.\nJe vous aide à mieux manger avec ce que vous avez déjà dans votre cuisine. Un vrai médecin entraîne l\'IA qui vous aide.\nEnvoyez-moi une photo de ce que vous allez manger, ou dites-moi ce que vous avez dans votre frigo.',
+    },
+  },
+
+  return_prompt: {
+    description: 'Re-engagement when a user comes back',
+    text: {
+      es: '¡Qué bueno verte! ¿Qué vas a comer hoy?',
+      en: 'Great to see you! What are you eating today?',
+      pt: 'Que bom te ver! O que vai comer hoje?',
+      fr: 'Content de vous revoir! Qu\'allez-vous manger aujourd\'hui?',
+    },
+  },
+
+  ask_name: {
+    description: 'Light, optional name request',
+    text: {
+      es: '¿Cómo te gustaría que te llame? Totalmente opcional.',
+      en: 'What name would you like me to use? Totally optional.',
+      pt: 'Como gostaria que eu te chamasse? Totalmente opcional.',
+      fr: 'Quel nom aimeriez-vous que j\'utilise? Totalement optionnel.',
+    },
+  },
+
+  urgent_care: {
+    description: 'Urgent symptoms — calm, not alarming',
+    text: {
+      es: 'Lo que describes necesita atención médica ahora. Por favor contacta emergencias o ve a urgencias.',
+      en: 'What you\'re describing needs medical attention right away. Please contact emergency services or go to urgent care now.',
+      pt: 'O que você descreve precisa de atenção médica agora. Por favor, entre em contato com emergências ou vá ao pronto-socorro.',
+      fr: 'Ce que vous décrivez nécessite une attention médicale immédiate. Veuillez contacter les urgences maintenant.',
+    },
+  },
+
+  logged: {
+    description: 'Minimal log confirmation',
+    text: {
+      es: 'Registrado.',
+      en: 'Logged.',
+      pt: 'Registrado.',
+      fr: 'Enregistré.',
+    },
+  },
+
+  // ==========================================================================
+  // Health notes (domain/ai)
+  // ==========================================================================
+
+  'note.header': {
+    description: 'Header above a health note — {title} is the concern title',
+    text: {
+      es: '📋 *Tu Nota de Salud — {title}*',
+      en: '📋 *Your Health Note — {title}*',
+      pt: '📋 *Sua Nota de Saúde — {title}*',
+      fr: '📋 *Votre Note de Santé — {title}*',
+    },
+  },
+
+  'note.containment': {
+    description: 'Appended after every health note',
+    text: {
+      es: 'No necesitas recordar todo esto — está guardado y organizado. Si algo cambia, solo escríbeme.',
+      en: "You don't need to remember all this — it's saved and organized. If anything changes, just tell me.",
+      pt: 'Você não precisa lembrar de tudo isso — está salvo e organizado. Se algo mudar, é só me escrever.',
+      fr: "Vous n'avez pas besoin de tout retenir — c'est sauvegardé et organisé. Si quelque chose change, dites-le moi.",
+    },
+  },
+
+  'note.link': {
+    description: 'Link to the editable note — {link} is the signed URL',
+    text: {
+      es: '📋 *Tu nota está aquí* 👇\n{link}',
+      en: '📋 *Your note is here* 👇\n{link}',
+      pt: '📋 *Sua nota está aqui* 👇\n{link}',
+      fr: '📋 *Votre note est ici* 👇\n{link}',
+    },
+  },
+
+  'note.ask_name': {
+    description: 'Sent after the first health note to ask for a name',
+    text: {
+      es: 'Por cierto, ¿cómo te gustaría que te llame? Así personalizo tu Nota de Salud. Totalmente opcional.',
+      en: "By the way, what's your name? I'll personalize your Health Note. Totally optional.",
+      pt: 'A propósito, como gostaria que eu te chamasse? Assim personalizo sua Nota de Saúde. Totalmente opcional.',
+      fr: "Au fait, quel nom aimeriez-vous que j'utilise? Je personnaliserai votre Note de Santé. Totalement optionnel.",
+    },
+  },
+
+  // ==========================================================================
+  // Check-ins (domain/checkin)
+  // ==========================================================================
+
+  'checkin.reminder.named': {
+    description: 'Check-in reminder — {name}, {topic} is the case label',
+    text: {
+      es: 'Hola {name} 👋\n\nTu nota sobre {topic} sigue aquí, organizada y lista.\n\nSi algo ha cambiado — aunque sea algo pequeño — puedes contarme y lo agrego.',
+      en: "Hi {name} 👋\n\nYour note about {topic} is still here, organized and ready.\n\nIf anything has changed — even something small — you can tell me and I'll add it.",
+      pt: 'Oi {name} 👋\n\nSua nota sobre {topic} continua aqui, organizada e pronta.\n\nSe algo mudou — mesmo algo pequeno — pode me contar que eu adiciono.',
+      fr: "Bonjour {name} 👋\n\nVotre note sur {topic} est toujours là, organisée et prête.\n\nSi quelque chose a changé — même quelque chose de petit — vous pouvez me le dire et je l'ajouterai.",
+    },
+  },
+
+  'checkin.reminder.unnamed': {
+    description: 'Check-in reminder when we don\'t know the name — {topic} is the case label',
+    text: {
+      es: 'Hola 👋\n\nTu nota sobre {topic} sigue aquí, organizada y lista.\n\nSi algo ha cambiado — aunque sea algo pequeño — puedes contarme y lo agrego.',
+      en: "Hi 👋\n\nYour note about {topic} is still here, organized and ready.\n\nIf anything has changed — even something small — you can tell me and I'll add it.",
+      pt: 'Oi 👋\n\nSua nota sobre {topic} continua aqui, organizada e pronta.\n\nSe algo mudou — mesmo algo pequeno — pode me contar que eu adiciono.',
+      fr: "Bonjour 👋\n\nVotre note sur {topic} est toujours là, organisée et prête.\n\nSi quelque chose a changé — même quelque chose de petit — vous pouvez me le dire et je l'ajouterai.",
+    },
+  },
+
+  'checkin.default_topic': {
+    description: 'Topic used in check-in reminders when there is no case label',
+    text: {
+      es: 'tu salud',
+      en: 'your health',
+      pt: 'sua saúde',
+      fr: 'votre santé',
+    },
+  },
+
+  'checkin.case_label': {
+    description: 'Case label built from the body area in a note — {area}',
+    text: {
+      es: 'tu {area}',
+      en: 'your {area}',
+      pt: 'seu {area}',
+      fr: 'votre {area}',
+    },
+  },
+
+  'checkin.ack.same': {
+    description: 'Reply when a check-in answer says nothing changed',
+    text: {
+      es: 'Anotado — tu nota ahora refleja que sigue igual. No necesitas recordar esto, está guardado.\n\nSi algo cambia después, solo escríbeme.',
+      en: "Noted — your note now reflects that it's about the same. You don't need to remember this, it's saved.\n\nIf anything changes later, just tell me.",
+      pt: 'Anotado — sua nota agora reflete que continua igual. Você não precisa lembrar disso, está salvo.\n\nSe algo mudar depois, é só me escrever.',
+      fr: "Noté — votre note reflète maintenant que c'est à peu près pareil. Vous n'avez pas besoin de retenir cela, c'est sauvegardé.\n\nSi ça change plus tard, dites-le moi.",
+    },
+  },
+
+  'checkin.ack.better': {
+    description: 'Reply when a check-in answer reports improvement',
+    text: {
+      es: 'Qué bueno — he actualizado tu nota con la mejoría. Está todo organizado.\n\nSi algo más cambia, aquí estoy.',
+      en: "Good to hear — I've updated your note with the improvement. Everything's organized.\n\nIf anything else changes, I'm here.",
+      pt: 'Que bom — atualizei sua nota com a melhora. Está tudo organizado.\n\nSe algo mais mudar, estou aqui.',
+      fr: "Bonne nouvelle — j'ai mis à jour votre note avec l'amélioration. Tout est organisé.\n\nSi autre chose change, je suis là.",
+    },
+  },
+
+  'checkin.ack.worse': {
+    description: 'Reply when a check-in answer reports worsening',
+    text: {
+      es: 'Gracias por contarme. He añadido esto a tu nota.\n\nSi quieres, cuéntame un poco más sobre qué cambió y lo organizo claramente para tu médico.',
+      en: "Thank you for sharing that. I've added it to your note.\n\nIf you'd like, tell me a bit more about what changed and I'll organize it clearly for your doctor.",
+      pt: 'Obrigado por compartilhar. Adicionei isso à sua nota.\n\nSe quiser, me conte um pouco mais sobre o que mudou e eu organizo claramente para seu médico.',
+      fr: "Merci de me le dire. J'ai ajouté cela à votre note.\n\nSi vous voulez, dites-moi ce qui a changé et je l'organiserai clairement pour votre médecin.",
+    },
+  },
+
+  'checkin.ack.default': {
+    description: 'Reply to any other check-in answer',
+    text: {
+      es: 'Anotado — he actualizado tu nota. No necesitas recordar esto, está guardado.\n\nSi algo más cambia, solo escríbeme.',
+      en: "Noted — I've updated your note. You don't need to remember this, it's saved.\n\nIf anything else changes, just tell me.",
+      pt: 'Anotado — atualizei sua nota. Você não precisa lembrar disso, está salvo.\n\nSe algo mais mudar, é só me escrever.',
+      fr: "Noté — j'ai mis à jour votre note. Vous n'avez pas besoin de retenir cela, c'est sauvegardé.\n\nSi autre chose change, dites-le moi.",
+    },
+  },
+
+  'checkin.note.same': {
+    description: 'Note entry for a "same" check-in answer — {response} is the user\'s reply',
+    text: {
+      es: 'Seguimiento: Sin cambios significativos - "{response}"',
+      en: 'Follow-up: No significant changes - "{response}"',
+      pt: 'Acompanhamento: Sem mudanças significativas - "{response}"',
+      fr: 'Suivi: Pas de changements significatifs - "{response}"',
+    },
+  },
+
+  'checkin.note.better': {
+    description: 'Note entry for a "better" check-in answer',
+    text: {
+      es: 'Seguimiento: Mejoría reportada - "{response}"',
+      en: 'Follow-up: Improvement reported - "{response}"',
+      pt: 'Acompanhamento: Melhora reportada - "{response}"',
+      fr: 'Suivi: Amélioration signalée - "{response}"',
+    },
+  },
+
+  'checkin.note.worse': {
+    description: 'Note entry for a "worse" check-in answer',
+    text: {
+      es: 'Seguimiento: Empeoramiento reportado - "{response}"',
+      en: 'Follow-up: Worsening reported - "{response}"',
+      pt: 'Acompanhamento: Piora reportada - "{response}"',
+      fr: 'Suivi: Aggravation signalée - "{response}"',
+    },
+  },
+
+  'checkin.note.default': {
+    description: 'Note entry for any other check-in answer',
+    text: {
+      es: 'Seguimiento: "{response}"',
+      en: 'Follow-up: "{response}"',
+      pt: 'Acompanhamento: "{response}"',
+      fr: 'Suivi: "{response}"',
+    },
+  },
+
+  // ==========================================================================
+  // Scheduled messages (worker, digests)
+  // ==========================================================================
+
+  'digest.heads_up': {
+    description: 'Sent shortly before the nightly summary — {count} minutes',
+    text: {
+      es: {
+        one: 'Estamos terminando tu resumen nocturno. En un minuto lo tendrás listo.\nSi algo no refleja exactamente tu día o cómo te sentiste, escríbenos aquí mismo. Lo afinamos para que cada noche sea más clara que la anterior.',
+        other: 'Estamos terminando tu resumen nocturno. En unos {count} minutos lo tendrás listo.\nSi algo no refleja exactamente tu día o cómo te sentiste, escríbenos aquí mismo. Lo afinamos para que cada noche sea más clara que la anterior.',
+      },
+      en: {
+        one: "Your nightly summary is almost ready. You'll have it in about a minute.\nIf anything doesn't quite match your day, just write us here. We'll fine-tune it so each night gets clearer.",
+        other: "Your nightly summary is almost ready. You'll have it in about {count} minutes.\nIf anything doesn't quite match your day, just write us here. We'll fine-tune it so each night gets clearer.",
+      },
+      pt: {
+        one: 'Seu resumo noturno está quase pronto. Em um minuto estará listo.\nSe algo não refletir exatamente seu dia, escreva aqui. Ajustamos para que cada noite seja mais clara.',
+        other: 'Seu resumo noturno está quase pronto. Em uns {count} minutos estará listo.\nSe algo não refletir exatamente seu dia, escreva aqui. Ajustamos para que cada noite seja mais clara.',
+      },
+      fr: {
+        one: "Votre résumé nocturne est presque prêt. Dans environ une minute il sera là.\nSi quelque chose ne reflète pas votre journée, écrivez-nous ici. On ajuste pour que chaque soir soit plus clair.",
+        other: "Votre résumé nocturne est presque prêt. Dans environ {count} minutes il sera là.\nSi quelque chose ne reflète pas votre journée, écrivez-nous ici. On ajuste pour que chaque soir soit plus clair.",
+      },
+    },
+  },
+
+  'reminder.meal_checkin': {
+    description: 'Daily meal check-in',
+    text: {
+      es: '¿Qué comiste hoy? 🍽\n\n• *Desayuno:* ¿qué comiste?\n• *Comida:* ¿qué comiste?\n• *Cena:* ¿qué comiste?\n\nY dos señales rápidas:\n• *Energía:* alta / media / baja\n• *Sueño:* bien / regular / mal\n\nEscríbeme lo que recuerdes, aunque sea poco.',
+      en: "What did you eat today? 🍽\n\n• *Breakfast:* what did you have?\n• *Lunch:* what did you have?\n• *Dinner:* what did you have?\n\nTwo quick signals:\n• *Energy:* high / medium / low\n• *Sleep:* good / ok / bad\n\nSend me whatever you remember, even if it's just a little.",
+      pt: 'O que você comeu hoje? 🍽\n\n• *Café da manhã:* o que comeu?\n• *Almoço:* o que comeu?\n• *Jantar:* o que comeu?\n\nDois sinais rápidos:\n• *Energia:* alta / média / baixa\n• *Sono:* bem / regular / mal\n\nMe manda o que lembrar, mesmo que seja pouco.',
+      fr: "Qu'avez-vous mangé aujourd'hui ? 🍽\n\n• *Petit-déjeuner:* qu'avez-vous mangé ?\n• *Déjeuner:* qu'avez-vous mangé ?\n• *Dîner:* qu'avez-vous mangé ?\n\nDeux signaux rapides :\n• *Énergie:* haute / moyenne / basse\n• *Sommeil:* bien / correct / mal\n\nEnvoyez-moi ce dont vous vous souvenez, même un peu.",
+    },
+  },
+
+  // ==========================================================================
+  // Onboarding (shared/onboarding.ts — the built-in flow is seeded from these)
+  // ==========================================================================
+
+  'onboarding.intro': {
+    description: 'Sent before the first onboarding question',
+    text: {
+      es: 'Hola 👋\nEstoy aquí para ayudarte a entender qué hacer con lo que ya tienes en tu cocina.\n\nAquí no te voy a señalar lo que hiciste mal.\nTampoco te voy a dar una dieta.\nSolo vamos a mirar tu día con calma y entender qué pasó en tu cuerpo.\nSin juicio. Sin presión.\n\nPara conocerte mejor y darte el mejor servicio posible, te voy a hacer unas preguntas cortas. Te las mando una a la vez.\n\nPrimera pregunta:',
+      en: "Hello 👋\nI'm here to help you make the most of what you already have in your kitchen.\n\nI'm not going to point out what you did wrong.\nI'm not going to give you a diet.\nWe're just going to look at your day calmly and understand what happened in your body.\nNo judgment. No pressure.\n\nTo get to know you better and give you the best experience, I'll ask you a few short questions. I'll send them one at a time.\n\nFirst question:",
+      pt: 'Olá 👋\nEstou aqui para te ajudar a entender o que fazer com o que você já tem na sua cozinha.\n\nAqui não vou apontar o que você fez de errado.\nTambém não vou te passar uma dieta.\nVamos só olhar o seu dia com calma e entender o que aconteceu no seu corpo.\nSem julgamento. Sem pressão.\n\nPara te conhecer melhor e te atender da melhor forma, vou fazer algumas perguntas curtas. Mando uma de cada vez.\n\nPrimeira pergunta:',
+      fr: "Bonjour 👋\nJe suis là pour vous aider à tirer le meilleur de ce que vous avez déjà dans votre cuisine.\n\nJe ne vais pas pointer ce que vous avez mal fait.\nJe ne vais pas non plus vous donner un régime.\nNous allons simplement regarder votre journée calmement et comprendre ce qui s'est passé dans votre corps.\nSans jugement. Sans pression.\n\nPour mieux vous connaître et vous offrir le meilleur accompagnement, je vais vous poser quelques questions courtes. Je vous les envoie une par une.\n\nPremière question :",
+    },
+  },
+
+  'onboarding.complete': {
+    description: 'Sent after the last onboarding question',
+    text: {
+      es: 'Perfecto, ya tengo lo que necesito para empezar contigo 🙌\n\nA partir de ahora, mándame lo que comes durante el día — texto, foto, o nota de voz. Yo lo registro y con el tiempo te muestro los patrones.',
+      en: "Perfect, I have what I need to get started with you 🙌\n\nFrom now on, send me what you eat during the day — text, photo, or voice note. I'll log it and over time show you the patterns.",
+      pt: 'Perfeito, já tenho o que preciso para começar com você 🙌\n\nA partir de agora, me mande o que você come durante o dia — texto, foto ou áudio. Eu registro e com o tempo te mostro os padrões.',
+      fr: "Parfait, j'ai ce qu'il me faut pour commencer avec vous 🙌\n\nÀ partir de maintenant, envoyez-moi ce que vous mangez dans la journée — texte, photo ou message vocal. Je l'enregistre et, avec le temps, je vous montre les schémas.",
+    },
+  },
+
+  'onboarding.resume': {
+    description: 'Reply to "continuar" mid-onboarding — {question} is the pending question',
+    text: {
+      es: 'Seguimos 👍\n\n{question}',
+      en: "Let's continue 👍\n\n{question}",
+      pt: 'Vamos continuar 👍\n\n{question}',
+      fr: 'On continue 👍\n\n{question}',
+    },
+  },
+
+  'onboarding.skipped': {
+    description: 'Reply to "saltar" mid-onboarding',
+    text: {
+      es: 'Listo, dejamos las preguntas aquí 👍\n\nA partir de ahora, mándame lo que comes durante el día — texto, foto, o nota de voz. Si luego quieres contestarlas, escribe *reiniciar cuestionario*.',
+      en: "Done, we'll leave the questions here 👍\n\nFrom now on, send me what you eat during the day — text, photo, or voice note. If you want to answer them later, write *restart questions*.",
+      pt: 'Pronto, deixamos as perguntas por aqui 👍\n\nA partir de agora, me mande o que você come durante o dia — texto, foto ou áudio. Se quiser respondê-las depois, escreva *recomeçar perguntas*.',
+      fr: "C'est noté, on s'arrête là pour les questions 👍\n\nÀ partir de maintenant, envoyez-moi ce que vous mangez dans la journée — texte, photo ou message vocal. Si vous voulez y répondre plus tard, écrivez *recommencer questions*.",
+    },
+  },
+
+  'onboarding.nudge': {
+    description: 'Sent to users silent on an onboarding question — {question} is the pending question',
+    text: {
+      es: 'Hola de nuevo 👋 Nos quedamos en esta pregunta:\n\n{question}\n\nPuedes contestarla cuando quieras. Si prefieres empezar a registrar tu comida ya, escribe *saltar*; para empezar de cero, *reiniciar*.',
+      en: "Hi again 👋 We left off at this question:\n\n{question}\n\nAnswer whenever you like. If you'd rather start logging your food now, write *skip*; to start over, *restart*.",
+      pt: 'Oi de novo 👋 Paramos nesta pergunta:\n\n{question}\n\nResponda quando quiser. Se preferir começar a registrar sua comida agora, escreva *pular*; para começar do zero, *recomeçar*.',
+      fr: "Re-bonjour 👋 Nous en étions à cette question :\n\n{question}\n\nRépondez quand vous voulez. Si vous préférez commencer à noter vos repas maintenant, écrivez *passer* ; pour tout reprendre, *recommencer*.",
+    },
+  },
+
+  'optout.paused': {
+    description: 'Reply to "pausa" — reminders, summaries and check-ins stop until "volver"',
+    text: {
+      es: 'Listo, pausé mis mensajes ⏸️ No te enviaré recordatorios, resúmenes ni seguimientos. Puedes seguir mandándome lo que comes si quieres. Escribe *volver* cuando quieras retomarlos.',
+      en: "Done, I've paused my messages ⏸️ I won't send you reminders, summaries or check-ins. You can still send me what you eat if you like. Write *resume* whenever you want them back.",
+      pt: 'Pronto, pausei minhas mensagens ⏸️ Não vou te enviar lembretes, resumos nem acompanhamentos. Você ainda pode me mandar o que come, se quiser. Escreva *voltar* quando quiser retomá-las.',
+      fr: "C'est fait, j'ai mis mes messages en pause ⏸️ Je ne vous enverrai plus de rappels, de résumés ni de suivis. Vous pouvez toujours m'envoyer ce que vous mangez. Écrivez *reprendre* quand vous voulez les retrouver.",
+    },
+  },
+
+  'optout.stopped': {
+    description: 'Reply to "stop" — the user is opted out of all proactive messages',
+    text: {
+      es: 'Entendido. Ya no recibirás mensajes nuestros. Si algún día quieres volver, escribe *volver*.',
+      en: "Understood. You won't receive any more messages from us. If you ever want to come back, write *start*.",
+      pt: 'Entendido. Você não receberá mais mensagens nossas. Se um dia quiser voltar, escreva *voltar*.',
+      fr: "C'est noté. Vous ne recevrez plus de messages de notre part. Si vous voulez revenir, écrivez *reprendre*.",
+    },
+  },
+
+  'optout.resumed': {
+    description: 'Reply to "volver" after a pause or stop',
+    text: {
+      es: '¡Qué bueno tenerte de vuelta! 🙌 Retomo los recordatorios y resúmenes. Mándame lo que comes cuando quieras.',
+      en: "Great to have you back! 🙌 Reminders and summaries are on again. Send me what you eat whenever you like.",
+      pt: 'Que bom ter você de volta! 🙌 Retomei os lembretes e resumos. Me mande o que você come quando quiser.',
+      fr: "Ravi de vous retrouver ! 🙌 Les rappels et résumés reprennent. Envoyez-moi ce que vous mangez quand vous voulez.",
+    },
+  },
+
+  'export.queued': {
+    description: 'Reply to "mis datos" — the export is being prepared and will arrive as a ZIP',
+    text: {
+      es: 'Claro 📦 Estoy preparando una copia de todo lo que guardamos sobre ti. Te llega en unos minutos como archivo ZIP (datos + un PDF fácil de leer).',
+      en: "Sure 📦 I'm putting together a copy of everything we store about you. It'll arrive in a few minutes as a ZIP file (data + an easy-to-read PDF).",
+      pt: 'Claro 📦 Estou preparando uma cópia de tudo o que guardamos sobre você. Chega em alguns minutos como arquivo ZIP (dados + um PDF fácil de ler).',
+      fr: "Bien sûr 📦 Je prépare une copie de tout ce que nous conservons à votre sujet. Elle arrive dans quelques minutes sous forme de fichier ZIP (données + un PDF facile à lire).",
+    },
+  },
+
+  'export.in_progress': {
+    description: 'Reply to "mis datos" while an earlier export is still being prepared',
+    text: {
+      es: 'Ya estoy preparando tu copia de datos — te llega en unos minutos 📦',
+      en: "I'm already preparing your data copy — it'll arrive in a few minutes 📦",
+      pt: 'Já estou preparando sua cópia de dados — chega em alguns minutos 📦',
+      fr: 'Je prépare déjà votre copie de données — elle arrive dans quelques minutes 📦',
+    },
+  },
+
+  'export.ready': {
+    description: 'Caption on the data export ZIP',
+    text: {
+      es: 'Aquí tienes todo lo que guardamos sobre ti 📎 El PDF es para leer; el archivo JSON tiene los datos completos.',
+      en: 'Here is everything we store about you 📎 The PDF is for reading; the JSON file has the complete data.',
+      pt: 'Aqui está tudo o que guardamos sobre você 📎 O PDF é para ler; o arquivo JSON tem os dados completos.',
+      fr: 'Voici tout ce que nous conservons à votre sujet 📎 Le PDF est à lire ; le fichier JSON contient les données complètes.',
+    },
+  },
+
+  'export.link': {
+    description: 'Sent instead of the data export ZIP on channels that cannot carry files (SMS); {url} is a signed download link',
+    text: {
+      es: 'Tu copia de datos está lista 📦 Descárgala aquí (ZIP con los datos completos y un PDF fácil de leer): {url}',
+      en: 'Your data copy is ready 📦 Download it here (ZIP with the complete data and an easy-to-read PDF): {url}',
+      pt: 'Sua cópia de dados está pronta 📦 Baixe aqui (ZIP com os dados completos e um PDF fácil de ler): {url}',
+      fr: 'Votre copie de données est prête 📦 Téléchargez-la ici (ZIP avec les données complètes et un PDF facile à lire) : {url}',
+    },
+  },
+
+  'export.failed': {
+    description: 'Sent when the data export could not be built or delivered after retries',
+    text: {
+      es: 'No pude preparar tu copia de datos 😕 Ya avisé al equipo; puedes volver a pedirla escribiendo *mis datos* más tarde.',
+      en: "I couldn't prepare your data copy 😕 The team has been notified; you can ask again later by writing *my data*.",
+      pt: 'Não consegui preparar sua cópia de dados 😕 A equipe já foi avisada; você pode pedir de novo mais tarde escrevendo *meus dados*.',
+      fr: "Je n'ai pas pu préparer votre copie de données 😕 L'équipe est prévenue ; vous pouvez la redemander plus tard en écrivant *mes données*.",
+    },
+  },
+
+  'deletion.scheduled': {
+    description: 'Reply to "borrar mis datos" — deletion scheduled after the grace period',
+    text: {
+      es: 'Recibido. Borraré tu cuenta y todos tus datos el {date} 🗑️ Hasta entonces no te enviaré más mensajes. Si cambias de opinión, escribe *cancelar borrado* antes de esa fecha.',
+      en: "Got it. I'll delete your account and all your data on {date} 🗑️ Until then I won't send you any more messages. If you change your mind, write *cancel deletion* before that date.",
+      pt: 'Recebido. Vou apagar sua conta e todos os seus dados em {date} 🗑️ Até lá não vou te enviar mais mensagens. Se mudar de ideia, escreva *cancelar exclusão* antes dessa data.',
+      fr: "C'est noté. Je supprimerai votre compte et toutes vos données le {date} 🗑️ D'ici là, je ne vous enverrai plus de messages. Si vous changez d'avis, écrivez *annuler la suppression* avant cette date.",
+    },
+  },
+
+  'deletion.already_scheduled': {
+    description: 'Reply to "borrar mis datos" when a deletion is already scheduled',
+    text: {
+      es: 'Tu cuenta ya está programada para borrarse el {date}. Escribe *cancelar borrado* si quieres conservarla.',
+      en: 'Your account is already scheduled for deletion on {date}. Write *cancel deletion* if you want to keep it.',
+      pt: 'Sua conta já está programada para ser apagada em {date}. Escreva *cancelar exclusão* se quiser mantê-la.',
+      fr: 'La suppression de votre compte est déjà prévue le {date}. Écrivez *annuler la suppression* si vous souhaitez le conserver.',
+    },
+  },
+
+  'deletion.canceled': {
+    description: 'Reply to "cancelar borrado" — the scheduled deletion is canceled',
+    text: {
+      es: 'Listo, cancelé el borrado y tus datos se quedan como estaban 🙌 Los recordatorios siguen apagados; escribe *volver* si los quieres de nuevo.',
+      en: "Done, I've canceled the deletion and your data stays as it was 🙌 Reminders are still off; write *resume* if you want them back.",
+      pt: 'Pronto, cancelei a exclusão e seus dados continuam como estavam 🙌 Os lembretes seguem desligados; escreva *voltar* se quiser recebê-los de novo.',
+      fr: "C'est fait, j'ai annulé la suppression et vos données restent telles quelles 🙌 Les rappels restent désactivés ; écrivez *reprendre* pour les retrouver.",
+    },
+  },
+
+  'deletion.completed': {
+    description: 'Last message after the account and all its data were erased',
+    text: {
+      es: 'Tu cuenta y todos tus datos fueron borrados. Gracias por el tiempo que compartiste con nosotros 💛 Si nos vuelves a escribir, empezaremos desde cero.',
+      en: 'Your account and all your data have been deleted. Thank you for the time you spent with us 💛 If you write to us again, we will start from scratch.',
+      pt: 'Sua conta e todos os seus dados foram apagados. Obrigado pelo tempo que você passou com a gente 💛 Se nos escrever de novo, começaremos do zero.',
+      fr: 'Votre compte et toutes vos données ont été supprimés. Merci pour le temps passé avec nous 💛 Si vous nous écrivez à nouveau, nous repartirons de zéro.',
+    },
+  },
+
+  'language.set': {
+    description: 'Confirms an explicit language choice (sent in the new language)',
+    text: {
+      es: 'Listo, a partir de ahora te escribo en español 🇪🇸 Si prefieres que lo detecte solo, escribe "idioma automático".',
+      en: 'Done, from now on I will write to you in English 🇬🇧 If you would rather I detect it, send "language auto".',
+      pt: 'Pronto, a partir de agora escrevo para você em português 🇧🇷 Se preferir que eu detecte sozinho, escreva "idioma automático".',
+      fr: 'C\'est noté, je vous écris désormais en français 🇫🇷 Si vous préférez que je le détecte, écrivez "langue automatique".',
+    },
+  },
+
+  'language.auto': {
+    description: 'Language lock removed — detection from messages is back on',
+    text: {
+      es: 'De acuerdo, voy a responder en el idioma en que me escribas.',
+      en: 'Okay, I will reply in whatever language you write to me in.',
+      pt: 'Combinado, vou responder no idioma em que você me escrever.',
+      fr: 'D\'accord, je vous répondrai dans la langue dans laquelle vous m\'écrivez.',
+    },
+  },
+
+  'timezone.set': {
+    description: 'Confirms a timezone set by the user, with the local time there',
+    text: {
+      es: 'Listo, tu zona horaria ahora es {timezone} (allí son las {time}). Tus recordatorios y resúmenes llegarán a tu hora.',
+      en: 'Done, your time zone is now {timezone} (it is {time} there). Your reminders and summaries will follow your clock.',
+      pt: 'Pronto, seu fuso horário agora é {timezone} (lá são {time}). Seus lembretes e resumos vão seguir o seu horário.',
+      fr: 'C\'est noté, votre fuseau horaire est maintenant {timezone} (il y est {time}). Vos rappels et résumés suivront votre heure.',
+    },
+  },
+
+  'timezone.unknown': {
+    description: 'The place in a timezone command could not be recognized',
+    text: {
+      es: 'No reconozco "{query}" 🤔 Escribe tu ciudad o país, por ejemplo: "zona horaria Madrid" o "zona horaria Puerto Rico".',
+      en: 'I don\'t recognize "{query}" 🤔 Send your city or country, for example: "timezone Chicago" or "timezone Puerto Rico".',
+      pt: 'Não reconheço "{query}" 🤔 Escreva sua cidade ou país, por exemplo: "fuso horário Lisboa" ou "fuso horário Brasil".',
+      fr: 'Je ne reconnais pas "{query}" 🤔 Écrivez votre ville ou pays, par exemple : "fuseau horaire Paris".',
+    },
+  },
+
+  'timezone.current': {
+    description: 'Reply to a bare timezone command — current zone and how to change it',
+    text: {
+      es: 'Tu zona horaria es {timezone} (allí son las {time}). Para cambiarla, escribe "zona horaria" y tu ciudad, por ejemplo "zona horaria Madrid".',
+      en: 'Your time zone is {timezone} (it is {time} there). To change it, send "timezone" and your city, for example "timezone Chicago".',
+      pt: 'Seu fuso horário é {timezone} (lá são {time}). Para mudar, escreva "fuso horário" e sua cidade, por exemplo "fuso horário Lisboa".',
+      fr: 'Votre fuseau horaire est {timezone} (il y est {time}). Pour le changer, écrivez "fuseau horaire" et votre ville, par exemple "fuseau horaire Paris".',
+    },
+  },
+
+  'onboarding.question.1': {
+    description: 'Onboarding question 1 — motivation',
+    text: {
+      es: '¿Qué te trajo aquí — qué quieres entender mejor de tu cuerpo?',
+      en: 'What brought you here — what do you want to better understand about your body?',
+      pt: 'O que te trouxe aqui — o que você quer entender melhor sobre o seu corpo?',
+      fr: "Qu'est-ce qui vous amène ici — qu'aimeriez-vous mieux comprendre de votre corps ?",
+    },
+  },
+
+  'onboarding.question.2': {
+    description: 'Onboarding question 2 — relationship with food',
+    text: {
+      es: '¿Cómo describes tu relación con la comida en este momento?',
+      en: 'How would you describe your relationship with food right now?',
+      pt: 'Como você descreve sua relação com a comida neste momento?',
+      fr: 'Comment décririez-vous votre relation avec la nourriture en ce moment ?',
+    },
+  },
+
+  'onboarding.question.3': {
+    description: 'Onboarding question 3 — past attempts',
+    text: {
+      es: '¿Cuándo fue la última vez que intentaste cambiar algo de tu alimentación — qué pasó?',
+      en: 'When was the last time you tried to change something about your eating — what happened?',
+      pt: 'Quando foi a última vez que você tentou mudar algo na sua alimentação — o que aconteceu?',
+      fr: "Quand avez-vous essayé de changer quelque chose dans votre alimentation pour la dernière fois — que s'est-il passé ?",
+    },
+  },
+
+  'onboarding.question.4': {
+    description: 'Onboarding question 4 — exercise',
+    text: {
+      es: '¿Qué tan seguido haces ejercicio, y cómo te sientes después de entrenar?',
+      en: 'How often do you exercise, and how do you feel after working out?',
+      pt: 'Com que frequência você faz exercício, e como você se sente depois de treinar?',
+      fr: "À quelle fréquence faites-vous du sport, et comment vous sentez-vous après l'entraînement ?",
+    },
+  },
+
+  'onboarding.question.5': {
+    description: 'Onboarding question 5 — how it works + anything else',
+    text: {
+      es: 'Esto funciona así: tú me mandas lo que comes, yo lo analizo y con el tiempo te muestro los patrones de tu cuerpo. ¿Hay algo que quieras que sepa antes de empezar?',
+      en: "Here's how this works: you send me what you eat, I analyze it, and over time I show you the patterns in your body. Is there anything you want me to know before we start?",
+      pt: 'Funciona assim: você me manda o que come, eu analiso e com o tempo te mostro os padrões do seu corpo. Tem algo que você queira que eu saiba antes de começar?',
+      fr: "Voici comment ça marche : vous m'envoyez ce que vous mangez, je l'analyse et, avec le temps, je vous montre les schémas de votre corps. Y a-t-il quelque chose que vous voulez que je sache avant de commencer ?",
+    },
+  },
+
+  'onboarding.archetype.performance': {
+    description: 'First impression for the performance archetype',
+    text: {
+      es: 'Veo que te importa entender cómo funciona tu cuerpo — eso es exactamente con lo que trabajo mejor. Te voy a mostrar los datos, tú decides qué hacer con ellos.',
+      en: "I can see you care about understanding how your body works — that's exactly what I do best. I'll show you the data, you decide what to do with it.",
+      pt: 'Vejo que você se importa em entender como seu corpo funciona — é exatamente com isso que eu trabalho melhor. Eu te mostro os dados, você decide o que fazer com eles.',
+      fr: "Je vois que vous tenez à comprendre comment fonctionne votre corps — c'est exactement ce que je fais de mieux. Je vous montre les données, vous décidez quoi en faire.",
+    },
+  },
+
+  'onboarding.archetype.skeptic': {
+    description: 'First impression for the skeptic archetype',
+    text: {
+      es: 'Entiendo que ya has intentado cosas antes. Aquí no te pido que confíes — solo que mandes lo que comes. Con el tiempo los datos hablan solos.',
+      en: "I understand you've tried things before. I'm not asking you to trust me — just send what you eat. Over time the data speaks for itself.",
+      pt: 'Entendo que você já tentou outras coisas antes. Aqui não peço que confie — só que mande o que come. Com o tempo, os dados falam por si.',
+      fr: "Je comprends que vous avez déjà essayé des choses. Je ne vous demande pas de me faire confiance — seulement d'envoyer ce que vous mangez. Avec le temps, les données parlent d'elles-mêmes.",
+    },
+  },
+
+  'onboarding.archetype.curious': {
+    description: 'First impression for the curious archetype',
+    text: {
+      es: 'Me gustan las preguntas — y tú tienes muchas. Te las voy a responder con tus propios datos, no con teorías. Cada pregunta que me hagas la incluyo en tu análisis.',
+      en: "I like questions — and you have plenty. I'll answer them with your own data, not with theories. Every question you ask me gets included in your analysis.",
+      pt: 'Gosto de perguntas — e você tem muitas. Vou respondê-las com os seus próprios dados, não com teorias. Cada pergunta que você me fizer entra na sua análise.',
+      fr: "J'aime les questions — et vous en avez beaucoup. J'y répondrai avec vos propres données, pas avec des théories. Chaque question que vous me posez est intégrée à votre analyse.",
+    },
+  },
+
+  'onboarding.archetype.passive': {
+    description: 'First impression for the passive archetype',
+    text: {
+      es: 'Simple: mándame lo que comes, cuando puedas. No hay formato correcto. No hay cantidad mínima. Yo me encargo del resto.',
+      en: "Simple: send me what you eat, whenever you can. No right format. No minimum amount. I'll handle the rest.",
+      pt: 'Simples: me mande o que você come, quando puder. Não existe formato certo. Não existe quantidade mínima. Eu cuido do resto.',
+      fr: "Simple : envoyez-moi ce que vous mangez, quand vous pouvez. Pas de bon format. Pas de minimum. Je m'occupe du reste.",
+    },
+  },
+
+  'onboarding.archetype.unknown': {
+    description: 'First impression when no archetype stands out',
+    text: {
+      es: 'Vamos paso a paso. Mándame lo que comes hoy y empezamos a construir tu mapa.',
+      en: "Let's go step by step. Send me what you eat today and we'll start building your map.",
+      pt: 'Vamos passo a passo. Me mande o que você come hoje e começamos a construir o seu mapa.',
+      fr: "Allons-y étape par étape. Envoyez-moi ce que vous mangez aujourd'hui et nous commencerons à construire votre carte.",
+    },
+  },
+} satisfies Record<string, MessageDefinition>;
+
+export type MessageKey = keyof typeof MESSAGES;
+
+export const MESSAGE_KEYS = Object.keys(MESSAGES) as MessageKey[];
+
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(MESSAGES, key);
+}
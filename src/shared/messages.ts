@@ -0,0 +1,162 @@
+/**
+ * Plato Inteligente — Message Lookup
+ *
+ * t(key, language, params) resolves a catalog message:
+ *   1. Fallback chain: requested language → es → en. For each language an
+ *      admin override (config_templates) wins over the built-in text.
+ *   2. Variants: one is picked at random.
+ *   3. Plurals: form chosen from params.count with Intl.PluralRules.
+ *   4. `{param}` placeholders are replaced; unknown ones are left as-is.
+ *
+ * Overrides are plain strings (no variants or plural forms). They are cached
+ * in memory and refreshed in the background once older than OVERRIDE_TTL_MS,
+ * so t() stays synchronous.
+ */
+
+import { queryMany } from '../infra/db/client';
+import { logger } from '../infra/logging/logger';
+import {
+  CATALOG_LANGUAGES,
+  CatalogLanguage,
+  MESSAGES,
+  MessageDefinition,
+  MessageForm,
+  MessageKey,
+  PluralForms,
+} from './message-catalog';
+
+export type MessageParams = Record<string, string | number>;
+
+const FALLBACK_CHAIN: CatalogLanguage[] = ['es', 'en'];
+const OVERRIDE_TTL_MS = 60_000;
+
+export type MessageOverrides = Map<string, Partial<Record<CatalogLanguage, string>>>;
+
+let overrides: MessageOverrides = new Map();
+let overridesLoadedAt = 0;
+let refreshing: Promise<void> | null = null;
+
+// ============================================================================
+// Overrides (config_templates)
+// ============================================================================
+
+/**
+ * Reload overrides from config_templates. Call at startup so the first
+ * messages already use them; after that t() keeps the cache fresh.
+ */
+export function refreshMessageOverrides(): Promise<void> {
+  if (refreshing) return refreshing;
+
+  refreshing = queryMany<{
+    key: string;
+    content_es: string | null;
+    content_en: string | null;
+    content_pt: string | null;
+    content_fr: string | null;
+  }>('SELECT key, content_es, content_en, content_pt, content_fr FROM config_templates')
+    .then(rows => {
+      const next: MessageOverrides = new Map();
+      for (const row of rows) {
+        const texts: Partial<Record<CatalogLanguage, string>> = {};
+        if (row.content_es) texts.es = row.content_es;
+        if (row.content_en) texts.en = row.content_en;
+        if (row.content_pt) texts.pt = row.content_pt;
+        if (row.content_fr) texts.fr = row.content_fr;
+        next.set(row.key, texts);
+      }
+      overrides = next;
+      overridesLoadedAt = Date.now();
+    })
+    .catch(error => {
+      // Keep serving the last good cache; retry on the next TTL window
+      overridesLoadedAt = Date.now();
+      logger.warn({ error: (error as Error).message }, 'Failed to refresh message overrides');
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+
+  return refreshing;
+}
+
+export function getMessageOverrides(): MessageOverrides {
+  return overrides;
+}
+
+function ensureFreshOverrides(): void {
+  if (Date.now() - overridesLoadedAt > OVERRIDE_TTL_MS) {
+    void refreshMessageOverrides();
+  }
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+function isCatalogLanguage(language: string): language is CatalogLanguage {
+  return (CATALOG_LANGUAGES as readonly string[]).includes(language);
+}
+
+function resolveForm(key: MessageKey, language: string): { form: MessageForm; language: CatalogLanguage } | null {
+  const definition: MessageDefinition = MESSAGES[key];
+  const chain = [...new Set([
+    ...(isCatalogLanguage(language) ? [language] : []),
+    ...FALLBACK_CHAIN,
+  ])];
+
+  for (const lang of chain) {
+    const form = overrides.get(key)?.[lang] ?? definition.text[lang];
+    if (form !== undefined) return { form, language: lang };
+  }
+  return null;
+}
+
+function pickPlural(forms: PluralForms, count: number, language: CatalogLanguage): string {
+  if (count === 0 && forms.zero !== undefined) return forms.zero;
+  const category = new Intl.PluralRules(language).select(count);
+  return forms[category] ?? forms.other;
+}
+
+function interpolate(text: string, params: MessageParams): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match,
+  );
+}
+
+/**
+ * Localized message for `key`. Always returns a string — an empty one only if
+ * the key has no text in the requested language, es or en.
+ */
+export function t(key: MessageKey, language: string, params: MessageParams = {}): string {
+  ensureFreshOverrides();
+
+  const resolved = resolveForm(key, language);
+  if (!resolved) {
+    logger.warn({ key, language }, 'Message has no text in any fallback language');
+    return '';
+  }
+
+  const { form } = resolved;
+  let text: string;
+  if (typeof form === 'string') {
+    text = form;
+  } else if (Array.isArray(form)) {
+    text = form[Math.floor(Math.random() * form.length)]!;
+  } else {
+    const count = typeof params.count === 'number' ? params.count : Number(params.count ?? 0);
+    text = pickPlural(form, count, resolved.language);
+  }
+
+  return interpolate(text, params);
+}
+
+/**
+ * Built-in text of a plain-string message in every language that has it —
+ * for seeding stored content (e.g. the built-in onboarding flow).
+ */
+export function builtinText(key: MessageKey): Record<string, string> {
+  const text: Partial<Record<CatalogLanguage, MessageForm>> = MESSAGES[key].text;
+  return Object.fromEntries(
+    Object.entries(text).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+  );
+}
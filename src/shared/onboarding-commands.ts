@@ -0,0 +1,71 @@
+/**
+ * Onboarding recovery commands + non-answer detection
+ * Supports 4 languages: EN, ES, PT, FR (matched regardless of the user's
+ * stored language — people switch mid-onboarding)
+ *
+ *   restart — start the questions over ("reiniciar", "start over")
+ *   skip    — stop asking, go straight to logging ("saltar", "skip")
+ *   resume  — repeat the pending question ("continuar", "continue")
+ *
+ * Outside onboarding only an explicit "restart onboarding" counts, so a
+ * plain "reiniciar" in a food log is never taken as a command.
+ */
+
+import { Attachment } from './types';
+
+export type OnboardingCommand = 'restart' | 'skip' | 'resume';
+
+export type NonAnswerReason = 'photo' | 'meal_log';
+
+const RESTART_WORDS = 'reiniciar|empezar de nuevo|volver a empezar|restart|start over|start again|recomeçar|recomecar|começar de novo|comecar de novo|recommencer';
+const SKIP_WORDS = 'saltar|omitir|skip|pular|passer';
+const RESUME_WORDS = 'continuar|seguir|resume|continue|continuer|reprendre';
+
+// "el cuestionario", "the onboarding", "as perguntas", "les questions"
+const ONBOARDING_NOUN = '(?:(?:el|la|las|los|the|o|a|os|as|le|les)\\s+)?(?:onboarding|cuestionario|questionnaire|questionário|questionario|preguntas|questions|perguntas)';
+
+const commandPattern = (words: string, nounRequired: boolean) =>
+  new RegExp(`^(?:${words})(?:\\s+${ONBOARDING_NOUN})${nounRequired ? '' : '?'}\\s*[.!]*$`, 'i');
+
+/**
+ * Detects an onboarding command. Returns null for anything else.
+ */
+export function detectOnboardingCommand(message: string, inOnboarding: boolean): OnboardingCommand | null {
+  const normalized = message.trim().replace(/^\/+/, '').replace(/\s+/g, ' ');
+  if (!normalized || normalized.length > 40) return null;
+
+  if (commandPattern(RESTART_WORDS, !inOnboarding).test(normalized)) return 'restart';
+  if (!inOnboarding) return null;
+
+  if (commandPattern(SKIP_WORDS, false).test(normalized)) return 'skip';
+  if (commandPattern(RESUME_WORDS, false).test(normalized)) return 'resume';
+  return null;
+}
+
+// Messages that open like a food log: "Desayuno: huevos", "comí arroz",
+// "for lunch I had…", "almocei…", "j'ai mangé…" (\p{L} instead of \b so
+// accented endings like "comí" still end a word)
+const MEAL_LOG_PATTERNS: RegExp[] = [
+  /^(?:hoy\s+|ayer\s+)?(?:desayun[éeo]|almorc[éeo]|cen[éeo]|com[íi]|me\s+com[íi]|merend[éeo])(?!\p{L})/iu,
+  /^(?:de\s+|en\s+el\s+|para\s+el\s+)?(?:desayuno|almuerzo|comida|cena|merienda)\s*[:\-]/iu,
+  /^(?:today\s+|yesterday\s+)?i\s+(?:just\s+)?ate(?!\p{L})/iu,
+  /^(?:for\s+)?(?:breakfast|lunch|dinner|snack)\s*(?:[:\-]|i\s+(?:ate|had)(?!\p{L}))/iu,
+  /^(?:hoje\s+|ontem\s+)?(?:comi|almocei|jantei|lanchei)(?!\p{L})/iu,
+  /^(?:no\s+)?(?:café da manhã|almoço|jantar|lanche)\s*[:\-]/iu,
+  /^(?:aujourd'hui\s+|hier\s+)?j'ai\s+mangé(?!\p{L})/iu,
+  /^(?:au\s+)?(?:petit-déjeuner|petit déjeuner|déjeuner|dîner|goûter)\s*[:\-]/iu,
+];
+
+/**
+ * Whether a message sent during onboarding is clearly not an answer to the
+ * pending question — a photo, or a message that reads like a meal log.
+ * Those are saved as health events instead of onboarding answers.
+ */
+export function detectNonAnswer(message: string, attachments: Attachment[] = []): NonAnswerReason | null {
+  if (attachments.some(a => a.type === 'image')) return 'photo';
+
+  const trimmed = message.trim();
+  if (MEAL_LOG_PATTERNS.some(p => p.test(trimmed))) return 'meal_log';
+
+  return null;
+}
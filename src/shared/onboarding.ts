@@ -1,8 +1,11 @@
 /**
  * Plato Inteligente — Onboarding Questions + Archetype Scoring
  *
- * 5-question onboarding sequence sent one at a time via WhatsApp.
- * After question 5, answers are scored to detect the client's archetype.
+ * Onboarding flows are stored in onboarding_flows (domain/onboarding) —
+ * the built-in default flow is seeded as version 1 from the message
+ * catalog (onboarding.intro / onboarding.question.N / onboarding.complete).
+ * Questions are sent one at a time; when the flow ends, answers are
+ * scored to detect the client's archetype.
  *
  * Archetypes:
  *   performance — self-initiates, wants mechanism, data-driven, fast adopter
@@ -11,64 +14,177 @@
  *   passive     — low initiative, overwhelmed, needs simplicity
  */
 
-import { Archetype, ArchetypeScores, OnboardingAnswer } from './types';
+import {
+  Archetype,
+  ArchetypeScores,
+  OnboardingAnswer,
+  LocalizedText,
+  OnboardingFlowDefinition,
+  OnboardingStep,
+} from './types';
+import { builtinText, t } from './messages';
 
 // ============================================================================
-// Onboarding Questions (bilingual)
+// Onboarding Flows
 // ============================================================================
 
-export const ONBOARDING_QUESTIONS: Record<string, string[]> = {
-  es: [
-    '¿Qué te trajo aquí — qué quieres entender mejor de tu cuerpo?',
-    '¿Cómo describes tu relación con la comida en este momento?',
-    '¿Cuándo fue la última vez que intentaste cambiar algo de tu alimentación — qué pasó?',
-    '¿Qué tan seguido haces ejercicio, y cómo te sientes después de entrenar?',
-    'Esto funciona así: tú me mandas lo que comes, yo lo analizo y con el tiempo te muestro los patrones de tu cuerpo. ¿Hay algo que quieras que sepa antes de empezar?',
-  ],
-  en: [
-    "What brought you here — what do you want to better understand about your body?",
-    "How would you describe your relationship with food right now?",
-    "When was the last time you tried to change something about your eating — what happened?",
-    "How often do you exercise, and how do you feel after working out?",
-    "Here's how this works: you send me what you eat, I analyze it, and over time I show you the patterns in your body. Is there anything you want me to know before we start?",
-  ],
-};
-
-// Intro message sent before question 1
-export const ONBOARDING_INTRO: Record<string, string> = {
-  es: 'Hola 👋\nEstoy aquí para ayudarte a entender qué hacer con lo que ya tienes en tu cocina.\n\nAquí no te voy a señalar lo que hiciste mal.\nTampoco te voy a dar una dieta.\nSolo vamos a mirar tu día con calma y entender qué pasó en tu cuerpo.\nSin juicio. Sin presión.\n\nPara conocerte mejor y darte el mejor servicio posible, te voy a hacer unas preguntas cortas. Te las mando una a la vez.\n\nPrimera pregunta:',
-  en: "Hello 👋\nI'm here to help you make the most of what you already have in your kitchen.\n\nI'm not going to point out what you did wrong.\nI'm not going to give you a diet.\nWe're just going to look at your day calmly and understand what happened in your body.\nNo judgment. No pressure.\n\nTo get to know you better and give you the best experience, I'll ask you a few short questions. I'll send them one at a time.\n\nFirst question:",
-};
-
-// Confirmation sent after question 5 (before archetype-specific message)
-export const ONBOARDING_COMPLETE: Record<string, string> = {
-  es: 'Perfecto, ya tengo lo que necesito para empezar contigo 🙌\n\nA partir de ahora, mándame lo que comes durante el día — texto, foto, o nota de voz. Yo lo registro y con el tiempo te muestro los patrones.',
-  en: "Perfect, I have what I need to get started with you 🙌\n\nFrom now on, send me what you eat during the day — text, photo, or voice note. I'll log it and over time show you the patterns.",
-};
-
-// Archetype-specific first impression (sent after onboarding completes)
-export const ARCHETYPE_FIRST_IMPRESSION: Record<Archetype, Record<string, string>> = {
-  performance: {
-    es: 'Veo que te importa entender cómo funciona tu cuerpo — eso es exactamente con lo que trabajo mejor. Te voy a mostrar los datos, tú decides qué hacer con ellos.',
-    en: "I can see you care about understanding how your body works — that's exactly what I do best. I'll show you the data, you decide what to do with it.",
-  },
-  skeptic: {
-    es: 'Entiendo que ya has intentado cosas antes. Aquí no te pido que confíes — solo que mandes lo que comes. Con el tiempo los datos hablan solos.',
-    en: "I understand you've tried things before. I'm not asking you to trust me — just send what you eat. Over time the data speaks for itself.",
-  },
-  curious: {
-    es: 'Me gustan las preguntas — y tú tienes muchas. Te las voy a responder con tus propios datos, no con teorías. Cada pregunta que me hagas la incluyo en tu análisis.',
-    en: "I like questions — and you have plenty. I'll answer them with your own data, not with theories. Every question you ask me gets included in your analysis.",
-  },
-  passive: {
-    es: 'Simple: mándame lo que comes, cuando puedas. No hay formato correcto. No hay cantidad mínima. Yo me encargo del resto.',
-    en: "Simple: send me what you eat, whenever you can. No right format. No minimum amount. I'll handle the rest.",
-  },
-  unknown: {
-    es: 'Vamos paso a paso. Mándame lo que comes hoy y empezamos a construir tu mapa.',
-    en: "Let's go step by step. Send me what you eat today and we'll start building your map.",
-  },
-};
+export const DEFAULT_FLOW_NAME = 'default';
+
+const BUILTIN_QUESTIONS = [
+  'onboarding.question.1',
+  'onboarding.question.2',
+  'onboarding.question.3',
+  'onboarding.question.4',
+  'onboarding.question.5',
+] as const;
+
+/**
+ * The built-in flow: the 5 catalog questions in order, each feeding the
+ * matching archetype rubric. Seeded as `default` v1.
+ */
+export function buildBuiltinFlow(): OnboardingFlowDefinition {
+  const steps: OnboardingStep[] = BUILTIN_QUESTIONS.map((key, i) => ({
+    id: `q${i + 1}`,
+    text: builtinText(key),
+    scoreAs: i + 1,
+  }));
+
+  return {
+    intro: builtinText('onboarding.intro'),
+    complete: builtinText('onboarding.complete'),
+    steps,
+  };
+}
+
+/**
+ * Pick the user's language, falling back to es → en → whatever exists.
+ */
+export function localize(text: LocalizedText, language: string): string {
+  return text[language] ?? text.es ?? text.en ?? Object.values(text)[0] ?? '';
+}
+
+export function getFirstStep(flow: OnboardingFlowDefinition): OnboardingStep {
+  return flow.steps[0]!;
+}
+
+export function findStep(flow: OnboardingFlowDefinition, stepId: string): OnboardingStep | null {
+  return flow.steps.find(s => s.id === stepId) ?? null;
+}
+
+/**
+ * The step a user is on: by id, else by position (users who started before
+ * flows had step ids), else the first step.
+ */
+export function findCurrentStep(
+  flow: OnboardingFlowDefinition,
+  stepId: string | null,
+  stepNumber: number,
+): OnboardingStep {
+  return (stepId && findStep(flow, stepId))
+    || flow.steps[stepNumber - 1]
+    || getFirstStep(flow);
+}
+
+/**
+ * Where to go after an answer: first matching branch, else the step's
+ * `next`, else the following step. Null = onboarding finished.
+ */
+export function getNextStep(
+  flow: OnboardingFlowDefinition,
+  step: OnboardingStep,
+  answer: string,
+): OnboardingStep | null {
+  const branch = step.branches?.find(b => new RegExp(b.match, 'i').test(answer));
+
+  const nextId = branch !== undefined ? branch.next
+    : step.next !== undefined ? step.next
+    : flow.steps[flow.steps.indexOf(step) + 1]?.id ?? null;
+
+  return nextId ? findStep(flow, nextId) : null;
+}
+
+/**
+ * Structural problems in a definition (duplicate ids, dangling `next`,
+ * invalid regexes, missing text, loops, unreachable steps). Empty = valid.
+ */
+export function validateFlowDefinition(flow: OnboardingFlowDefinition): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  if (flow.steps.length === 0) errors.push('Flow needs at least one step');
+  if (!flow.intro.es && !flow.intro.en) errors.push('intro needs es or en text');
+  if (!flow.complete.es && !flow.complete.en) errors.push('complete needs es or en text');
+
+  for (const step of flow.steps) {
+    if (ids.has(step.id)) errors.push(`Duplicate step id: ${step.id}`);
+    ids.add(step.id);
+    if (!step.text.es && !step.text.en) errors.push(`Step ${step.id} needs es or en text`);
+  }
+
+  for (const step of flow.steps) {
+    const targets = [step.next, ...(step.branches ?? []).map(b => b.next)];
+    for (const target of targets) {
+      if (target && !ids.has(target)) errors.push(`Step ${step.id} points to unknown step: ${target}`);
+    }
+    for (const branch of step.branches ?? []) {
+      try {
+        new RegExp(branch.match, 'i');
+      } catch {
+        errors.push(`Step ${step.id} has an invalid branch pattern: ${branch.match}`);
+      }
+    }
+  }
+
+  // Only walk a graph whose edges all resolve
+  if (errors.length === 0 && flow.steps.length > 0) errors.push(...findPathProblems(flow));
+
+  return errors;
+}
+
+/**
+ * Every step `step` can lead to: its branches, plus its default when no
+ * branch matches. Null = onboarding finishes.
+ */
+function stepTargets(flow: OnboardingFlowDefinition, step: OnboardingStep): Array<string | null> {
+  const fallback = step.next !== undefined ? step.next
+    : flow.steps[flow.steps.indexOf(step) + 1]?.id ?? null;
+  return [...(step.branches ?? []).map(b => b.next), fallback];
+}
+
+/**
+ * Walk the flow from the first step: any way back to a step already on the
+ * path means some answers never finish onboarding, and steps never reached
+ * are almost certainly a wiring mistake.
+ */
+function findPathProblems(flow: OnboardingFlowDefinition): string[] {
+  const errors: string[] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (stepId: string): void => {
+    const loopStart = path.indexOf(stepId);
+    if (loopStart !== -1) {
+      errors.push(`Steps loop back without finishing: ${[...path.slice(loopStart), stepId].join(' → ')}`);
+      return;
+    }
+    if (done.has(stepId)) return;
+
+    path.push(stepId);
+    for (const target of new Set(stepTargets(flow, findStep(flow, stepId)!))) {
+      if (target) visit(target);
+    }
+    path.pop();
+    done.add(stepId);
+  };
+
+  visit(flow.steps[0]!.id);
+
+  for (const step of flow.steps) {
+    if (!done.has(step.id)) errors.push(`Step ${step.id} can't be reached from the first step`);
+  }
+
+  return errors;
+}
 
 // ============================================================================
 // Archetype Scoring
@@ -134,7 +250,7 @@ function scoreAnswer(questionIndex: number, answer: string): ArchetypeScores {
 }
 
 /**
- * Derive the final archetype from accumulated scores across all 5 answers.
+ * Derive the final archetype from accumulated scores across the scored answers.
  */
 export function detectArchetype(answers: OnboardingAnswer[]): {
   archetype: Archetype;
@@ -150,48 +266,26 @@ export function detectArchetype(answers: OnboardingAnswer[]): {
     total.passive += partial.passive;
   }
 
-  // Find the highest scoring archetype
-  const entries = Object.entries(total) as [Archetype, number][];
-  const sorted = entries.sort((a, b) => b[1] - a[1]);
-  const topScore = sorted[0]![1];
-
-  // If all scores are 0 or tied at low values, default to unknown
-  if (topScore === 0) {
-    return { archetype: 'unknown', scores: total };
-  }
-
-  return { archetype: sorted[0]![0], scores: total };
+  return { archetype: topArchetype(total), scores: total };
 }
 
 /**
- * Get the question text for a given step (1-5) and language.
+ * The highest scoring archetype ('unknown' when every score is 0).
  */
-export function getQuestion(step: number, language: string): string {
-  const lang = language in ONBOARDING_QUESTIONS ? language : 'es';
-  const questions = ONBOARDING_QUESTIONS[lang]!;
-  return questions[step - 1] ?? questions[0]!;
-}
+export function topArchetype(scores: ArchetypeScores): Archetype {
+  const entries = Object.entries(scores) as [Archetype, number][];
+  const sorted = entries.sort((a, b) => b[1] - a[1]);
+  const topScore = sorted[0]![1];
 
-/**
- * Get the intro message (sent before Q1) in the right language.
- */
-export function getOnboardingIntro(language: string): string {
-  const lang = language in ONBOARDING_INTRO ? language : 'es';
-  return ONBOARDING_INTRO[lang]!;
-}
+  // If all scores are 0 or tied at low values, default to unknown
+  if (topScore <= 0) return 'unknown';
 
-/**
- * Get the completion message (sent after Q5, before archetype message) in the right language.
- */
-export function getOnboardingComplete(language: string): string {
-  const lang = language in ONBOARDING_COMPLETE ? language : 'es';
-  return ONBOARDING_COMPLETE[lang]!;
+  return sorted[0]![0];
 }
 
 /**
  * Get the archetype-specific first impression message.
  */
 export function getArchetypeMessage(archetype: Archetype, language: string): string {
-  const lang = language in ONBOARDING_COMPLETE ? language : 'es';
-  return ARCHETYPE_FIRST_IMPRESSION[archetype][lang]!;
+  return t(`onboarding.archetype.${archetype}`, language);
 }
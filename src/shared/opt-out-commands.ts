@@ -0,0 +1,48 @@
+/**
+ * Pause / stop / resume commands for proactive messages
+ * Supports 4 languages: EN, ES, PT, FR, plus the carrier keywords
+ * (STOP, UNSUBSCRIBE, CANCEL, END, QUIT, START, UNSTOP)
+ *
+ *   pause  — stop reminders, summaries and check-ins for now ("pausa")
+ *   stop   — opt out of every proactive message ("stop", "baja")
+ *   resume — undo either ("volver", "start")
+ *
+ * Only a whole message counts, so "para la cena…" is never a stop. Bare
+ * words that are also everyday replies aren't stops either: "para" (often
+ * the first message of a burst) never is, and the carrier keywords "cancel",
+ * "end", "quit" and "stopall" only are on SMS — on WhatsApp "cancel" is more
+ * likely about a pending deletion than about every message.
+ */
+
+import { ChannelName } from './types';
+
+export type OptOutCommand = 'pause' | 'stop' | 'resume';
+
+const PAUSE_WORDS = 'pausa|pausar|pause|pausar mensajes|pausa los mensajes|pause messages|pausar mensagens|pausar as mensagens|mettre en pause|pause les messages';
+const STOP_WORDS = 'stop|unsubscribe|parar|detener|basta|baja|darme de baja|cancelar suscripción|no más mensajes|no mas mensajes|sair|cancelar inscrição|arrête|arrete|arrêter|arreter|désabonner|desabonner';
+const SMS_STOP_WORDS = 'stopall|cancel|end|quit';
+const RESUME_WORDS = 'volver|reanudar|reactivar|start|unstop|resume|voltar|retomar|reativar|reprendre|recommencer les messages';
+
+const commandPattern = (words: string) => new RegExp(`^(?:${words})\\s*[.!]*$`, 'i');
+
+const PATTERNS: Array<[OptOutCommand, RegExp]> = [
+  ['pause', commandPattern(PAUSE_WORDS)],
+  ['stop', commandPattern(STOP_WORDS)],
+  ['resume', commandPattern(RESUME_WORDS)],
+];
+
+const SMS_STOP_PATTERN = commandPattern(SMS_STOP_WORDS);
+
+/**
+ * Detects a pause / stop / resume command. Returns null for anything else.
+ */
+export function detectOptOutCommand(message: string, channel?: ChannelName): OptOutCommand | null {
+  const normalized = message.trim().replace(/^\/+/, '').replace(/\s+/g, ' ');
+  if (!normalized || normalized.length > 30) return null;
+
+  for (const [command, pattern] of PATTERNS) {
+    if (pattern.test(normalized)) return command;
+  }
+  if (channel === 'sms' && SMS_STOP_PATTERN.test(normalized)) return 'stop';
+  return null;
+}
@@ -0,0 +1,32 @@
+/**
+ * API key roles and what each one may do.
+ *
+ *   admin       — everything, including /admin and /api/test
+ *   coach       — reviews nightly summaries and archetype changes, edits concerns,
+ *                 sees the user list
+ *   dashboard   — read-only user list for the monitoring dashboard
+ *   integration — automations (n8n) that trigger digest runs
+ */
+
+export const API_KEY_ROLES = ['admin', 'coach', 'dashboard', 'integration'] as const;
+
+export type ApiKeyRole = typeof API_KEY_ROLES[number];
+
+export type Permission =
+  | 'admin'
+  | 'nightly:review'
+  | 'archetypes:review'
+  | 'digests:trigger'
+  | 'concerns:write'
+  | 'users:read';
+
+const ROLE_PERMISSIONS: Record<ApiKeyRole, readonly Permission[]> = {
+  admin: ['admin', 'nightly:review', 'archetypes:review', 'digests:trigger', 'concerns:write', 'users:read'],
+  coach: ['nightly:review', 'archetypes:review', 'digests:trigger', 'concerns:write', 'users:read'],
+  dashboard: ['users:read'],
+  integration: ['digests:trigger'],
+};
+
+export function hasPermission(role: ApiKeyRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,39 @@
+/**
+ * Timezone commands
+ * Supports 4 languages: EN, ES, PT, FR
+ *
+ *   set     — "zona horaria Madrid", "timezone Europe/Madrid", "/tz puerto rico"
+ *             → schedule everything on that zone from now on
+ *   unknown — the prefix with a place we can't resolve ("zona horaria mi casa")
+ *   show    — the prefix alone ("zona horaria") → tell the user their zone
+ *
+ * Only a whole, short message counts.
+ */
+
+import { resolveTimezone } from './timezone';
+
+export type TimezoneCommand =
+  | { type: 'set'; timezone: string }
+  | { type: 'unknown'; query: string }
+  | { type: 'show' };
+
+const PREFIX = /^(?:zona horaria|huso horario|timezone|time zone|fuso horário|fuso horario|fuseau horaire|tz)\b\s*:?\s*(.*)$/i;
+// "zona horaria de Madrid", "timezone is Lisbon", "fuseau horaire à Paris"
+const FILLER = /^(?:de|en|es|is|to|em|é|e|à|a)\s+/i;
+
+/**
+ * Detects a timezone command. Returns null for anything else.
+ */
+export function detectTimezoneCommand(message: string): TimezoneCommand | null {
+  const normalized = message.trim().replace(/^\/+/, '').replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+  if (!normalized || normalized.length > 60) return null;
+
+  const match = normalized.match(PREFIX);
+  if (!match) return null;
+
+  const query = match[1]!.replace(FILLER, '').trim();
+  if (!query) return { type: 'show' };
+
+  const timezone = resolveTimezone(query);
+  return timezone ? { type: 'set', timezone } : { type: 'unknown', query };
+}
@@ -0,0 +1,175 @@
+/**
+ * User timezones
+ *
+ * users.timezone decides when proactive messages go out (worker/index.ts
+ * schedules by local hour) and which day a health event belongs to.
+ *   - New users get one inferred from the phone's country code
+ *   - "zona horaria Madrid" (shared/timezone-commands.ts) or the admin API
+ *     override it
+ */
+
+// Used when nothing better is known (the schedulers' original zone)
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Country calling code → IANA zone. Longest prefix wins, so NANP area codes
+// (Puerto Rico, Dominican Republic) come before the bare +1. Countries that
+// span several zones map to where most of our users live.
+const CALLING_CODE_TIMEZONES = ([
+  // North America / Caribbean (NANP)
+  ['1787', 'America/Puerto_Rico'],
+  ['1939', 'America/Puerto_Rico'],
+  ['1809', 'America/Santo_Domingo'],
+  ['1829', 'America/Santo_Domingo'],
+  ['1849', 'America/Santo_Domingo'],
+  ['1', 'America/New_York'],
+  // Latin America
+  ['52', 'America/Mexico_City'],
+  ['53', 'America/Havana'],
+  ['54', 'America/Argentina/Buenos_Aires'],
+  ['55', 'America/Sao_Paulo'],
+  ['56', 'America/Santiago'],
+  ['57', 'America/Bogota'],
+  ['58', 'America/Caracas'],
+  ['51', 'America/Lima'],
+  ['502', 'America/Guatemala'],
+  ['503', 'America/El_Salvador'],
+  ['504', 'America/Tegucigalpa'],
+  ['505', 'America/Managua'],
+  ['506', 'America/Costa_Rica'],
+  ['507', 'America/Panama'],
+  ['591', 'America/La_Paz'],
+  ['593', 'America/Guayaquil'],
+  ['595', 'America/Asuncion'],
+  ['598', 'America/Montevideo'],
+  // Europe
+  ['34', 'Europe/Madrid'],
+  ['351', 'Europe/Lisbon'],
+  ['33', 'Europe/Paris'],
+  ['32', 'Europe/Brussels'],
+  ['41', 'Europe/Zurich'],
+  ['44', 'Europe/London'],
+  ['49', 'Europe/Berlin'],
+  ['39', 'Europe/Rome'],
+  // Portuguese- and French-speaking Africa
+  ['244', 'Africa/Luanda'],
+  ['258', 'Africa/Maputo'],
+  ['212', 'Africa/Casablanca'],
+  ['221', 'Africa/Dakar'],
+  ['225', 'Africa/Abidjan'],
+] as Array<[string, string]>).sort((a, b) => b[0].length - a[0].length);
+
+/**
+ * Best guess from the phone's country code. Null if the code isn't known.
+ */
+export function timezoneFromPhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  const match = CALLING_CODE_TIMEZONES.find(([code]) => digits.startsWith(code));
+  return match ? match[1] : null;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeZoneName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\s_-]+/g, '_');
+}
+
+let zoneIndex: Map<string, string> | null = null;
+
+// IANA names plus their city part ("madrid" → Europe/Madrid)
+function getZoneIndex(): Map<string, string> {
+  if (zoneIndex) return zoneIndex;
+
+  zoneIndex = new Map();
+  for (const zone of Intl.supportedValuesOf('timeZone')) {
+    zoneIndex.set(normalizeZoneName(zone), zone);
+  }
+  for (const zone of Intl.supportedValuesOf('timeZone')) {
+    const city = normalizeZoneName(zone.split('/').pop()!);
+    if (!zoneIndex.has(city)) zoneIndex.set(city, zone);
+  }
+  // Places people name that aren't the IANA city
+  const aliases: Record<string, string> = {
+    puerto_rico: 'America/Puerto_Rico',
+    san_juan: 'America/Puerto_Rico',
+    cdmx: 'America/Mexico_City',
+    ciudad_de_mexico: 'America/Mexico_City',
+    mexico: 'America/Mexico_City',
+    espana: 'Europe/Madrid',
+    spain: 'Europe/Madrid',
+    nueva_york: 'America/New_York',
+    nova_york: 'America/New_York',
+    nova_iorque: 'America/New_York',
+    porto_rico: 'America/Puerto_Rico',
+    lisboa: 'Europe/Lisbon',
+    porto: 'Europe/Lisbon',
+    londres: 'Europe/London',
+    roma: 'Europe/Rome',
+    bruselas: 'Europe/Brussels',
+    bruxelas: 'Europe/Brussels',
+    bruxelles: 'Europe/Brussels',
+    miami: 'America/New_York',
+    texas: 'America/Chicago',
+    california: 'America/Los_Angeles',
+    brasil: 'America/Sao_Paulo',
+    brazil: 'America/Sao_Paulo',
+    portugal: 'Europe/Lisbon',
+    france: 'Europe/Paris',
+    francia: 'Europe/Paris',
+    colombia: 'America/Bogota',
+    argentina: 'America/Argentina/Buenos_Aires',
+    republica_dominicana: 'America/Santo_Domingo',
+    santo_domingo: 'America/Santo_Domingo',
+  };
+  for (const [name, zone] of Object.entries(aliases)) zoneIndex.set(name, zone);
+
+  return zoneIndex;
+}
+
+/**
+ * Resolve what a user or admin typed — an IANA name ("Europe/Madrid") or a
+ * city/country ("madrid", "Puerto Rico") — to an IANA zone. Null if unknown.
+ */
+export function resolveTimezone(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  if (trimmed.includes('/') && isValidTimezone(trimmed)) {
+    return new Intl.DateTimeFormat('en-US', { timeZone: trimmed }).resolvedOptions().timeZone;
+  }
+  return getZoneIndex().get(normalizeZoneName(trimmed)) ?? null;
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) at `at` in the given zone.
+ */
+export function localDateString(timezone: string, at: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at);
+}
+
+/**
+ * The wall-clock time (HH:MM) at `at` in the given zone.
+ */
+export function localTimeString(timezone: string, at: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(at);
+}
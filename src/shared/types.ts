@@ -2,17 +2,52 @@
 // Job Types
 // ============================================================================
 
+// Where a message came in / goes out (adapters/messaging/channel.ts)
+export type ChannelName = 'chatwoot' | 'whatsapp' | 'sms';
+
 export interface InboundJobData {
   type: 'inbound_message';
   correlationId: string;
   phone: string;
   message: string;
-  conversationId: number;
+  conversationId: number; // Chatwoot conversation id; 0 for Cloud API / SMS messages
+  conversationKey?: string; // Channel-neutral identity, see shared/conversation.ts
   chatwootContactId: number;
+  channel?: ChannelName; // Inbox the message came through (default chatwoot)
+  messageId?: number; // Chatwoot message id (absent on some n8n relays)
+  dedupeKey?: string; // chatwoot:msg:<id>, chatwoot:hash:<sha256>, whatsapp:msg:<wamid> or sms:msg:<sid>
+  sequence?: number; // Per-phone order assigned at ingest (infra/queue/ordering.ts)
+  replay?: ReplayOptions; // Set when re-enqueued from dead letters
   attachments?: Attachment[];
   timestamp: string;
 }
 
+export interface ReplayOptions {
+  deadLetterId: string;
+  sendAck: boolean;
+}
+
+// Delayed job that flushes a user's buffered burst of messages
+export interface BurstFlushJobData {
+  type: 'flush_burst';
+  correlationId: string;
+  userId: string;
+  conversationId: number;
+  channel?: ChannelName;
+  language: string;
+}
+
+export type InboundQueueJobData = InboundJobData | BurstFlushJobData;
+
+// One user's nightly digest, part of a digest_runs night (domain/digest/runs.ts)
+export interface NightlyDigestJobData {
+  runId: string;
+  runDate: string; // The user's local date (YYYY-MM-DD)
+  userId: string;
+  language: string;
+  userName?: string;
+}
+
 export interface Attachment {
   type: 'audio' | 'image' | 'video' | 'document';
   url: string;
@@ -37,11 +72,13 @@ export interface TokenUsage {
 // User Types
 // ============================================================================
 
+export type Language = 'es' | 'en' | 'pt' | 'fr';
+
 export interface User {
   id: string;
   phone: string;
   name?: string;
-  language: 'es' | 'en' | 'pt' | 'fr';
+  language: Language;
   timezone: string;
   createdAt: Date;
   isNew: boolean;
@@ -96,8 +133,42 @@ export interface ArchetypeScores {
 }
 
 export interface OnboardingAnswer {
-  question: number; // 1-5
+  question: number; // Archetype rubric 1-5 the answer is scored with (0 = not scored)
   answer: string;
+  stepId?: string; // Flow step that asked it (absent on answers from before flows)
+}
+
+// Text keyed by language (es | en | pt | fr)
+export type LocalizedText = Record<string, string>;
+
+export interface OnboardingBranch {
+  match: string;        // Case-insensitive regex tested against the answer
+  next: string | null;  // Step id to jump to; null = finish onboarding
+}
+
+export interface OnboardingStep {
+  id: string;
+  text: LocalizedText;
+  scoreAs?: number;               // Archetype rubric (1-5) this answer feeds
+  branches?: OnboardingBranch[];  // First match wins
+  next?: string | null;           // Default: the following step; null = finish
+}
+
+export interface OnboardingFlowDefinition {
+  intro: LocalizedText;     // Sent together with the first step
+  complete: LocalizedText;  // Sent before the archetype message
+  steps: OnboardingStep[];
+}
+
+export interface OnboardingFlow {
+  id: string;
+  name: string;
+  version: number;
+  definition: OnboardingFlowDefinition;
+  isActive: boolean;
+  notes: string | null;
+  createdAt: Date;
+  activatedAt: Date | null;
 }
 
 export interface ClientProfile {
@@ -107,6 +178,8 @@ export interface ClientProfile {
   archetypeScores: ArchetypeScores;
   coachingPhase: CoachingPhase;
   onboardingAnswers: OnboardingAnswer[];
+  onboardingFlowId: string | null;       // Flow version the client completed
+  onboardingFlowVersion: number | null;
   patternsConfirmed: number;
   graduationPending: boolean;
   graduatedAt: Date | null;
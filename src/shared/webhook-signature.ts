@@ -0,0 +1,85 @@
+/**
+ * Webhook signature verification (HMAC-SHA256)
+ *
+ * Chatwoot signs each webhook delivery with:
+ *   X-Chatwoot-Timestamp: <unix seconds>
+ *   X-Chatwoot-Signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+ *
+ * Several secrets can be valid at once so a key can be rotated without
+ * dropping deliveries signed with the previous one.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type SignatureRejectReason =
+  | 'missing_signature'
+  | 'missing_timestamp'
+  | 'invalid_timestamp'
+  | 'stale_timestamp'
+  | 'no_secret_configured'
+  | 'signature_mismatch'
+  | 'replayed';
+
+export interface SignatureCheckResult {
+  valid: boolean;
+  reason?: SignatureRejectReason;
+  secretId?: string;
+}
+
+export interface SigningSecret {
+  id: string;
+  secret: string;
+}
+
+/**
+ * Compute the hex signature for a payload (without the "sha256=" prefix).
+ */
+export function computeSignature(secret: string, timestamp: string, rawBody: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+}
+
+/**
+ * Verify a signed payload against every candidate secret.
+ * Returns the id of the secret that matched so callers can track rotation.
+ */
+export function verifySignature(params: {
+  rawBody: string;
+  timestamp: string | undefined;
+  signature: string | undefined;
+  secrets: SigningSecret[];
+  toleranceSeconds: number;
+  now?: number;
+}): SignatureCheckResult {
+  const { rawBody, timestamp, signature, secrets, toleranceSeconds } = params;
+  const now = params.now ?? Date.now();
+
+  if (!signature) return { valid: false, reason: 'missing_signature' };
+  if (!timestamp) return { valid: false, reason: 'missing_timestamp' };
+
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || ts <= 0) {
+    return { valid: false, reason: 'invalid_timestamp' };
+  }
+
+  // Replay window: reject anything signed too far in the past or future
+  if (Math.abs(now / 1000 - ts) > toleranceSeconds) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  if (secrets.length === 0) {
+    return { valid: false, reason: 'no_secret_configured' };
+  }
+
+  const provided = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+  for (const candidate of secrets) {
+    const expected = Buffer.from(computeSignature(candidate.secret, timestamp, rawBody), 'hex');
+    if (provided.length === expected.length && timingSafeEqual(provided, expected)) {
+      return { valid: true, secretId: candidate.id };
+    }
+  }
+
+  return { valid: false, reason: 'signature_mismatch' };
+}
@@ -0,0 +1,67 @@
+/**
+ * Plato Inteligente — Account Deletion (erase) job
+ *
+ * Runs once a deletion's grace period is over (or right away for admin
+ * `immediate` requests):
+ *   1. Remove the user's BullMQ jobs (inbound, check-ins, digests, reminders…)
+ *   2. Delete their Redis keys (burst buffer, inbound ordering, throttle)
+ *   3. Erase every DB row + verify nothing remains (AccountDeletionService.erase)
+ *   4. WhatsApp requests get a last "your data is gone" message
+ */
+
+import { Logger } from 'pino';
+import { AccountDeletionService, DeletionReceipt } from '../../domain/account-deletion/service';
+import { IngestThrottleService } from '../../domain/throttle/service';
+import { MessagingService } from '../../domain/messaging/service';
+import { db } from '../../infra/db/client';
+import { redis, removeUserJobs } from '../../infra/queue/client';
+import { clearInboundOrder } from '../../infra/queue/ordering';
+import { ChannelName } from '../../shared/types';
+import { t } from '../../shared/messages';
+import { clearBurstBuffer } from './burst';
+
+const accountDeletionService = new AccountDeletionService(db);
+const ingestThrottle = new IngestThrottleService(redis);
+const messagingService = new MessagingService(db);
+
+export async function handleAccountDeletion(
+  deletionId: string,
+  logger: Logger,
+): Promise<{ erased: boolean; receipt?: DeletionReceipt }> {
+  const target = await accountDeletionService.loadTarget(deletionId);
+  if (!target || target.deletion.status !== 'scheduled') {
+    logger.info({ deletionId, status: target?.deletion.status }, 'Account deletion not scheduled — skipping');
+    return { erased: false };
+  }
+
+  const { deletion, user } = target;
+  let queueJobsRemoved = 0;
+  let redisKeysRemoved = 0;
+
+  if (user) {
+    queueJobsRemoved = await removeUserJobs(deletion.userId, user.phone);
+    redisKeysRemoved += await clearBurstBuffer(deletion.userId);
+    redisKeysRemoved += await clearInboundOrder(user.phone);
+    if (await ingestThrottle.clear(user.phone)) redisKeysRemoved++;
+  }
+
+  const receipt = await accountDeletionService.erase(deletionId, { queueJobsRemoved, redisKeysRemoved });
+
+  if (user && deletion.requestedVia === 'whatsapp') {
+    try {
+      await messagingService.sendMessage(
+        {
+          phone: user.phone,
+          conversationId: user.conversationId ?? undefined,
+          channel: (user.channel as ChannelName | null) ?? undefined,
+        },
+        t('deletion.completed', user.language || 'es'),
+      );
+    } catch (error) {
+      // The erase already happened — the goodbye is best effort
+      logger.warn({ deletionId, error: (error as Error).message }, 'Could not send deletion confirmation');
+    }
+  }
+
+  return { erased: true, receipt };
+}
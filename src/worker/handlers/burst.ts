@@ -0,0 +1,140 @@
+/**
+ * Plato Inteligente — Burst Coalescing
+ *
+ * Users often send several messages in a few seconds ("desayuné", photo,
+ * "con café"). Instead of one health event + one ack per message:
+ *
+ *   1. Each active-phase message is appended to a per-user Redis buffer
+ *   2. A debounced flush job is (re)scheduled windowMs after the LAST message
+ *   3. The flush merges the buffer into ONE health event and sends ONE ack
+ *
+ * Window length comes from the `inbound_burst_window` feature flag.
+ */
+
+import { Logger } from 'pino';
+import { BurstFlushJobData, JobResult } from '../../shared/types';
+import { HealthEventService, eventSourceForChannel } from '../../domain/health-event/service';
+import { MessagingService } from '../../domain/messaging/service';
+import { db, getFeatureFlag } from '../../infra/db/client';
+import { redis, addBurstFlushJob } from '../../infra/queue/client';
+import { logExecution } from '../../infra/logging/logger';
+import { isQuestion, getSmartAck } from '../../shared/ack-messages';
+
+const healthEventService = new HealthEventService(db);
+const messagingService = new MessagingService(db);
+
+const BURST_KEY_PREFIX = 'inbound:burst:';
+const DEFAULT_WINDOW_MS = 8000;
+const MAX_WINDOW_MS = 60000;
+// Keep the buffer well past the window so a delayed flush never finds it expired
+const BUFFER_GRACE_MS = 10 * 60 * 1000;
+
+export interface BurstPart {
+  correlationId: string;
+  text: string;
+  imageUrl: string | null;
+  mediaUrls: string[];
+  receivedAt: string;
+}
+
+/**
+ * Current debounce window in ms (0 = buffering disabled).
+ */
+export async function getBurstWindowMs(): Promise<number> {
+  const flag = await getFeatureFlag('inbound_burst_window');
+  if (!flag?.enabled) return 0;
+
+  const value = flag.value as { windowMs?: number } | null;
+  const windowMs = Number(value?.windowMs ?? DEFAULT_WINDOW_MS);
+  if (!Number.isFinite(windowMs) || windowMs <= 0) return 0;
+
+  return Math.min(windowMs, MAX_WINDOW_MS);
+}
+
+/**
+ * Append a message to the user's burst buffer and push the flush back.
+ */
+export async function bufferBurstMessage(
+  job: Omit<BurstFlushJobData, 'type'>,
+  part: BurstPart,
+  windowMs: number,
+): Promise<void> {
+  const key = `${BURST_KEY_PREFIX}${job.userId}`;
+
+  await redis
+    .multi()
+    .rpush(key, JSON.stringify(part))
+    .pexpire(key, windowMs + BUFFER_GRACE_MS)
+    .exec();
+
+  await addBurstFlushJob({ type: 'flush_burst', ...job }, windowMs);
+}
+
+/**
+ * Drop anything still buffered for the user (account deletion). Returns keys removed.
+ */
+export async function clearBurstBuffer(userId: string): Promise<number> {
+  return redis.del(`${BURST_KEY_PREFIX}${userId}`);
+}
+
+/**
+ * Flush job: merge everything buffered for the user into one event + one ack.
+ */
+export async function handleBurstFlush(
+  data: BurstFlushJobData,
+  logger: Logger,
+): Promise<JobResult> {
+  const { correlationId, userId, conversationId, channel, language } = data;
+  const key = `${BURST_KEY_PREFIX}${userId}`;
+
+  const raw = await redis.lrange(key, 0, -1);
+  if (raw.length === 0) {
+    logger.info({ userId }, 'Burst buffer empty — nothing to flush');
+    return { status: 'skipped', correlationId, action: 'burst_empty' };
+  }
+
+  const parts = raw.map(r => JSON.parse(r) as BurstPart);
+  const mergedText = parts.map(p => p.text).filter(Boolean).join('\n');
+  const mediaUrls = parts.flatMap(p => p.mediaUrls);
+  const imageUrl = parts.find(p => p.imageUrl)?.imageUrl ?? null;
+  const questionDetected = isQuestion(mergedText);
+
+  const event = await logExecution(
+    correlationId,
+    'save_health_event',
+    async () => healthEventService.saveEvent({
+      userId,
+      rawInput: mergedText,
+      imageUrl,
+      mediaUrls,
+      language,
+      isQuestion: questionDetected,
+      source: eventSourceForChannel(channel),
+    }),
+    logger,
+    { logInput: { burstSize: parts.length, correlationIds: parts.map(p => p.correlationId) } },
+  );
+
+  // Drop only what was merged — messages that arrived meanwhile stay buffered
+  await redis.ltrim(key, parts.length, -1);
+
+  logger.info(
+    { eventId: event.id, userId, burstSize: parts.length, isQuestion: questionDetected },
+    'Burst merged into one health event',
+  );
+
+  const ackMessage = await getSmartAck(mergedText, language, questionDetected, !!imageUrl);
+
+  await logExecution(
+    correlationId,
+    'send_ack',
+    async () => messagingService.sendMessage({ userId, conversationId, channel }, ackMessage),
+    logger,
+  );
+
+  return {
+    status: 'completed',
+    correlationId,
+    action: questionDetected ? 'burst_question_acked' : 'burst_input_acked',
+  };
+}
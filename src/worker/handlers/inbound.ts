@@ -3,56 +3,104 @@
  *
  * Flow: NO AI calls during the day (except Whisper for voice).
  *
+ * ANY PHASE:
+ *   "pausa" / "stop" turn off proactive messages (reminders, summaries,
+ *   check-ins, nudges); "volver" turns them back on. Replies still go out.
+ *   "mis datos" queues a ZIP export of everything stored about the user
+ *   (domain/export/service.ts). "borrar mis datos" schedules the erase of
+ *   the account after a grace period; "cancelar borrado" keeps it
+ *   (domain/account-deletion/service.ts). "english" / "idioma español" locks
+ *   the reply language; "idioma automático" goes back to detection
+ *   (domain/language/service.ts). "zona horaria Madrid" sets the timezone
+ *   reminders, summaries and event dates follow (shared/timezone.ts).
+ *
  * NEW USER:
  *   1. Create client profile
  *   2. Send intro + Q1
  *   3. Set conversation phase = 'onboarding', onboarding_step = 1
  *
  * ONBOARDING (steps 1-5):
+ *   0. Commands: "reiniciar" starts over, "saltar" skips to ACTIVE (archetype
+ *      from the answers so far), "continuar" repeats the question. Photos and
+ *      meal logs are not answers — they take the ACTIVE path below.
  *   1. Save answer to client profile
  *   2. If step < 5: send next question
  *   3. If step == 5: score archetype → save → send completion + archetype message
  *                    set phase = 'active'
+ *      (users in the archetype_classifier experiment also get a Claude
+ *      classification — domain/archetype/classification.ts)
+ *   Users silent on a question get nudged (worker/index.ts, onboarding nudges).
  *
  * ACTIVE:
  *   1. Transcribe voice (Whisper) if needed
- *   2. Detect language
+ *   2. Language: voice transcripts count as evidence for a switch
  *   3. Safety check (rule-based, no AI)
- *   4. Save raw input to health_events (processed=FALSE)
- *   5. Send smart ack (Haiku mirrors the user's words)
+ *   4. If the burst window is on: buffer, and a debounced flush job does 5-6
+ *      once for the whole burst (handlers/burst.ts)
+ *   5. Save raw input to health_events (processed=FALSE)
+ *   6. Send smart ack (Haiku mirrors the user's words) — skipped when a
+ *      dead-letter replay asks for no ack
  *
  * All pattern detection and PDF generation happen in the nightly pipeline.
  */
 
 import { Logger } from 'pino';
-import { InboundJobData, JobResult } from '../../shared/types';
+import { InboundJobData, JobResult, OnboardingFlow } from '../../shared/types';
 import { UserService } from '../../domain/user/service';
-import { HealthEventService } from '../../domain/health-event/service';
+import { HealthEventService, eventSourceForChannel } from '../../domain/health-event/service';
 import { ClientProfileService } from '../../domain/client-profile/service';
 import { mediaService } from '../../domain/media/service';
 import { ConversationService } from '../../domain/conversation/service';
-import { ChatwootClient } from '../../adapters/chatwoot/client';
-import { db } from '../../infra/db/client';
-import { logExecution } from '../../infra/logging/logger';
+import { MessagingService, Recipient } from '../../domain/messaging/service';
+import { buildConversationKey } from '../../shared/conversation';
+import { db, claimIdempotencyKey, checkIdempotencyKey } from '../../infra/db/client';
+import { logExecution, saveExecutionLog } from '../../infra/logging/logger';
 import { detectLanguage } from '../../shared/language';
 import { isQuestion, getSmartAck } from '../../shared/ack-messages';
+import { t } from '../../shared/messages';
+import { getBurstWindowMs, bufferBurstMessage } from './burst';
+import { OnboardingFlowService } from '../../domain/onboarding/service';
+import { ArchetypeClassificationService } from '../../domain/archetype/classification';
+import { OptOutService } from '../../domain/opt-out/service';
+import { DataExportService } from '../../domain/export/service';
+import { AccountDeletionService } from '../../domain/account-deletion/service';
+import { LanguagePreferenceService } from '../../domain/language/service';
+import { addDataExportJob } from '../../infra/queue/client';
 import {
-  getOnboardingIntro,
-  getQuestion,
-  getOnboardingComplete,
+  localize,
+  getFirstStep,
+  findCurrentStep,
+  getNextStep,
   getArchetypeMessage,
-  detectArchetype,
 } from '../../shared/onboarding';
+import { detectOnboardingCommand, detectNonAnswer } from '../../shared/onboarding-commands';
+import { detectOptOutCommand } from '../../shared/opt-out-commands';
+import { detectAccountCommand } from '../../shared/account-commands';
+import { detectLanguageCommand } from '../../shared/language-commands';
+import { detectTimezoneCommand } from '../../shared/timezone-commands';
+import { localTimeString } from '../../shared/timezone';
 
 const userService = new UserService(db);
 const healthEventService = new HealthEventService(db);
 const clientProfileService = new ClientProfileService(db);
 const conversationService = new ConversationService(db);
-const chatwootClient = new ChatwootClient();
+const messagingService = new MessagingService(db);
+const onboardingFlowService = new OnboardingFlowService(db);
+const archetypeClassificationService = new ArchetypeClassificationService(db);
+const optOutService = new OptOutService(db);
+const dataExportService = new DataExportService(db);
+const accountDeletionService = new AccountDeletionService(db);
+const languageService = new LanguagePreferenceService(db);
 
+/**
+ * Errors are rethrown so the job fails in BullMQ (retry, then dead letters).
+ * The user gets the fallback reply once, on the failure that won't be
+ * retried — `isFinalFailure` says which one that is.
+ */
 export async function handleInboundMessage(
   data: InboundJobData,
-  logger: Logger
+  logger: Logger,
+  isFinalFailure: (error: Error) => boolean = () => true,
 ): Promise<JobResult> {
   const { correlationId, conversationId } = data;
   let responseSent = false;
@@ -66,28 +114,21 @@ export async function handleInboundMessage(
       conversationId,
       error: err.message,
       stack: err.stack,
-    }, 'Unhandled error in message processing — sending fallback response');
+    }, 'Unhandled error in message processing');
 
-    if (!responseSent) {
+    if (!responseSent && isFinalFailure(err)) {
       try {
         const detectedLang = detectLanguage(data.message) || 'es';
-        const fallbackMessages: Record<string, string> = {
-          es: 'Lo siento, tuve un problema temporal. ¿Podrías intentar enviarlo de nuevo?',
-          en: "Sorry, I had a temporary issue. Could you try sending it again?",
-          pt: 'Desculpe, tive um problema temporário. Poderia tentar novamente?',
-          fr: "Désolé, j'ai eu un problème temporaire. Pourriez-vous réessayer?",
-        };
-        await chatwootClient.sendMessage(conversationId, fallbackMessages[detectedLang] || fallbackMessages.es!);
+        await messagingService.sendMessage(
+          { phone: data.phone, conversationId, channel: data.channel },
+          t('inbound.temporary_error', detectedLang),
+        );
       } catch (sendErr) {
         logger.error({ correlationId, error: sendErr }, 'Failed to send fallback message');
       }
     }
 
-    return {
-      status: 'failed' as const,
-      correlationId,
-      error: err.message,
-    };
+    throw err;
   }
 }
 
@@ -98,6 +139,11 @@ async function _handleInboundMessage(
 ): Promise<JobResult> {
   const { correlationId, phone, message, conversationId, attachments } = data;
 
+  // ── Step 0: Message-level dedupe (second line of defence after ingest) ──
+  if (data.dedupeKey && !(await claimMessage(data, logger))) {
+    return { status: 'skipped', correlationId, action: 'duplicate_message' };
+  }
+
   // ── Step 1: Load or create user ──────────────────────────────────────────
   const user = await logExecution(
     correlationId,
@@ -108,27 +154,164 @@ async function _handleInboundMessage(
 
   logger.info({ userId: user.id, isNew: user.isNew }, 'User loaded');
 
-  // ── Step 2: Detect language early (before onboarding check) ─────────────
-  const detectedLang = detectLanguage(message) || user.language || 'es';
-  if (detectedLang !== user.language) {
-    await userService.updateLanguage(user.id, detectedLang as 'es' | 'en' | 'pt' | 'fr');
-    user.language = detectedLang as 'es' | 'en' | 'pt' | 'fr';
+  // ── Step 2: Language (before onboarding check) ──────────────────────────
+  // An explicit "english" / "idioma español" locks the choice; otherwise
+  // detection only switches after repeated evidence (domain/language/service.ts)
+  const languageCommand = detectLanguageCommand(message);
+  if (languageCommand?.type === 'set') {
+    await languageService.setPreference(user.id, languageCommand.language, 'command', message);
+    user.language = languageCommand.language;
+  } else if (!languageCommand) {
+    user.language = await languageService.observe(user.id, message, user.isNew);
   }
   const lang = user.language || 'es';
 
   // ── Step 3: Load conversation state ─────────────────────────────────────
-  const stateResult = await db.query<{ phase: string; onboarding_step: number | null }>(
-    'SELECT phase, onboarding_step FROM conversation_state WHERE user_id = $1',
+  const stateResult = await db.query<{
+    phase: string;
+    onboarding_step: number | null;
+    onboarding_flow_id: string | null;
+    onboarding_step_id: string | null;
+  }>(
+    `SELECT phase, onboarding_step, onboarding_flow_id, onboarding_step_id
+     FROM conversation_state WHERE user_id = $1`,
     [user.id],
   );
   const currentPhase = stateResult.rows[0]?.phase || 'onboarding';
   const onboardingStep = stateResult.rows[0]?.onboarding_step || 0;
+  const onboardingFlowId = stateResult.rows[0]?.onboarding_flow_id ?? null;
+  const onboardingStepId = stateResult.rows[0]?.onboarding_step_id ?? null;
 
-  // Keep conversation_id current so schedulers can find this user
+  // Keep conversation identity + channel current so schedulers can find this user
+  // (Cloud API / SMS messages carry conversation_id 0 — don't clobber a real one)
+  const channel = data.channel ?? 'chatwoot';
+  const conversationKey = data.conversationKey ?? buildConversationKey({ channel, phone, conversationId });
   await db.query(
-    'UPDATE conversation_state SET conversation_id = $2 WHERE user_id = $1',
-    [user.id, conversationId],
+    `UPDATE conversation_state
+     SET conversation_id = CASE WHEN $2 = 0 THEN COALESCE(conversation_id, 0) ELSE $2 END,
+         channel = $3,
+         conversation_key = $4
+     WHERE user_id = $1`,
+    [user.id, conversationId, channel, conversationKey],
   );
+  const recipient = { userId: user.id, phone, conversationId, channel };
+
+  // ── PAUSE / STOP / RESUME: proactive messages ────────────────────────────
+  const optOutCommand = detectOptOutCommand(message, channel);
+  if (optOutCommand === 'pause' || optOutCommand === 'stop') {
+    if (user.isNew) await clientProfileService.create(user.id);
+
+    await optOutService.optOut(user.id, optOutCommand, message);
+    await messagingService.sendMessage(recipient, t(optOutCommand === 'pause' ? 'optout.paused' : 'optout.stopped', lang));
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: `opt_out_${optOutCommand}` };
+  }
+
+  // "resume"/"start" only mean this when opted out — otherwise they fall through
+  // (e.g. "resume" repeats the pending onboarding question)
+  if (optOutCommand === 'resume' && !user.isNew && await optOutService.resume(user.id, message)) {
+    await messagingService.sendMessage(recipient, t('optout.resumed', lang));
+    markResponseSent();
+
+    if (currentPhase === 'onboarding' && onboardingStep === 0) {
+      // Opted out before onboarding began
+      await startOnboarding(user.id, recipient, lang, logger);
+    } else if (currentPhase === 'onboarding') {
+      const flow = await loadUserFlow(onboardingFlowId);
+      const step = findCurrentStep(flow.definition, onboardingStepId, onboardingStep);
+      await messagingService.sendMessage(recipient, t('onboarding.resume', lang, { question: localize(step.text, lang) }));
+      await touchOnboardingStep(user.id);
+    }
+
+    return { status: 'completed', correlationId, action: 'opt_out_resumed' };
+  }
+
+  // ── LANGUAGE: "english" / "idioma español" / "idioma automático" ─────────
+  // New users go straight into onboarding, which is now in their language
+  if (languageCommand?.type === 'set' && !user.isNew) {
+    await messagingService.sendMessage(recipient, t('language.set', lang));
+    markResponseSent();
+
+    if (currentPhase === 'onboarding' && onboardingStep >= 1) {
+      const flow = await loadUserFlow(onboardingFlowId);
+      const step = findCurrentStep(flow.definition, onboardingStepId, onboardingStep);
+      await messagingService.sendMessage(recipient, t('onboarding.resume', lang, { question: localize(step.text, lang) }));
+      await touchOnboardingStep(user.id);
+    }
+
+    return { status: 'completed', correlationId, action: 'language_set' };
+  }
+
+  if (languageCommand?.type === 'auto' && !user.isNew) {
+    await languageService.unlock(user.id, 'command', message);
+    await messagingService.sendMessage(recipient, t('language.auto', lang));
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: 'language_auto' };
+  }
+
+  // ── TIMEZONE: "zona horaria Madrid" / "timezone Europe/Madrid" ───────────
+  const timezoneCommand = user.isNew ? null : detectTimezoneCommand(message);
+  if (timezoneCommand?.type === 'set') {
+    await userService.updateTimezone(user.id, timezoneCommand.timezone, 'command');
+    await messagingService.sendMessage(recipient, t('timezone.set', lang, {
+      timezone: timezoneCommand.timezone,
+      time: localTimeString(timezoneCommand.timezone),
+    }));
+    markResponseSent();
+
+    logger.info({ userId: user.id, from: user.timezone, to: timezoneCommand.timezone }, 'User timezone set by command');
+    return { status: 'completed', correlationId, action: 'timezone_set' };
+  }
+
+  if (timezoneCommand) {
+    await messagingService.sendMessage(recipient, timezoneCommand.type === 'unknown'
+      ? t('timezone.unknown', lang, { query: timezoneCommand.query })
+      : t('timezone.current', lang, { timezone: user.timezone, time: localTimeString(user.timezone) }));
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: `timezone_${timezoneCommand.type}` };
+  }
+
+  // ── ACCOUNT DATA: "mis datos" / "borrar mis datos" / "cancelar borrado" ──
+  const accountCommand = user.isNew ? null : detectAccountCommand(message);
+  if (accountCommand === 'export') {
+    const exportId = await dataExportService.requestExport(user.id);
+    if (exportId) {
+      await addDataExportJob(exportId, conversationId || undefined);
+    }
+    await messagingService.sendMessage(recipient, t(exportId ? 'export.queued' : 'export.in_progress', lang));
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: exportId ? 'data_export_queued' : 'data_export_pending' };
+  }
+
+  if (accountCommand === 'delete') {
+    const scheduled = await accountDeletionService.schedule(user.id, { via: 'whatsapp', reason: message });
+    if (scheduled?.created) {
+      // Nothing proactive during the grace period
+      await optOutService.optOut(user.id, 'stop', message);
+    }
+    const date = scheduled
+      ? new Intl.DateTimeFormat(lang, { dateStyle: 'long' }).format(scheduled.deletion.scheduledFor)
+      : '';
+    await messagingService.sendMessage(
+      recipient,
+      t(scheduled?.created === false ? 'deletion.already_scheduled' : 'deletion.scheduled', lang, { date }),
+    );
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: 'account_deletion_scheduled' };
+  }
+
+  // Only means this while a deletion is pending — otherwise an ordinary message
+  if (accountCommand === 'cancel_delete' && await accountDeletionService.cancel(user.id)) {
+    await messagingService.sendMessage(recipient, t('deletion.canceled', lang));
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: 'account_deletion_canceled' };
+  }
 
   // ── NEW USER: Start onboarding ───────────────────────────────────────────
   if (user.isNew) {
@@ -137,67 +320,120 @@ async function _handleInboundMessage(
     // Create client profile
     await clientProfileService.create(user.id);
 
-    // Send intro + Q1 as a single message
-    const intro = getOnboardingIntro(lang);
-    const q1 = getQuestion(1, lang);
-    await chatwootClient.sendMessage(conversationId, `${intro}\n\n${q1}`);
+    await startOnboarding(user.id, recipient, lang, logger);
     markResponseSent();
 
-    // Set onboarding_step = 1 (waiting for answer to Q1)
-    await db.query(
-      `UPDATE conversation_state
-       SET phase = 'onboarding', onboarding_step = 1
-       WHERE user_id = $1`,
-      [user.id],
+    return { status: 'completed', correlationId, action: 'onboarding_started' };
+  }
+
+  const inOnboarding = currentPhase === 'onboarding' && onboardingStep >= 1;
+
+  // ── ONBOARDING COMMANDS: restart / skip / resume ─────────────────────────
+  const command = detectOnboardingCommand(message, inOnboarding);
+  if (command === 'restart') {
+    logger.info({ userId: user.id, fromPhase: currentPhase }, 'Onboarding restarted by user');
+
+    await clientProfileService.resetOnboarding(user.id);
+    await startOnboarding(user.id, recipient, lang, logger);
+    markResponseSent();
+
+    return { status: 'completed', correlationId, action: 'onboarding_restarted' };
+  }
+
+  if (inOnboarding && command) {
+    const flow = await loadUserFlow(onboardingFlowId);
+    const step = findCurrentStep(flow.definition, onboardingStepId, onboardingStep);
+
+    if (command === 'resume') {
+      await messagingService.sendMessage(
+        recipient,
+        t('onboarding.resume', lang, { question: localize(step.text, lang) }),
+      );
+      markResponseSent();
+      await touchOnboardingStep(user.id);
+
+      return { status: 'completed', correlationId, action: 'onboarding_resumed' };
+    }
+
+    // Skip: score whatever was answered so far and go straight to logging
+    const profile = await clientProfileService.findByUserId(user.id);
+    const answered = profile?.onboardingAnswers ?? [];
+    const { archetype, scores, reasons } = await archetypeClassificationService.classifyOnboarding(
+      user.id, answered, flow.definition, lang,
     );
+    await clientProfileService.setArchetype(user.id, archetype, scores, [
+      `Onboarding skipped after ${answered.length} answer(s)`,
+      ...reasons,
+    ]);
+    await clientProfileService.markOnboardingSkipped(user.id);
+
+    await messagingService.sendMessage(
+      recipient,
+      `${t('onboarding.skipped', lang)}\n\n${getArchetypeMessage(archetype, lang)}`,
+    );
+    markResponseSent();
+    await finishOnboarding(user.id);
 
-    return { status: 'completed', correlationId, action: 'onboarding_started' };
+    logger.info({ userId: user.id, skippedAt: step.id, archetype }, 'Onboarding skipped by user');
+    return { status: 'completed', correlationId, action: 'onboarding_skipped' };
   }
 
   // ── ONBOARDING: Process answer, send next question ───────────────────────
-  if (currentPhase === 'onboarding' && onboardingStep >= 1 && onboardingStep <= 5) {
-    logger.info({ userId: user.id, step: onboardingStep }, 'Processing onboarding answer');
+  // Photos and meal logs sent mid-onboarding aren't answers — they go through
+  // the normal flow below (saved as health events) and the question stays open
+  const nonAnswer = inOnboarding ? detectNonAnswer(message, attachments) : null;
+  if (nonAnswer) {
+    logger.info({ userId: user.id, reason: nonAnswer, step: onboardingStepId }, 'Onboarding non-answer — saving as health event');
+  }
+
+  if (inOnboarding && !nonAnswer) {
+    // Stay on the version the user started; fall back to the active one if it
+    // was deleted or the user started before flows were versioned
+    const flow = await loadUserFlow(onboardingFlowId);
+    const step = findCurrentStep(flow.definition, onboardingStepId, onboardingStep);
+
+    logger.info({ userId: user.id, step: step.id, flowVersion: flow.version }, 'Processing onboarding answer');
 
     // Save this answer
-    await clientProfileService.saveOnboardingAnswer(user.id, onboardingStep, message);
+    await clientProfileService.saveOnboardingAnswer(user.id, step.scoreAs ?? 0, message, step.id);
 
-    if (onboardingStep < 5) {
+    const nextStep = getNextStep(flow.definition, step, message);
+
+    if (nextStep) {
       // Send the next question
-      const nextStep = onboardingStep + 1;
-      const nextQuestion = getQuestion(nextStep, lang);
-      await chatwootClient.sendMessage(conversationId, nextQuestion);
+      await messagingService.sendMessage(recipient, localize(nextStep.text, lang));
       markResponseSent();
 
-      // Advance the step
+      // Advance the step (and restart the stalled-user clock)
       await db.query(
-        `UPDATE conversation_state SET onboarding_step = $2 WHERE user_id = $1`,
-        [user.id, nextStep],
+        `UPDATE conversation_state
+         SET onboarding_step = $2, onboarding_flow_id = $3, onboarding_step_id = $4,
+             onboarding_step_at = NOW(), onboarding_nudge_count = 0
+         WHERE user_id = $1`,
+        [user.id, onboardingStep + 1, flow.id, nextStep.id],
       );
 
-      return { status: 'completed', correlationId, action: `onboarding_q${onboardingStep}_answered` };
+      return { status: 'completed', correlationId, action: `onboarding_${step.id}_answered` };
     } else {
-      // Q5 answered — score archetype, send completion messages, move to active
+      // Flow finished — score archetype, send completion messages, move to active
       const profile = await clientProfileService.findByUserId(user.id);
       const answers = profile?.onboardingAnswers ?? [];
 
-      const { archetype, scores } = detectArchetype(answers);
-      await clientProfileService.setArchetype(user.id, archetype, scores);
+      const { archetype, scores, reasons, variant } = await archetypeClassificationService.classifyOnboarding(
+        user.id, answers, flow.definition, lang,
+      );
+      await clientProfileService.setArchetype(user.id, archetype, scores, reasons);
+      await clientProfileService.setCompletedFlow(user.id, flow.id, flow.version);
 
-      logger.info({ userId: user.id, archetype, scores }, 'Archetype detected');
+      logger.info({ userId: user.id, archetype, scores, variant, flowVersion: flow.version }, 'Archetype detected');
 
       // Send completion message + archetype-specific first impression
-      const completionMsg = getOnboardingComplete(lang);
+      const completionMsg = localize(flow.definition.complete, lang);
       const archetypeMsg = getArchetypeMessage(archetype, lang);
-      await chatwootClient.sendMessage(conversationId, `${completionMsg}\n\n${archetypeMsg}`);
+      await messagingService.sendMessage(recipient, `${completionMsg}\n\n${archetypeMsg}`);
       markResponseSent();
 
-      // Move to active phase
-      await db.query(
-        `UPDATE conversation_state
-         SET phase = 'active', onboarding_step = NULL
-         WHERE user_id = $1`,
-        [user.id],
-      );
+      await finishOnboarding(user.id);
 
       return { status: 'completed', correlationId, action: 'onboarding_complete' };
     }
@@ -208,6 +444,7 @@ async function _handleInboundMessage(
   // Step A: Transcribe voice messages (only AI cost during the day)
   let processedMessage = message;
   let imageUrl: string | null = null;
+  const mediaUrls = (attachments ?? []).map(a => a.url);
 
   if (attachments && attachments.length > 0) {
     processedMessage = await logExecution(
@@ -223,11 +460,10 @@ async function _handleInboundMessage(
     }
   }
 
-  // Step B: Re-detect language from processed message (voice may differ)
-  const finalLang = detectLanguage(processedMessage) || lang;
-  if (finalLang !== user.language) {
-    await userService.updateLanguage(user.id, finalLang as 'es' | 'en' | 'pt' | 'fr');
-    user.language = finalLang as 'es' | 'en' | 'pt' | 'fr';
+  // Step B: Voice transcripts are new evidence for the language (text was
+  // already observed in step 2)
+  if (processedMessage !== message) {
+    user.language = await languageService.observe(user.id, processedMessage, false);
   }
 
   // Step C: Safety check (rule-based crisis keywords — no AI)
@@ -249,17 +485,7 @@ async function _handleInboundMessage(
   if (safetyCheck.isUrgent) {
     logger.warn({ userId: user.id, type: safetyCheck.type }, 'Crisis message detected');
 
-    const crisisMessages: Record<string, string> = {
-      es: 'Tu mensaje es importante para nosotros. Si estás en crisis, por favor llama a la Línea Nacional 800-290-0024 o Línea de la Vida 800-911-2000. Estamos aquí contigo.',
-      en: 'Your message matters to us. If you\'re in crisis, please call 988 (Suicide & Crisis Lifeline). We\'re here with you.',
-      pt: 'Sua mensagem é importante para nós. Se estiver em crise, ligue para o CVV 188. Estamos aqui com você.',
-      fr: 'Votre message est important pour nous. Si vous êtes en crise, appelez le 3114. Nous sommes avec vous.',
-    };
-
-    await chatwootClient.sendMessage(
-      conversationId,
-      crisisMessages[user.language] || crisisMessages.es!,
-    );
+    await messagingService.sendMessage(recipient, t('crisis.resources', user.language));
     markResponseSent();
 
     await healthEventService.saveEvent({
@@ -268,12 +494,27 @@ async function _handleInboundMessage(
       imageUrl,
       language: user.language,
       isQuestion: false,
-      source: 'whatsapp',
+      source: eventSourceForChannel(channel),
     });
 
     return { status: 'completed', correlationId, action: 'crisis_response_sent' };
   }
 
+  // Step C2: Coalesce bursts — buffer and let a single debounced flush job
+  // save one health event and send one ack (see handlers/burst.ts).
+  // Dead-letter replays are handled on their own so sendAck is honored.
+  const burstWindowMs = data.replay ? 0 : await getBurstWindowMs();
+  if (burstWindowMs > 0) {
+    await bufferBurstMessage(
+      { correlationId, userId: user.id, conversationId, channel, language: user.language },
+      { correlationId, text: processedMessage, imageUrl, mediaUrls, receivedAt: data.timestamp },
+      burstWindowMs,
+    );
+
+    logger.info({ userId: user.id, burstWindowMs }, 'Message buffered for burst flush');
+    return { status: 'completed', correlationId, action: 'burst_buffered' };
+  }
+
   // Step D: Detect if it's a question
   const questionDetected = isQuestion(processedMessage);
 
@@ -285,9 +526,10 @@ async function _handleInboundMessage(
       userId: user.id,
       rawInput: processedMessage,
       imageUrl,
+      mediaUrls,
       language: user.language,
       isQuestion: questionDetected,
-      source: 'whatsapp',
+      source: eventSourceForChannel(channel),
     }),
     logger,
   );
@@ -298,13 +540,18 @@ async function _handleInboundMessage(
   );
 
   // Step F: Send smart ack (Haiku mirrors the user's message, ~$0.001)
+  if (data.replay && !data.replay.sendAck) {
+    logger.info({ userId: user.id, deadLetterId: data.replay.deadLetterId }, 'Replay without ack — event saved silently');
+    return { status: 'completed', correlationId, action: 'replay_saved_no_ack' };
+  }
+
   const hasImage = !!imageUrl;
   const ackMessage = await getSmartAck(processedMessage, user.language, questionDetected, hasImage);
 
   await logExecution(
     correlationId,
     'send_ack',
-    async () => chatwootClient.sendMessage(conversationId, ackMessage),
+    async () => messagingService.sendMessage(recipient, ackMessage),
     logger,
   );
   markResponseSent();
@@ -321,6 +568,100 @@ async function _handleInboundMessage(
   };
 }
 
+// ============================================================================
+// Dedupe
+// ============================================================================
+
+/**
+ * Claim the message for this job. A BullMQ retry of the same job carries the
+ * same correlationId, so it is allowed through; any other job holding the
+ * same dedupe key is a redelivery and gets skipped.
+ */
+async function claimMessage(data: InboundJobData, logger: Logger): Promise<boolean> {
+  const key = `inbound:${data.dedupeKey}`;
+  let decision: 'accepted' | 'retry' | 'duplicate' = 'accepted';
+
+  const claimed = await claimIdempotencyKey(key, { correlationId: data.correlationId }, 24);
+  if (!claimed) {
+    const existing = await checkIdempotencyKey(key) as { correlationId?: string } | null;
+    decision = existing?.correlationId === data.correlationId ? 'retry' : 'duplicate';
+  }
+
+  await saveExecutionLog({
+    correlationId: data.correlationId,
+    action: 'inbound_dedupe',
+    status: 'completed',
+    input: { dedupeKey: data.dedupeKey, messageId: data.messageId ?? null },
+    output: { decision },
+  });
+
+  if (decision === 'duplicate') {
+    logger.info({ dedupeKey: data.dedupeKey }, 'Duplicate inbound message — skipping');
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================================================
+// Onboarding helpers
+// ============================================================================
+
+/**
+ * Put the user on the first step of the active flow and send intro + first question.
+ */
+async function startOnboarding(
+  userId: string,
+  recipient: Recipient,
+  lang: string,
+  logger: Logger,
+): Promise<void> {
+  // New (and restarting) users start on the active flow version
+  const flow = await onboardingFlowService.getActive();
+  const firstStep = getFirstStep(flow.definition);
+
+  // Send intro + first question as a single message
+  const intro = localize(flow.definition.intro, lang);
+  await messagingService.sendMessage(recipient, `${intro}\n\n${localize(firstStep.text, lang)}`);
+
+  // onboarding_step counts questions asked (1 = waiting for the first answer)
+  await db.query(
+    `UPDATE conversation_state
+     SET phase = 'onboarding', onboarding_step = 1,
+         onboarding_flow_id = $2, onboarding_step_id = $3,
+         onboarding_step_at = NOW(), onboarding_nudge_count = 0, onboarding_nudged_at = NULL
+     WHERE user_id = $1`,
+    [userId, flow.id, firstStep.id],
+  );
+
+  logger.info({ userId, flow: flow.name, version: flow.version }, 'Onboarding flow assigned');
+}
+
+async function loadUserFlow(onboardingFlowId: string | null): Promise<OnboardingFlow> {
+  return (onboardingFlowId && await onboardingFlowService.getById(onboardingFlowId))
+    || onboardingFlowService.getActive();
+}
+
+async function touchOnboardingStep(userId: string): Promise<void> {
+  await db.query(
+    'UPDATE conversation_state SET onboarding_step_at = NOW() WHERE user_id = $1',
+    [userId],
+  );
+}
+
+async function finishOnboarding(userId: string): Promise<void> {
+  // Users who paused mid-onboarding land in `paused` until they resume
+  await db.query(
+    `UPDATE conversation_state
+     SET phase = CASE WHEN EXISTS (SELECT 1 FROM users WHERE id = $1 AND opted_out_at IS NOT NULL)
+                      THEN 'paused' ELSE 'active' END,
+         onboarding_step = NULL, onboarding_step_id = NULL,
+         onboarding_step_at = NULL, onboarding_nudge_count = 0, onboarding_nudged_at = NULL
+     WHERE user_id = $1`,
+    [userId],
+  );
+}
+
 // ============================================================================
 // Media Processing (voice → Whisper transcription, images → save URL only)
 // ============================================================================
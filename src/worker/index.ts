@@ -4,9 +4,16 @@
  * Workers:
  * 1. Inbound message worker (save + ack, zero AI during day)
  * 2. Check-in worker (24h follow-ups)
- * 3. Digest worker (processes manual digest jobs)
- * 4. Daily meal check-in scheduler (8 PM ET every day)
- * 5. Weekly summary scheduler (8 PM ET every Friday)
+ * 3. Nightly digests (hourly scan → per-user digest at the local DIGEST_CRON_HOUR,
+ *    as one Message Batch per scan in DIGEST_MODE=batch)
+ * 4. Daily meal check-in scheduler (8 PM user-local every day)
+ * 5. Weekly summary scheduler (8 PM user-local every Friday)
+ * 6. Onboarding nudges (hourly scan for users stalled mid-onboarding)
+ * 7. Archetype re-scoring (daily, proposes behavior-based archetype changes)
+ * 8. Data exports ("mis datos" → ZIP of the user's data over WhatsApp)
+ * 9. Account deletion (hourly scan for deletions past their grace period)
+ *
+ * Every proactive message skips users who paused or stopped ("pausa" / "stop").
  */
 
 import { Worker, Job, Queue } from 'bullmq';
@@ -17,47 +24,52 @@ import { processCheckinJob } from './checkin-processor';
 import { config } from '../config';
 import { logger } from '../infra/logging/logger';
 import { db } from '../infra/db/client';
-import { DigestService } from '../domain/digest/service';
+import { DigestService, HEADS_UP_LEAD_MINUTES } from '../domain/digest/service';
+import { BatchTarget, DigestBatchService } from '../domain/digest/batches';
+import { DigestRunService } from '../domain/digest/runs';
+import { MealNutrition } from '../domain/meal/nutrition-extractor';
 import { HealthEventService } from '../domain/health-event/service';
-import { ChatwootClient } from '../adapters/chatwoot/client';
+import { MessagingService } from '../domain/messaging/service';
+import { DeadLetterService } from '../domain/dead-letter/service';
+import { OnboardingNudgeService } from '../domain/onboarding/nudge';
+import { ArchetypeService } from '../domain/archetype/service';
+import { OptOutService } from '../domain/opt-out/service';
+import { DataExportService } from '../domain/export/service';
+import { AccountDeletionService } from '../domain/account-deletion/service';
+import { handleAccountDeletion } from './handlers/account-deletion';
+import { InboundQueueJobData, NightlyDigestJobData } from '../shared/types';
+import { InvalidAIOutputError } from '../shared/errors';
+import { t, refreshMessageOverrides } from '../shared/messages';
 
 const QUEUE_NAME = 'vivebien-inbound';
 const CHECKIN_QUEUE_NAME = 'vivebien-checkin';
 const DIGEST_QUEUE_NAME = 'plato-daily-digest';
 const REMINDER_QUEUE_NAME = 'plato-daily-reminder';
 const WEEKLY_SUMMARY_QUEUE_NAME = 'plato-weekly-summary';
+const ONBOARDING_NUDGE_QUEUE_NAME = 'plato-onboarding-nudge';
+const ARCHETYPE_RESCORE_QUEUE_NAME = 'plato-archetype-rescore';
+const DATA_EXPORT_QUEUE_NAME = 'plato-data-export';
+const ACCOUNT_DELETION_QUEUE_NAME = 'plato-account-deletion';
 
-const chatwootClient = new ChatwootClient();
-const healthEventService = new HealthEventService(db);
-
-// ============================================================================
-// Heads-up messages (sent 15 min before summary)
-// ============================================================================
-
-const HEADS_UP_MESSAGES: Record<string, string> = {
-  es: 'Estamos terminando tu resumen nocturno. En unos 15 minutos lo tendrás listo.\nSi algo no refleja exactamente tu día o cómo te sentiste, escríbenos aquí mismo. Lo afinamos para que cada noche sea más clara que la anterior.',
-  en: "Your nightly summary is almost ready. You'll have it in about 15 minutes.\nIf anything doesn't quite match your day, just write us here. We'll fine-tune it so each night gets clearer.",
-  pt: 'Seu resumo noturno está quase pronto. Em uns 15 minutos estará listo.\nSe algo não refletir exatamente seu dia, escreva aqui. Ajustamos para que cada noite seja mais clara.',
-  fr: "Votre résumé nocturne est presque prêt. Dans environ 15 minutes il sera là.\nSi quelque chose ne reflète pas votre journée, écrivez-nous ici. On ajuste pour que chaque soir soit plus clair.",
-};
+// Send times, in each user's own timezone (users.timezone)
+const REMINDER_LOCAL_HOUR = 20;
+const WEEKLY_SUMMARY_LOCAL_HOUR = 20;
+const WEEKLY_SUMMARY_LOCAL_WEEKDAY = 5; // Friday
 
-// ============================================================================
-// Daily Meal Check-in Messages
-// ============================================================================
-
-const MEAL_CHECKIN_MESSAGES: Record<string, string> = {
-  es: '¿Qué comiste hoy? 🍽\n\n• *Desayuno:* ¿qué comiste?\n• *Comida:* ¿qué comiste?\n• *Cena:* ¿qué comiste?\n\nY dos señales rápidas:\n• *Energía:* alta / media / baja\n• *Sueño:* bien / regular / mal\n\nEscríbeme lo que recuerdes, aunque sea poco.',
-  en: "What did you eat today? 🍽\n\n• *Breakfast:* what did you have?\n• *Lunch:* what did you have?\n• *Dinner:* what did you have?\n\nTwo quick signals:\n• *Energy:* high / medium / low\n• *Sleep:* good / ok / bad\n\nSend me whatever you remember, even if it's just a little.",
-  pt: 'O que você comeu hoje? 🍽\n\n• *Café da manhã:* o que comeu?\n• *Almoço:* o que comeu?\n• *Jantar:* o que comeu?\n\nDois sinais rápidos:\n• *Energia:* alta / média / baixa\n• *Sono:* bem / regular / mal\n\nMe manda o que lembrar, mesmo que seja pouco.',
-  fr: "Qu'avez-vous mangé aujourd'hui ? 🍽\n\n• *Petit-déjeuner:* qu'avez-vous mangé ?\n• *Déjeuner:* qu'avez-vous mangé ?\n• *Dîner:* qu'avez-vous mangé ?\n\nDeux signaux rapides :\n• *Énergie:* haute / moyenne / basse\n• *Sommeil:* bien / correct / mal\n\nEnvoyez-moi ce dont vous vous souvenez, même un peu.",
-};
-
-function getMealCheckin(language: string): string {
-  return MEAL_CHECKIN_MESSAGES[language] ?? MEAL_CHECKIN_MESSAGES.es!;
-}
+const messagingService = new MessagingService(db);
+const healthEventService = new HealthEventService(db);
+const deadLetterService = new DeadLetterService(db);
+const onboardingNudgeService = new OnboardingNudgeService(db);
+const archetypeService = new ArchetypeService(db);
+const optOutService = new OptOutService(db);
+const dataExportService = new DataExportService(db);
+const accountDeletionService = new AccountDeletionService(db);
+const digestRunService = new DigestRunService(db);
 
 // ============================================================================
 // Worker 1: Inbound Messages
+// Concurrency is global; messages from the same phone still run one at a
+// time, in order (see infra/queue/ordering.ts + processor.ts)
 // ============================================================================
 
 const worker = new Worker(QUEUE_NAME, processJob, {
@@ -86,21 +98,146 @@ const checkinWorker = new Worker(CHECKIN_QUEUE_NAME, processCheckinJob, {
 });
 
 // ============================================================================
-// Worker 3: Nightly Digest (processes individual digest jobs queued manually)
+// Worker 3: Nightly Digest
+// Hourly scan queues a digest for every user at their local DIGEST_CRON_HOUR
+// with unprocessed events (digest_runs keeps the per-night record); the
+// summary waits for coach approval. Jobs queued by hand still generate + send.
+// In DIGEST_MODE=batch the scan submits those users as one Message Batch and
+// the poll job saves the results; per-user jobs are the fallback.
 // ============================================================================
 
 const digestService = new DigestService(db);
+const digestBatchService = new DigestBatchService(db);
+const digestQueue = new Queue(DIGEST_QUEUE_NAME, { connection: redis });
+
+async function queueNightlyDigestJob(target: BatchTarget) {
+  const data: NightlyDigestJobData = {
+    runId: target.runId,
+    runDate: target.runDate,
+    userId: target.userId,
+    language: target.language,
+    userName: target.userName ?? undefined,
+  };
+  await digestQueue.add('nightly-digest', data, {
+    jobId: `nightly-digest-${target.userId}-${target.runDate}`,
+    attempts: 2,
+    backoff: { type: 'exponential', delay: 60000 },
+    removeOnComplete: true,
+  });
+}
+
+async function scheduleNightlyDigests() {
+  try {
+    const targets = await digestRunService.findDueUsers(config.digestCronHour);
+    const queued: BatchTarget[] = [];
+
+    for (const target of targets) {
+      const runId = await digestRunService.ensureRun(target.runDate);
+
+      if (target.optedOut) {
+        await digestRunService.addItem(runId, target.userId, 'skipped', 'opted_out');
+        continue;
+      }
+
+      // Already on tonight's run (scan repeated) — the first job covers it
+      if (!(await digestRunService.addItem(runId, target.userId, 'queued'))) continue;
+      queued.push({ ...target, runId });
+    }
+
+    if (config.digestMode === 'batch' && queued.length > 0) {
+      try {
+        const batchId = await digestBatchService.submit(queued);
+        logger.info({ users: targets.length, batched: queued.length, batchId, hour: config.digestCronHour }, 'Nightly digest batch scheduled');
+        return;
+      } catch (error) {
+        logger.error({ error, users: queued.length }, 'Nightly digest batch submission failed — falling back to per-user jobs');
+      }
+    }
+
+    for (const target of queued) {
+      await queueNightlyDigestJob(target);
+    }
+
+    if (targets.length > 0) {
+      logger.info({ users: targets.length, queued: queued.length, hour: config.digestCronHour }, 'Nightly digest jobs scheduled');
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to schedule nightly digests');
+  }
+}
+
+async function processNightlyDigest(job: Job<NightlyDigestJobData>) {
+  const { runId, runDate, userId, language, userName } = job.data;
+
+  if (await optOutService.isOptedOut(userId)) {
+    await digestRunService.completeItem(runId, userId, { status: 'skipped', reason: 'opted_out' });
+    return { status: 'skipped' };
+  }
+
+  await digestRunService.startItem(runId, userId);
+
+  try {
+    const result = await digestService.generateDigest(userId, runDate, language || 'es', userName);
+
+    if (result.eventsProcessed === 0) {
+      // Processed by a manual trigger since the scan
+      await digestRunService.completeItem(runId, userId, { status: 'skipped', reason: 'no_unprocessed_events' });
+      return { status: 'skipped' };
+    }
+
+    await digestRunService.completeItem(runId, userId, {
+      status: 'ok',
+      eventsProcessed: result.eventsProcessed,
+      nightlySummaryId: result.nightlySummaryId,
+    });
+    logger.info({ userId, runDate, eventCount: result.eventsProcessed, nightlySummaryId: result.nightlySummaryId }, 'Nightly digest generated — pending approval');
+    return { status: 'ok', nightlySummaryId: result.nightlySummaryId };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Repairs were already tried and the night is in the approval queue as
+    // 'failed' — another job attempt would only repeat them
+    if (error instanceof InvalidAIOutputError) {
+      await digestRunService.completeItem(runId, userId, { status: 'failed', reason: message });
+      return { status: 'failed' };
+    }
+    if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+      await digestRunService.completeItem(runId, userId, { status: 'failed', reason: message });
+    } else {
+      await digestRunService.noteRetry(runId, userId, message);
+    }
+    throw error;
+  }
+}
 
 const digestWorker = new Worker(
   DIGEST_QUEUE_NAME,
   async (job: Job) => {
+    if (job.name === 'schedule-nightly-digests') {
+      await scheduleNightlyDigests();
+      return { scheduled: true };
+    }
+
+    if (job.name === 'poll-digest-batches') {
+      const collected = await digestBatchService.pollOpenBatches();
+      return { collected };
+    }
+
+    if (job.name === 'nightly-digest') {
+      return processNightlyDigest(job as Job<NightlyDigestJobData>);
+    }
+
     const { userId, language, userName, conversationId, jobType } = job.data;
+    const optedOut = await optOutService.isOptedOut(userId);
 
     // ── Heads-up message job ──────────────────────────────────────────────
     if (jobType === 'heads-up') {
+      if (optedOut) {
+        logger.info({ userId }, 'User opted out — skipping heads-up');
+        return { sent: false, reason: 'opted_out' };
+      }
       logger.info({ userId, conversationId }, 'Sending heads-up message');
-      const headsUpMsg = HEADS_UP_MESSAGES[language] || HEADS_UP_MESSAGES.es!;
-      await chatwootClient.sendMessage(conversationId, headsUpMsg);
+      const headsUpMsg = t('digest.heads_up', language, { count: HEADS_UP_LEAD_MINUTES });
+      await messagingService.sendMessage({ userId, conversationId }, headsUpMsg);
       return { sent: 'heads-up' };
     }
 
@@ -121,15 +258,17 @@ const digestWorker = new Worker(
       }
 
       // Send summary directly via WhatsApp
-      if (Object.keys(result.summaryData).length > 0 && !result.summaryData.parse_error) {
+      if (optedOut) {
+        logger.info({ userId, nightlySummaryId: result.nightlySummaryId }, 'User opted out — digest generated but not sent');
+      } else if (Object.keys(result.summaryData).length > 0) {
         const message = formatSummaryForWhatsApp(result.summaryData, language || 'es');
-        await chatwootClient.sendMessage(conversationId, message);
+        await messagingService.sendMessage({ userId, conversationId }, message);
         logger.info(
           { userId, eventCount: result.eventsProcessed, nightlySummaryId: result.nightlySummaryId },
           'Nightly digest sent via WhatsApp',
         );
       } else {
-        logger.warn({ userId, summaryData: result.summaryData }, 'Summary empty or parse error — skipping send');
+        logger.warn({ userId, summaryData: result.summaryData }, 'Summary empty — skipping send');
       }
 
       return result;
@@ -140,7 +279,7 @@ const digestWorker = new Worker(
   },
   {
     connection: redis,
-    concurrency: 3,
+    concurrency: config.digestConcurrency,
     maxStalledCount: 1,
     stalledInterval: 120000,
     lockDuration: 300000, // 5 min for AI + PDF generation
@@ -148,20 +287,73 @@ const digestWorker = new Worker(
 );
 
 // ============================================================================
-// Digest Queue — no automatic cron; clear any stale repeat jobs on startup
+// Digest Queue — hourly nightly-digest scan + batch polling
 // ============================================================================
 
-const digestQueue = new Queue(DIGEST_QUEUE_NAME, { connection: redis });
-
+// Clear any stale repeat jobs then register the hourly scan and the batch
+// poll (registered in sync mode too, so batches already out still finish)
 digestQueue.getRepeatableJobs().then(async (jobs) => {
   for (const job of jobs) {
     await digestQueue.removeRepeatableByKey(job.key);
     logger.info({ key: job.key }, 'Removed stale digest repeat job');
   }
+  await digestQueue.add('schedule-nightly-digests', {}, {
+    repeat: { pattern: '0 * * * *' },
+    jobId: 'nightly-digest-scheduler',
+  });
+  logger.info({ cron: '0 * * * *', localHour: config.digestCronHour, concurrency: config.digestConcurrency }, 'Nightly digest scan scheduled');
+  await digestQueue.add('poll-digest-batches', {}, {
+    repeat: { every: config.digestBatchPollSeconds * 1000 },
+    jobId: 'digest-batch-poller',
+  });
+  logger.info({ mode: config.digestMode, pollSeconds: config.digestBatchPollSeconds }, 'Digest batch polling scheduled');
 }).catch(err => {
-  logger.error({ err }, 'Failed to clean up stale digest repeat jobs');
+  logger.error({ err }, 'Failed to schedule nightly digest scan');
 });
 
+// ============================================================================
+// Per-timezone fan-out — the reminder and weekly summary crons run hourly and
+// pick the active users whose local clock is at the send hour
+// ============================================================================
+
+interface LocalTimeUser {
+  user_id: string;
+  language: string;
+  conversation_id: number;
+  timezone: string;
+  // The user's calendar date, for per-day job ids
+  local_date: string;
+}
+
+/**
+ * Active, non-opted-out users for whom it is now `hour` o'clock (and, if
+ * given, `weekday`: 0 = Sunday … 6 = Saturday) in their own timezone.
+ */
+async function findActiveUsersAtLocalTime(hour: number, weekday?: number): Promise<LocalTimeUser[]> {
+  const result = await db.query<LocalTimeUser>(
+    `SELECT user_id, language, conversation_id, timezone, (local_now::date)::text AS local_date
+     FROM (
+       SELECT cs.user_id, u.language, cs.conversation_id, u.timezone,
+              NOW() AT TIME ZONE u.timezone AS local_now
+       FROM conversation_state cs
+       JOIN users u ON u.id = cs.user_id
+       WHERE cs.phase = 'active'
+         AND cs.conversation_id IS NOT NULL
+         AND u.opted_out_at IS NULL
+     ) active_users
+     WHERE EXTRACT(HOUR FROM local_now) = $1
+       AND ($2::int IS NULL OR EXTRACT(DOW FROM local_now) = $2)`,
+    [hour, weekday ?? null],
+  );
+  return result.rows;
+}
+
+function countByTimezone(users: LocalTimeUser[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const user of users) counts[user.timezone] = (counts[user.timezone] ?? 0) + 1;
+  return counts;
+}
+
 // ============================================================================
 // Daily Reminder — Scheduler + Worker
 // ============================================================================
@@ -172,39 +364,26 @@ async function scheduleReminderJobs() {
   logger.info('Running daily reminder scheduler...');
 
   try {
-    // Find all active users (phase = active in conversation_state)
-    const usersResult = await db.query<{
-      user_id: string;
-      language: string;
-      conversation_id: number;
-    }>(
-      `SELECT cs.user_id, u.language, cs.conversation_id
-       FROM conversation_state cs
-       JOIN users u ON u.id = cs.user_id
-       WHERE cs.phase = 'active'
-         AND cs.conversation_id IS NOT NULL`,
-    );
+    const users = await findActiveUsersAtLocalTime(REMINDER_LOCAL_HOUR);
 
-    if (usersResult.rows.length === 0) {
-      logger.info('No active users for daily reminder');
+    if (users.length === 0) {
+      logger.info('No users at their reminder hour');
       return;
     }
 
-    const today = new Date().toISOString().split('T')[0]!;
-
-    for (const user of usersResult.rows) {
+    for (const user of users) {
       await reminderQueue.add('send-reminder', {
         userId: user.user_id,
         language: user.language,
         conversationId: user.conversation_id,
       }, {
-        jobId: `reminder-${user.user_id}-${today}`,
+        jobId: `reminder-${user.user_id}-${user.local_date}`,
         attempts: 2,
         backoff: { type: 'exponential', delay: 15000 },
       });
     }
 
-    logger.info({ userCount: usersResult.rows.length }, 'Daily reminder jobs scheduled');
+    logger.info({ userCount: users.length, timezones: countByTimezone(users) }, 'Daily reminder jobs scheduled');
   } catch (error) {
     logger.error({ error }, 'Failed to schedule reminder jobs');
   }
@@ -219,8 +398,13 @@ const reminderWorker = new Worker(
     }
 
     const { language, conversationId, userId } = job.data;
-    const message = getMealCheckin(language || 'es');
-    await chatwootClient.sendMessage(conversationId, message);
+    if (await optOutService.isOptedOut(userId)) {
+      logger.info({ userId }, 'User opted out — skipping meal check-in');
+      return { sent: false, reason: 'opted_out' };
+    }
+
+    const message = t('reminder.meal_checkin', language || 'es');
+    await messagingService.sendMessage({ userId, conversationId }, message);
     logger.info({ userId, conversationId }, 'Daily meal check-in sent');
     return { sent: true };
   },
@@ -238,10 +422,10 @@ reminderQueue.getRepeatableJobs().then(async (jobs) => {
     logger.info({ key: job.key }, 'Removed stale reminder repeat job');
   }
   await reminderQueue.add('schedule-reminders', {}, {
-    repeat: { pattern: '0 20 * * *', tz: 'America/New_York' },
+    repeat: { pattern: '0 * * * *' },
     jobId: 'daily-reminder-scheduler',
   });
-  logger.info({ cron: '0 20 * * * America/New_York' }, 'Daily meal check-in cron scheduled');
+  logger.info({ cron: '0 * * * *', localHour: REMINDER_LOCAL_HOUR }, 'Daily meal check-in cron scheduled');
 }).catch(err => {
   logger.error({ err }, 'Failed to schedule meal check-in cron');
 });
@@ -254,6 +438,242 @@ reminderWorker.on('failed', (job: Job | undefined, err: Error) => {
   logger.error({ jobId: job?.id, error: err.message }, 'Reminder job failed');
 });
 
+// ============================================================================
+// Onboarding Nudges — hourly scan for users silent on an onboarding question
+// ============================================================================
+
+const onboardingNudgeQueue = new Queue(ONBOARDING_NUDGE_QUEUE_NAME, { connection: redis });
+
+async function scheduleOnboardingNudges() {
+  if (config.onboardingMaxNudges === 0) return;
+
+  try {
+    const stalled = await onboardingNudgeService.findStalled(
+      config.onboardingNudgeAfterHours,
+      config.onboardingMaxNudges,
+    );
+
+    for (const user of stalled) {
+      // One job per user per nudge number — rescans can't double-send
+      await onboardingNudgeQueue.add('send-nudge', {
+        userId: user.userId,
+        nudgeCount: user.nudgeCount,
+      }, {
+        jobId: `onboarding-nudge-${user.userId}-${user.nudgeCount}`,
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 15000 },
+        removeOnComplete: true,
+      });
+    }
+
+    if (stalled.length > 0) {
+      logger.info({ userCount: stalled.length }, 'Onboarding nudge jobs scheduled');
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to schedule onboarding nudges');
+  }
+}
+
+const onboardingNudgeWorker = new Worker(
+  ONBOARDING_NUDGE_QUEUE_NAME,
+  async (job: Job) => {
+    if (job.name === 'scan-stalled') {
+      await scheduleOnboardingNudges();
+      return { scanned: true };
+    }
+
+    const { userId, nudgeCount } = job.data as { userId: string; nudgeCount: number };
+    const sent = await onboardingNudgeService.sendNudge(userId, nudgeCount);
+    return { sent };
+  },
+  {
+    connection: redis,
+    concurrency: 5,
+    lockDuration: 60000,
+  },
+);
+
+onboardingNudgeQueue.getRepeatableJobs().then(async (jobs) => {
+  for (const job of jobs) {
+    await onboardingNudgeQueue.removeRepeatableByKey(job.key);
+  }
+  await onboardingNudgeQueue.add('scan-stalled', {}, {
+    repeat: { pattern: '30 * * * *' },
+    jobId: 'onboarding-nudge-scanner',
+  });
+  logger.info({ afterHours: config.onboardingNudgeAfterHours, maxNudges: config.onboardingMaxNudges }, 'Onboarding nudge scan scheduled');
+}).catch(err => {
+  logger.error({ err }, 'Failed to schedule onboarding nudge scan');
+});
+
+onboardingNudgeWorker.on('failed', (job: Job | undefined, err: Error) => {
+  logger.error({ jobId: job?.id, userId: job?.data?.userId, error: err.message }, 'Onboarding nudge job failed');
+});
+
+// ============================================================================
+// Archetype Re-scoring — daily, behavior signals → proposals for the coach
+// ============================================================================
+
+const archetypeRescoreQueue = new Queue(ARCHETYPE_RESCORE_QUEUE_NAME, { connection: redis });
+
+async function scheduleArchetypeRescores() {
+  try {
+    const userIds = await archetypeService.findDueForRescore();
+    const today = new Date().toISOString().split('T')[0]!;
+
+    for (const userId of userIds) {
+      await archetypeRescoreQueue.add('rescore-user', { userId }, {
+        jobId: `archetype-rescore-${userId}-${today}`,
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 15000 },
+        removeOnComplete: true,
+      });
+    }
+
+    logger.info({ userCount: userIds.length }, 'Archetype re-score jobs scheduled');
+  } catch (error) {
+    logger.error({ error }, 'Failed to schedule archetype re-scoring');
+  }
+}
+
+const archetypeRescoreWorker = new Worker(
+  ARCHETYPE_RESCORE_QUEUE_NAME,
+  async (job: Job) => {
+    if (job.name === 'schedule-rescores') {
+      await scheduleArchetypeRescores();
+      return { scheduled: true };
+    }
+
+    const { userId } = job.data as { userId: string };
+    const result = await archetypeService.rescoreUser(userId);
+    return { outcome: result.outcome };
+  },
+  {
+    connection: redis,
+    concurrency: 2,
+    lockDuration: 60000,
+  },
+);
+
+archetypeRescoreQueue.getRepeatableJobs().then(async (jobs) => {
+  for (const job of jobs) {
+    await archetypeRescoreQueue.removeRepeatableByKey(job.key);
+  }
+  await archetypeRescoreQueue.add('schedule-rescores', {}, {
+    repeat: { pattern: '0 5 * * *', tz: 'America/New_York' },
+    jobId: 'archetype-rescore-scheduler',
+  });
+  logger.info({ cron: '0 5 * * * America/New_York' }, 'Archetype re-scoring cron scheduled');
+}).catch(err => {
+  logger.error({ err }, 'Failed to schedule archetype re-scoring cron');
+});
+
+archetypeRescoreWorker.on('failed', (job: Job | undefined, err: Error) => {
+  logger.error({ jobId: job?.id, userId: job?.data?.userId, error: err.message }, 'Archetype re-score job failed');
+});
+
+// ============================================================================
+// Data Exports — queued by the inbound handler, one job per request
+// ============================================================================
+
+const dataExportWorker = new Worker(
+  DATA_EXPORT_QUEUE_NAME,
+  async (job: Job) => {
+    const { exportId, conversationId } = job.data as { exportId: string; conversationId?: number };
+
+    try {
+      await dataExportService.deliver(exportId, conversationId);
+      return { delivered: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await dataExportService.fail(exportId, message, conversationId);
+      }
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 1, // Chromium for the PDF is heavy
+    lockDuration: 300000,
+  },
+);
+
+dataExportWorker.on('failed', (job: Job | undefined, err: Error) => {
+  logger.error({ jobId: job?.id, exportId: job?.data?.exportId, error: err.message }, 'Data export job failed');
+});
+
+// ============================================================================
+// Account Deletion — hourly, erases accounts whose grace period is over
+// (admin `immediate` requests are queued straight from the API)
+// ============================================================================
+
+const accountDeletionQueue = new Queue(ACCOUNT_DELETION_QUEUE_NAME, { connection: redis });
+
+async function scheduleDueDeletions() {
+  try {
+    const deletionIds = await accountDeletionService.findDue();
+
+    for (const deletionId of deletionIds) {
+      await accountDeletionQueue.add('erase-account', { deletionId }, {
+        jobId: `account-deletion-${deletionId}`,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 60000 },
+        removeOnComplete: true,
+      });
+    }
+
+    if (deletionIds.length > 0) {
+      logger.info({ count: deletionIds.length }, 'Account deletion jobs scheduled');
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to schedule account deletions');
+  }
+}
+
+const accountDeletionWorker = new Worker(
+  ACCOUNT_DELETION_QUEUE_NAME,
+  async (job: Job) => {
+    if (job.name === 'process-due-deletions') {
+      await scheduleDueDeletions();
+      return { scheduled: true };
+    }
+
+    const { deletionId } = job.data as { deletionId: string };
+    try {
+      const result = await handleAccountDeletion(deletionId, logger);
+      return { erased: result.erased };
+    } catch (error) {
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await accountDeletionService.markFailed(deletionId, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 1,
+    lockDuration: 120000,
+  },
+);
+
+accountDeletionQueue.getRepeatableJobs().then(async (jobs) => {
+  for (const job of jobs) {
+    await accountDeletionQueue.removeRepeatableByKey(job.key);
+  }
+  await accountDeletionQueue.add('process-due-deletions', {}, {
+    repeat: { pattern: '20 * * * *', tz: 'America/New_York' },
+    jobId: 'account-deletion-scheduler',
+  });
+  logger.info({ cron: '20 * * * * America/New_York' }, 'Account deletion cron scheduled');
+}).catch(err => {
+  logger.error({ err }, 'Failed to schedule account deletion cron');
+});
+
+accountDeletionWorker.on('failed', (job: Job | undefined, err: Error) => {
+  logger.error({ jobId: job?.id, deletionId: job?.data?.deletionId, error: err.message }, 'Account deletion job failed');
+});
+
 // ============================================================================
 // Weekly Friday Summary — Sends meal patterns + recommendations every Friday
 // ============================================================================
@@ -261,14 +681,40 @@ reminderWorker.on('failed', (job: Job | undefined, err: Error) => {
 const weeklySummaryQueue = new Queue(WEEKLY_SUMMARY_QUEUE_NAME, { connection: redis });
 const anthropic = new Anthropic({ apiKey: config.anthropicApiKey });
 
-async function generateWeeklySummary(userId: string, language: string, conversationId: number) {
-  const today = new Date();
-  const fourWeeksAgo = new Date(today);
-  fourWeeksAgo.setDate(today.getDate() - 28);
-  fourWeeksAgo.setHours(0, 0, 0, 0);
+/**
+ * " [meal: foods=arroz, pollo; meal_type=lunch; mostly starch, carbs 60-80g,
+ * protein 15-25g]" from what the nightly pass extracted — empty for events
+ * it hasn't classified yet.
+ */
+function formatEventStructure(eventType: string | null, extracted: Record<string, unknown>): string {
+  if (!eventType) return '';
+  const fields = Object.entries(extracted ?? {})
+    .filter(([key, value]) => !['processedAt', 'digestDate', 'nutrition'].includes(key) && value !== null && value !== undefined)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(', ') : String(value)}`);
+
+  const nutrition = extracted?.nutrition as MealNutrition | null | undefined;
+  if (nutrition) {
+    const { carbs_g: carbs, protein_g: protein } = nutrition.macros;
+    fields.push(
+      `mostly ${nutrition.dominant}, carbs ${carbs.min}-${carbs.max}g, protein ${protein.min}-${protein.max}g`
+        + (nutrition.photoOnly ? ' (photo only)' : ''),
+    );
+  }
+  return fields.length > 0 ? ` [${eventType}: ${fields.join('; ')}]` : ` [${eventType}]`;
+}
 
-  const eventsResult = await db.query<{ event_date: string; raw_input: string; event_type: string }>(
-    `SELECT event_date::text, raw_input, event_type
+async function generateWeeklySummary(userId: string, language: string, conversationId: number, localDate: string) {
+  // 28 days back from the user's own calendar date (event_date is local)
+  const fourWeeksAgo = new Date(`${localDate}T12:00:00Z`);
+  fourWeeksAgo.setUTCDate(fourWeeksAgo.getUTCDate() - 28);
+
+  const eventsResult = await db.query<{
+    event_date: string;
+    raw_input: string;
+    event_type: string | null;
+    extracted_data: Record<string, unknown>;
+  }>(
+    `SELECT event_date::text, raw_input, event_type, extracted_data
      FROM health_events
      WHERE user_id = $1
        AND event_date >= $2
@@ -290,7 +736,7 @@ async function generateWeeklySummary(userId: string, language: string, conversat
     weekStart.setDate(date.getDate() - (date.getDay() === 0 ? 6 : date.getDay() - 1));
     const weekKey = weekStart.toISOString().split('T')[0]!;
     if (!weekMap.has(weekKey)) weekMap.set(weekKey, []);
-    weekMap.get(weekKey)!.push(`  ${event.event_date}: ${event.raw_input}`);
+    weekMap.get(weekKey)!.push(`  ${event.event_date}${formatEventStructure(event.event_type, event.extracted_data)}: ${event.raw_input}`);
   }
 
   const weeksSorted = [...weekMap.entries()].sort((a, b) => a[0].localeCompare(b[0]));
@@ -349,7 +795,7 @@ Máximo 350 palabras. Títulos en *negritas*. Tono: coach curioso que conoce la
     ? '*📊 Your Week in Review*\n\n'
     : '*📊 Tu Semana en Resumen*\n\n';
 
-  await chatwootClient.sendMessage(conversationId, header + summary);
+  await messagingService.sendMessage({ userId, conversationId }, header + summary);
   logger.info({ userId, eventsCount: eventsResult.rows.length, weeksOfData: totalWeeks }, 'Weekly summary sent');
 }
 
@@ -359,37 +805,37 @@ const weeklySummaryWorker = new Worker(
     if (job.name === 'schedule-weekly-summaries') {
       logger.info('Running weekly summary scheduler...');
 
-      const usersResult = await db.query<{
-        user_id: string;
-        language: string;
-        conversation_id: number;
-      }>(
-        `SELECT cs.user_id, u.language, cs.conversation_id
-         FROM conversation_state cs
-         JOIN users u ON u.id = cs.user_id
-         WHERE cs.phase = 'active'
-           AND cs.conversation_id IS NOT NULL`,
-      );
+      const users = await findActiveUsersAtLocalTime(WEEKLY_SUMMARY_LOCAL_HOUR, WEEKLY_SUMMARY_LOCAL_WEEKDAY);
 
-      const today = new Date().toISOString().split('T')[0]!;
-      for (const user of usersResult.rows) {
+      for (const user of users) {
         await weeklySummaryQueue.add('send-weekly-summary', {
           userId: user.user_id,
           language: user.language,
           conversationId: user.conversation_id,
+          localDate: user.local_date,
         }, {
-          jobId: `weekly-summary-${user.user_id}-${today}`,
+          jobId: `weekly-summary-${user.user_id}-${user.local_date}`,
           attempts: 2,
           backoff: { type: 'exponential', delay: 30000 },
         });
       }
 
-      logger.info({ userCount: usersResult.rows.length }, 'Weekly summary jobs scheduled');
+      logger.info({ userCount: users.length, timezones: countByTimezone(users) }, 'Weekly summary jobs scheduled');
       return { scheduled: true };
     }
 
-    const { userId, language, conversationId } = job.data;
-    await generateWeeklySummary(userId, language || 'es', conversationId);
+    const { userId, language, conversationId, localDate } = job.data;
+    if (await optOutService.isOptedOut(userId)) {
+      logger.info({ userId }, 'User opted out — skipping weekly summary');
+      return { sent: false, reason: 'opted_out' };
+    }
+
+    await generateWeeklySummary(
+      userId,
+      language || 'es',
+      conversationId,
+      localDate ?? await healthEventService.getLocalToday(userId),
+    );
     return { sent: true };
   },
   {
@@ -406,10 +852,13 @@ weeklySummaryQueue.getRepeatableJobs().then(async (jobs) => {
     logger.info({ key: job.key }, 'Removed stale weekly summary repeat job');
   }
   await weeklySummaryQueue.add('schedule-weekly-summaries', {}, {
-    repeat: { pattern: '0 20 * * 5', tz: 'America/New_York' },
+    repeat: { pattern: '0 * * * *' },
     jobId: 'weekly-summary-scheduler',
   });
-  logger.info({ cron: '0 20 * * 5 America/New_York' }, 'Weekly Friday summary cron scheduled');
+  logger.info(
+    { cron: '0 * * * *', localHour: WEEKLY_SUMMARY_LOCAL_HOUR, localWeekday: WEEKLY_SUMMARY_LOCAL_WEEKDAY },
+    'Weekly Friday summary cron scheduled',
+  );
 }).catch(err => {
   logger.error({ err }, 'Failed to schedule weekly summary cron');
 });
@@ -564,7 +1013,7 @@ worker.on('completed', (job: Job) => {
   }, 'Job completed');
 });
 
-worker.on('failed', (job: Job | undefined, err: Error) => {
+worker.on('failed', (job: Job<InboundQueueJobData> | undefined, err: Error) => {
   logger.error({
     jobId: job?.id,
     correlationId: job?.data?.correlationId,
@@ -572,6 +1021,13 @@ worker.on('failed', (job: Job | undefined, err: Error) => {
     stack: err.stack,
     attemptsMade: job?.attemptsMade,
   }, 'Job failed');
+
+  // Out of retries — persist before removeOnFail ages the job out of Redis
+  if (job) {
+    deadLetterService.recordFailedJob(QUEUE_NAME, job, err).catch(dlErr => {
+      logger.error({ jobId: job.id, error: (dlErr as Error).message }, 'Failed to record dead letter');
+    });
+  }
 });
 
 worker.on('error', (err: Error) => {
@@ -608,9 +1064,16 @@ const shutdown = async (signal: string) => {
     await digestWorker.close();
     await reminderWorker.close();
     await weeklySummaryWorker.close();
+    await onboardingNudgeWorker.close();
+    await archetypeRescoreWorker.close();
+    await dataExportWorker.close();
+    await accountDeletionWorker.close();
     await digestQueue.close();
     await reminderQueue.close();
     await weeklySummaryQueue.close();
+    await onboardingNudgeQueue.close();
+    await archetypeRescoreQueue.close();
+    await accountDeletionQueue.close();
     clearTimeout(timeout);
 
     await db.end();
@@ -628,3 +1091,6 @@ process.on('SIGTERM', () => shutdown('SIGTERM'));
 process.on('SIGINT', () => shutdown('SIGINT'));
 
 logger.info({ queue: QUEUE_NAME }, 'Worker starting...');
+
+// Load message overrides (config_templates) before the first reply goes out
+void refreshMessageOverrides();
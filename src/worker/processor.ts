@@ -1,14 +1,46 @@
-import { Job } from 'bullmq';
+import { Job, DelayedError, UnrecoverableError } from 'bullmq';
 import { logger } from '../infra/logging/logger';
+import { isInboundTurn, completeInboundTurn, skipLostTurns } from '../infra/queue/ordering';
 import { handleInboundMessage } from './handlers/inbound';
-import { InboundJobData, JobResult } from '../shared/types';
+import { handleBurstFlush } from './handlers/burst';
+import { InboundQueueJobData, JobResult } from '../shared/types';
 
-export type JobType = 'inbound_message' | 'process_media' | 'send_response';
+export type JobType = 'inbound_message' | 'flush_burst' | 'process_media' | 'send_response';
 
-export async function processJob(job: Job<InboundJobData>): Promise<JobResult> {
+// Re-check interval while an earlier message from the same user is in flight
+const TURN_POLL_MS = 500;
+// Before this, a predecessor missing from the queue may just not be added yet
+// (ingest hands out sequences before queueing)
+const LOST_PREDECESSOR_GRACE_MS = 5 * 1000;
+// Give up waiting for a predecessor that never finishes (e.g. stuck active)
+const MAX_TURN_WAIT_MS = 3 * 60 * 1000;
+
+export async function processJob(job: Job<InboundQueueJobData>, token?: string): Promise<JobResult> {
   const startTime = Date.now();
   const { correlationId, type } = job.data;
 
+  // Per-user ordering: wait until earlier messages from this phone are done
+  const ordering = job.data.type === 'inbound_message' && job.data.sequence !== undefined
+    ? { phone: job.data.phone, sequence: job.data.sequence }
+    : null;
+
+  if (ordering && token && !(await isInboundTurn(ordering.phone, ordering.sequence))) {
+    const waitedMs = Date.now() - job.timestamp;
+    if (waitedMs >= LOST_PREDECESSOR_GRACE_MS) {
+      const skipped = await skipLostTurns(ordering.phone, ordering.sequence);
+      if (skipped > 0) {
+        logger.warn({ jobId: job.id, correlationId, ...ordering, skipped }, 'Skipped lost predecessor(s)');
+      }
+    }
+    if (!(await isInboundTurn(ordering.phone, ordering.sequence))) {
+      if (waitedMs < MAX_TURN_WAIT_MS) {
+        await job.moveToDelayed(Date.now() + TURN_POLL_MS, token);
+        throw new DelayedError();
+      }
+      logger.warn({ jobId: job.id, correlationId, ...ordering }, 'Predecessor never finished — processing out of turn');
+    }
+  }
+
   const jobLogger = logger.child({
     jobId: job.id,
     correlationId,
@@ -18,12 +50,21 @@ export async function processJob(job: Job<InboundJobData>): Promise<JobResult> {
 
   jobLogger.info('Processing job');
 
+  // Whether BullMQ will run this job again after `err`
+  const willRetry = (err: Error) => isRetryableError(err) && job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+
   try {
     let result: JobResult;
 
-    switch (type) {
+    const data = job.data;
+
+    switch (data.type) {
       case 'inbound_message':
-        result = await handleInboundMessage(job.data, jobLogger);
+        result = await handleInboundMessage(data, jobLogger, err => !willRetry(err));
+        break;
+
+      case 'flush_burst':
+        result = await handleBurstFlush(data, jobLogger);
         break;
 
       // Future handlers
@@ -40,6 +81,10 @@ export async function processJob(job: Job<InboundJobData>): Promise<JobResult> {
 
     const duration = Date.now() - startTime;
 
+    if (ordering) {
+      await completeInboundTurn(ordering.phone, ordering.sequence);
+    }
+
     if (result.status === 'failed') {
       jobLogger.warn({ duration, result: result.status, error: result.error }, 'Job completed with error (fallback response sent to user)');
     } else {
@@ -57,17 +102,20 @@ export async function processJob(job: Job<InboundJobData>): Promise<JobResult> {
       stack: err.stack,
     }, 'Job processing failed');
 
-    // Determine if we should retry
+    // Final outcome for this message — let the user's next message run
+    if (ordering && !willRetry(err)) {
+      await completeInboundTurn(ordering.phone, ordering.sequence);
+    }
+
     if (isRetryableError(err)) {
       throw error; // BullMQ will retry based on settings
     }
 
-    // Non-retryable error - mark as failed permanently
-    return {
-      status: 'failed',
-      error: err.message,
-      correlationId,
-    };
+    // Non-retryable error - fail now without spending the retries; the job
+    // still reaches dead letters (worker 'failed' hook)
+    const unrecoverable = new UnrecoverableError(err.message);
+    unrecoverable.stack = err.stack;
+    throw unrecoverable;
   }
 }
 
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+
+const { countSegments, splitForSms, toSmsText } = await import('../../src/adapters/sms/segments');
+
+describe('countSegments', () => {
+  it('fits 160 GSM-7 characters in one segment, then 153 per segment', () => {
+    expect(countSegments('')).toEqual({ encoding: 'GSM-7', units: 0, segments: 1 });
+    expect(countSegments('a'.repeat(160))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+    expect(countSegments('a'.repeat(161))).toMatchObject({ segments: 2 });
+    expect(countSegments('a'.repeat(306))).toMatchObject({ segments: 2 });
+    expect(countSegments('a'.repeat(307))).toMatchObject({ segments: 3 });
+  });
+
+  it('counts escape-table characters as two septets', () => {
+    expect(countSegments('€'.repeat(80))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+    expect(countSegments(`${'a'.repeat(159)}€`)).toMatchObject({ units: 161, segments: 2 });
+  });
+
+  it('switches to UCS-2 for one character outside GSM-7', () => {
+    // "é" and "ñ" are GSM-7, "á" is not
+    expect(countSegments('café mañana').encoding).toBe('GSM-7');
+    expect(countSegments(`${'a'.repeat(69)}á`)).toEqual({ encoding: 'UCS-2', units: 70, segments: 1 });
+    expect(countSegments(`${'a'.repeat(70)}á`)).toMatchObject({ segments: 2 });
+    expect(countSegments(`${'a'.repeat(133)}á`)).toMatchObject({ units: 134, segments: 2 });
+    expect(countSegments(`${'a'.repeat(134)}á`)).toMatchObject({ segments: 3 });
+  });
+
+  it('counts emoji as two UTF-16 code units', () => {
+    expect(countSegments('👍')).toEqual({ encoding: 'UCS-2', units: 2, segments: 1 });
+    expect(countSegments('👍'.repeat(35))).toMatchObject({ units: 70, segments: 1 });
+    expect(countSegments('👍'.repeat(36))).toMatchObject({ units: 72, segments: 2 });
+  });
+});
+
+describe('toSmsText', () => {
+  it('drops WhatsApp markers and typographic punctuation', () => {
+    expect(toSmsText('*Hoy* comiste _bien_ — “sin” prisa…')).toBe('Hoy comiste bien - "sin" prisa...');
+    expect(countSegments(toSmsText('It’s “fine”')).encoding).toBe('GSM-7');
+  });
+});
+
+describe('splitForSms', () => {
+  it('leaves a message that fits alone', () => {
+    expect(splitForSms('  Hola  ', 1)).toEqual(['Hola']);
+  });
+
+  it('splits on paragraphs and numbers the parts', () => {
+    const first = 'a'.repeat(100);
+    const second = 'b'.repeat(100);
+    expect(splitForSms(`${first}\n\n${second}`, 1)).toEqual([`${first}\n(1/2)`, `${second}\n(2/2)`]);
+  });
+
+  it('keeps every part within the segment limit', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Frase número ${i + 1} con acentos: más café.`).join(' ');
+    const parts = splitForSms(text, 2);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(countSegments(part).segments).toBeLessThanOrEqual(2);
+    }
+    expect(parts.map(p => p.replace(/\n\(\d+\/\d+\)$/, '')).join(' ')).toBe(text);
+  });
+
+  it('hard-splits an unbroken run without breaking emoji', () => {
+    const parts = splitForSms('👍'.repeat(100), 1);
+
+    for (const part of parts) {
+      expect(countSegments(part).segments).toBe(1);
+      expect(part).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])/);
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { ApiKeyPrincipal } from '../../src/domain/api-key/service';
+
+vi.mock('../../src/infra/db/client', () => ({ db: {} }));
+
+const { checkPermission, apiKeyService } = await import('../../src/api/middleware/auth');
+const { config } = await import('../../src/config');
+
+// DB keys by token
+const KEYS: Record<string, ApiKeyPrincipal> = {
+  'coach-token': { id: 'key-coach', name: 'Coach', role: 'coach' },
+  'dashboard-token': { id: 'key-dash', name: 'Dashboard', role: 'dashboard' },
+  'n8n-token': { id: 'key-n8n', name: 'n8n', role: 'integration' },
+};
+
+function request(headers: Record<string, string> = {}, url = '/api/nightly/pending') {
+  return { url, headers, ip: '203.0.113.5', log: { warn: vi.fn(), debug: vi.fn() } } as unknown as FastifyRequest;
+}
+
+const reply = {} as FastifyReply;
+
+describe('checkPermission', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(apiKeyService, 'authenticate').mockImplementation(async (token) => KEYS[token] ?? null);
+  });
+
+  it('grants what the key role allows', async () => {
+    const coach = request({ 'x-api-key': 'coach-token' });
+    await expect(checkPermission(coach, reply, 'nightly:review')).resolves.toBeUndefined();
+    expect(coach.apiKey).toEqual(KEYS['coach-token']);
+
+    await expect(checkPermission(request({ 'x-api-key': 'dashboard-token' }), reply, 'users:read')).resolves.toBeUndefined();
+    await expect(checkPermission(request({ authorization: 'Bearer n8n-token' }), reply, 'digests:trigger')).resolves.toBeUndefined();
+  });
+
+  it('forbids what the role does not allow', async () => {
+    await expect(checkPermission(request({ 'x-api-key': 'coach-token' }), reply, 'admin'))
+      .rejects.toMatchObject({ statusCode: 403, message: 'Missing permission: admin' });
+    await expect(checkPermission(request({ 'x-api-key': 'dashboard-token' }), reply, 'concerns:write'))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(checkPermission(request({ 'x-api-key': 'n8n-token' }), reply, 'users:read'))
+      .rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('rejects missing and unknown keys before checking roles', async () => {
+    await expect(checkPermission(request(), reply, 'users:read'))
+      .rejects.toMatchObject({ statusCode: 401, message: 'Missing API key or authorization token' });
+    await expect(checkPermission(request({ 'x-api-key': 'revoked-token' }), reply, 'users:read'))
+      .rejects.toMatchObject({ statusCode: 401, message: 'Invalid API key' });
+  });
+
+  it('keeps API_SECRET_KEY as a bootstrap admin key', async () => {
+    const bootstrap = request({ 'x-api-key': config.apiSecretKey });
+    await expect(checkPermission(bootstrap, reply, 'admin')).resolves.toBeUndefined();
+    expect(bootstrap.apiKey).toMatchObject({ id: 'env', role: 'admin' });
+    expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+vi.mock('../../src/infra/db/client', () => ({ db: {} }));
+
+const { requireUserAccess } = await import('../../src/api/middleware/link-auth');
+const { UserService } = await import('../../src/domain/user/service');
+const { signLinkToken } = await import('../../src/shared/link-token');
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const OTHER_USER_ID = '00000000-0000-0000-0000-000000000002';
+
+function request(token: string, userId = USER_ID) {
+  return {
+    params: { userId },
+    query: { t: token },
+    headers: {},
+    log: { warn: vi.fn() },
+  } as unknown as FastifyRequest;
+}
+
+async function access(scope: 'view' | 'edit', req: FastifyRequest) {
+  const handler = requireUserAccess(scope) as (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+  await handler(req, {} as FastifyReply);
+  return req.linkToken;
+}
+
+describe('requireUserAccess', () => {
+  let revokedAt: Date | null;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    revokedAt = null;
+    vi.spyOn(UserService.prototype, 'getLinksRevokedAt').mockImplementation(async () => revokedAt);
+  });
+
+  it('accepts a token for this user with enough scope', async () => {
+    await expect(access('view', request(signLinkToken(USER_ID, 'view')))).resolves.toMatchObject({ scope: 'view' });
+    await expect(access('view', request(signLinkToken(USER_ID, 'edit')))).resolves.toMatchObject({ scope: 'edit' });
+  });
+
+  it('forbids view links on edit routes and tokens for another user', async () => {
+    await expect(access('edit', request(signLinkToken(USER_ID, 'view')))).rejects.toMatchObject({ statusCode: 403 });
+    await expect(access('view', request(signLinkToken(OTHER_USER_ID, 'edit')))).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('rejects tokens issued before "revoke all links"', async () => {
+    const issuedAt = Date.now() - 60_000;
+    const token = signLinkToken(USER_ID, 'edit', 3600, issuedAt);
+
+    revokedAt = new Date(issuedAt + 1000);
+    await expect(access('view', request(token))).rejects.toMatchObject({ statusCode: 401 });
+
+    // Links sent after the revocation work again
+    await expect(access('view', request(signLinkToken(USER_ID, 'edit')))).resolves.toMatchObject({ userId: USER_ID });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+vi.mock('../../src/infra/db/client', () => ({ db: {} }));
+vi.mock('../../src/infra/queue/client', () => ({ redis: {} }));
+
+const { config } = await import('../../src/config');
+const { verifyChatwootSignature, webhookSecretService } = await import('../../src/api/middleware/webhook-signature');
+const { computeSignature } = await import('../../src/shared/webhook-signature');
+
+const BODY = '{"inbox":{"id":3},"content":"hola"}';
+const SECRET = { id: 'secret-1', secret: 'inbox-secret' };
+
+function request(headers: Record<string, string> = {}) {
+  return {
+    body: JSON.parse(BODY),
+    rawBody: BODY,
+    headers,
+    ip: '203.0.113.5',
+    log: { warn: vi.fn() },
+  } as unknown as FastifyRequest;
+}
+
+function signed() {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return request({
+    'x-chatwoot-timestamp': timestamp,
+    'x-chatwoot-signature': `sha256=${computeSignature(SECRET.secret, timestamp, BODY)}`,
+  });
+}
+
+const reply = {} as FastifyReply;
+
+describe('verifyChatwootSignature', () => {
+  let secrets: Array<typeof SECRET>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    config.webhookSignatureMode = 'enforce';
+    secrets = [SECRET];
+    const seen = new Set<string>();
+    vi.spyOn(webhookSecretService, 'getActiveSecrets').mockImplementation(async () => secrets);
+    vi.spyOn(webhookSecretService, 'claimSignature').mockImplementation(async (signature) => {
+      if (seen.has(signature)) return false;
+      seen.add(signature);
+      return true;
+    });
+    vi.spyOn(webhookSecretService, 'markUsed').mockResolvedValue();
+    vi.spyOn(webhookSecretService, 'recordRejection').mockResolvedValue();
+  });
+
+  it('defaults to enforce', async () => {
+    expect(process.env.WEBHOOK_SIGNATURE_MODE).toBeUndefined();
+    vi.resetModules();
+    const { config: fresh } = await import('../../src/config');
+    expect(fresh).not.toBe(config);
+    expect(fresh.webhookSignatureMode).toBe('enforce');
+  });
+
+  it('accepts a signed delivery once and rejects the replay', async () => {
+    const first = signed();
+    await expect(verifyChatwootSignature(first, reply)).resolves.toBeUndefined();
+    await expect(verifyChatwootSignature(first, reply)).rejects.toThrow('Invalid webhook signature');
+    expect(webhookSecretService.recordRejection).toHaveBeenCalledWith('replayed', 3);
+  });
+
+  it('rejects unsigned deliveries in enforce mode', async () => {
+    await expect(verifyChatwootSignature(request(), reply)).rejects.toThrow('Invalid webhook signature');
+    expect(webhookSecretService.recordRejection).toHaveBeenCalledWith('missing_signature', 3);
+  });
+
+  it('fails closed in monitor mode when the inbox has a secret', async () => {
+    config.webhookSignatureMode = 'monitor';
+    await expect(verifyChatwootSignature(request(), reply)).rejects.toThrow('Invalid webhook signature');
+
+    const replayed = signed();
+    await verifyChatwootSignature(replayed, reply);
+    await expect(verifyChatwootSignature(replayed, reply)).rejects.toThrow('Invalid webhook signature');
+  });
+
+  it('lets deliveries through in monitor mode only while no secret is configured', async () => {
+    config.webhookSignatureMode = 'monitor';
+    secrets = [];
+    await expect(verifyChatwootSignature(request(), reply)).resolves.toBeUndefined();
+    expect(webhookSecretService.recordRejection).toHaveBeenCalledWith('missing_signature', 3);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import type { Pool } from 'pg';
+import { paramString, paramStrings } from '../helpers/sql-params';
+
+const { AccountDeletionService } = await import('../../src/domain/account-deletion/service');
+
+interface Row {
+  id?: string;
+  user_id?: string;
+  phone?: string;
+  phone_hash?: string;
+  status?: string;
+  receipt?: unknown;
+  job_data?: { userId?: string; phone?: string };
+  [column: string]: unknown;
+}
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const OTHER_USER_ID = '00000000-0000-0000-0000-000000000002';
+const PHONE = '+5215550000001';
+const OTHER_PHONE = '+5215550000002';
+const DELETION_ID = 'deletion-1';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Every table with a user_id column, as migrations create them
+const USER_ID_TABLES = [
+  'concern_snapshots', 'health_concerns', 'digest_run_items', 'nightly_summaries',
+  'health_events', 'messages', 'memories', 'archetype_history', 'archetype_classifications',
+  'client_profiles', 'experiment_assignments', 'credit_transactions', 'google_fit_tokens',
+  'opt_out_events', 'data_exports', 'language_changes', 'conversation_state', 'ai_usage',
+  'execution_logs',
+];
+const NO_USER_ID_COLUMN = ['users', 'dead_letters', 'account_deletions'];
+
+/**
+ * Just enough Postgres in memory for erase() and verify(): tables are row
+ * arrays, BEGIN snapshots them and ROLLBACK restores the snapshot.
+ */
+function fakeDb(tables: Map<string, Row[]>) {
+  let snapshot: Map<string, Row[]> | null = null;
+
+  const query = vi.fn(async (sql: string, p: unknown[] = []) => {
+    const q = sql.replace(/\s+/g, ' ').trim();
+    const rows = (table: string) => tables.get(table) ?? [];
+
+    if (q === 'BEGIN') {
+      snapshot = new Map([...tables].map(([name, list]) => [name, list.map(row => ({ ...row }))]));
+      return { rows: [] };
+    }
+    if (q === 'COMMIT') {
+      snapshot = null;
+      return { rows: [] };
+    }
+    if (q === 'ROLLBACK') {
+      tables.clear();
+      for (const [name, list] of snapshot!) tables.set(name, list);
+      snapshot = null;
+      return { rows: [] };
+    }
+    if (q.startsWith('SELECT user_id, phone_hash')) {
+      return { rows: rows('account_deletions').filter(d => d.id === p[0]) };
+    }
+    if (q.startsWith('SELECT * FROM account_deletions WHERE id')) {
+      return { rows: rows('account_deletions').filter(d => d.id === p[0]) };
+    }
+    if (q.startsWith('SELECT phone FROM users')) {
+      return { rows: rows('users').filter(u => u.id === p[0]) };
+    }
+    if (q.startsWith('SELECT to_regclass')) {
+      return { rows: [{ exists: tables.has(paramString(p, 0)) }] };
+    }
+    if (q.startsWith('DELETE FROM users')) {
+      const before = rows('users').length;
+      tables.set('users', rows('users').filter(u => u.id !== p[0]));
+      return { rows: [], rowCount: before - rows('users').length };
+    }
+    if (q.startsWith('DELETE FROM dead_letters')) {
+      const before = rows('dead_letters').length;
+      tables.set('dead_letters', rows('dead_letters').filter(d => d.job_data?.userId !== p[0] && d.job_data?.phone !== p[1]));
+      return { rows: [], rowCount: before - rows('dead_letters').length };
+    }
+    if (q.startsWith('DELETE FROM')) {
+      const table = q.split(' ')[2]!;
+      const before = rows(table).length;
+      tables.set(table, rows(table).filter(r => r.user_id !== p[0]));
+      return { rows: [], rowCount: before - rows(table).length };
+    }
+    if (q.includes('FROM information_schema.columns')) {
+      const names = [...tables.keys()]
+        .filter(name => !paramStrings(p, 0).includes(name) && !NO_USER_ID_COLUMN.includes(name))
+        .sort();
+      return { rows: names.map(table_name => ({ table_name })) };
+    }
+    if (q.startsWith('SELECT COUNT(*)::int AS count FROM users')) {
+      return { rows: [{ count: rows('users').filter(u => u.id === p[0]).length }] };
+    }
+    if (q.startsWith('SELECT COUNT(*)::int AS count FROM dead_letters')) {
+      const left = rows('dead_letters').filter(d => d.job_data?.userId === p[0] || sha256(d.job_data?.phone ?? '') === p[1]);
+      return { rows: [{ count: left.length }] };
+    }
+    if (q.startsWith('SELECT COUNT(*)::int AS count FROM "')) {
+      const table = q.match(/FROM "(\w+)"/)![1]!;
+      return { rows: [{ count: rows(table).filter(r => r.user_id === p[0]).length }] };
+    }
+    if (q.startsWith("UPDATE account_deletions SET status = 'completed'")) {
+      const deletion = rows('account_deletions').find(d => d.id === p[0])!;
+      Object.assign(deletion, { status: 'completed', completed_at: new Date(), receipt: JSON.parse(paramString(p, 1)) });
+      return { rows: [], rowCount: 1 };
+    }
+    throw new Error(`Unexpected query: ${q}`);
+  });
+
+  const client = { query, release: vi.fn() };
+  return { query, connect: vi.fn(async () => client) } as unknown as Pool;
+}
+
+/**
+ * Two users with a row in every user table; the first one has a deletion due.
+ */
+function seed(): Map<string, Row[]> {
+  const tables = new Map<string, Row[]>();
+  tables.set('users', [{ id: USER_ID, phone: PHONE }, { id: OTHER_USER_ID, phone: OTHER_PHONE }]);
+  for (const table of USER_ID_TABLES) {
+    tables.set(table, [{ user_id: USER_ID }, { user_id: USER_ID }, { user_id: OTHER_USER_ID }]);
+  }
+  // Optional legacy table present in this database
+  tables.set('daily_digests', [{ user_id: USER_ID }, { user_id: OTHER_USER_ID }]);
+  tables.set('dead_letters', [
+    { job_data: { userId: USER_ID } },
+    // Inbound jobs only carry the phone
+    { job_data: { phone: PHONE } },
+    { job_data: { phone: OTHER_PHONE } },
+  ]);
+  tables.set('account_deletions', [{
+    id: DELETION_ID,
+    user_id: USER_ID,
+    phone_hash: sha256(PHONE),
+    status: 'scheduled',
+  }]);
+  return tables;
+}
+
+function rowsFor(tables: Map<string, Row[]>, userId: string, phone: string): Record<string, number> {
+  const found: Record<string, number> = {};
+  for (const [table, rows] of tables) {
+    if (table === 'account_deletions') continue;
+    const linked = rows.filter(r =>
+      r.user_id === userId
+      || (table === 'users' && r.id === userId)
+      || r.job_data?.userId === userId
+      || r.job_data?.phone === phone,
+    );
+    if (linked.length > 0) found[table] = linked.length;
+  }
+  return found;
+}
+
+describe('AccountDeletionService.erase', () => {
+  let tables: Map<string, Row[]>;
+  let service: InstanceType<typeof AccountDeletionService>;
+
+  beforeEach(() => {
+    tables = seed();
+    service = new AccountDeletionService(fakeDb(tables));
+  });
+
+  it('leaves no row linked to the user and keeps the receipt', async () => {
+    const receipt = await service.erase(DELETION_ID, { queueJobsRemoved: 2, redisKeysRemoved: 5 });
+
+    expect(rowsFor(tables, USER_ID, PHONE)).toEqual({});
+    expect(receipt.verification).toMatchObject({ clean: true, remaining: {} });
+    expect(receipt.rowsDeleted).toMatchObject({ users: 1, health_events: 2, daily_digests: 1, dead_letters: 2 });
+    expect(receipt.rowsDeleted).not.toHaveProperty('food_patterns');
+
+    // The other user is untouched
+    expect(rowsFor(tables, OTHER_USER_ID, OTHER_PHONE)).toMatchObject({ users: 1, health_events: 1, dead_letters: 1 });
+
+    const deletion = await service.get(DELETION_ID);
+    expect(deletion).toMatchObject({ status: 'completed', receipt: { queueJobsRemoved: 2, redisKeysRemoved: 5 } });
+    expect(await service.verify(DELETION_ID)).toMatchObject({ clean: true, remaining: {} });
+  });
+
+  it('rolls back when a table outside the inventory still holds user rows', async () => {
+    tables.set('symptom_notes', [{ user_id: USER_ID }]);
+    const before = rowsFor(tables, USER_ID, PHONE);
+
+    await expect(service.erase(DELETION_ID, { queueJobsRemoved: 0, redisKeysRemoved: 0 }))
+      .rejects.toThrow('Rows left after erase: symptom_notes=1');
+
+    expect(rowsFor(tables, USER_ID, PHONE)).toEqual(before);
+    expect(await service.get(DELETION_ID)).toMatchObject({ status: 'scheduled' });
+  });
+
+  it('refuses a deletion that is no longer scheduled', async () => {
+    tables.get('account_deletions')![0]!.status = 'canceled';
+
+    await expect(service.erase(DELETION_ID, { queueJobsRemoved: 0, redisKeysRemoved: 0 }))
+      .rejects.toThrow('is canceled, not scheduled');
+    expect(tables.get('users')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, type MockInstance } from 'vitest';
+import type { Pool } from 'pg';
+
+vi.mock('../../src/infra/db/client', () => ({
+  queryMany: vi.fn(async () => []), // message catalog overrides
+}));
+// No Chromium here: the ZIP goes out with the JSON only
+vi.mock('../../src/domain/pdf/generator', () => ({
+  generateDocumentPdf: vi.fn(async () => { throw new Error('no browser'); }),
+}));
+
+const { DataExportService } = await import('../../src/domain/export/service');
+const { MessagingService } = await import('../../src/domain/messaging/service');
+const { verifyLinkToken } = await import('../../src/shared/link-token');
+
+type Messaging = InstanceType<typeof MessagingService>;
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const EXPORT_ID = 'export-1';
+
+/**
+ * One queued export for a Spanish-speaking user; every table the archive
+ * reads is empty and each data_exports update is recorded.
+ */
+function fakeDb(updates: Array<{ sql: string; params: unknown[] }>) {
+  const query = vi.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('FROM data_exports de')) {
+      return { rows: [{ user_id: USER_ID, status: 'queued', language: 'es' }] };
+    }
+    if (sql.includes('FROM users WHERE id')) {
+      return { rows: [{ id: USER_ID, phone: '+15550000001', name: null, language: 'es', timezone: null, created_at: new Date() }] };
+    }
+    if (sql.includes('UPDATE data_exports')) {
+      updates.push({ sql, params });
+      return { rows: [], rowCount: 1 };
+    }
+    return { rows: [] };
+  });
+  return { query } as unknown as Pool;
+}
+
+describe('DataExportService.deliver', () => {
+  let updates: Array<{ sql: string; params: unknown[] }>;
+  let service: InstanceType<typeof DataExportService>;
+  let supportsAttachments: MockInstance<Messaging['supportsAttachments']>;
+  let sendAttachment: MockInstance<Messaging['sendAttachment']>;
+  let sendMessage: MockInstance<Messaging['sendMessage']>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    updates = [];
+    service = new DataExportService(fakeDb(updates));
+    supportsAttachments = vi.spyOn(MessagingService.prototype, 'supportsAttachments');
+    sendAttachment = vi.spyOn(MessagingService.prototype, 'sendAttachment').mockResolvedValue();
+    sendMessage = vi.spyOn(MessagingService.prototype, 'sendMessage').mockResolvedValue();
+  });
+
+  it('sends the ZIP and marks the export sent when the channel carries files', async () => {
+    supportsAttachments.mockResolvedValue(true);
+
+    await service.deliver(EXPORT_ID);
+
+    expect(sendAttachment).toHaveBeenCalledOnce();
+    expect(sendAttachment.mock.calls[0]![2]).toMatch(/^plato-data-.*\.zip$/);
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(updates).toHaveLength(1);
+    expect(updates[0]!.params.slice(0, 2)).toEqual([EXPORT_ID, 'sent']);
+  });
+
+  it('sends a signed download link instead of a file over SMS', async () => {
+    supportsAttachments.mockResolvedValue(false);
+
+    await service.deliver(EXPORT_ID);
+
+    expect(sendAttachment).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledOnce();
+
+    const text = sendMessage.mock.calls[0]![1];
+    const url = new URL(text.match(/https?:\/\/\S+/)![0]);
+    expect(url.pathname).toBe(`/api/export/${USER_ID}`);
+    expect(verifyLinkToken(url.searchParams.get('t')!)).toMatchObject({
+      valid: true,
+      payload: { userId: USER_ID, scope: 'edit' },
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]!.sql).toContain("status = 'link_sent'");
+    expect(updates[0]!.sql).not.toContain("'sent'");
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Pool } from 'pg';
+import type { HealthEvent } from '../../src/domain/health-event/service';
+import type { NightlySummary } from '../../src/domain/digest/summary-schema';
+import { paramBoolean, paramNumber, paramString, paramStrings } from '../helpers/sql-params';
+
+vi.mock('../../src/infra/logging/logger', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/infra/logging/logger')>()),
+  logAIUsage: vi.fn(async () => {}),
+}));
+
+const { FakeAIProvider, cannedReply } = await import('../../src/adapters/ai/fake');
+const { DigestBatchService } = await import('../../src/domain/digest/batches');
+const { DigestService } = await import('../../src/domain/digest/service');
+type FakeResponder = ConstructorParameters<typeof FakeAIProvider>[0];
+
+interface Item {
+  id: string;
+  run_id: string;
+  run_date: string;
+  user_id: string;
+  status: string;
+  reason: string | null;
+  event_ids: string[];
+  expect_questions: boolean;
+  repair_attempts: number;
+  messages: unknown[] | null;
+  batch_id: string | null;
+  opted_out: boolean;
+}
+
+interface Batch {
+  id: string;
+  provider: string;
+  provider_batch_id: string;
+  repair_round: number;
+  status: string;
+  submitted_at: Date;
+}
+
+/**
+ * Just enough of digest_batches / digest_run_items / health_events in memory
+ * for the queries DigestBatchService and DigestRunService make.
+ */
+function fakeDb() {
+  const items = new Map<string, Item>();
+  const batches = new Map<string, Batch>();
+
+  const query = vi.fn(async (sql: string, p: unknown[] = []) => {
+    const q = sql.replace(/\s+/g, ' ').trim();
+    const itemFor = (runId: string, userId: string) => [...items.values()].find(i => i.run_id === runId && i.user_id === userId);
+
+    if (q.startsWith('UPDATE digest_run_items SET attempts')) return { rows: [], rowCount: 1 };
+    if (q.startsWith('UPDATE digest_run_items SET event_ids')) {
+      const item = itemFor(paramString(p, 0), paramString(p, 1))!;
+      Object.assign(item, { event_ids: paramStrings(p, 2), expect_questions: paramBoolean(p, 3), repair_attempts: 0 });
+      return { rows: [{ id: item.id }] };
+    }
+    if (q.startsWith('INSERT INTO digest_batches')) {
+      const id = `batch-${batches.size + 1}`;
+      batches.set(id, {
+        id,
+        provider: paramString(p, 0),
+        provider_batch_id: paramString(p, 1),
+        repair_round: paramNumber(p, 2),
+        status: 'submitted',
+        submitted_at: new Date(),
+      });
+      return { rows: [{ id }] };
+    }
+    if (q.startsWith('UPDATE digest_run_items SET batch_id')) {
+      Object.assign(items.get(paramString(p, 0))!, {
+        batch_id: paramString(p, 1),
+        messages: JSON.parse(paramString(p, 2)),
+        repair_attempts: paramNumber(p, 3),
+      });
+      return { rows: [] };
+    }
+    if (q.startsWith("SELECT * FROM digest_batches WHERE status = 'submitted'")) {
+      return { rows: [...batches.values()].filter(b => b.status === 'submitted') };
+    }
+    if (q.startsWith('UPDATE digest_batches SET locked_until')) return { rows: [], rowCount: 1 };
+    if (q.startsWith('SELECT i.id')) {
+      const batchId = paramString(p, 0);
+      return { rows: [...items.values()].filter(i => i.batch_id === batchId && i.status === 'queued') };
+    }
+    if (q.startsWith('UPDATE digest_run_items SET status')) {
+      Object.assign(itemFor(paramString(p, 0), paramString(p, 1))!, {
+        status: paramString(p, 2),
+        reason: p[3] === null ? null : paramString(p, 3),
+      });
+      return { rows: [] };
+    }
+    if (q.startsWith('UPDATE digest_run_items SET messages = NULL')) {
+      items.get(paramString(p, 0))!.messages = null;
+      return { rows: [] };
+    }
+    if (q.startsWith("UPDATE digest_batches SET status = 'ended'")) {
+      batches.get(paramString(p, 0))!.status = 'ended';
+      return { rows: [] };
+    }
+    if (q.includes('FROM health_events')) {
+      return { rows: paramStrings(p, 1).map(id => ({ id, processed: false })) };
+    }
+    if (q.startsWith('UPDATE digest_runs')) return { rows: [] };
+    throw new Error(`Unexpected query: ${q}`);
+  });
+
+  const addItem = (userId: string) => {
+    items.set(`item-${userId}`, {
+      id: `item-${userId}`, run_id: 'run-1', run_date: '2026-10-18', user_id: userId, status: 'queued', reason: null,
+      event_ids: [], expect_questions: false, repair_attempts: 0, messages: null, batch_id: null, opted_out: false,
+    });
+  };
+
+  return { db: { query } as unknown as Pool, items, batches, addItem };
+}
+
+const target = (userId: string) => ({
+  runId: 'run-1', userId, language: 'es', userName: null, runDate: '2026-10-18', optedOut: false,
+});
+
+describe('DigestBatchService with the fake provider', () => {
+  let batchDir: string;
+  let store: ReturnType<typeof fakeDb>;
+  let completeDigest: MockInstance<InstanceType<typeof DigestService>['completeDigest']>;
+  let recordInvalidSummary: MockInstance<InstanceType<typeof DigestService>['recordInvalidSummary']>;
+
+  beforeEach(async () => {
+    batchDir = await mkdtemp(path.join(tmpdir(), 'fake-batches-'));
+    store = fakeDb();
+    for (const userId of ['u1', 'u2', 'u3']) store.addItem(userId);
+
+    // Two events per user; u3 has nothing left to digest
+    vi.spyOn(DigestService.prototype, 'prepareDigest').mockImplementation(async (userId, date) => (userId === 'u3' ? null : {
+      userId,
+      dateStr: String(date),
+      events: [{ id: `${userId}-e1` }, { id: `${userId}-e2` }] as HealthEvent[],
+      prompt: `USER ${userId}\n"event": 1\n"event": 2`,
+      expected: { events: 2, questions: false },
+    }));
+    completeDigest = vi.spyOn(DigestService.prototype, 'completeDigest').mockImplementation(async (_userId, _date, events) => ({
+      digest: {} as never, summaryData: {}, eventsProcessed: events.length, nightlySummaryId: 'summary-1',
+    }));
+    recordInvalidSummary = vi.spyOn(DigestService.prototype, 'recordInvalidSummary').mockResolvedValue('failed-summary');
+  });
+
+  afterEach(async () => {
+    await rm(batchDir, { recursive: true, force: true });
+  });
+
+  const service = (respond: FakeResponder = cannedReply) => new DigestBatchService(store.db, new FakeAIProvider(respond, batchDir));
+
+  it('submits one batch and saves every valid reply', async () => {
+    const batches = service();
+    expect(await batches.submit([target('u1'), target('u2'), target('u3')])).toBe('batch-1');
+    expect(await batches.pollOpenBatches()).toBe(1);
+
+    expect(store.items.get('item-u1')).toMatchObject({ status: 'ok', messages: null });
+    expect(store.items.get('item-u2')).toMatchObject({ status: 'ok' });
+    expect(store.items.get('item-u3')).toMatchObject({ status: 'skipped', reason: 'no_unprocessed_events' });
+    expect(completeDigest).toHaveBeenCalledTimes(2);
+    const [, , events, summary] = completeDigest.mock.calls[0]!;
+    expect((events as HealthEvent[]).map(e => e.id)).toEqual(['u1-e1', 'u1-e2']);
+    expect((summary as NightlySummary).event_classifications).toHaveLength(2);
+  });
+
+  it('sends invalid replies back in repair batches, then flags the night failed', async () => {
+    let u1Broken = true;
+    const batches = service(params => {
+      const conversation = JSON.stringify(params.messages);
+      if (conversation.includes('USER u1') && u1Broken) {
+        u1Broken = false;
+        return '{"oops": true}';
+      }
+      if (conversation.includes('USER u2')) return 'not json';
+      return cannedReply(params);
+    });
+
+    await batches.submit([target('u1'), target('u2')]);
+    while (await batches.pollOpenBatches() > 0);
+
+    expect([...store.batches.values()].map(b => b.repair_round)).toEqual([0, 1, 2]);
+    expect(store.items.get('item-u1')).toMatchObject({ status: 'ok', repair_attempts: 1 });
+    expect(store.items.get('item-u2')).toMatchObject({ status: 'failed', repair_attempts: 2 });
+    expect(recordInvalidSummary).toHaveBeenCalledTimes(1);
+  });
+
+  it('collects a batch submitted before a worker restart', async () => {
+    await service().submit([target('u1')]);
+
+    // A new provider instance knows nothing in memory
+    expect(await service().pollOpenBatches()).toBe(1);
+    expect(store.items.get('item-u1')).toMatchObject({ status: 'ok' });
+  });
+
+  it('ends a batch the fake never saw with its items failed', async () => {
+    await service().submit([target('u1')]);
+    store.batches.get('batch-1')!.provider_batch_id = 'msgbatch_fake_unknown';
+
+    expect(await service().pollOpenBatches()).toBe(1);
+    expect(store.items.get('item-u1')).toMatchObject({ status: 'failed', reason: 'missing_from_batch_results' });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Pool } from 'pg';
+import { paramBoolean, paramNumber, paramString } from '../helpers/sql-params';
+
+const { LanguagePreferenceService } = await import('../../src/domain/language/service');
+const { detectLanguageCommand } = await import('../../src/shared/language-commands');
+
+const USER_ID = 'user-1';
+const ENGLISH = 'I had the chicken with rice today and it was good';
+const SPANISH = 'hoy comí pollo con arroz y una ensalada';
+
+interface UserRow {
+  language: string;
+  language_locked: boolean;
+  language_pending: string | null;
+  language_pending_count: number;
+}
+
+/**
+ * One users row and the language_changes log, in memory.
+ */
+function fakeDb(user: UserRow, changes: Array<{ from: string; to: string; source: string }>) {
+  const query = vi.fn(async (sql: string, p: unknown[] = []) => {
+    const q = sql.replace(/\s+/g, ' ').trim();
+    if (q.startsWith('SELECT language, language_locked')) {
+      return { rows: [{ ...user }] };
+    }
+    if (q.startsWith('UPDATE users SET language_pending')) {
+      user.language_pending = p[1] === null ? null : paramString(p, 1);
+      user.language_pending_count = paramNumber(p, 2);
+      return { rows: [] };
+    }
+    if (q.startsWith('UPDATE users SET language =')) {
+      Object.assign(user, { language: paramString(p, 1), language_locked: paramBoolean(p, 2), language_pending: null, language_pending_count: 0 });
+      return { rows: [] };
+    }
+    if (q.startsWith('INSERT INTO language_changes')) {
+      changes.push({ from: paramString(p, 1), to: paramString(p, 2), source: paramString(p, 4) });
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${q}`);
+  });
+  return { query } as unknown as Pool;
+}
+
+describe('LanguagePreferenceService.observe', () => {
+  let user: UserRow;
+  let changes: Array<{ from: string; to: string; source: string }>;
+  let service: InstanceType<typeof LanguagePreferenceService>;
+
+  beforeEach(() => {
+    user = { language: 'es', language_locked: false, language_pending: null, language_pending_count: 0 };
+    changes = [];
+    service = new LanguagePreferenceService(fakeDb(user, changes));
+  });
+
+  it("takes a new user's first detected language as-is", async () => {
+    expect(await service.observe(USER_ID, 'hello', true)).toBe('en');
+    expect(changes).toEqual([{ from: 'es', to: 'en', source: 'first_message' }]);
+  });
+
+  it('switches only after two messages in a row in the other language', async () => {
+    expect(await service.observe(USER_ID, ENGLISH, false)).toBe('es');
+    expect(user).toMatchObject({ language: 'es', language_pending: 'en', language_pending_count: 1 });
+
+    expect(await service.observe(USER_ID, ENGLISH, false)).toBe('en');
+    expect(user).toMatchObject({ language: 'en', language_pending: null, language_pending_count: 0 });
+    expect(changes).toEqual([{ from: 'es', to: 'en', source: 'detected' }]);
+  });
+
+  it('resets the streak on a message in the current language', async () => {
+    await service.observe(USER_ID, ENGLISH, false);
+    await service.observe(USER_ID, SPANISH, false);
+    expect(user.language_pending).toBeNull();
+
+    expect(await service.observe(USER_ID, ENGLISH, false)).toBe('es');
+    expect(changes).toEqual([]);
+  });
+
+  it('ignores short messages as evidence', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await service.observe(USER_ID, 'ok thanks', false)).toBe('es');
+    }
+    expect(user.language_pending).toBeNull();
+  });
+
+  it('never switches a locked language', async () => {
+    user.language_locked = true;
+    for (let i = 0; i < 3; i++) {
+      expect(await service.observe(USER_ID, ENGLISH, false)).toBe('es');
+    }
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('detectLanguageCommand', () => {
+  it('reads whole short commands', () => {
+    expect(detectLanguageCommand('english please')).toEqual({ type: 'set', language: 'en' });
+    expect(detectLanguageCommand('Idioma: inglés')).toEqual({ type: 'set', language: 'en' });
+    expect(detectLanguageCommand('/lang fr')).toEqual({ type: 'set', language: 'fr' });
+    expect(detectLanguageCommand('em português')).toEqual({ type: 'set', language: 'pt' });
+    expect(detectLanguageCommand('idioma automático')).toEqual({ type: 'auto' });
+  });
+
+  it('ignores languages mentioned inside a message', () => {
+    expect(detectLanguageCommand('I speak english at work')).toBeNull();
+    expect(detectLanguageCommand('comí en un restaurante francés')).toBeNull();
+    expect(detectLanguageCommand('idioma')).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/infra/logging/logger', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/infra/logging/logger')>()),
+  logAIUsage: vi.fn(async () => {}),
+}));
+
+const { FakeAIProvider } = await import('../../src/adapters/ai/fake');
+const { MealNutritionExtractor } = await import('../../src/domain/meal/nutrition-extractor');
+
+describe('MealNutritionExtractor', () => {
+  it('goes through the AI provider it is given', async () => {
+    const ai = new FakeAIProvider();
+    const createMessage = vi.spyOn(ai, 'createMessage');
+    const extractor = new MealNutritionExtractor(ai);
+
+    const nutrition = await extractor.extract({ userId: 'u1', rawInput: 'arroz con pollo', imageUrl: null, foods: ['arroz', 'pollo'] });
+
+    expect(createMessage).toHaveBeenCalledTimes(1);
+    expect(nutrition).toMatchObject({ basis: 'text', photoOnly: false, dominant: 'other', confidence: 'low' });
+    expect(nutrition!.macros.kcal.min).toBeLessThanOrEqual(nutrition!.macros.kcal.max);
+  });
+
+  it('skips the call when there is nothing to go on', async () => {
+    const ai = new FakeAIProvider();
+    const createMessage = vi.spyOn(ai, 'createMessage');
+
+    expect(await new MealNutritionExtractor(ai).extract({ userId: 'u1', rawInput: '[Image attached]', imageUrl: null })).toBeNull();
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+});
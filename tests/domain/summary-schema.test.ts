@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+
+const { validateNightlySummary, eventClassificationSchema } = await import('../../src/domain/digest/summary-schema');
+const { checkSummary, repairTurns } = await import('../../src/domain/digest/service');
+
+/**
+ * A reply that passes for a day with `events` events (the first a meal).
+ */
+function validSummary(events = 1): Record<string, unknown> {
+  return {
+    greeting_name: 'Ana',
+    day_number: 3,
+    date: 'martes, 14 de julio de 2026',
+    title_line1: 'Tu dia tiene un patron.',
+    title_line2: 'Hoy lo hicimos visible.',
+    meals: [{ time: '8:00am', title: 'Avena con fruta', bullets: ['Fibra que sostiene la energía'] }],
+    signal_intro: 'La mañana marcó el día.',
+    signal_items: [{ direction: 'up', text: 'desayuno con proteína → energía estable' }],
+    signal_explanation: 'La proteína temprano aplana la curva de glucosa.',
+    willpower_text: 'No es fuerza de voluntad, es biología.',
+    advantage_text: 'Ya desayunas temprano.',
+    pattern_text: 'Todavía observando.',
+    experiment_heading: 'Mañana prueba esto',
+    experiment_steps: ['Agrega un huevo al desayuno'],
+    observe_text: 'Nota tu energía a las 11.',
+    footer_quote_1: 'Tu cuerpo habla.',
+    footer_quote_2: 'Hoy lo escuchamos.',
+    event_classifications: Array.from({ length: events }, (_, i) => ({
+      event: i + 1,
+      event_type: 'general',
+      data: {},
+    })),
+  };
+}
+
+const json = (value: unknown) => JSON.stringify(value);
+
+describe('validateNightlySummary', () => {
+  it('accepts a complete reply, with or without markdown fences', () => {
+    expect(validateNightlySummary(json(validSummary()), { events: 1, questions: false })).toMatchObject({ success: true });
+    expect(validateNightlySummary(`\`\`\`json\n${json(validSummary())}\n\`\`\``, { events: 1, questions: false }))
+      .toMatchObject({ success: true, data: { greeting_name: 'Ana' } });
+  });
+
+  it('reports invalid JSON as a single issue', () => {
+    expect(validateNightlySummary('{"greeting_name": ', { events: 1, questions: false })).toEqual({
+      success: false,
+      issues: [expect.stringMatching(/^Not valid JSON: /)],
+    });
+  });
+
+  it('lists one issue per missing or empty field, with its path', () => {
+    const summary = validSummary();
+    delete summary.observe_text;
+    summary.meals = [{ time: '8:00am', title: 'Avena', bullets: [] }];
+    summary.signal_items = [{ direction: 'sideways', text: 'x' }];
+    summary.footer_quote_1 = '   ';
+
+    const result = validateNightlySummary(json(summary), { events: 1, questions: false });
+
+    expect(result.success).toBe(false);
+    const paths = result.success ? [] : result.issues.map(issue => issue.split(':')[0]);
+    expect(paths.sort()).toEqual(['footer_quote_1', 'meals.0.bullets', 'observe_text', 'signal_items.0.direction']);
+  });
+
+  it('requires answers when the user asked something', () => {
+    const summary = validSummary();
+    expect(validateNightlySummary(json(summary), { events: 1, questions: true })).toEqual({
+      success: false,
+      issues: ['questions: Required — answer every question asked today'],
+    });
+
+    summary.questions = [{ question: '¿El café me quita el sueño?', answer: 'Después de las 2pm, probablemente.' }];
+    expect(validateNightlySummary(json(summary), { events: 1, questions: true })).toMatchObject({ success: true });
+  });
+
+  it('keeps fields the schema does not know about', () => {
+    const result = validateNightlySummary(json({ ...validSummary(), mood_emoji: '🙂' }), { events: 1, questions: false });
+    expect(result).toMatchObject({ success: true, data: { mood_emoji: '🙂' } });
+  });
+});
+
+describe('event classifications', () => {
+  const withClassifications = (classifications: unknown[]) =>
+    json({ ...validSummary(), event_classifications: classifications });
+
+  it('needs exactly one entry per event number', () => {
+    const classifications = [
+      { event: 1, event_type: 'meal', data: { foods: ['avena'] } },
+      { event: 3, event_type: 'general', data: {} },
+      { event: 5, event_type: 'general', data: {} },
+    ];
+
+    expect(validateNightlySummary(withClassifications(classifications), { events: 4, questions: false })).toEqual({
+      success: false,
+      issues: [
+        'event_classifications: missing event 2, 4 — classify every event',
+        'event_classifications: there is no event 5 (events are numbered 1-4)',
+      ],
+    });
+  });
+
+  it('checks the data fields of each event type', () => {
+    const classifications = [
+      { event: 1, event_type: 'meal', data: { meal_type: 'brunch', foods: [] } },
+      { event: 2, event_type: 'symptom', data: { severity: 'mild' } },
+      { event: 3, event_type: 'snack', data: {} },
+    ];
+
+    const result = validateNightlySummary(withClassifications(classifications), { events: 3, questions: false });
+
+    expect(result.success).toBe(false);
+    const paths = result.success ? [] : result.issues.map(issue => issue.split(':')[0]);
+    expect(paths).toEqual(expect.arrayContaining([
+      'event_classifications.0.data.meal_type',
+      'event_classifications.0.data.foods',
+      'event_classifications.1.data.symptom',
+      'event_classifications.2.event_type',
+    ]));
+  });
+
+  it('coerces numbers sent as strings and keeps extra data fields', () => {
+    expect(eventClassificationSchema.parse({
+      event: '2',
+      event_type: 'exercise',
+      data: { activity: 'caminar', duration_minutes: '30', place: 'parque' },
+    })).toEqual({
+      event: 2,
+      event_type: 'exercise',
+      data: { activity: 'caminar', duration_minutes: 30, place: 'parque' },
+    });
+
+    expect(eventClassificationSchema.safeParse({ event: 1, event_type: 'sleep', data: { hours: 30 } }).success).toBe(false);
+    expect(eventClassificationSchema.parse({ event: 1, event_type: 'lab_result', data: { test: 'HbA1c', value: 6.1, unit: '%' } }))
+      .toMatchObject({ data: { value: 6.1 } });
+  });
+});
+
+describe('checkSummary / repairTurns', () => {
+  it('treats an empty reply as an issue', () => {
+    expect(checkSummary('  ', { events: 1, questions: false })).toEqual({ success: false, issues: ['Empty response'] });
+  });
+
+  it('quotes the reply and every issue back to the model', () => {
+    const [assistant, user] = repairTurns('{"bad": true}', ['observe_text: Required', 'meals: Required']);
+
+    expect(assistant).toEqual({ role: 'assistant', content: '{"bad": true}' });
+    expect(user!.role).toBe('user');
+    expect(user!.content).toContain('- observe_text: Required\n- meals: Required');
+    expect(repairTurns('', ['Empty response'])[0]).toEqual({ role: 'assistant', content: '(empty)' });
+  });
+});
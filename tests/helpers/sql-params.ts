@@ -0,0 +1,31 @@
+/**
+ * Narrow the positional parameters a hand-rolled fake pool receives. Each
+ * throws if the service passed something other than the expected type, so a
+ * changed query fails the test instead of being matched loosely.
+ */
+
+export function paramString(params: unknown[], index: number): string {
+  const value = params[index];
+  if (typeof value !== 'string') throw new TypeError(`$${index + 1} is not a string: ${String(value)}`);
+  return value;
+}
+
+export function paramNumber(params: unknown[], index: number): number {
+  const value = params[index];
+  if (typeof value !== 'number') throw new TypeError(`$${index + 1} is not a number: ${String(value)}`);
+  return value;
+}
+
+export function paramBoolean(params: unknown[], index: number): boolean {
+  const value = params[index];
+  if (typeof value !== 'boolean') throw new TypeError(`$${index + 1} is not a boolean: ${String(value)}`);
+  return value;
+}
+
+export function paramStrings(params: unknown[], index: number): string[] {
+  const value = params[index];
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new TypeError(`$${index + 1} is not a string array: ${String(value)}`);
+  }
+  return value;
+}
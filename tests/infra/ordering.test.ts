@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DelayedError, type Job } from 'bullmq';
+import type { InboundJobData, InboundQueueJobData, JobResult } from '../../src/shared/types';
+
+/**
+ * In-memory stand-in for the ordering hash. The Lua scripts in
+ * infra/queue/ordering.ts are run as their JS equivalents.
+ */
+const hashes = new Map<string, Map<string, string>>();
+const hash = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const redis = {
+  hget: vi.fn(async (key: string, field: string) => hash(key).get(field) ?? null),
+  del: vi.fn(async (key: string) => (hashes.delete(key) ? 1 : 0)),
+  eval: vi.fn(async (script: string, _keys: number, key: string, ...args: Array<string | number>) => {
+    const h = hash(key);
+    if (script.includes('HINCRBY')) {
+      const seq = Number(h.get('seq') ?? 0) + 1;
+      h.set('seq', String(seq));
+      if (!h.has('next')) h.set('next', String(seq));
+      h.set(`job:${seq}`, String(args[1]));
+      return seq;
+    }
+    if (script.includes('local done')) {
+      const done = Number(args[0]) + 1;
+      if (done > Number(h.get('next') ?? 0)) h.set('next', String(done));
+      h.delete(`job:${args[0]}`);
+      return done;
+    }
+    if (script.includes('nextSeq ~=')) {
+      if (Number(h.get('next') ?? 0) !== Number(args[0])) return 0;
+      h.set('next', String(Number(args[0]) + 1));
+      h.delete(`job:${args[0]}`);
+      return 1;
+    }
+    throw new Error(`Unexpected script: ${script}`);
+  }),
+};
+
+// Jobs currently held by the queue, by id
+const queued = new Map<string, TestJob>();
+const inboundQueue = {
+  getJob: vi.fn(async (id: string) => queued.get(id)),
+};
+
+vi.mock('../../src/infra/queue/client', () => ({ redis, inboundQueue }));
+
+// The onboarding state machine, reduced to what ordering protects: each
+// answer is saved under the current onboarding_step, then the step advances.
+// The await in between is where two parallel jobs would interleave.
+const onboardingStep = new Map<string, number>();
+const savedAnswers: Array<{ phone: string; step: number; answer: string }> = [];
+
+vi.mock('../../src/worker/handlers/inbound', () => ({
+  handleInboundMessage: vi.fn(async (data: InboundJobData): Promise<JobResult> => {
+    const step = onboardingStep.get(data.phone) ?? 1;
+    await new Promise(resolve => setTimeout(resolve, Math.random() * 5));
+    savedAnswers.push({ phone: data.phone, step, answer: data.message });
+    onboardingStep.set(data.phone, step + 1);
+    return { status: 'completed', correlationId: data.correlationId };
+  }),
+}));
+vi.mock('../../src/worker/handlers/burst', () => ({ handleBurstFlush: vi.fn() }));
+
+const { assignInboundSequence } = await import('../../src/infra/queue/ordering');
+const { processJob } = await import('../../src/worker/processor');
+
+type TestJob = Job<InboundQueueJobData> & { delayedUntil?: number };
+
+function inboundJob(phone: string, message: string, sequence: number): TestJob {
+  const job = {
+    id: `${phone}-${sequence}`,
+    name: 'inbound_message',
+    timestamp: Date.now(),
+    attemptsMade: 0,
+    opts: { attempts: 3 },
+    data: {
+      type: 'inbound_message',
+      correlationId: `${phone}-${sequence}`,
+      phone,
+      message,
+      conversationId: 1,
+      chatwootContactId: 1,
+      sequence,
+      timestamp: new Date().toISOString(),
+    },
+  } as unknown as TestJob;
+  job.moveToDelayed = vi.fn(async (timestamp: number) => { job.delayedUntil = timestamp; });
+  job.getState = vi.fn(async () => 'waiting' as const);
+  queued.set(job.id!, job);
+  return job;
+}
+
+/**
+ * A worker with unlimited concurrency: every job starts at once, and a job
+ * that isn't its phone's turn goes back to the queue (DelayedError) and is
+ * tried again shortly, like BullMQ's delayed set.
+ */
+async function runConcurrently(jobs: TestJob[]): Promise<void> {
+  const run = async (job: TestJob): Promise<void> => {
+    for (;;) {
+      try {
+        await processJob(job, 'lock-token');
+        return;
+      } catch (err) {
+        if (!(err instanceof DelayedError)) throw err;
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+    }
+  };
+  await Promise.all(jobs.map(run));
+}
+
+describe('per-user ordering of inbound jobs', () => {
+  beforeEach(() => {
+    hashes.clear();
+    queued.clear();
+    onboardingStep.clear();
+    savedAnswers.length = 0;
+  });
+
+  it('saves interleaved onboarding answers under consecutive steps', async () => {
+    const answers = {
+      '+5215550000001': ['Ana', '34', 'cansancio', 'poco', 'sí'],
+      '+5215550000002': ['Luis', '51', 'azúcar', 'mucho', 'no'],
+    };
+
+    // Ingest stamps each phone's messages in arrival order, interleaved
+    const jobs: TestJob[] = [];
+    for (let i = 0; i < 5; i++) {
+      for (const [phone, list] of Object.entries(answers)) {
+        const sequence = await assignInboundSequence(phone, `${phone}-${i + 1}`);
+        jobs.push(inboundJob(phone, list[i]!, sequence));
+      }
+    }
+
+    // The worker picks them up in any order
+    jobs.sort(() => Math.random() - 0.5);
+    await runConcurrently(jobs);
+
+    for (const [phone, list] of Object.entries(answers)) {
+      const saved = savedAnswers.filter(a => a.phone === phone);
+      expect(saved.map(a => a.step)).toEqual([1, 2, 3, 4, 5]);
+      expect(saved.map(a => a.answer)).toEqual(list);
+      expect(onboardingStep.get(phone)).toBe(6);
+    }
+  });
+
+  it('skips a predecessor that never made it into the queue', async () => {
+    const phone = '+5215550000003';
+    // Sequence 1 was handed out but queueing its job failed
+    await assignInboundSequence(phone, `${phone}-1`);
+    const second = inboundJob(phone, 'Marta', await assignInboundSequence(phone, `${phone}-2`));
+    second.timestamp = Date.now() - 10_000;
+
+    await processJob(second, 'lock-token');
+
+    expect(second.moveToDelayed).not.toHaveBeenCalled();
+    expect(savedAnswers).toEqual([{ phone, step: 1, answer: 'Marta' }]);
+    expect(hash(`inbound:order:${phone}`).get('next')).toBe('3');
+  });
+
+  it('keeps waiting for a predecessor that is still queued', async () => {
+    const phone = '+5215550000004';
+    inboundJob(phone, 'Marta', await assignInboundSequence(phone, `${phone}-1`));
+    const second = inboundJob(phone, '40', await assignInboundSequence(phone, `${phone}-2`));
+    second.timestamp = Date.now() - 10_000;
+
+    await expect(processJob(second, 'lock-token')).rejects.toBeInstanceOf(DelayedError);
+
+    expect(second.moveToDelayed).toHaveBeenCalled();
+    expect(savedAnswers).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+
+const { detectAccountCommand } = await import('../../src/shared/account-commands');
+
+describe('detectAccountCommand', () => {
+  it.each([
+    ['mis datos', 'export'],
+    ['Send me my data!', 'export'],
+    ['/meus dados', 'export'],
+    ['mes données', 'export'],
+    ['borrar mis datos', 'delete'],
+    ['Delete my account.', 'delete'],
+    ['excluir minha conta', 'delete'],
+    ['supprimer mon compte', 'delete'],
+    ['cancelar borrado', 'cancel_delete'],
+    ["don't delete", 'cancel_delete'],
+    ['não apagar', 'cancel_delete'],
+    ['annuler la suppression', 'cancel_delete'],
+  ] as const)('reads "%s" as %s', (message, command) => {
+    expect(detectAccountCommand(message)).toBe(command);
+  });
+
+  it('only matches a whole message', () => {
+    expect(detectAccountCommand('mis datos de ayer: arroz')).toBeNull();
+    expect(detectAccountCommand('I think my data looks off')).toBeNull();
+  });
+
+  it('does not read a bare "cancel" or "borrar" as an account command', () => {
+    expect(detectAccountCommand('cancel')).toBeNull();
+    expect(detectAccountCommand('cancelar')).toBeNull();
+    expect(detectAccountCommand('borrar')).toBeNull();
+  });
+});
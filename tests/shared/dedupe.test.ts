@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+const { buildDedupeKey, previousBucketDedupeKey, HASH_BUCKET_MS } = await import('../../src/shared/dedupe');
+
+const PHONE = '+5215550000001';
+// Start of a bucket, so +HASH_BUCKET_MS - 1 is still inside it
+const BUCKET_START = 12_345 * HASH_BUCKET_MS;
+
+describe('buildDedupeKey', () => {
+  it('keys on the Chatwoot message id when present', () => {
+    const key = buildDedupeKey({ id: 42, content: 'hola' }, 7, PHONE, BUCKET_START);
+    expect(key).toBe('chatwoot:msg:42');
+    expect(buildDedupeKey({ id: 42, content: 'otro' }, 7, PHONE, BUCKET_START + 10 * HASH_BUCKET_MS)).toBe(key);
+  });
+
+  it('hashes content, attachments and created_at when the id is missing', () => {
+    const payload = { content: 'hola', created_at: 1_700_000_000, attachments: [{ data_url: 'https://x/a.jpg' }] };
+    const key = buildDedupeKey(payload, 7, PHONE, BUCKET_START);
+
+    expect(key).toMatch(/^chatwoot:hash:[0-9a-f]{64}$/);
+    // created_at pins the key regardless of arrival time
+    expect(buildDedupeKey(payload, 7, PHONE, BUCKET_START + 10 * HASH_BUCKET_MS)).toBe(key);
+    expect(buildDedupeKey({ ...payload, content: 'adiós' }, 7, PHONE, BUCKET_START)).not.toBe(key);
+    expect(buildDedupeKey({ ...payload, attachments: [] }, 7, PHONE, BUCKET_START)).not.toBe(key);
+    expect(buildDedupeKey(payload, 8, PHONE, BUCKET_START)).not.toBe(key);
+  });
+
+  it('buckets the arrival time when created_at is missing too', () => {
+    const payload = { content: 'hola' };
+    const key = buildDedupeKey(payload, 7, PHONE, BUCKET_START);
+
+    expect(buildDedupeKey(payload, 7, PHONE, BUCKET_START + HASH_BUCKET_MS - 1)).toBe(key);
+    expect(buildDedupeKey(payload, 7, PHONE, BUCKET_START + HASH_BUCKET_MS)).not.toBe(key);
+  });
+});
+
+describe('previousBucketDedupeKey', () => {
+  it('matches the first delivery when the retry crosses a bucket boundary', () => {
+    const payload = { content: 'hola' };
+    const first = buildDedupeKey(payload, 7, PHONE, BUCKET_START + HASH_BUCKET_MS - 1_000);
+    const retryAt = BUCKET_START + HASH_BUCKET_MS + 1_000;
+
+    expect(buildDedupeKey(payload, 7, PHONE, retryAt)).not.toBe(first);
+    expect(previousBucketDedupeKey(payload, 7, PHONE, retryAt)).toBe(first);
+  });
+
+  it('is null when the key does not depend on the arrival time', () => {
+    expect(previousBucketDedupeKey({ id: 42 }, 7, PHONE, BUCKET_START)).toBeNull();
+    expect(previousBucketDedupeKey({ content: 'hola', created_at: 0 }, 7, PHONE, BUCKET_START)).toBeNull();
+  });
+});
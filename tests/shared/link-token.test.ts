@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+const { signLinkToken, verifyLinkToken, buildPageLink } = await import('../../src/shared/link-token');
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const NOW = 1_760_000_000_000;
+const HOUR = 3600;
+
+describe('link tokens', () => {
+  it('round-trips the user, scope and lifetime', () => {
+    const token = signLinkToken(USER_ID, 'edit', 2 * HOUR, NOW);
+
+    expect(verifyLinkToken(token, NOW)).toEqual({
+      valid: true,
+      payload: { userId: USER_ID, scope: 'edit', issuedAt: NOW / 1000, expiresAt: NOW / 1000 + 2 * HOUR },
+    });
+  });
+
+  it('expires at exp', () => {
+    const token = signLinkToken(USER_ID, 'view', HOUR, NOW);
+
+    expect(verifyLinkToken(token, NOW + HOUR * 1000 - 1)).toMatchObject({ valid: true });
+    expect(verifyLinkToken(token, NOW + HOUR * 1000)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects a payload changed after signing', () => {
+    const [, signature] = signLinkToken(USER_ID, 'view', HOUR, NOW).split('.');
+    const upgraded = Buffer.from(JSON.stringify({ u: USER_ID, s: 'edit', iat: NOW / 1000, exp: NOW / 1000 + HOUR }))
+      .toString('base64url');
+
+    expect(verifyLinkToken(`${upgraded}.${signature}`, NOW)).toEqual({ valid: false, reason: 'bad_signature' });
+  });
+
+  it('rejects malformed tokens', () => {
+    const token = signLinkToken(USER_ID, 'view', HOUR, NOW);
+
+    expect(verifyLinkToken('', NOW)).toEqual({ valid: false, reason: 'malformed' });
+    expect(verifyLinkToken(token.split('.')[0]!, NOW)).toEqual({ valid: false, reason: 'malformed' });
+    expect(verifyLinkToken(`${token}.extra`, NOW)).toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('builds page links with a fresh token', () => {
+    const url = new URL(buildPageLink(USER_ID, 'view', 'doctor'));
+
+    expect(url.pathname).toBe(`/doctor/${USER_ID}`);
+    expect(verifyLinkToken(url.searchParams.get('t')!)).toMatchObject({
+      valid: true,
+      payload: { userId: USER_ID, scope: 'view' },
+    });
+  });
+});
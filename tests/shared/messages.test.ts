@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { MessageDefinition } from '../../src/shared/message-catalog';
+
+const overrideRows = vi.fn(async (): Promise<unknown[]> => []);
+vi.mock('../../src/infra/db/client', () => ({ queryMany: overrideRows }));
+
+const { t, refreshMessageOverrides } = await import('../../src/shared/messages');
+const { MESSAGES } = await import('../../src/shared/message-catalog');
+
+function override(key: string, texts: { es?: string; en?: string; pt?: string; fr?: string }) {
+  return {
+    key,
+    content_es: texts.es ?? null,
+    content_en: texts.en ?? null,
+    content_pt: texts.pt ?? null,
+    content_fr: texts.fr ?? null,
+  };
+}
+
+describe('t()', () => {
+  beforeEach(async () => {
+    overrideRows.mockResolvedValue([]);
+    await refreshMessageOverrides();
+  });
+
+  it('interpolates params and leaves unknown placeholders as-is', () => {
+    expect(t('export.link', 'en', { url: 'https://x/y' })).toContain('Download it here');
+    expect(t('export.link', 'en', { url: 'https://x/y' })).toMatch(/: https:\/\/x\/y$/);
+    expect(t('export.link', 'en')).toContain('{url}');
+  });
+
+  it('picks the plural form from count in the requested language', () => {
+    expect(t('digest.heads_up', 'es', { count: 1 })).toMatch(/^Estamos terminando .* En un minuto/);
+    expect(t('digest.heads_up', 'es', { count: 5 })).toContain('En unos 5 minutos');
+    expect(t('digest.heads_up', 'fr', { count: 1 })).toContain('environ une minute');
+    expect(t('digest.heads_up', 'en', { count: '3' })).toContain('about 3 minutes');
+  });
+
+  it('picks one of the variants', () => {
+    const variants = MESSAGES['ack.input'].text.en;
+    for (let i = 0; i < 10; i++) {
+      expect(variants).toContain(t('ack.input', 'en'));
+    }
+  });
+
+  describe('fallback', () => {
+    const definition = MESSAGES['export.ready'] as MessageDefinition;
+    const builtin = { ...definition.text };
+
+    afterEach(() => {
+      definition.text = { ...builtin };
+    });
+
+    it('falls back to es for a language the catalog does not have', () => {
+      expect(t('export.ready', 'de')).toBe(builtin.es);
+    });
+
+    it('falls back to es, then en, when the key lacks the language', () => {
+      delete definition.text.pt;
+      expect(t('export.ready', 'pt')).toBe(builtin.es);
+
+      delete definition.text.es;
+      expect(t('export.ready', 'pt')).toBe(builtin.en);
+
+      definition.text = {};
+      expect(t('export.ready', 'pt')).toBe('');
+    });
+  });
+
+  it('prefers an admin override per language, over the built-in text', async () => {
+    overrideRows.mockResolvedValue([override('export.ready', { es: 'Tu archivo 📎', fr: 'Votre fichier 📎' })]);
+    await refreshMessageOverrides();
+
+    expect(t('export.ready', 'es')).toBe('Tu archivo 📎');
+    expect(t('export.ready', 'fr')).toBe('Votre fichier 📎');
+    // No pt override: the built-in pt text still wins over the es override
+    expect(t('export.ready', 'pt')).toBe(MESSAGES['export.ready'].text.pt);
+    expect(t('export.ready', 'de')).toBe('Tu archivo 📎');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+
+const { detectOnboardingCommand, detectNonAnswer } = await import('../../src/shared/onboarding-commands');
+
+describe('detectOnboardingCommand', () => {
+  it.each([
+    ['reiniciar', 'restart'],
+    ['Start over!', 'restart'],
+    ['saltar', 'skip'],
+    ['/skip the questions', 'skip'],
+    ['continuar', 'resume'],
+    ['reprendre le questionnaire', 'resume'],
+  ] as const)('reads "%s" as %s during onboarding', (message, command) => {
+    expect(detectOnboardingCommand(message, true)).toBe(command);
+  });
+
+  it('only takes an explicit restart outside onboarding', () => {
+    expect(detectOnboardingCommand('reiniciar', false)).toBeNull();
+    expect(detectOnboardingCommand('skip', false)).toBeNull();
+    expect(detectOnboardingCommand('continuar', false)).toBeNull();
+    expect(detectOnboardingCommand('reiniciar el cuestionario', false)).toBe('restart');
+    expect(detectOnboardingCommand('restart onboarding', false)).toBe('restart');
+  });
+
+  it('only matches a whole message', () => {
+    expect(detectOnboardingCommand('seguir comiendo menos pan', true)).toBeNull();
+    expect(detectOnboardingCommand('skip breakfast today', true)).toBeNull();
+  });
+});
+
+describe('detectNonAnswer', () => {
+  it('flags photos', () => {
+    expect(detectNonAnswer('', [{ type: 'image', url: 'https://x/a.jpg' }])).toBe('photo');
+  });
+
+  it.each([
+    'Desayuno: huevos con pan',
+    'comí arroz con pollo',
+    'For lunch I had a salad',
+    'almocei feijão',
+    "j'ai mangé une pomme",
+  ])('flags "%s" as a meal log', message => {
+    expect(detectNonAnswer(message)).toBe('meal_log');
+  });
+
+  it('lets real answers through', () => {
+    expect(detectNonAnswer('Ana')).toBeNull();
+    expect(detectNonAnswer('quiero bajar de peso')).toBeNull();
+    expect(detectNonAnswer('comida casera casi siempre')).toBeNull();
+  });
+});
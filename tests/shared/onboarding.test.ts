@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { OnboardingFlowDefinition, OnboardingStep } from '../../src/shared/types';
+
+const { buildBuiltinFlow, validateFlowDefinition } = await import('../../src/shared/onboarding');
+
+function flow(...steps: Array<Partial<OnboardingStep> & { id: string }>): OnboardingFlowDefinition {
+  return {
+    intro: { es: 'Hola' },
+    complete: { es: 'Listo' },
+    steps: steps.map(step => ({ text: { es: `¿${step.id}?` }, ...step })),
+  };
+}
+
+describe('validateFlowDefinition', () => {
+  it('accepts the built-in flow', () => {
+    expect(validateFlowDefinition(buildBuiltinFlow())).toEqual([]);
+  });
+
+  it('accepts branches that skip ahead or finish early', () => {
+    expect(validateFlowDefinition(flow(
+      { id: 'a', branches: [{ match: '^no', next: 'c' }, { match: '^salir', next: null }] },
+      { id: 'b' },
+      { id: 'c' },
+    ))).toEqual([]);
+  });
+
+  it('rejects a loop through default next', () => {
+    expect(validateFlowDefinition(flow({ id: 'a' }, { id: 'b', next: 'a' })))
+      .toEqual(['Steps loop back without finishing: a → b → a']);
+  });
+
+  it('rejects a branch back to an earlier step', () => {
+    expect(validateFlowDefinition(flow(
+      { id: 'a' },
+      { id: 'b' },
+      { id: 'c', branches: [{ match: 'otra vez', next: 'b' }] },
+    ))).toEqual(['Steps loop back without finishing: b → c → b']);
+  });
+
+  it('rejects a step that points at itself', () => {
+    expect(validateFlowDefinition(flow({ id: 'a', next: 'a' })))
+      .toEqual(['Steps loop back without finishing: a → a']);
+  });
+
+  it('flags steps no path reaches', () => {
+    expect(validateFlowDefinition(flow({ id: 'a', next: null }, { id: 'b' })))
+      .toEqual(["Step b can't be reached from the first step"]);
+  });
+
+  it('reports dangling targets without walking the flow', () => {
+    expect(validateFlowDefinition(flow({ id: 'a', next: 'missing' }, { id: 'b' })))
+      .toEqual(['Step a points to unknown step: missing']);
+  });
+});
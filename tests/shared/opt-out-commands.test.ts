@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+
+const { detectOptOutCommand } = await import('../../src/shared/opt-out-commands');
+
+describe('detectOptOutCommand', () => {
+  it.each([
+    ['pausa', 'pause'],
+    ['STOP', 'stop'],
+    ['/stop', 'stop'],
+    ['unsubscribe', 'stop'],
+    ['Baja', 'stop'],
+    ['parar', 'stop'],
+    ['no más mensajes', 'stop'],
+    ['sair', 'stop'],
+    ['arrêter', 'stop'],
+  ] as const)('reads "%s" as %s', (message, command) => {
+    expect(detectOptOutCommand(message)).toBe(command);
+  });
+
+  it('only matches a whole message', () => {
+    expect(detectOptOutCommand('para la cena comí pollo')).toBeNull();
+    expect(detectOptOutCommand('stop eating sugar after dinner, please remind me')).toBeNull();
+  });
+
+  it('does not read a bare "para" as stop', () => {
+    expect(detectOptOutCommand('para')).toBeNull();
+    expect(detectOptOutCommand('Para', 'sms')).toBeNull();
+  });
+
+  it('only reads carrier keywords as stop on SMS', () => {
+    for (const word of ['cancel', 'END', 'quit', 'stopall']) {
+      expect(detectOptOutCommand(word)).toBeNull();
+      expect(detectOptOutCommand(word, 'whatsapp')).toBeNull();
+      expect(detectOptOutCommand(word, 'sms')).toBe('stop');
+    }
+  });
+});
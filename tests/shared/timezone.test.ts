@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+
+const { timezoneFromPhone, resolveTimezone, localDateString, localTimeString } = await import('../../src/shared/timezone');
+const { detectTimezoneCommand } = await import('../../src/shared/timezone-commands');
+
+describe('timezoneFromPhone', () => {
+  it('maps the country calling code', () => {
+    expect(timezoneFromPhone('+34 612 345 678')).toBe('Europe/Madrid');
+    expect(timezoneFromPhone('+5215550000001')).toBe('America/Mexico_City');
+    expect(timezoneFromPhone('+351912345678')).toBe('Europe/Lisbon');
+  });
+
+  it('prefers the longest prefix (NANP area codes before +1)', () => {
+    expect(timezoneFromPhone('+17875550000')).toBe('America/Puerto_Rico');
+    expect(timezoneFromPhone('+18095550000')).toBe('America/Santo_Domingo');
+    expect(timezoneFromPhone('+12125550000')).toBe('America/New_York');
+    // 593 (Ecuador) is not 59 + something, nor 5 + something
+    expect(timezoneFromPhone('+593991234567')).toBe('America/Guayaquil');
+  });
+
+  it('is null for unknown codes', () => {
+    expect(timezoneFromPhone('+81312345678')).toBeNull();
+    expect(timezoneFromPhone('')).toBeNull();
+  });
+});
+
+describe('resolveTimezone', () => {
+  it('accepts IANA names in any case', () => {
+    expect(resolveTimezone('Europe/Madrid')).toBe('Europe/Madrid');
+    expect(resolveTimezone('  america/bogota ')).toBe('America/Bogota');
+  });
+
+  it('resolves cities, countries and common aliases', () => {
+    expect(resolveTimezone('madrid')).toBe('Europe/Madrid');
+    expect(resolveTimezone('Sao Paulo')).toBe('America/Sao_Paulo');
+    expect(resolveTimezone('Puerto Rico')).toBe('America/Puerto_Rico');
+    expect(resolveTimezone('Ciudad de México')).toBe('America/Mexico_City');
+    expect(resolveTimezone('España')).toBe('Europe/Madrid');
+  });
+
+  it('is null for anything else', () => {
+    expect(resolveTimezone('')).toBeNull();
+    expect(resolveTimezone('mi casa')).toBeNull();
+    expect(resolveTimezone('Europe/Atlantis')).toBeNull();
+  });
+});
+
+describe('local day and time', () => {
+  // 23:30 in Madrid (UTC+2 in summer) is already the next day in UTC
+  const at = new Date('2026-07-14T21:30:00Z');
+
+  it('uses the zone, not the server clock', () => {
+    expect(localDateString('Europe/Madrid', at)).toBe('2026-07-14');
+    expect(localTimeString('Europe/Madrid', at)).toBe('23:30');
+    expect(localDateString('Asia/Tokyo', at)).toBe('2026-07-15');
+    expect(localTimeString('America/Mexico_City', at)).toBe('15:30');
+  });
+});
+
+describe('detectTimezoneCommand', () => {
+  it('sets a zone from a place or IANA name', () => {
+    expect(detectTimezoneCommand('zona horaria Madrid')).toEqual({ type: 'set', timezone: 'Europe/Madrid' });
+    expect(detectTimezoneCommand('/tz puerto rico')).toEqual({ type: 'set', timezone: 'America/Puerto_Rico' });
+    expect(detectTimezoneCommand('timezone is Lisbon.')).toEqual({ type: 'set', timezone: 'Europe/Lisbon' });
+    expect(detectTimezoneCommand('fuseau horaire à Paris')).toEqual({ type: 'set', timezone: 'Europe/Paris' });
+  });
+
+  it('shows the zone for the bare prefix and flags unknown places', () => {
+    expect(detectTimezoneCommand('zona horaria')).toEqual({ type: 'show' });
+    expect(detectTimezoneCommand('zona horaria de mi casa')).toEqual({ type: 'unknown', query: 'mi casa' });
+  });
+
+  it('ignores messages that only start alike', () => {
+    expect(detectTimezoneCommand('tzatziki con pan')).toBeNull();
+    expect(detectTimezoneCommand('comí en Madrid')).toBeNull();
+  });
+});
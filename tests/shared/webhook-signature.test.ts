@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+
+const { computeSignature, verifySignature } = await import('../../src/shared/webhook-signature');
+
+const BODY = '{"id":1,"content":"hola"}';
+const NOW = 1_760_000_000_000;
+const TIMESTAMP = String(NOW / 1000);
+const SECRETS = [{ id: 'old', secret: 'old-secret' }, { id: 'new', secret: 'new-secret' }];
+
+function check(overrides: Partial<Parameters<typeof verifySignature>[0]> = {}) {
+  return verifySignature({
+    rawBody: BODY,
+    timestamp: TIMESTAMP,
+    signature: `sha256=${computeSignature('new-secret', TIMESTAMP, BODY)}`,
+    secrets: SECRETS,
+    toleranceSeconds: 300,
+    now: NOW,
+    ...overrides,
+  });
+}
+
+describe('verifySignature', () => {
+  it('accepts any active secret and reports which one matched', () => {
+    expect(check()).toEqual({ valid: true, secretId: 'new' });
+    expect(check({ signature: computeSignature('old-secret', TIMESTAMP, BODY) }))
+      .toEqual({ valid: true, secretId: 'old' });
+  });
+
+  it('accepts timestamps inside the tolerance window either way', () => {
+    for (const skew of [-300, 300]) {
+      const timestamp = String(NOW / 1000 + skew);
+      const signature = computeSignature('new-secret', timestamp, BODY);
+      expect(check({ timestamp, signature })).toMatchObject({ valid: true });
+    }
+  });
+
+  it('rejects timestamps outside the tolerance window before checking the HMAC', () => {
+    for (const skew of [-301, 301]) {
+      const timestamp = String(NOW / 1000 + skew);
+      const signature = computeSignature('new-secret', timestamp, BODY);
+      expect(check({ timestamp, signature })).toEqual({ valid: false, reason: 'stale_timestamp' });
+    }
+  });
+
+  it('binds the signature to the timestamp and body', () => {
+    // Replaying an old signature with a fresh timestamp doesn't verify
+    const oldTimestamp = String(NOW / 1000 - 3600);
+    const replayed = computeSignature('new-secret', oldTimestamp, BODY);
+    expect(check({ signature: replayed })).toEqual({ valid: false, reason: 'signature_mismatch' });
+    expect(check({ rawBody: '{"id":2}' })).toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('names what is missing or malformed', () => {
+    expect(check({ signature: undefined })).toEqual({ valid: false, reason: 'missing_signature' });
+    expect(check({ timestamp: undefined })).toEqual({ valid: false, reason: 'missing_timestamp' });
+    expect(check({ timestamp: 'yesterday' })).toEqual({ valid: false, reason: 'invalid_timestamp' });
+    expect(check({ secrets: [] })).toEqual({ valid: false, reason: 'no_secret_configured' });
+    expect(check({ signature: 'sha256=zz' })).toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, type MockInstance } from 'vitest';
+import pino from 'pino';
+
+// Redis lists in memory: just the commands the burst buffer uses
+const lists = new Map<string, string[]>();
+const redis = {
+  multi: () => {
+    const chain = {
+      rpush: (key: string, value: string) => {
+        lists.set(key, [...(lists.get(key) ?? []), value]);
+        return chain;
+      },
+      pexpire: () => chain,
+      exec: async () => [],
+    };
+    return chain;
+  },
+  lrange: vi.fn(async (key: string) => [...(lists.get(key) ?? [])]),
+  ltrim: vi.fn(async (key: string, start: number) => {
+    lists.set(key, (lists.get(key) ?? []).slice(start));
+    return 'OK';
+  }),
+};
+const addBurstFlushJob = vi.fn(async () => undefined);
+const getFeatureFlag = vi.fn();
+
+vi.mock('../../src/infra/queue/client', () => ({ redis, addBurstFlushJob }));
+vi.mock('../../src/infra/db/client', () => ({
+  db: { query: vi.fn(async () => ({ rows: [] })) }, // execution logs
+  getFeatureFlag,
+}));
+vi.mock('../../src/shared/ack-messages', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/shared/ack-messages')>(),
+  getSmartAck: vi.fn(async () => 'Anotado ✅'),
+}));
+
+const { getBurstWindowMs, bufferBurstMessage, handleBurstFlush } = await import('../../src/worker/handlers/burst');
+const { HealthEventService } = await import('../../src/domain/health-event/service');
+const { MessagingService } = await import('../../src/domain/messaging/service');
+
+type BurstPart = Parameters<typeof bufferBurstMessage>[1];
+type SaveEvent = InstanceType<typeof HealthEventService>['saveEvent'];
+const SAVED = { id: 'event-1' } as Awaited<ReturnType<SaveEvent>>;
+
+const USER_ID = 'user-1';
+const JOB = { correlationId: 'corr-1', userId: USER_ID, conversationId: 42, channel: 'whatsapp' as const, language: 'es' };
+const logger = pino({ level: 'silent' });
+
+function part(text: string, extra: Partial<BurstPart> = {}): BurstPart {
+  return { correlationId: `corr-${text}`, text, imageUrl: null, mediaUrls: [], receivedAt: new Date().toISOString(), ...extra };
+}
+
+describe('getBurstWindowMs', () => {
+  it('is off unless the flag is enabled with a positive window', async () => {
+    getFeatureFlag.mockResolvedValueOnce(null);
+    expect(await getBurstWindowMs()).toBe(0);
+    getFeatureFlag.mockResolvedValueOnce({ enabled: false, value: { windowMs: 5000 } });
+    expect(await getBurstWindowMs()).toBe(0);
+    getFeatureFlag.mockResolvedValueOnce({ enabled: true, value: { windowMs: 'soon' } });
+    expect(await getBurstWindowMs()).toBe(0);
+  });
+
+  it('defaults to 8 seconds and caps at a minute', async () => {
+    getFeatureFlag.mockResolvedValueOnce({ enabled: true, value: null });
+    expect(await getBurstWindowMs()).toBe(8000);
+    getFeatureFlag.mockResolvedValueOnce({ enabled: true, value: { windowMs: 600_000 } });
+    expect(await getBurstWindowMs()).toBe(60_000);
+  });
+});
+
+describe('burst coalescing', () => {
+  let saveEvent: MockInstance<SaveEvent>;
+  let sendMessage: MockInstance<InstanceType<typeof MessagingService>['sendMessage']>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    lists.clear();
+    addBurstFlushJob.mockClear();
+    saveEvent = vi.spyOn(HealthEventService.prototype, 'saveEvent').mockResolvedValue(SAVED);
+    sendMessage = vi.spyOn(MessagingService.prototype, 'sendMessage').mockResolvedValue();
+  });
+
+  it('pushes the flush back with every buffered message', async () => {
+    await bufferBurstMessage(JOB, part('desayuné'), 8000);
+    await bufferBurstMessage(JOB, part('con café'), 8000);
+
+    expect(addBurstFlushJob).toHaveBeenCalledTimes(2);
+    expect(addBurstFlushJob).toHaveBeenLastCalledWith({ type: 'flush_burst', ...JOB }, 8000);
+  });
+
+  it('merges the burst into one event and one ack', async () => {
+    await bufferBurstMessage(JOB, part('desayuné'), 8000);
+    await bufferBurstMessage(JOB, part('', { imageUrl: 'https://x/plato.jpg', mediaUrls: ['https://x/plato.jpg'] }), 8000);
+    await bufferBurstMessage(JOB, part('con café', { mediaUrls: ['https://x/nota.ogg'] }), 8000);
+
+    const result = await handleBurstFlush({ type: 'flush_burst', ...JOB }, logger);
+
+    expect(result).toMatchObject({ status: 'completed', action: 'burst_input_acked' });
+    expect(saveEvent).toHaveBeenCalledOnce();
+    expect(saveEvent.mock.calls[0]![0]).toMatchObject({
+      userId: USER_ID,
+      rawInput: 'desayuné\ncon café',
+      imageUrl: 'https://x/plato.jpg',
+      mediaUrls: ['https://x/plato.jpg', 'https://x/nota.ogg'],
+      source: 'whatsapp',
+    });
+    expect(sendMessage).toHaveBeenCalledOnce();
+    expect(lists.get(`inbound:burst:${USER_ID}`)).toEqual([]);
+  });
+
+  it('keeps messages that arrive while the flush is saving', async () => {
+    await bufferBurstMessage(JOB, part('desayuné'), 8000);
+    saveEvent.mockImplementationOnce(async () => {
+      await bufferBurstMessage(JOB, part('y un jugo'), 8000);
+      return SAVED;
+    });
+
+    await handleBurstFlush({ type: 'flush_burst', ...JOB }, logger);
+
+    const left = lists.get(`inbound:burst:${USER_ID}`)!.map(raw => (JSON.parse(raw) as BurstPart).text);
+    expect(left).toEqual(['y un jugo']);
+  });
+
+  it('skips an empty buffer without an event or ack', async () => {
+    const result = await handleBurstFlush({ type: 'flush_burst', ...JOB }, logger);
+
+    expect(result).toMatchObject({ status: 'skipped', action: 'burst_empty' });
+    expect(saveEvent).not.toHaveBeenCalled();
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, type MockInstance } from 'vitest';
+import type { Job } from 'bullmq';
+import type { Pool } from 'pg';
+import type { InboundJobData, InboundQueueJobData } from '../../src/shared/types';
+
+// Postgres is down: every query the handler makes fails with a transient error
+const dbQuery = vi.fn();
+vi.mock('../../src/infra/db/client', () => ({
+  db: { query: dbQuery },
+  queryMany: vi.fn(async () => []), // message catalog overrides
+  claimIdempotencyKey: vi.fn(async () => true),
+  checkIdempotencyKey: vi.fn(async () => null),
+}));
+vi.mock('../../src/infra/queue/client', () => ({
+  redis: { hget: vi.fn(async () => null), eval: vi.fn(async () => 1) },
+  addDataExportJob: vi.fn(),
+}));
+
+const { processJob } = await import('../../src/worker/processor');
+const { MessagingService } = await import('../../src/domain/messaging/service');
+const { DeadLetterService } = await import('../../src/domain/dead-letter/service');
+
+const QUEUE_NAME = 'vivebien-inbound';
+
+function inboundJob(data: Partial<InboundJobData> = {}) {
+  return {
+    id: 'job-1',
+    name: 'inbound_message',
+    timestamp: Date.now(),
+    attemptsMade: 0,
+    opts: { attempts: 3 },
+    data: {
+      type: 'inbound_message',
+      correlationId: 'corr-1',
+      phone: '+5215550001111',
+      message: 'arroz con pollo',
+      conversationId: 42,
+      chatwootContactId: 7,
+      timestamp: new Date().toISOString(),
+      ...data,
+    },
+  } as unknown as Job<InboundQueueJobData>;
+}
+
+// Stand-in for BullMQ: run attempts until the job stops being retried, and
+// hand every failure to the worker's 'failed' hook
+async function runUntilSettled(job: Job<InboundQueueJobData>, deadLetters: InstanceType<typeof DeadLetterService>) {
+  const recorded: Array<string | null> = [];
+  for (;;) {
+    let error: Error | null = null;
+    try {
+      await processJob(job);
+    } catch (err) {
+      error = err as Error;
+    }
+    if (!error) return recorded;
+
+    job.attemptsMade += 1;
+    const id = await deadLetters.recordFailedJob(QUEUE_NAME, job, error);
+    recorded.push(id);
+    if (id || error.name === 'UnrecoverableError') return recorded;
+  }
+}
+
+describe('failing inbound jobs', () => {
+  let insert: ReturnType<typeof vi.fn>;
+  let deadLetters: InstanceType<typeof DeadLetterService>;
+  let sendMessage: MockInstance<InstanceType<typeof MessagingService>['sendMessage']>;
+
+  beforeEach(() => {
+    dbQuery.mockReset();
+    insert = vi.fn(async () => ({ rows: [{ id: 'dl-1' }] }));
+    deadLetters = new DeadLetterService({ query: insert } as unknown as Pool);
+    sendMessage = vi.spyOn(MessagingService.prototype, 'sendMessage').mockResolvedValue(undefined as never);
+  });
+
+  it('retries a transient failure and lands in dead_letters once the attempts run out', async () => {
+    dbQuery.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:5432'));
+    const job = inboundJob();
+
+    const recorded = await runUntilSettled(job, deadLetters);
+
+    expect(recorded).toEqual([null, null, 'dl-1']);
+    expect(insert).toHaveBeenCalledTimes(1);
+    const [sql, params] = insert.mock.calls[0]!;
+    expect(sql).toContain('INSERT INTO dead_letters');
+    expect(params[0]).toBe(QUEUE_NAME);
+    expect(JSON.parse(params[4])).toMatchObject({ type: 'inbound_message', message: 'arroz con pollo' });
+    expect(params[5]).toContain('ECONNREFUSED');
+    expect(params[7]).toBe(3);
+
+    // The fallback reply goes out once, on the last attempt
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends a non-retryable failure to dead_letters without spending the retries', async () => {
+    dbQuery.mockRejectedValue(new Error('invalid input syntax for type uuid'));
+    const job = inboundJob();
+
+    const recorded = await runUntilSettled(job, deadLetters);
+
+    expect(recorded).toEqual(['dl-1']);
+    expect(job.attemptsMade).toBe(1);
+    expect(insert.mock.calls[0]![1][5]).toContain('invalid input syntax');
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+});